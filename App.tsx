@@ -6,6 +6,9 @@ import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { supabase } from './lib/supabase';
 import { completeAuthFromUrl } from './lib/auth';
+import { flushOutbox } from './lib/offlineStore';
+import { startRealtimeSync } from './lib/realtimeSync';
+import { purgeDeletedReminders } from './lib/reminders';
 import {
   handleNotificationResponse,
   initializeNotifications,
@@ -33,7 +36,7 @@ export default function App() {
   const [session, setSession] = useState<Session | null>(null);
   const [isCheckingSession, setIsCheckingSession] = useState(true);
   const [showAuth, setShowAuth] = useState(false);
-  const [notificationOpenRequest, setNotificationOpenRequest] = useState<{ id: string; at: number } | null>(null);
+  const [notificationOpenRequest, setNotificationOpenRequest] = useState<{ id: string; at: number; playVoiceActionId?: string } | null>(null);
   const notificationResponseListener = useRef<Notifications.EventSubscription | null>(null);
   const notificationReceivedListener = useRef<Notifications.EventSubscription | null>(null);
   const sessionUserId = session?.user?.id ?? null;
@@ -97,18 +100,21 @@ export default function App() {
 
         await syncLocalReminderSchedules();
 
+        // Reminders past the "Recently deleted" retention window are removed for good.
+        void purgeDeletedReminders().catch(() => 0);
+
         notificationReceivedListener.current = setupNotificationReceivedHandler(() => {});
 
         notificationResponseListener.current = setupNotificationResponseHandler(
-          (reminderId) => {
-            setNotificationOpenRequest({ id: reminderId, at: Date.now() });
+          (reminderId, options) => {
+            setNotificationOpenRequest({ id: reminderId, at: Date.now(), ...options });
           },
         );
 
         const lastResponse = await Notifications.getLastNotificationResponseAsync();
         if (lastResponse) {
-          await handleNotificationResponse(lastResponse, (reminderId) => {
-            setNotificationOpenRequest({ id: reminderId, at: Date.now() });
+          await handleNotificationResponse(lastResponse, (reminderId, options) => {
+            setNotificationOpenRequest({ id: reminderId, at: Date.now(), ...options });
           });
           await Notifications.clearLastNotificationResponseAsync().catch(() => {});
         }
@@ -119,9 +125,13 @@ export default function App() {
 
     initNotifications();
 
+    const stopRealtimeSync = startRealtimeSync(sessionUserId);
+
     const appStateSubscription = AppState.addEventListener('change', (state) => {
       if (state === 'active') {
-        void syncLocalReminderSchedules();
+        void flushOutbox()
+          .catch(() => null)
+          .then(() => syncLocalReminderSchedules());
       }
     });
 
@@ -133,6 +143,7 @@ export default function App() {
         notificationReceivedListener.current.remove();
       }
       appStateSubscription.remove();
+      stopRealtimeSync();
     };
   }, [sessionUserId]);
 
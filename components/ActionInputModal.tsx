@@ -1,8 +1,10 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import {
+  ActivityIndicator,
   Alert,
   Animated,
   Dimensions,
+  Image,
   Keyboard,
   KeyboardEvent,
   Modal,
@@ -16,8 +18,14 @@ import {
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
+import * as ImagePicker from 'expo-image-picker';
+import { File } from 'expo-file-system';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../contexts/ThemeContext';
+import { useVoiceRecording } from '../hooks/useVoiceRecording';
+import { getAttachmentThumbnailUrl, uploadAttachment } from '../lib/attachmentStorage';
+import { transcribeVoiceNote } from '../lib/aiReminders';
+import { formatVoiceNoteDuration } from '../lib/voiceNotes';
 import { ReminderActionType } from '../lib/types';
 
 const SCREEN_HEIGHT = Dimensions.get('window').height;
@@ -81,22 +89,22 @@ function getActionMeta(actionType: ReminderActionType | null): {
       };
     case 'assign':
       return {
-        title: 'Assign Task',
-        subtitle: 'Choose who this reminder belongs to.',
+        title: 'Share Reminder',
+        subtitle: 'Invite other Synco users by email.',
         icon: 'person-add',
         accent: '#7c3aed',
       };
     case 'photo':
       return {
         title: 'Add Photo',
-        subtitle: 'Attach an image reference.',
+        subtitle: 'Attach a photo, synced to all your devices.',
         icon: 'photo-camera',
         accent: '#ec4899',
       };
     case 'voice':
       return {
         title: 'Record Voice Note',
-        subtitle: 'Attach a short audio message.',
+        subtitle: 'Record a short audio message, with an optional transcript.',
         icon: 'mic',
         accent: '#f43f5e',
       };
@@ -121,6 +129,19 @@ export default function ActionInputModal({
   const insets = useSafeAreaInsets();
   const [value, setValue] = useState<any>(initialValue || {});
   const [isMounted, setIsMounted] = useState(visible);
+  // Fraction uploaded while a photo or voice note is uploading
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const {
+    isRecording,
+    duration: recordingDuration,
+    error: recordingError,
+    startRecording,
+    stopRecording,
+    cancelRecording,
+  } = useVoiceRecording();
 
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
@@ -131,6 +152,8 @@ export default function ActionInputModal({
   useEffect(() => {
     if (visible) {
       setValue(initialValue || {});
+      setUploadProgress(null);
+      setUploadError(null);
       setIsMounted(true);
       fadeAnim.setValue(0);
       slideAnim.setValue(SCREEN_HEIGHT);
@@ -212,6 +235,94 @@ export default function ActionInputModal({
     };
   }, [isMounted, insets.bottom, keyboardOffsetAnim]);
 
+  // An already uploaded photo has no local file on this device, so preview its thumbnail
+  useEffect(() => {
+    setThumbnailUrl(null);
+    if (!visible || actionType !== 'photo' || !initialValue?.storage_path) return;
+
+    let cancelled = false;
+    getAttachmentThumbnailUrl(initialValue.storage_path)
+      .then((url) => {
+        if (!cancelled) setThumbnailUrl(url);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, actionType, initialValue]);
+
+  const uploadFile = async (file: { uri: string; mime_type: string; file_name?: string; duration?: number }) => {
+    setValue(file);
+    setUploadError(null);
+    setUploadProgress(0);
+    try {
+      const uploaded = await uploadAttachment(file.uri, {
+        mimeType: file.mime_type,
+        fileName: file.file_name,
+        onProgress: ({ bytesUploaded, bytesTotal }) => {
+          setUploadProgress(bytesTotal > 0 ? bytesUploaded / bytesTotal : 0);
+        },
+      });
+      setValue({ ...file, ...uploaded });
+    } catch {
+      setUploadError("Upload didn't finish. Try again to continue where it stopped.");
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handlePickPhoto = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission needed', 'Allow photo library access to attach a photo.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['images'], quality: 0.8 });
+    const asset = result.canceled ? null : result.assets[0];
+    if (!asset) return;
+
+    await uploadFile({
+      uri: asset.uri,
+      mime_type: asset.mimeType || 'image/jpeg',
+      file_name: asset.fileName ?? undefined,
+    });
+  };
+
+  const handleToggleRecording = async () => {
+    if (!isRecording) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      await startRecording();
+      return;
+    }
+
+    const seconds = recordingDuration;
+    const recording = await stopRecording();
+    if (!recording) return;
+
+    // A new recording replaces the old one, transcript included
+    await uploadFile({
+      uri: recording.uri,
+      mime_type: recording.mimeType,
+      file_name: recording.file.name,
+      duration: seconds,
+    });
+  };
+
+  const handleTranscribe = async () => {
+    if (!value.uri || isTranscribing) return;
+
+    setIsTranscribing(true);
+    try {
+      const transcript = await transcribeVoiceNote(new File(value.uri), value.mime_type);
+      setValue((current: any) => ({ ...current, transcript }));
+    } catch (error) {
+      Alert.alert('Transcription failed', error instanceof Error ? error.message : 'Try again in a moment');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
   const handleSave = () => {
     if (!actionType) return;
 
@@ -251,6 +362,57 @@ export default function ActionInputModal({
           return;
         }
         break;
+      case 'assign': {
+        const emails: string[] = Array.from(new Set(
+          (nextValue.text || '')
+            .split(/[\s,;]+/)
+            .map((email: string) => email.trim().toLowerCase())
+            .filter(Boolean)
+        ));
+        if (emails.length === 0) {
+          Alert.alert('Error', 'Please enter at least one email address');
+          return;
+        }
+        const invalid = emails.find((email) => !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email));
+        if (invalid) {
+          Alert.alert('Error', `"${invalid}" isn't a valid email address`);
+          return;
+        }
+        nextValue.emails = emails;
+        break;
+      }
+      case 'photo':
+        if (uploadProgress !== null) {
+          Alert.alert('Uploading', 'Wait for the photo to finish uploading');
+          return;
+        }
+        if (!nextValue.storage_path) {
+          Alert.alert('Error', 'Please choose a photo');
+          return;
+        }
+        // The local file only exists on this device
+        delete nextValue.uri;
+        break;
+      case 'voice':
+        if (isRecording) {
+          Alert.alert('Recording', 'Stop the recording first');
+          return;
+        }
+        if (uploadProgress !== null || isTranscribing) {
+          Alert.alert('Uploading', 'Wait for the voice note to finish processing');
+          return;
+        }
+        if (!nextValue.storage_path) {
+          Alert.alert('Error', 'Please record a voice note');
+          return;
+        }
+        if (nextValue.transcript?.trim()) {
+          nextValue.transcript = nextValue.transcript.trim();
+        } else {
+          delete nextValue.transcript;
+        }
+        delete nextValue.uri;
+        break;
       default:
         break;
     }
@@ -263,11 +425,47 @@ export default function ActionInputModal({
   };
 
   const handleCancel = () => {
+    void cancelRecording();
     setValue({});
     Keyboard.dismiss();
     onClose();
   };
 
+  const renderUploadStatus = () => (
+    <>
+      {uploadProgress !== null && (
+        <View style={styles.uploadStatus}>
+          <View style={[styles.uploadTrack, { backgroundColor: theme.colors.border }]}>
+            <View
+              style={[
+                styles.uploadFill,
+                { width: `${Math.round(uploadProgress * 100)}%`, backgroundColor: actionMeta.accent },
+              ]}
+            />
+          </View>
+          <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+            Uploading… {Math.round(uploadProgress * 100)}%
+          </Text>
+        </View>
+      )}
+
+      {uploadError && (
+        <Pressable
+          style={styles.uploadRetry}
+          onPress={() => void uploadFile({
+            uri: value.uri,
+            mime_type: value.mime_type,
+            file_name: value.file_name,
+            duration: value.duration,
+          })}
+        >
+          <MaterialIcons name="refresh" size={16} color="#ef4444" />
+          <Text style={styles.uploadErrorText}>{uploadError}</Text>
+        </Pressable>
+      )}
+    </>
+  );
+
   const renderInputFields = () => {
     if (!actionType) return null;
 
@@ -499,6 +697,132 @@ export default function ActionInputModal({
           </View>
         );
 
+      case 'assign':
+        return (
+          <View style={styles.inputGroup}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>Email Addresses *</Text>
+            <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>They'll see this reminder and get notified for it</Text>
+            <TextInput
+              style={[
+                styles.inputMultiline,
+                {
+                  backgroundColor: theme.colors.background,
+                  color: theme.colors.text,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              placeholder={'alex@example.com\nsam@example.com'}
+              placeholderTextColor={theme.colors.textTertiary}
+              value={value.text || ''}
+              onChangeText={(text) => setValue({ ...value, text })}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+              numberOfLines={4}
+              textAlignVertical="top"
+              autoFocus
+            />
+          </View>
+        );
+
+      case 'photo': {
+        const previewUri = value.uri || thumbnailUrl;
+        return (
+          <View style={styles.inputGroup}>
+            {previewUri ? (
+              <Image source={{ uri: previewUri }} style={[styles.photoPreview, { backgroundColor: theme.colors.background }]} />
+            ) : (
+              <View style={[styles.photoPreview, styles.photoPlaceholder, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}>
+                <MaterialIcons name="photo" size={36} color={theme.colors.textTertiary} />
+              </View>
+            )}
+
+            {renderUploadStatus()}
+
+            <Pressable
+              style={[styles.mediaButton, { borderColor: theme.colors.border }]}
+              onPress={() => void handlePickPhoto()}
+              disabled={uploadProgress !== null}
+            >
+              <MaterialIcons name="photo-library" size={18} color="#ec4899" />
+              <Text style={[styles.mediaButtonText, { color: theme.colors.text }]}>
+                {value.storage_path || value.uri ? 'Choose Another Photo' : 'Choose Photo'}
+              </Text>
+            </Pressable>
+          </View>
+        );
+      }
+
+      case 'voice': {
+        const seconds = isRecording ? recordingDuration : Number(value.duration) || 0;
+        return (
+          <View style={styles.inputGroup}>
+            <View style={[styles.voiceCard, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}>
+              <MaterialIcons
+                name={isRecording ? 'graphic-eq' : 'mic'}
+                size={32}
+                color={isRecording ? '#f43f5e' : theme.colors.textTertiary}
+              />
+              <Text style={[styles.voiceTime, { color: theme.colors.text }]}>{formatVoiceNoteDuration(seconds)}</Text>
+              <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+                {isRecording
+                  ? 'Recording…'
+                  : value.storage_path
+                    ? 'Voice note saved'
+                    : 'Tap record and speak'}
+              </Text>
+            </View>
+
+            {renderUploadStatus()}
+
+            {recordingError && <Text style={styles.uploadErrorText}>{recordingError}</Text>}
+
+            <Pressable
+              style={[styles.mediaButton, { borderColor: isRecording ? '#f43f5e' : theme.colors.border }]}
+              onPress={() => void handleToggleRecording()}
+              disabled={uploadProgress !== null}
+            >
+              <MaterialIcons name={isRecording ? 'stop' : 'fiber-manual-record'} size={18} color="#f43f5e" />
+              <Text style={[styles.mediaButtonText, { color: theme.colors.text }]}>
+                {isRecording ? 'Stop Recording' : value.storage_path ? 'Record Again' : 'Record'}
+              </Text>
+            </Pressable>
+
+            <View style={styles.transcriptHeader}>
+              <Text style={[styles.label, { color: theme.colors.text }]}>Transcript</Text>
+              {value.uri && value.storage_path && (
+                isTranscribing ? (
+                  <ActivityIndicator size="small" color="#f43f5e" />
+                ) : (
+                  <Pressable onPress={() => void handleTranscribe()} hitSlop={8}>
+                    <Text style={styles.transcribeText}>{value.transcript ? 'Transcribe Again' : 'Transcribe'}</Text>
+                  </Pressable>
+                )
+              )}
+            </View>
+            <TextInput
+              style={[
+                styles.inputMultiline,
+                {
+                  backgroundColor: theme.colors.background,
+                  color: theme.colors.text,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              placeholder="Optional. Transcribe the recording or type it yourself."
+              placeholderTextColor={theme.colors.textTertiary}
+              value={value.transcript || ''}
+              onChangeText={(text) => setValue({ ...value, transcript: text })}
+              multiline
+              numberOfLines={4}
+              textAlignVertical="top"
+              editable={!isTranscribing}
+            />
+          </View>
+        );
+      }
+
       default:
         return <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>This action type is not yet implemented.</Text>;
     }
@@ -660,6 +984,78 @@ const styles = StyleSheet.create({
   inputGroup: {
     gap: 8,
   },
+  photoPreview: {
+    width: '100%',
+    height: 200,
+    borderRadius: 16,
+  },
+  photoPlaceholder: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  uploadStatus: {
+    gap: 6,
+  },
+  uploadTrack: {
+    height: 6,
+    borderRadius: 999,
+    overflow: 'hidden',
+  },
+  uploadFill: {
+    height: '100%',
+    borderRadius: 999,
+  },
+  uploadRetry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  uploadErrorText: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#ef4444',
+  },
+  voiceCard: {
+    alignItems: 'center',
+    gap: 4,
+    paddingTop: 20,
+    paddingBottom: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  voiceTime: {
+    fontSize: 28,
+    fontFamily: 'BricolageGrotesque-SemiBold',
+    fontVariant: ['tabular-nums'],
+  },
+  transcriptHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  transcribeText: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-SemiBold',
+    color: '#f43f5e',
+    marginBottom: 4,
+  },
+  mediaButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  mediaButtonText: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-SemiBold',
+  },
   label: {
     fontSize: 13,
     fontFamily: 'BricolageGrotesque-SemiBold',
@@ -1,7 +1,9 @@
-import { useEffect, useRef, useState } from 'react';
+import { ReactNode, useEffect, useRef, useState } from 'react';
 import {
   Animated,
   Dimensions,
+  Image,
+  KeyboardAvoidingView,
   Modal,
   Platform,
   Pressable,
@@ -28,6 +30,8 @@ interface ActionOption {
   icon: keyof typeof MaterialIcons.glyphMap;
   color?: string;
   description?: string;
+  // Thumbnail shown in place of the icon (quick actions only)
+  imageUri?: string;
   onPress: () => void;
 }
 
@@ -37,6 +41,8 @@ interface ActionPickerModalProps {
   title: string;
   quickActions?: ActionOption[];
   options: ActionOption[];
+  // Shown between the title and the quick actions (e.g. the reminder's checklist)
+  children?: ReactNode;
 }
 
 export default function ActionPickerModal({
@@ -45,6 +51,7 @@ export default function ActionPickerModal({
   title,
   quickActions = [],
   options,
+  children,
 }: ActionPickerModalProps) {
   const insets = useSafeAreaInsets();
   const [isMounted, setIsMounted] = useState(visible);
@@ -117,7 +124,10 @@ export default function ActionPickerModal({
       statusBarTranslucent
       navigationBarTranslucent
     >
-      <View style={styles.root}>
+      <KeyboardAvoidingView
+        style={styles.root}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
         <Animated.View
           style={[
             styles.backdrop,
@@ -152,6 +162,8 @@ export default function ActionPickerModal({
               {title}
             </Text>
 
+            {children}
+
             {quickActions.length > 0 && (
               <View style={styles.quickActionsSection}>
                 <Text style={styles.sectionLabel}>Quick Actions</Text>
@@ -167,9 +179,13 @@ export default function ActionPickerModal({
                       accessibilityRole="button"
                       accessibilityLabel={option.label}
                     >
-                      <View style={styles.quickActionIcon}>
-                        <MaterialIcons name={option.icon} size={18} color={option.color || '#2F00FF'} />
-                      </View>
+                      {option.imageUri ? (
+                        <Image source={{ uri: option.imageUri }} style={styles.quickActionImage} />
+                      ) : (
+                        <View style={styles.quickActionIcon}>
+                          <MaterialIcons name={option.icon} size={18} color={option.color || '#2F00FF'} />
+                        </View>
+                      )}
                       <View style={styles.quickActionText}>
                         <Text style={styles.quickActionLabel} numberOfLines={1}>
                           {option.label}
@@ -228,7 +244,7 @@ export default function ActionPickerModal({
             </View>
           </View>
         </Animated.View>
-      </View>
+      </KeyboardAvoidingView>
     </Modal>
   );
 }
@@ -243,10 +259,7 @@ const styles = StyleSheet.create({
     backgroundColor: '#000000',
   },
   sheetWrapper: {
-    position: 'absolute',
-    left: 0,
-    right: 0,
-    bottom: 0,
+    width: '100%',
     paddingHorizontal: 16,
     paddingBottom: 18,
   },
@@ -319,6 +332,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  quickActionImage: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    backgroundColor: '#eef2ff',
+  },
   quickActionText: {
     flex: 1,
     minWidth: 0,
@@ -0,0 +1,161 @@
+import { useEffect, useRef } from 'react';
+import { ActivityIndicator, Animated, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+
+interface BulkActionBarProps {
+  count: number;
+  // Every selected reminder is already priority, so the toggle removes it
+  allPriority: boolean;
+  busy: boolean;
+  onComplete: () => void;
+  onReschedule: () => void;
+  onTogglePriority: () => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+function BarAction({
+  icon,
+  label,
+  color,
+  disabled,
+  onPress,
+}: {
+  icon: keyof typeof MaterialIcons.glyphMap;
+  label: string;
+  color: string;
+  disabled: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        onPress();
+      }}
+      disabled={disabled}
+      style={({ pressed }) => [
+        styles.action,
+        disabled && styles.actionDisabled,
+        pressed && { transform: [{ scale: 0.94 }] },
+      ]}
+    >
+      <MaterialIcons name={icon} size={20} color={color} />
+      <Text style={[styles.actionLabel, { color }]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+export default function BulkActionBar({
+  count,
+  allPriority,
+  busy,
+  onComplete,
+  onReschedule,
+  onTogglePriority,
+  onDelete,
+  onCancel,
+}: BulkActionBarProps) {
+  const insets = useSafeAreaInsets();
+  const slideAnim = useRef(new Animated.Value(120)).current;
+
+  useEffect(() => {
+    Animated.spring(slideAnim, {
+      toValue: 0,
+      tension: 240,
+      friction: 26,
+      useNativeDriver: true,
+    }).start();
+  }, [slideAnim]);
+
+  const disabled = busy || count === 0;
+
+  return (
+    <Animated.View
+      style={[
+        styles.container,
+        { bottom: insets.bottom + 100, transform: [{ translateY: slideAnim }] },
+      ]}
+    >
+      <View style={styles.header}>
+        <Text style={styles.countText}>
+          {count === 0 ? 'Select reminders' : `${count} selected`}
+        </Text>
+        {busy ? (
+          <ActivityIndicator size="small" color="#2F00FF" />
+        ) : (
+          <Pressable onPress={onCancel} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={styles.actions}>
+        <BarAction icon="check-circle" label="Done" color="#10b981" disabled={disabled} onPress={onComplete} />
+        <BarAction icon="event-repeat" label="Move" color="#2F00FF" disabled={disabled} onPress={onReschedule} />
+        <BarAction
+          icon={allPriority ? 'star' : 'star-outline'}
+          label={allPriority ? 'Unstar' : 'Priority'}
+          color="#f59e0b"
+          disabled={disabled}
+          onPress={onTogglePriority}
+        />
+        <BarAction icon="delete" label="Delete" color="#ef4444" disabled={disabled} onPress={onDelete} />
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    backgroundColor: '#ffffff',
+    borderRadius: 24,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 8,
+    shadowColor: '#000',
+    shadowOpacity: 0.12,
+    shadowRadius: 20,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 10,
+    zIndex: 50,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  countText: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+  },
+  cancelText: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#888888',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  action: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 4,
+  },
+  actionDisabled: {
+    opacity: 0.35,
+  },
+  actionLabel: {
+    fontSize: 11,
+    fontFamily: 'BricolageGrotesque-Bold',
+  },
+});
@@ -0,0 +1,355 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Animated,
+  Dimensions,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { BulkRescheduleTarget } from '../lib/types';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+const OPEN_FADE_DURATION = 170;
+const CLOSE_FADE_DURATION = 170;
+const CLOSE_SLIDE_DURATION = 190;
+
+interface RescheduleOption {
+  key: string;
+  indicator: string;
+  label: string;
+  target: BulkRescheduleTarget;
+}
+
+const OFFSET_OPTIONS: RescheduleOption[] = [
+  { key: '1h', indicator: '+1h', label: '1 hour later', target: { offsetMinutes: 60 } },
+  { key: '3h', indicator: '+3h', label: '3 hours later', target: { offsetMinutes: 180 } },
+  { key: '1d', indicator: '+1d', label: '1 day later', target: { offsetMinutes: 1440 } },
+  { key: '1w', indicator: '+1w', label: '1 week later', target: { offsetMinutes: 10080 } },
+];
+
+// Today and the next 6 days; each reminder keeps its time of day
+function getDateOptions(): RescheduleOption[] {
+  return Array.from({ length: 7 }, (_, index) => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + index);
+    const label = index === 0
+      ? 'Today'
+      : index === 1
+      ? 'Tomorrow'
+      : date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+    return {
+      key: `date-${index}`,
+      indicator: String(date.getDate()),
+      label,
+      target: { date },
+    };
+  });
+}
+
+interface BulkRescheduleModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (target: BulkRescheduleTarget) => void;
+  count: number;
+}
+
+export default function BulkRescheduleModal({
+  visible,
+  onClose,
+  onSelect,
+  count,
+}: BulkRescheduleModalProps) {
+  const [isMounted, setIsMounted] = useState(visible);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setIsMounted(true);
+      fadeAnim.setValue(0);
+      slideAnim.setValue(SCREEN_HEIGHT);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      const openAnim = Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: OPEN_FADE_DURATION,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 320,
+          friction: 32,
+          useNativeDriver: true,
+        }),
+      ]);
+      openAnim.start();
+      return () => openAnim.stop();
+    }
+
+    if (isMounted) {
+      const closeAnim = Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: CLOSE_FADE_DURATION,
+          useNativeDriver: true,
+        }),
+        Animated.timing(slideAnim, {
+          toValue: SCREEN_HEIGHT,
+          duration: CLOSE_SLIDE_DURATION,
+          useNativeDriver: true,
+        }),
+      ]);
+      closeAnim.start(({ finished }) => {
+        if (finished) {
+          setIsMounted(false);
+        }
+      });
+      return () => closeAnim.stop();
+    }
+  }, [visible, isMounted, fadeAnim, slideAnim]);
+
+  const handleClose = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onClose();
+  };
+
+  const handleSelect = (target: BulkRescheduleTarget) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onSelect(target);
+    onClose();
+  };
+
+  if (!isMounted) return null;
+
+  const renderOptions = (options: RescheduleOption[]) => (
+    <View style={styles.optionsContainer}>
+      {options.map((option, index) => (
+        <Pressable
+          key={option.key}
+          style={({ pressed }) => [
+            styles.option,
+            pressed && styles.optionPressed,
+            index !== options.length - 1 && styles.optionBorder,
+            pressed && { transform: [{ scale: 0.97 }] },
+          ]}
+          onPress={() => handleSelect(option.target)}
+          hitSlop={{ top: 4, bottom: 4, left: 8, right: 8 }}
+        >
+          <View style={styles.optionContent}>
+            <View style={styles.timeIndicator}>
+              <Text style={styles.timeIndicatorText}>{option.indicator}</Text>
+            </View>
+            <Text style={styles.optionLabel}>{option.label}</Text>
+          </View>
+          <MaterialIcons name="chevron-right" size={20} color="#cccccc" />
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={isMounted}
+      transparent
+      animationType="none"
+      onRequestClose={handleClose}
+      statusBarTranslucent
+    >
+      <View style={styles.root}>
+        {/* Backdrop */}
+        <Animated.View
+          style={[
+            styles.backdrop,
+            {
+              opacity: fadeAnim.interpolate({
+                inputRange: [0, 1],
+                outputRange: [0, 0.5],
+              }),
+            },
+          ]}
+        >
+          <Pressable style={StyleSheet.absoluteFill} onPress={handleClose} />
+        </Animated.View>
+
+        {/* Modal content */}
+        <Animated.View
+          style={[
+            styles.modalContainer,
+            {
+              transform: [{ translateY: slideAnim }],
+            },
+          ]}
+        >
+          <View style={styles.modal}>
+            {/* Handle bar */}
+            <View style={styles.handleBar} />
+
+            {/* Header */}
+            <View style={styles.header}>
+              <MaterialIcons name="event-repeat" size={24} color="#2F00FF" />
+              <Text style={styles.title} numberOfLines={1}>
+                Reschedule {count} {count === 1 ? 'reminder' : 'reminders'}
+              </Text>
+            </View>
+
+            <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false}>
+              <Text style={styles.subtitle}>Move later by</Text>
+              {renderOptions(OFFSET_OPTIONS)}
+
+              <Text style={[styles.subtitle, styles.sectionSpacing]}>Move to a day</Text>
+              {renderOptions(getDateOptions())}
+            </ScrollView>
+
+            {/* Cancel button */}
+            <Pressable
+              style={({ pressed }) => [
+                styles.cancelButton,
+                pressed && styles.cancelButtonPressed,
+              ]}
+              onPress={handleClose}
+            >
+              <Text style={styles.cancelText}>CANCEL</Text>
+            </Pressable>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000000',
+  },
+  modalContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    borderRadius: 24,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOpacity: 0.15,
+    shadowRadius: 30,
+    shadowOffset: { width: 0, height: -5 },
+    elevation: 10,
+  },
+  handleBar: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+    letterSpacing: 0.5,
+    flex: 1,
+  },
+  subtitle: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#888888',
+    textAlign: 'center',
+    letterSpacing: 0.3,
+    marginBottom: 16,
+    textTransform: 'uppercase',
+  },
+  scroll: {
+    maxHeight: SCREEN_HEIGHT * 0.6,
+  },
+  sectionSpacing: {
+    marginTop: 16,
+  },
+  optionsContainer: {
+    paddingHorizontal: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: 66,
+    paddingVertical: 12,
+    paddingHorizontal: 18,
+  },
+  optionPressed: {
+    backgroundColor: '#f8f8f8',
+  },
+  optionBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  optionContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    flex: 1,
+  },
+  timeIndicator: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: 'rgba(47, 0, 255, 0.08)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1.5,
+    borderColor: 'rgba(47, 0, 255, 0.15)',
+  },
+  timeIndicatorText: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#2F00FF',
+    letterSpacing: 0,
+    textAlign: 'center',
+    includeFontPadding: false,
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 16,
+    lineHeight: 22,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#121118',
+    letterSpacing: 0.2,
+    paddingRight: 10,
+  },
+  cancelButton: {
+    marginTop: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  cancelButtonPressed: {
+    backgroundColor: '#f8f8f8',
+  },
+  cancelText: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#888888',
+    letterSpacing: 2,
+  },
+});
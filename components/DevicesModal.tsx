@@ -0,0 +1,262 @@
+import '../global.css';
+import { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Animated,
+  Dimensions,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { getDeviceId } from '../lib/deviceIdentity';
+import { getDevices, removeDevice } from '../lib/devices';
+import type { UserDevice } from '../lib/types';
+
+interface DevicesModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  web: 'Web',
+};
+
+function formatLastSeen(dateStr: string): string {
+  const date = new Date(dateStr);
+  const diffMins = Math.floor((Date.now() - date.getTime()) / 60000);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMins < 1) return 'Active now';
+  if (diffMins < 60) return `Last seen ${diffMins}m ago`;
+  if (diffHours < 24) return `Last seen ${diffHours}h ago`;
+  if (diffDays === 1) return 'Last seen yesterday';
+  if (diffDays < 7) return `Last seen ${diffDays}d ago`;
+
+  return `Last seen ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
+
+function describeDevice(device: UserDevice): string {
+  const platform = device.platform ? PLATFORM_LABELS[device.platform.toLowerCase()] ?? device.platform : null;
+  return [platform, device.model].filter(Boolean).join(' · ');
+}
+
+function getDeviceIcon(device: UserDevice): keyof typeof MaterialIcons.glyphMap {
+  const platform = device.platform?.toLowerCase();
+  if (platform === 'ios') return 'phone-iphone';
+  if (platform === 'android') return 'phone-android';
+  return 'devices';
+}
+
+export default function DevicesModal({ visible, onClose }: DevicesModalProps) {
+  const [devices, setDevices] = useState<UserDevice[]>([]);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isMounted, setIsMounted] = useState(visible);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(Dimensions.get('window').height)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setError(null);
+      loadDevices();
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (visible) {
+      setIsMounted(true);
+      fadeAnim.setValue(0);
+      slideAnim.setValue(Dimensions.get('window').height);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 170,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 240,
+          friction: 26,
+          useNativeDriver: true,
+        }),
+      ]).start();
+      return;
+    }
+
+    if (isMounted) {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 170,
+          useNativeDriver: true,
+        }),
+        Animated.timing(slideAnim, {
+          toValue: Dimensions.get('window').height,
+          duration: 190,
+          useNativeDriver: true,
+        }),
+      ]).start(({ finished }) => {
+        if (finished) {
+          setIsMounted(false);
+        }
+      });
+    }
+  }, [visible, isMounted, fadeAnim, slideAnim]);
+
+  const loadDevices = async () => {
+    try {
+      setLoading(true);
+      const [deviceList, deviceId] = await Promise.all([getDevices(), getDeviceId()]);
+      setDevices(deviceList);
+      setCurrentDeviceId(deviceId);
+    } catch {
+      setError("Couldn't load your devices");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmRemove = (device: UserDevice) => {
+    Alert.alert(
+      'Remove Device',
+      `${device.name || 'This device'} will be signed out and its reminders and notifications cleared from it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => handleRemove(device) },
+      ]
+    );
+  };
+
+  const handleRemove = async (device: UserDevice) => {
+    try {
+      setBusyId(device.id);
+      setError(null);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      await removeDevice(device.id);
+      setDevices((current) => current.filter((item) => item.id !== device.id));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError("Couldn't remove the device. Try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isMounted) return null;
+
+  return (
+    <Modal
+      visible={isMounted}
+      animationType="none"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end">
+        <Animated.View
+          style={[
+            StyleSheet.absoluteFillObject,
+            {
+              backgroundColor: '#000000',
+              opacity: fadeAnim.interpolate({ inputRange: [0, 1], outputRange: [0, 0.5] }),
+            },
+          ]}
+        >
+          <Pressable style={StyleSheet.absoluteFillObject} onPress={onClose} />
+        </Animated.View>
+        <Animated.View style={{ transform: [{ translateY: slideAnim }], maxHeight: '85%' }}>
+          <View className="bg-[#f6f1ff] rounded-t-[40px] pt-8 pb-12 px-6">
+            {/* Close button */}
+            <Pressable onPress={onClose} className="absolute top-6 right-6 z-10 w-10 h-10 items-center justify-center rounded-full bg-black/5">
+              <MaterialIcons name="close" size={22} color="#666" />
+            </Pressable>
+
+            {/* Title */}
+            <View className="mt-2 mb-6 pr-12">
+              <Text className="text-[28px] tracking-tight text-[#121018]" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                Devices
+              </Text>
+              <Text className="text-sm text-gray-400 mt-1" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                Everywhere you're signed in. Removing a device signs it out and clears its reminders.
+              </Text>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {error && (
+                <Text className="text-xs text-red-500 mb-3" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                  {error}
+                </Text>
+              )}
+
+              {loading ? (
+                <View className="py-12 items-center justify-center">
+                  <ActivityIndicator size="large" color="#2f00ff" />
+                </View>
+              ) : devices.length === 0 ? (
+                <View className="py-12 items-center justify-center">
+                  <MaterialIcons name="devices" size={40} color="#d1d5db" />
+                  <Text className="text-base text-gray-400 mt-3" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                    No devices yet
+                  </Text>
+                </View>
+              ) : (
+                devices.map((device) => {
+                  const isCurrent = device.id === currentDeviceId;
+                  const details = describeDevice(device);
+                  return (
+                    <View key={device.id} className="bg-white rounded-3xl p-4 mb-3 flex-row items-center gap-3">
+                      <View className="w-10 h-10 rounded-full bg-[#2f00ff]/10 items-center justify-center">
+                        <MaterialIcons name={getDeviceIcon(device)} size={20} color="#2f00ff" />
+                      </View>
+                      <View className="flex-1">
+                        <View className="flex-row items-center gap-2">
+                          <Text className="text-base text-[#121018] shrink" style={{ fontFamily: 'BricolageGrotesque-Medium' }} numberOfLines={1}>
+                            {device.name || 'Unnamed device'}
+                          </Text>
+                          {isCurrent && (
+                            <View className="px-2 py-0.5 rounded-full bg-[#2f00ff]/10">
+                              <Text className="text-[10px] text-[#2f00ff]" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                                This device
+                              </Text>
+                            </View>
+                          )}
+                        </View>
+                        <Text className="text-xs text-gray-400 mt-0.5" style={{ fontFamily: 'BricolageGrotesque-Regular' }} numberOfLines={1}>
+                          {details ? `${details} · ` : ''}{isCurrent ? 'Active now' : formatLastSeen(device.last_seen_at)}
+                        </Text>
+                      </View>
+
+                      {/* This device signs out from Settings instead */}
+                      {isCurrent ? null : busyId === device.id ? (
+                        <ActivityIndicator color="#2f00ff" />
+                      ) : (
+                        <Pressable
+                          onPress={() => confirmRemove(device)}
+                          disabled={busyId !== null}
+                          className="w-9 h-9 items-center justify-center rounded-xl bg-red-50"
+                        >
+                          <MaterialIcons name="logout" size={18} color="#ef4444" />
+                        </Pressable>
+                      )}
+                    </View>
+                  );
+                })
+              )}
+            </ScrollView>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
@@ -1,25 +1,91 @@
 import { useEffect, useRef } from 'react';
-import { Animated, StyleSheet, View } from 'react-native';
+import { Animated, Pressable, StyleSheet, Text, View } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { successAnimation, shakeAnimation } from '../lib/animations';
+import * as Haptics from 'expo-haptics';
+import {
+  successAnimation,
+  shakeAnimation,
+  slideInFromBottom,
+  slideOutToBottom,
+} from '../lib/animations';
 
-export type FeedbackType = 'success' | 'error' | null;
+export type FeedbackType = 'success' | 'error' | 'undo' | null;
+
+// How long the undo toast stays up before the action is final
+const UNDO_DURATION = 5000;
 
 interface FeedbackOverlayProps {
   type: FeedbackType;
   onComplete?: () => void;
+  // Undo toast only
+  message?: string;
+  onUndo?: () => void;
+  duration?: number;
+}
+
+/**
+ * Bottom toast with a timed Undo button
+ */
+function UndoToast({
+  message,
+  onUndo,
+  onComplete,
+  duration = UNDO_DURATION,
+}: Omit<FeedbackOverlayProps, 'type'>) {
+  const translateYAnim = useRef(new Animated.Value(100)).current;
+  const opacityAnim = useRef(new Animated.Value(0)).current;
+  const dismissedRef = useRef(false);
+
+  const dismiss = () => {
+    if (dismissedRef.current) return;
+    dismissedRef.current = true;
+    slideOutToBottom(translateYAnim, opacityAnim, () => onComplete?.());
+  };
+
+  useEffect(() => {
+    slideInFromBottom(translateYAnim, opacityAnim);
+    const timer = setTimeout(dismiss, duration);
+    return () => clearTimeout(timer);
+  }, [duration]);
+
+  const handleUndo = () => {
+    if (dismissedRef.current) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onUndo?.();
+    dismiss();
+  };
+
+  return (
+    <View style={styles.toastOverlay} pointerEvents="box-none">
+      <Animated.View
+        style={[
+          styles.toast,
+          { transform: [{ translateY: translateYAnim }], opacity: opacityAnim },
+        ]}
+      >
+        <Text style={styles.toastMessage} numberOfLines={2}>
+          {message}
+        </Text>
+        <Pressable onPress={handleUndo} hitSlop={12} style={styles.undoButton}>
+          <MaterialIcons name="undo" size={18} color="#A5B4FC" />
+          <Text style={styles.undoText}>Undo</Text>
+        </Pressable>
+      </Animated.View>
+    </View>
+  );
 }
 
 /**
  * Animated feedback overlay showing success/error states
- * with checkmark animation and haptic feedback
+ * with checkmark animation and haptic feedback, or an undo toast
  */
-export default function FeedbackOverlay({ type, onComplete }: FeedbackOverlayProps) {
+export default function FeedbackOverlay({ type, onComplete, message, onUndo, duration }: FeedbackOverlayProps) {
   const scaleAnim = useRef(new Animated.Value(0)).current;
   const opacityAnim = useRef(new Animated.Value(0)).current;
   const shakeAnim = useRef(new Animated.Value(0)).current;
 
   useEffect(() => {
+    if (type === 'undo') return;
     if (type === 'success') {
       successAnimation(scaleAnim, opacityAnim, onComplete);
     } else if (type === 'error') {
@@ -46,6 +112,10 @@ export default function FeedbackOverlay({ type, onComplete }: FeedbackOverlayPro
 
   if (!type) return null;
 
+  if (type === 'undo') {
+    return <UndoToast message={message} onUndo={onUndo} onComplete={onComplete} duration={duration} />;
+  }
+
   return (
     <View style={styles.overlay} pointerEvents="none">
       <Animated.View
@@ -102,4 +172,46 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  toastOverlay: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 120,
+    zIndex: 9999,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 14,
+    paddingLeft: 20,
+    paddingRight: 16,
+    borderRadius: 20,
+    backgroundColor: '#121018',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  toastMessage: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Medium',
+  },
+  undoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  undoText: {
+    color: '#A5B4FC',
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Bold',
+  },
 });
@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { hasGeofencePermissions, requestGeofencePermissions } from '../lib/geofences';
+import {
+  DEFAULT_PLACE_RADIUS_M,
+  findSavedPlace,
+  getCurrentPlaceLocation,
+  MAX_PLACE_NAME_LENGTH,
+  savePlace,
+} from '../lib/savedPlaces';
+import { ReminderTriggerType, SavedPlace } from '../lib/types';
+
+const TRIGGER_OPTIONS: Array<{ value: ReminderTriggerType; label: string }> = [
+  { value: 'time', label: 'At a time' },
+  { value: 'arrive', label: 'Arriving' },
+  { value: 'leave', label: 'Leaving' },
+];
+
+interface LocationTriggerPickerProps {
+  triggerType: ReminderTriggerType;
+  onTriggerTypeChange: (triggerType: ReminderTriggerType) => void;
+  places: SavedPlace[];
+  selectedPlaceId: string | null;
+  onSelectPlace: (placeId: string) => void;
+  onPlacesChange: (places: SavedPlace[]) => void;
+  // Place named by the AI parser that isn't saved yet ("when I get home")
+  suggestedPlaceName?: string | null;
+}
+
+export default function LocationTriggerPicker({
+  triggerType,
+  onTriggerTypeChange,
+  places,
+  selectedPlaceId,
+  onSelectPlace,
+  onPlacesChange,
+  suggestedPlaceName,
+}: LocationTriggerPickerProps) {
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newPlaceName, setNewPlaceName] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLocation = triggerType !== 'time';
+
+  useEffect(() => {
+    if (!isLocation) return;
+    hasGeofencePermissions()
+      .then(setHasPermission)
+      .catch(() => setHasPermission(false));
+  }, [isLocation]);
+
+  // Offer to save the place the parser heard
+  useEffect(() => {
+    if (suggestedPlaceName && !findSavedPlace(places, suggestedPlaceName)) {
+      setNewPlaceName(suggestedPlaceName);
+      setIsAdding(true);
+    }
+  }, [suggestedPlaceName, places]);
+
+  const handleTriggerPress = async (value: ReminderTriggerType) => {
+    Haptics.selectionAsync();
+    setError(null);
+    onTriggerTypeChange(value);
+    if (value !== 'time' && !hasPermission) {
+      setHasPermission(await requestGeofencePermissions().catch(() => false));
+    }
+  };
+
+  const handleSaveCurrentLocation = async () => {
+    const name = newPlaceName.trim();
+    if (!name || isLocating) return;
+
+    setIsLocating(true);
+    setError(null);
+    try {
+      const location = await getCurrentPlaceLocation();
+      const updated = await savePlace({ name, radius_m: DEFAULT_PLACE_RADIUS_M, ...location });
+      onPlacesChange(updated);
+      const saved = findSavedPlace(updated, name);
+      if (saved) onSelectPlace(saved.id);
+      setNewPlaceName('');
+      setIsAdding(false);
+    } catch {
+      setError("Couldn't get your current location");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.segment}>
+        {TRIGGER_OPTIONS.map((option) => {
+          const active = option.value === triggerType;
+          return (
+            <Pressable
+              key={option.value}
+              style={[styles.segmentItem, active && styles.segmentItemActive]}
+              onPress={() => void handleTriggerPress(option.value)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: active }}
+            >
+              <Text style={[styles.segmentText, active && styles.segmentTextActive]}>{option.label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {isLocation && (
+        <>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.row}
+            keyboardShouldPersistTaps="handled"
+          >
+            {places.map((place) => {
+              const selected = place.id === selectedPlaceId;
+              return (
+                <Pressable
+                  key={place.id}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    onSelectPlace(place.id);
+                  }}
+                  style={[styles.chip, selected && styles.chipActive]}
+                >
+                  <MaterialIcons name="place" size={14} color={selected ? '#ffffff' : '#2F00FF'} />
+                  <Text style={[styles.chipText, selected && styles.chipTextActive]}>{place.name}</Text>
+                </Pressable>
+              );
+            })}
+
+            {isAdding ? (
+              <View style={[styles.chip, styles.inputChip]}>
+                <TextInput
+                  style={styles.input}
+                  value={newPlaceName}
+                  onChangeText={setNewPlaceName}
+                  placeholder="Name this place"
+                  placeholderTextColor="#b5b2c2"
+                  autoFocus={!suggestedPlaceName}
+                  maxLength={MAX_PLACE_NAME_LENGTH}
+                  returnKeyType="done"
+                  editable={!isLocating}
+                  onSubmitEditing={() => void handleSaveCurrentLocation()}
+                  onBlur={() => {
+                    if (!newPlaceName.trim()) setIsAdding(false);
+                  }}
+                />
+                {isLocating && <ActivityIndicator size="small" color="#2F00FF" />}
+              </View>
+            ) : (
+              <Pressable onPress={() => setIsAdding(true)} style={[styles.chip, styles.addChip]}>
+                <MaterialIcons name="my-location" size={14} color="#2F00FF" />
+                <Text style={[styles.chipText, styles.addChipText]}>Save current location</Text>
+              </Pressable>
+            )}
+          </ScrollView>
+
+          {isAdding && !isLocating && (
+            <Text style={styles.hint}>Saves where you are now under this name.</Text>
+          )}
+          {hasPermission === false && (
+            <Text style={styles.warning}>
+              Allow location access "Always" in Settings so this reminder works while Synco is closed.
+            </Text>
+          )}
+          {error && <Text style={styles.warning}>{error}</Text>}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  segment: {
+    flexDirection: 'row',
+    backgroundColor: '#f4f3f8',
+    borderRadius: 12,
+    padding: 4,
+  },
+  segmentItem: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 9,
+  },
+  segmentItemActive: {
+    backgroundColor: '#ffffff',
+    shadowColor: '#000',
+    shadowOpacity: 0.06,
+    shadowRadius: 4,
+    shadowOffset: { width: 0, height: 1 },
+  },
+  segmentText: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: 'rgba(18, 16, 24, 0.5)',
+  },
+  segmentTextActive: {
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#2F00FF',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#e5e3ee',
+    backgroundColor: '#ffffff',
+  },
+  chipActive: {
+    backgroundColor: '#2F00FF',
+    borderColor: '#2F00FF',
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  addChip: {
+    borderStyle: 'dashed',
+    borderColor: '#2F00FF',
+  },
+  addChipText: {
+    color: '#2F00FF',
+  },
+  inputChip: {
+    paddingVertical: 2,
+    minWidth: 150,
+  },
+  input: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+    paddingVertical: 4,
+    minWidth: 120,
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: 'rgba(18, 16, 24, 0.5)',
+  },
+  warning: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#ef4444',
+  },
+});
@@ -0,0 +1,231 @@
+import '../global.css';
+import { useEffect, useRef, useState } from 'react';
+import {
+  Animated,
+  Dimensions,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { formatTimeOfDay, parseTimeOfDay } from '../lib/quietHours';
+import { DAYS_OF_WEEK, DEFAULT_QUIET_HOURS } from '../lib/types';
+import type { DayOfWeek, QuietHoursSchedule, QuietHoursWindow } from '../lib/types';
+
+const TIME_STEP_MINUTES = 30;
+
+interface QuietHoursModalProps {
+  visible: boolean;
+  schedule: QuietHoursSchedule | null | undefined;
+  onClose: () => void;
+  onSave: (schedule: QuietHoursSchedule) => void;
+}
+
+function TimeStepper({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const step = (direction: 1 | -1) => {
+    Haptics.selectionAsync();
+    onChange(formatTimeOfDay((parseTimeOfDay(value) ?? 0) + direction * TIME_STEP_MINUTES));
+  };
+
+  return (
+    <View className="flex-row items-center bg-gray-50 rounded-full">
+      <Pressable onPress={() => step(-1)} className="w-8 h-8 items-center justify-center">
+        <MaterialIcons name="remove" size={16} color="#6b7280" />
+      </Pressable>
+      <Text className="text-sm text-[#121018] w-12 text-center" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+        {value}
+      </Text>
+      <Pressable onPress={() => step(1)} className="w-8 h-8 items-center justify-center">
+        <MaterialIcons name="add" size={16} color="#6b7280" />
+      </Pressable>
+    </View>
+  );
+}
+
+export default function QuietHoursModal({ visible, schedule, onClose, onSave }: QuietHoursModalProps) {
+  const [draft, setDraft] = useState<QuietHoursSchedule>({});
+  const [isMounted, setIsMounted] = useState(visible);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(Dimensions.get('window').height)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(schedule ?? DEFAULT_QUIET_HOURS);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (visible) {
+      setIsMounted(true);
+      fadeAnim.setValue(0);
+      slideAnim.setValue(Dimensions.get('window').height);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 170,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 240,
+          friction: 26,
+          useNativeDriver: true,
+        }),
+      ]).start();
+      return;
+    }
+
+    if (isMounted) {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 170,
+          useNativeDriver: true,
+        }),
+        Animated.timing(slideAnim, {
+          toValue: Dimensions.get('window').height,
+          duration: 190,
+          useNativeDriver: true,
+        }),
+      ]).start(({ finished }) => {
+        if (finished) {
+          setIsMounted(false);
+        }
+      });
+    }
+  }, [visible, isMounted, fadeAnim, slideAnim]);
+
+  const setDayWindow = (day: DayOfWeek, window: QuietHoursWindow | null) => {
+    setDraft((current) => {
+      const next = { ...current };
+      if (window) {
+        next[day] = window;
+      } else {
+        delete next[day];
+      }
+      return next;
+    });
+  };
+
+  // Copy the first day that has a window to every day
+  const handleApplyToAll = () => {
+    const template = DAYS_OF_WEEK.map((day) => draft[day.value]).find(Boolean);
+    if (!template) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraft(Object.fromEntries(DAYS_OF_WEEK.map((day) => [day.value, { ...template }])));
+  };
+
+  const handleSave = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSave(draft);
+    onClose();
+  };
+
+  if (!isMounted) return null;
+
+  return (
+    <Modal
+      visible={isMounted}
+      animationType="none"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end">
+        <Animated.View
+          style={[
+            StyleSheet.absoluteFillObject,
+            {
+              backgroundColor: '#000000',
+              opacity: fadeAnim.interpolate({ inputRange: [0, 1], outputRange: [0, 0.5] }),
+            },
+          ]}
+        >
+          <Pressable style={StyleSheet.absoluteFillObject} onPress={onClose} />
+        </Animated.View>
+        <Animated.View style={{ transform: [{ translateY: slideAnim }], maxHeight: '85%' }}>
+          <View className="bg-[#f6f1ff] rounded-t-[40px] pt-8 pb-12 px-6">
+            {/* Close button */}
+            <Pressable onPress={onClose} className="absolute top-6 right-6 z-10 w-10 h-10 items-center justify-center rounded-full bg-black/5">
+              <MaterialIcons name="close" size={22} color="#666" />
+            </Pressable>
+
+            {/* Title */}
+            <View className="mt-2 mb-6 pr-12">
+              <Text className="text-[28px] tracking-tight text-[#121018]" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                Quiet Hours
+              </Text>
+              <Text className="text-sm text-gray-400 mt-1" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                Each window starts on its day and can run past midnight.
+              </Text>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {DAYS_OF_WEEK.map((day) => {
+                const window = draft[day.value];
+                return (
+                  <View key={day.value} className="bg-white rounded-3xl px-4 py-3 mb-3">
+                    <View className="flex-row items-center justify-between">
+                      <Text className="text-base text-[#121018]" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                        {day.label}
+                      </Text>
+                      <Switch
+                        value={Boolean(window)}
+                        onValueChange={(enabled) =>
+                          setDayWindow(day.value, enabled ? DEFAULT_QUIET_HOURS[day.value] ?? null : null)
+                        }
+                        trackColor={{ false: '#e5e7eb', true: '#2f00ff' }}
+                        thumbColor="#ffffff"
+                      />
+                    </View>
+                    {window && (
+                      <View className="flex-row items-center gap-2 mt-2">
+                        <TimeStepper
+                          value={window.start}
+                          onChange={(start) => setDayWindow(day.value, { ...window, start })}
+                        />
+                        <Text className="text-xs text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                          to
+                        </Text>
+                        <TimeStepper
+                          value={window.end}
+                          onChange={(end) => setDayWindow(day.value, { ...window, end })}
+                        />
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+
+              <Pressable onPress={handleApplyToAll} className="flex-row items-center justify-center gap-2 py-3 mb-3">
+                <MaterialIcons name="content-copy" size={16} color="#2f00ff" />
+                <Text className="text-sm text-[#2f00ff]" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                  Use the first window for every day
+                </Text>
+              </Pressable>
+
+              <Pressable
+                onPress={handleSave}
+                className="flex-row items-center justify-center py-3 rounded-2xl bg-[#2f00ff]"
+              >
+                <Text className="text-sm text-white" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                  Save
+                </Text>
+              </Pressable>
+            </ScrollView>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,226 @@
+import '../global.css';
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Animated, Dimensions, Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import {
+  DELETED_REMINDER_RETENTION_DAYS,
+  getRecentlyDeletedReminders,
+  permanentlyDeleteReminders,
+  purgeDeletedReminders,
+  restoreDeletedReminders,
+} from '../lib/reminders';
+import { syncReminderNotifications } from '../lib/notifications';
+import type { Reminder } from '../lib/types';
+
+interface RecentlyDeletedModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+function getDaysLeft(reminder: Reminder): number {
+  const deletedAt = new Date(reminder.deleted_at ?? Date.now()).getTime();
+  const purgeAt = deletedAt + DELETED_REMINDER_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+function formatScheduledTime(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function RecentlyDeletedModal({ visible, onClose }: RecentlyDeletedModalProps) {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isMounted, setIsMounted] = useState(visible);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(Dimensions.get('window').height)).current;
+
+  useEffect(() => {
+    if (visible) {
+      loadReminders();
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (visible) {
+      setIsMounted(true);
+      fadeAnim.setValue(0);
+      slideAnim.setValue(Dimensions.get('window').height);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 170,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 240,
+          friction: 26,
+          useNativeDriver: true,
+        }),
+      ]).start();
+      return;
+    }
+
+    if (isMounted) {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 170,
+          useNativeDriver: true,
+        }),
+        Animated.timing(slideAnim, {
+          toValue: Dimensions.get('window').height,
+          duration: 190,
+          useNativeDriver: true,
+        }),
+      ]).start(({ finished }) => {
+        if (finished) {
+          setIsMounted(false);
+        }
+      });
+    }
+  }, [visible, isMounted, fadeAnim, slideAnim]);
+
+  const loadReminders = async () => {
+    try {
+      setLoading(true);
+      // Expired reminders are purged before listing so the view never shows them.
+      await purgeDeletedReminders().catch(() => 0);
+      setReminders(await getRecentlyDeletedReminders());
+    } catch {
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (reminder: Reminder) => {
+    try {
+      setBusyId(reminder.id);
+      await restoreDeletedReminders({ reminder_ids: [reminder.id], rule_id: null, previous_rule: null });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setReminders((prev) => prev.filter((item) => item.id !== reminder.id));
+      void syncReminderNotifications();
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = async (reminder: Reminder) => {
+    try {
+      setBusyId(reminder.id);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      await permanentlyDeleteReminders([reminder.id]);
+      setReminders((prev) => prev.filter((item) => item.id !== reminder.id));
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isMounted) return null;
+
+  return (
+    <Modal
+      visible={isMounted}
+      animationType="none"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end">
+        <Animated.View
+          style={[
+            StyleSheet.absoluteFillObject,
+            {
+              backgroundColor: '#000000',
+              opacity: fadeAnim.interpolate({ inputRange: [0, 1], outputRange: [0, 0.5] }),
+            },
+          ]}
+        >
+          <Pressable style={StyleSheet.absoluteFillObject} onPress={onClose} />
+        </Animated.View>
+        <Animated.View style={{ transform: [{ translateY: slideAnim }], maxHeight: '85%' }}>
+          <View className="bg-[#f6f1ff] rounded-t-[40px] pt-8 pb-12 px-6">
+            {/* Close button */}
+            <Pressable onPress={onClose} className="absolute top-6 right-6 z-10 w-10 h-10 items-center justify-center rounded-full bg-black/5">
+              <MaterialIcons name="close" size={22} color="#666" />
+            </Pressable>
+
+            {/* Title */}
+            <View className="mt-2 mb-6 pr-12">
+              <Text className="text-[28px] tracking-tight text-[#121018]" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                Recently Deleted
+              </Text>
+              <Text className="text-sm text-gray-400 mt-1" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                Reminders are removed for good after {DELETED_REMINDER_RETENTION_DAYS} days.
+              </Text>
+            </View>
+
+            {loading ? (
+              <View className="py-16 items-center justify-center">
+                <ActivityIndicator size="large" color="#2f00ff" />
+              </View>
+            ) : reminders.length === 0 ? (
+              <View className="py-16 items-center justify-center">
+                <MaterialIcons name="delete-outline" size={40} color="#d1d5db" />
+                <Text className="text-base text-gray-400 mt-3" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                  Nothing here
+                </Text>
+              </View>
+            ) : (
+              <ScrollView showsVerticalScrollIndicator={false}>
+                {reminders.map((reminder) => {
+                  const daysLeft = getDaysLeft(reminder);
+                  const isBusy = busyId === reminder.id;
+                  return (
+                    <View key={reminder.id} className="bg-white rounded-3xl p-4 mb-3 flex-row items-center gap-3">
+                      <View className="flex-1">
+                        <Text className="text-base text-[#121018]" style={{ fontFamily: 'BricolageGrotesque-Medium' }} numberOfLines={1}>
+                          {reminder.title}
+                        </Text>
+                        <Text className="text-xs text-gray-400 mt-0.5" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                          {formatScheduledTime(reminder.scheduled_time)} · {daysLeft} {daysLeft === 1 ? 'day' : 'days'} left
+                        </Text>
+                      </View>
+
+                      {isBusy ? (
+                        <ActivityIndicator color="#2f00ff" />
+                      ) : (
+                        <View className="flex-row gap-2">
+                          <Pressable
+                            onPress={() => handleRestore(reminder)}
+                            className="flex-row items-center gap-1 px-3 py-2 rounded-xl bg-[#2f00ff]/10"
+                          >
+                            <MaterialIcons name="restore" size={16} color="#2f00ff" />
+                            <Text className="text-xs text-[#2f00ff]" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                              Restore
+                            </Text>
+                          </Pressable>
+                          <Pressable
+                            onPress={() => handleDeleteForever(reminder)}
+                            className="w-9 h-9 items-center justify-center rounded-xl bg-red-50"
+                          >
+                            <MaterialIcons name="delete-forever" size={18} color="#ef4444" />
+                          </Pressable>
+                        </View>
+                      )}
+                    </View>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
@@ -24,6 +24,7 @@ import {
   FrequencyUnit,
   RecurringRule,
 } from '../lib/types';
+import { expandOccurrences, RecurrenceRule, toDateKey } from '../lib/recurrence';
 
 // Animated Button Component for RecurringRuleModal
 function AnimatedModalButton({
@@ -143,7 +144,8 @@ interface RecurringRuleModalProps {
   selectedTime?: Date;
 }
 
-type ActivePicker = 'frequency' | 'unit' | 'days' | null;
+type ActivePicker = 'frequency' | 'unit' | 'days' | 'monthly' | 'ends' | 'skip' | null;
+type MonthlyMode = 'day_of_month' | 'weekday';
 const MODAL_OPEN_DURATION = 180;
 const MODAL_CLOSE_DURATION = 190;
 
@@ -158,6 +160,30 @@ const FREQUENCY_UNITS: { label: string; singular: string; value: FrequencyUnit }
   { label: 'years', singular: 'year', value: 'years' },
 ];
 
+const MONTH_DAY_OPTIONS = [...Array.from({ length: 31 }, (_, i) => i + 1), -1];
+
+const SET_POSITION_OPTIONS: { label: string; value: number }[] = [
+  { label: 'first', value: 1 },
+  { label: 'second', value: 2 },
+  { label: 'third', value: 3 },
+  { label: 'fourth', value: 4 },
+  { label: 'last', value: -1 },
+];
+
+const END_COUNT_OPTIONS = [2, 3, 5, 10, 15, 20, 30, 52];
+
+const END_DATE_OPTIONS: { label: string; months: number }[] = [
+  { label: '1 month', months: 1 },
+  { label: '3 months', months: 3 },
+  { label: '6 months', months: 6 },
+  { label: '1 year', months: 12 },
+];
+
+const WEEKDAYS: DayOfWeek[] = ['mon', 'tue', 'wed', 'thu', 'fri'];
+
+// How many upcoming occurrences are offered in the skip picker
+const SKIP_PREVIEW_COUNT = 12;
+
 function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substring(2);
 }
@@ -170,6 +196,24 @@ function formatTime(date: Date): string {
   }).toLowerCase();
 }
 
+function formatOrdinal(day: number): string {
+  if (day === -1) return 'last day';
+  const suffix = day % 10 === 1 && day !== 11 ? 'st'
+    : day % 10 === 2 && day !== 12 ? 'nd'
+    : day % 10 === 3 && day !== 13 ? 'rd'
+    : 'th';
+  return `${day}${suffix}`;
+}
+
+function formatShortDate(date: Date, withWeekday = false): string {
+  return date.toLocaleDateString('en-US', {
+    weekday: withWeekday ? 'short' : undefined,
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
+  });
+}
+
 export default function RecurringRuleModal({
   visible,
   onClose,
@@ -184,6 +228,18 @@ export default function RecurringRuleModal({
   const [selectedDays, setSelectedDays] = useState<DayOfWeek[]>(
     initialRule?.selected_days ?? ['sun']
   );
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>(
+    initialRule?.by_set_pos?.length ? 'weekday' : 'day_of_month'
+  );
+  const [monthDays, setMonthDays] = useState<number[]>(
+    initialRule?.by_month_day?.length
+      ? initialRule.by_month_day
+      : [(selectedTime ?? new Date()).getDate()]
+  );
+  const [setPosition, setSetPosition] = useState<number>(initialRule?.by_set_pos?.[0] ?? 1);
+  const [until, setUntil] = useState<string | null>(initialRule?.until ?? null);
+  const [count, setCount] = useState<number | null>(initialRule?.count ?? null);
+  const [exdates, setExdates] = useState<string[]>(initialRule?.exdates ?? []);
   const [activePicker, setActivePicker] = useState<ActivePicker>(null);
   const [ruleName, setRuleName] = useState<string>(initialRule?.name ?? '');
   const [isMounted, setIsMounted] = useState(visible);
@@ -250,9 +306,13 @@ export default function RecurringRuleModal({
     return frequency === 1 ? unit?.singular : unit?.label;
   };
 
+  const isWeekdaysOnly = () =>
+    selectedDays.length === WEEKDAYS.length && WEEKDAYS.every(d => selectedDays.includes(d));
+
   const getDaysLabel = () => {
     if (selectedDays.length === 0) return 'no days';
     if (selectedDays.length === 7) return 'every day';
+    if (isWeekdaysOnly()) return 'weekdays';
 
     const dayLabels = selectedDays.map(d => {
       const day = DAYS_OF_WEEK.find(dw => dw.value === d);
@@ -272,22 +332,85 @@ export default function RecurringRuleModal({
     );
   };
 
+  const toggleMonthDay = (day: number) => {
+    setMonthDays(prev => {
+      if (!prev.includes(day)) return [...prev, day].sort((a, b) => a - b);
+      // Keep at least one day selected
+      return prev.length > 1 ? prev.filter(d => d !== day) : prev;
+    });
+  };
+
+  const toggleExdate = (dateKey: string) => {
+    setExdates(prev =>
+      prev.includes(dateKey)
+        ? prev.filter(d => d !== dateKey)
+        : [...prev, dateKey].sort()
+    );
+  };
+
+  const getMonthlyLabel = () => {
+    if (monthlyMode === 'day_of_month') {
+      const labels = monthDays.map(formatOrdinal);
+      if (labels.length <= 2) return `the ${labels.join(' & ')}`;
+      return `the ${labels.slice(0, -1).join(', ')} & ${labels[labels.length - 1]}`;
+    }
+    const position = SET_POSITION_OPTIONS.find(p => p.value === setPosition)?.label ?? formatOrdinal(setPosition);
+    return `the ${position} ${isWeekdaysOnly() ? 'weekday' : getDaysLabel()}`;
+  };
+
+  const getEndsLabel = () => {
+    if (count !== null) return `after ${count} times`;
+    if (until) return `on ${formatShortDate(new Date(until))}`;
+    return 'never';
+  };
+
+  const getSkipLabel = () => {
+    if (exdates.length === 0) return 'no dates';
+    return exdates.length === 1 ? '1 date' : `${exdates.length} dates`;
+  };
+
+  // Minutes/hours repeat within a day, so skipping whole dates isn't offered there
+  const supportsSkipDates = frequencyUnit !== 'minutes' && frequencyUnit !== 'hours';
+
+  const getRuleFields = (): RecurrenceRule => {
+    const isMonthly = frequencyUnit === 'months';
+    const usesDays = frequencyUnit === 'weeks' || (isMonthly && monthlyMode === 'weekday');
+    return {
+      frequency,
+      frequency_unit: frequencyUnit,
+      selected_days: usesDays ? selectedDays : [],
+      by_month_day: isMonthly && monthlyMode === 'day_of_month' ? monthDays : [],
+      by_set_pos: isMonthly && monthlyMode === 'weekday' ? [setPosition] : [],
+      until: count === null ? until : null,
+      count,
+      exdates: supportsSkipDates ? exdates : [],
+    };
+  };
+
+  const startDate = selectedTime ?? new Date();
+
+  const getUpcomingOccurrences = () => {
+    // Preview without exclusions so already-skipped dates can be toggled back
+    const rule = { ...getRuleFields(), exdates: [] };
+    const horizon = new Date(startDate.getFullYear() + 5, startDate.getMonth(), startDate.getDate());
+    return expandOccurrences(rule, startDate, new Date(startDate.getTime() - 1), horizon, SKIP_PREVIEW_COUNT);
+  };
+
   const getGeneratedName = () => {
     // For minutes and hours, don't include "Every", use more natural language
-    if (frequencyUnit === 'minutes' || frequencyUnit === 'hours') {
-      return `Every ${frequency} ${getUnitLabel()}`;
-    }
-    return `Every ${frequency} ${getUnitLabel()}${frequencyUnit === 'weeks' ? ` on ${getDaysLabel()}` : ''}`;
+    const base = frequencyUnit === 'minutes' || frequencyUnit === 'hours'
+      ? `Every ${frequency} ${getUnitLabel()}`
+      : `Every ${frequency} ${getUnitLabel()}${frequencyUnit === 'weeks' ? ` on ${getDaysLabel()}` : ''}${frequencyUnit === 'months' ? ` on ${getMonthlyLabel()}` : ''}`;
+    if (count !== null) return `${base}, ${count} times`;
+    if (until) return `${base}, until ${formatShortDate(new Date(until))}`;
+    return base;
   };
 
   const handleSave = () => {
     const rule: RecurringRule = {
       id: initialRule?.id ?? generateId(),
       name: ruleName.trim() || getGeneratedName(),
-      frequency,
-      frequency_unit: frequencyUnit,
-      // Only include selected_days for weekly recurring
-      selected_days: frequencyUnit === 'weeks' ? selectedDays : [],
+      ...getRuleFields(),
     };
     onSave(rule);
     onClose();
@@ -367,6 +490,35 @@ export default function RecurringRuleModal({
                   </Text>
                 </>
               )}
+              {frequencyUnit === 'months' && (
+                <>
+                  {' '}on{' '}
+                  <Text
+                    style={styles.tokenActive}
+                    onPress={() => setActivePicker('monthly')}
+                  >
+                    {getMonthlyLabel()}
+                  </Text>
+                </>
+              )}
+              {'\n'}ends{' '}
+              <Text
+                style={styles.tokenActive}
+                onPress={() => setActivePicker('ends')}
+              >
+                {getEndsLabel()}
+              </Text>
+              {supportsSkipDates && (
+                <>
+                  , skipping{' '}
+                  <Text
+                    style={styles.tokenActive}
+                    onPress={() => setActivePicker('skip')}
+                  >
+                    {getSkipLabel()}
+                  </Text>
+                </>
+              )}
             </Text>
 
             <Text style={styles.hintText}>
@@ -561,6 +713,261 @@ export default function RecurringRuleModal({
             </Pressable>
           </Pressable>
         </Modal>
+
+        {/* Monthly Picker Modal */}
+        <Modal
+          visible={activePicker === 'monthly'}
+          transparent
+          animationType="fade"
+          onRequestClose={closePicker}
+        >
+          <Pressable style={styles.pickerOverlay} onPress={closePicker}>
+            <Pressable style={[styles.pickerContainer, styles.pickerContainerWide]} onPress={e => e.stopPropagation()}>
+              <View style={styles.pickerHeader}>
+                <Text style={styles.pickerTitle}>Repeat On</Text>
+                <AnimatedModalButton onPress={closePicker} style={styles.pickerCloseBtn} variant="close">
+                  <CloseIcon />
+                </AnimatedModalButton>
+              </View>
+              <View style={styles.chipRow}>
+                {([
+                  { label: 'Day of month', value: 'day_of_month' },
+                  { label: 'Day of week', value: 'weekday' },
+                ] as { label: string; value: MonthlyMode }[]).map(mode => (
+                  <AnimatedPickerOption
+                    key={mode.value}
+                    onPress={() => setMonthlyMode(mode.value)}
+                    isSelected={monthlyMode === mode.value}
+                    style={[
+                      styles.dayChip,
+                      monthlyMode === mode.value && styles.dayChipSelected,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.dayChipText,
+                        monthlyMode === mode.value && styles.dayChipTextSelected,
+                      ]}
+                    >
+                      {mode.label}
+                    </Text>
+                  </AnimatedPickerOption>
+                ))}
+              </View>
+
+              {monthlyMode === 'day_of_month' ? (
+                <>
+                  <Text style={styles.pickerSubtitle}>
+                    Days that don't exist in a month are skipped
+                  </Text>
+                  <View style={styles.daysGrid}>
+                    {MONTH_DAY_OPTIONS.map(day => (
+                      <AnimatedPickerOption
+                        key={day}
+                        onPress={() => toggleMonthDay(day)}
+                        isSelected={monthDays.includes(day)}
+                        style={[
+                          day === -1 ? styles.dayChip : styles.monthDayChip,
+                          monthDays.includes(day) && styles.dayChipSelected,
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.dayChipText,
+                            monthDays.includes(day) && styles.dayChipTextSelected,
+                          ]}
+                        >
+                          {day === -1 ? 'Last day' : day}
+                        </Text>
+                      </AnimatedPickerOption>
+                    ))}
+                  </View>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.pickerSectionLabel}>Which one</Text>
+                  <View style={styles.chipRow}>
+                    {SET_POSITION_OPTIONS.map(position => (
+                      <AnimatedPickerOption
+                        key={position.value}
+                        onPress={() => setSetPosition(position.value)}
+                        isSelected={setPosition === position.value}
+                        style={[
+                          styles.dayChip,
+                          setPosition === position.value && styles.dayChipSelected,
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.dayChipText,
+                            setPosition === position.value && styles.dayChipTextSelected,
+                          ]}
+                        >
+                          {position.label}
+                        </Text>
+                      </AnimatedPickerOption>
+                    ))}
+                  </View>
+                  <Text style={styles.pickerSectionLabel}>Of these days</Text>
+                  <View style={styles.daysGrid}>
+                    {DAYS_OF_WEEK.map(day => (
+                      <AnimatedPickerOption
+                        key={day.value}
+                        onPress={() => toggleDay(day.value)}
+                        isSelected={selectedDays.includes(day.value)}
+                        style={[
+                          styles.dayChip,
+                          selectedDays.includes(day.value) && styles.dayChipSelected,
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.dayChipText,
+                            selectedDays.includes(day.value) && styles.dayChipTextSelected,
+                          ]}
+                        >
+                          {day.label}
+                        </Text>
+                      </AnimatedPickerOption>
+                    ))}
+                  </View>
+                </>
+              )}
+              <AnimatedModalButton onPress={closePicker} style={styles.daysConfirmBtn}>
+                <Text style={styles.daysConfirmText}>Done</Text>
+              </AnimatedModalButton>
+            </Pressable>
+          </Pressable>
+        </Modal>
+
+        {/* Ends Picker Modal */}
+        <Modal
+          visible={activePicker === 'ends'}
+          transparent
+          animationType="fade"
+          onRequestClose={closePicker}
+        >
+          <Pressable style={styles.pickerOverlay} onPress={closePicker}>
+            <Pressable style={[styles.pickerContainer, styles.pickerContainerWide]} onPress={e => e.stopPropagation()}>
+              <View style={styles.pickerHeader}>
+                <Text style={styles.pickerTitle}>Ends</Text>
+                <AnimatedModalButton onPress={closePicker} style={styles.pickerCloseBtn} variant="close">
+                  <CloseIcon />
+                </AnimatedModalButton>
+              </View>
+              <AnimatedPickerOption
+                onPress={() => {
+                  setCount(null);
+                  setUntil(null);
+                  closePicker();
+                }}
+                isSelected={count === null && !until}
+                style={[
+                  styles.pickerListItem,
+                  count === null && !until && styles.pickerListItemSelected,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.pickerListText,
+                    count === null && !until && styles.pickerListTextSelected,
+                  ]}
+                >
+                  Never
+                </Text>
+                {count === null && !until && <CheckCircleIcon color="#2F00FF" />}
+              </AnimatedPickerOption>
+
+              <Text style={styles.pickerSectionLabel}>After</Text>
+              <View style={styles.chipRow}>
+                {END_COUNT_OPTIONS.map(option => (
+                  <AnimatedPickerOption
+                    key={option}
+                    onPress={() => {
+                      setCount(option);
+                      setUntil(null);
+                      closePicker();
+                    }}
+                    isSelected={count === option}
+                    style={[styles.dayChip, count === option && styles.dayChipSelected]}
+                  >
+                    <Text style={[styles.dayChipText, count === option && styles.dayChipTextSelected]}>
+                      {option} times
+                    </Text>
+                  </AnimatedPickerOption>
+                ))}
+              </View>
+
+              <Text style={styles.pickerSectionLabel}>In</Text>
+              <View style={styles.chipRow}>
+                {END_DATE_OPTIONS.map(option => {
+                  const endDate = new Date(startDate);
+                  endDate.setMonth(endDate.getMonth() + option.months);
+                  const isSelected = count === null && !!until && toDateKey(new Date(until)) === toDateKey(endDate);
+                  return (
+                    <AnimatedPickerOption
+                      key={option.months}
+                      onPress={() => {
+                        setUntil(endDate.toISOString());
+                        setCount(null);
+                        closePicker();
+                      }}
+                      isSelected={isSelected}
+                      style={[styles.dayChip, isSelected && styles.dayChipSelected]}
+                    >
+                      <Text style={[styles.dayChipText, isSelected && styles.dayChipTextSelected]}>
+                        {option.label}
+                      </Text>
+                    </AnimatedPickerOption>
+                  );
+                })}
+              </View>
+            </Pressable>
+          </Pressable>
+        </Modal>
+
+        {/* Skip Dates Picker Modal */}
+        <Modal
+          visible={activePicker === 'skip'}
+          transparent
+          animationType="fade"
+          onRequestClose={closePicker}
+        >
+          <Pressable style={styles.pickerOverlay} onPress={closePicker}>
+            <Pressable style={[styles.pickerContainer, styles.pickerContainerWide]} onPress={e => e.stopPropagation()}>
+              <View style={styles.pickerHeader}>
+                <Text style={styles.pickerTitle}>Skip Dates</Text>
+                <AnimatedModalButton onPress={closePicker} style={styles.pickerCloseBtn} variant="close">
+                  <CloseIcon />
+                </AnimatedModalButton>
+              </View>
+              <Text style={styles.pickerSubtitle}>
+                Tap upcoming dates to skip them
+              </Text>
+              <View style={styles.daysGrid}>
+                {activePicker === 'skip' && getUpcomingOccurrences().map(date => {
+                  const dateKey = toDateKey(date);
+                  const isSkipped = exdates.includes(dateKey);
+                  return (
+                    <AnimatedPickerOption
+                      key={dateKey}
+                      onPress={() => toggleExdate(dateKey)}
+                      isSelected={isSkipped}
+                      style={[styles.dayChip, isSkipped && styles.dayChipSelected]}
+                    >
+                      <Text style={[styles.dayChipText, isSkipped && styles.dayChipTextSelected]}>
+                        {formatShortDate(date, true)}
+                      </Text>
+                    </AnimatedPickerOption>
+                  );
+                })}
+              </View>
+              <AnimatedModalButton onPress={closePicker} style={styles.daysConfirmBtn}>
+                <Text style={styles.daysConfirmText}>Done</Text>
+              </AnimatedModalButton>
+            </Pressable>
+          </Pressable>
+        </Modal>
     </Modal>
   );
 }
@@ -858,6 +1265,29 @@ const styles = StyleSheet.create({
   dayChipSelected: {
     backgroundColor: '#2F00FF',
   },
+  monthDayChip: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(18, 16, 24, 0.04)',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  pickerSectionLabel: {
+    fontSize: 11,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: 'rgba(18, 16, 24, 0.5)',
+    marginTop: 12,
+    marginBottom: 8,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
   dayChipText: {
     fontSize: 13,
     fontFamily: 'BricolageGrotesque-Medium',
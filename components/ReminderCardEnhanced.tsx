@@ -5,6 +5,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import { accordionAnimation } from '../lib/animations';
+import { describeNotifyOffsets } from '../lib/notifyOffsets';
 import type { Reminder, ReminderStatus } from '../lib/types';
 
 interface ReminderCardEnhancedProps {
@@ -253,7 +254,7 @@ export default function ReminderCardEnhanced({
 
           {/* Metadata row */}
           <View style={styles.metadataRow}>
-            {reminder.notify_before_minutes > 0 && (
+            {reminder.notify_offsets.some((offset) => offset > 0) && (
               <View style={styles.metadataItem}>
                 <MaterialIcons
                   name="notifications-active"
@@ -261,10 +262,34 @@ export default function ReminderCardEnhanced({
                   color={theme.colors.textTertiary}
                 />
                 <Text style={[styles.metadataText, { color: theme.colors.textTertiary }]}>
-                  {reminder.notify_before_minutes}m before
+                  {describeNotifyOffsets(reminder.notify_offsets)}
                 </Text>
               </View>
             )}
+
+            {reminder.subtask_count > 0 && (
+              <View style={styles.metadataItem}>
+                <MaterialIcons
+                  name="checklist"
+                  size={14}
+                  color={theme.colors.textTertiary}
+                />
+                <Text style={[styles.metadataText, { color: theme.colors.textTertiary }]}>
+                  {reminder.subtask_done_count}/{reminder.subtask_count}
+                </Text>
+                <View style={[styles.subtaskTrack, { backgroundColor: theme.colors.border }]}>
+                  <View
+                    style={[
+                      styles.subtaskFill,
+                      {
+                        backgroundColor: theme.colors.success,
+                        width: `${(reminder.subtask_done_count / reminder.subtask_count) * 100}%`,
+                      },
+                    ]}
+                  />
+                </View>
+              </View>
+            )}
           </View>
 
           {/* Action buttons (shown when card is expanded) */}
@@ -457,6 +482,15 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontFamily: 'BricolageGrotesque-Regular',
   },
+  subtaskTrack: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  subtaskFill: {
+    height: '100%',
+  },
   actionsRow: {
     flexDirection: 'row',
     alignItems: 'center',
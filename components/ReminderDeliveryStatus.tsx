@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getReminderDeliveries } from '../lib/notificationDeliveries';
+import { NotificationDelivery, Reminder } from '../lib/types';
+
+interface ReminderDeliveryStatusProps {
+  reminder: Reminder;
+}
+
+function formatDeliveryTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function describeDevice(delivery: NotificationDelivery): string {
+  return delivery.device_name || 'an unnamed device';
+}
+
+function describeSuccess(delivery: NotificationDelivery): string {
+  // Expo pushes stay "sent" until their receipt comes back; FCM never confirms
+  const verb = delivery.status === 'delivered' ? 'Delivered to' : 'Sent to';
+  const via = delivery.provider === 'local' ? '' : ' by push';
+  return `${verb} ${describeDevice(delivery)}${via} · ${formatDeliveryTime(delivery.created_at)}`;
+}
+
+/**
+ * Where the reminder's notification last reached, and the latest failure if it came after that
+ */
+export default function ReminderDeliveryStatus({ reminder }: ReminderDeliveryStatusProps) {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDeliveries([]);
+    getReminderDeliveries(reminder.id)
+      .then((data) => {
+        if (!cancelled) setDeliveries(data);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [reminder.id, reminder.notified_at]);
+
+  const lastSuccess = deliveries.find((delivery) => delivery.status !== 'failed');
+  const lastFailure = deliveries.find((delivery) => delivery.status === 'failed');
+  const showFailure = lastFailure && (!lastSuccess || lastFailure.created_at > lastSuccess.created_at);
+  const otherDevices = Array.from(
+    new Set(
+      deliveries
+        .filter((delivery) => delivery.status !== 'failed' && delivery.device_id !== lastSuccess?.device_id)
+        .map(describeDevice)
+    )
+  );
+
+  if (!lastSuccess && !lastFailure) return null;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionLabel}>Delivery</Text>
+      {lastSuccess && (
+        <View style={styles.row}>
+          <MaterialIcons name="devices" size={16} color="#10b981" />
+          <Text style={styles.rowText}>{describeSuccess(lastSuccess)}</Text>
+        </View>
+      )}
+      {otherDevices.length > 0 && (
+        <Text style={styles.secondaryText}>Also reached {otherDevices.join(', ')}</Text>
+      )}
+      {showFailure && lastFailure && (
+        <View style={styles.row}>
+          <MaterialIcons name="error-outline" size={16} color="#ef4444" />
+          <Text style={[styles.rowText, styles.failureText]}>
+            Failed on {describeDevice(lastFailure)}: {lastFailure.error_code || 'Unknown error'} ·{' '}
+            {formatDeliveryTime(lastFailure.created_at)}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: 12,
+    paddingTop: 4,
+    paddingBottom: 10,
+    gap: 6,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#9ca3af',
+    marginBottom: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#374151',
+  },
+  failureText: {
+    color: '#ef4444',
+  },
+  secondaryText: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#9ca3af',
+    marginLeft: 24,
+  },
+});
@@ -0,0 +1,298 @@
+import '../global.css';
+import { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Animated,
+  Dimensions,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import {
+  DEFAULT_PLACE_RADIUS_M,
+  geocodePlaceAddress,
+  getCurrentPlaceLocation,
+  getSavedPlaces,
+  MAX_PLACE_NAME_LENGTH,
+  PlaceLocation,
+  removeSavedPlace,
+  savePlace,
+} from '../lib/savedPlaces';
+import type { SavedPlace } from '../lib/types';
+
+const RADIUS_OPTIONS = [100, 150, 300, 500];
+
+interface SavedPlacesModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function SavedPlacesModal({ visible, onClose }: SavedPlacesModalProps) {
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [address, setAddress] = useState('');
+  const [radius, setRadius] = useState(DEFAULT_PLACE_RADIUS_M);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isMounted, setIsMounted] = useState(visible);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(Dimensions.get('window').height)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setError(null);
+      loadPlaces();
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (visible) {
+      setIsMounted(true);
+      fadeAnim.setValue(0);
+      slideAnim.setValue(Dimensions.get('window').height);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 170,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 240,
+          friction: 26,
+          useNativeDriver: true,
+        }),
+      ]).start();
+      return;
+    }
+
+    if (isMounted) {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 170,
+          useNativeDriver: true,
+        }),
+        Animated.timing(slideAnim, {
+          toValue: Dimensions.get('window').height,
+          duration: 190,
+          useNativeDriver: true,
+        }),
+      ]).start(({ finished }) => {
+        if (finished) {
+          setIsMounted(false);
+        }
+      });
+    }
+  }, [visible, isMounted, fadeAnim, slideAnim]);
+
+  const loadPlaces = async () => {
+    try {
+      setLoading(true);
+      setPlaces(await getSavedPlaces());
+    } catch {
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Address when typed, otherwise wherever the device is now
+  const handleAdd = async () => {
+    if (!name.trim() || isSaving) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      let location: PlaceLocation | null;
+      if (address.trim()) {
+        location = await geocodePlaceAddress(address);
+        if (!location) {
+          setError("Couldn't find that address");
+          return;
+        }
+      } else {
+        location = await getCurrentPlaceLocation();
+      }
+
+      setPlaces(await savePlace({ name, radius_m: radius, ...location }));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setName('');
+      setAddress('');
+      setRadius(DEFAULT_PLACE_RADIUS_M);
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError("Couldn't save the place. Check location access and try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Reminders already set for a place keep its coordinates
+  const handleRemove = async (place: SavedPlace) => {
+    try {
+      setBusyId(place.id);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      setPlaces(await removeSavedPlace(place.id));
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isMounted) return null;
+
+  return (
+    <Modal
+      visible={isMounted}
+      animationType="none"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end">
+        <Animated.View
+          style={[
+            StyleSheet.absoluteFillObject,
+            {
+              backgroundColor: '#000000',
+              opacity: fadeAnim.interpolate({ inputRange: [0, 1], outputRange: [0, 0.5] }),
+            },
+          ]}
+        >
+          <Pressable style={StyleSheet.absoluteFillObject} onPress={onClose} />
+        </Animated.View>
+        <Animated.View style={{ transform: [{ translateY: slideAnim }], maxHeight: '85%' }}>
+          <View className="bg-[#f6f1ff] rounded-t-[40px] pt-8 pb-12 px-6">
+            {/* Close button */}
+            <Pressable onPress={onClose} className="absolute top-6 right-6 z-10 w-10 h-10 items-center justify-center rounded-full bg-black/5">
+              <MaterialIcons name="close" size={22} color="#666" />
+            </Pressable>
+
+            {/* Title */}
+            <View className="mt-2 mb-6 pr-12">
+              <Text className="text-[28px] tracking-tight text-[#121018]" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                Saved Places
+              </Text>
+              <Text className="text-sm text-gray-400 mt-1" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                Use them for "when I arrive" and "when I leave" reminders.
+              </Text>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              {/* Add place */}
+              <View className="bg-white rounded-3xl p-4 mb-4 gap-3">
+                <TextInput
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Name (Home, Office, Gym)"
+                  placeholderTextColor="#9ca3af"
+                  maxLength={MAX_PLACE_NAME_LENGTH}
+                  editable={!isSaving}
+                  className="text-base text-[#121018] bg-gray-50 rounded-2xl px-4 py-3"
+                  style={{ fontFamily: 'BricolageGrotesque-Medium' }}
+                />
+                <TextInput
+                  value={address}
+                  onChangeText={setAddress}
+                  placeholder="Address (leave empty for current location)"
+                  placeholderTextColor="#9ca3af"
+                  editable={!isSaving}
+                  className="text-base text-[#121018] bg-gray-50 rounded-2xl px-4 py-3"
+                  style={{ fontFamily: 'BricolageGrotesque-Regular' }}
+                />
+                <View className="flex-row items-center gap-2">
+                  {RADIUS_OPTIONS.map((option) => {
+                    const active = option === radius;
+                    return (
+                      <Pressable
+                        key={option}
+                        onPress={() => setRadius(option)}
+                        className={`px-3 py-2 rounded-xl ${active ? 'bg-[#2f00ff]' : 'bg-gray-50'}`}
+                      >
+                        <Text
+                          className={`text-xs ${active ? 'text-white' : 'text-gray-500'}`}
+                          style={{ fontFamily: 'BricolageGrotesque-Bold' }}
+                        >
+                          {option} m
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <Pressable
+                  onPress={handleAdd}
+                  disabled={!name.trim() || isSaving}
+                  className={`flex-row items-center justify-center gap-2 py-3 rounded-2xl bg-[#2f00ff] ${!name.trim() ? 'opacity-40' : ''}`}
+                >
+                  {isSaving ? (
+                    <ActivityIndicator color="#ffffff" />
+                  ) : (
+                    <>
+                      <MaterialIcons name={address.trim() ? 'add-location-alt' : 'my-location'} size={18} color="#ffffff" />
+                      <Text className="text-sm text-white" style={{ fontFamily: 'BricolageGrotesque-Bold' }}>
+                        {address.trim() ? 'Save place' : 'Save current location'}
+                      </Text>
+                    </>
+                  )}
+                </Pressable>
+                {error && (
+                  <Text className="text-xs text-red-500" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                    {error}
+                  </Text>
+                )}
+              </View>
+
+              {loading ? (
+                <View className="py-12 items-center justify-center">
+                  <ActivityIndicator size="large" color="#2f00ff" />
+                </View>
+              ) : places.length === 0 ? (
+                <View className="py-12 items-center justify-center">
+                  <MaterialIcons name="place" size={40} color="#d1d5db" />
+                  <Text className="text-base text-gray-400 mt-3" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                    No saved places yet
+                  </Text>
+                </View>
+              ) : (
+                places.map((place) => (
+                  <View key={place.id} className="bg-white rounded-3xl p-4 mb-3 flex-row items-center gap-3">
+                    <View className="w-10 h-10 rounded-full bg-[#2f00ff]/10 items-center justify-center">
+                      <MaterialIcons name="place" size={20} color="#2f00ff" />
+                    </View>
+                    <View className="flex-1">
+                      <Text className="text-base text-[#121018]" style={{ fontFamily: 'BricolageGrotesque-Medium' }} numberOfLines={1}>
+                        {place.name}
+                      </Text>
+                      <Text className="text-xs text-gray-400 mt-0.5" style={{ fontFamily: 'BricolageGrotesque-Regular' }} numberOfLines={1}>
+                        {place.address ? `${place.address} · ` : ''}{place.radius_m} m
+                      </Text>
+                    </View>
+
+                    {busyId === place.id ? (
+                      <ActivityIndicator color="#2f00ff" />
+                    ) : (
+                      <Pressable
+                        onPress={() => handleRemove(place)}
+                        className="w-9 h-9 items-center justify-center rounded-xl bg-red-50"
+                      >
+                        <MaterialIcons name="delete-outline" size={18} color="#ef4444" />
+                      </Pressable>
+                    )}
+                  </View>
+                ))
+              )}
+            </ScrollView>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
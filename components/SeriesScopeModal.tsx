@@ -0,0 +1,265 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Animated,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { SeriesScope } from '../lib/types';
+
+const OPEN_DURATION = 170;
+const CLOSE_DURATION = 180;
+
+const SCOPE_OPTIONS: { scope: SeriesScope; label: string }[] = [
+  { scope: 'this', label: 'This reminder' },
+  { scope: 'following', label: 'This and following' },
+  { scope: 'all', label: 'All reminders in series' },
+];
+
+interface SeriesScopeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (scope: SeriesScope) => void;
+  title: string;
+  message?: string;
+  cancelText?: string;
+  color?: string;
+  icon?: keyof typeof MaterialIcons.glyphMap;
+}
+
+// Asks which occurrences of a recurring reminder an edit, snooze or delete applies to
+export default function SeriesScopeModal({
+  visible,
+  onClose,
+  onSelect,
+  title,
+  message,
+  cancelText = 'Cancel',
+  color = '#2F00FF',
+  icon = 'repeat',
+}: SeriesScopeModalProps) {
+  const [isMounted, setIsMounted] = useState(visible);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const scaleAnim = useRef(new Animated.Value(0.9)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setIsMounted(true);
+      fadeAnim.setValue(0);
+      scaleAnim.setValue(0.9);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      const openAnim = Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: OPEN_DURATION,
+          useNativeDriver: true,
+        }),
+        Animated.spring(scaleAnim, {
+          toValue: 1,
+          tension: 320,
+          friction: 24,
+          useNativeDriver: true,
+        }),
+      ]);
+      openAnim.start();
+      return () => openAnim.stop();
+    }
+
+    if (isMounted) {
+      const closeAnim = Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: CLOSE_DURATION,
+          useNativeDriver: true,
+        }),
+        Animated.timing(scaleAnim, {
+          toValue: 0.95,
+          duration: CLOSE_DURATION,
+          useNativeDriver: true,
+        }),
+      ]);
+      closeAnim.start(({ finished }) => {
+        if (finished) {
+          setIsMounted(false);
+        }
+      });
+      return () => closeAnim.stop();
+    }
+  }, [visible, isMounted, fadeAnim, scaleAnim]);
+
+  const handleSelect = (scope: SeriesScope) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    onSelect(scope);
+    onClose();
+  };
+
+  const handleCancel = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onClose();
+  };
+
+  if (!isMounted) return null;
+
+  return (
+    <Modal
+      visible={isMounted}
+      transparent
+      animationType="none"
+      onRequestClose={handleCancel}
+      statusBarTranslucent
+    >
+      <View style={styles.root}>
+        {/* Backdrop */}
+        <Animated.View
+          style={[
+            styles.backdrop,
+            {
+              opacity: fadeAnim.interpolate({
+                inputRange: [0, 1],
+                outputRange: [0, 0.6],
+              }),
+            },
+          ]}
+        >
+          <Pressable style={StyleSheet.absoluteFill} onPress={handleCancel} />
+        </Animated.View>
+
+        {/* Modal content */}
+        <Animated.View
+          style={[
+            styles.modalContainer,
+            {
+              opacity: fadeAnim,
+              transform: [{ scale: scaleAnim }],
+            },
+          ]}
+        >
+          <View style={styles.modal}>
+            {/* Icon */}
+            <View style={[styles.iconContainer, { backgroundColor: `${color}15` }]}>
+              <MaterialIcons name={icon} size={32} color={color} />
+            </View>
+
+            {/* Title */}
+            <Text style={styles.title}>{title}</Text>
+
+            {/* Message */}
+            {message && <Text style={styles.message}>{message}</Text>}
+
+            {/* Scope options */}
+            <View style={styles.options}>
+              {SCOPE_OPTIONS.map(option => (
+                <Pressable
+                  key={option.scope}
+                  style={({ pressed }) => [
+                    styles.button,
+                    { backgroundColor: color },
+                    pressed && styles.buttonPressed,
+                  ]}
+                  onPress={() => handleSelect(option.scope)}
+                >
+                  <Text style={styles.optionText}>{option.label}</Text>
+                </Pressable>
+              ))}
+
+              <Pressable
+                style={({ pressed }) => [
+                  styles.button,
+                  styles.cancelButton,
+                  pressed && styles.buttonPressed,
+                ]}
+                onPress={handleCancel}
+              >
+                <Text style={styles.cancelText}>{cancelText}</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000000',
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    borderRadius: 24,
+    padding: 24,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 40,
+    shadowOffset: { width: 0, height: 10 },
+    elevation: 15,
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+    textAlign: 'center',
+    marginBottom: 8,
+    letterSpacing: 0.3,
+  },
+  message: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#666666',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  options: {
+    gap: 10,
+    width: '100%',
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonPressed: {
+    opacity: 0.7,
+  },
+  cancelButton: {
+    backgroundColor: '#f5f5f5',
+  },
+  cancelText: {
+    fontSize: 15,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#666666',
+    letterSpacing: 0.3,
+  },
+  optionText: {
+    fontSize: 15,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#ffffff',
+    letterSpacing: 0.3,
+  },
+});
@@ -0,0 +1,492 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Animated,
+  Dimensions,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { supabase } from '../lib/supabase';
+import { getReminderShares, isReminderShareError, removeReminderShare, shareReminder } from '../lib/reminderShares';
+import { Reminder, ReminderShare } from '../lib/types';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+const OPEN_FADE_DURATION = 170;
+const CLOSE_FADE_DURATION = 170;
+const CLOSE_SLIDE_DURATION = 190;
+
+interface ShareReminderModalProps {
+  visible: boolean;
+  onClose: () => void;
+  reminder: Reminder | null;
+  // Called after a participant is added or removed, or the user leaves
+  onSharesChanged?: () => void;
+}
+
+export default function ShareReminderModal({
+  visible,
+  onClose,
+  reminder,
+  onSharesChanged,
+}: ShareReminderModalProps) {
+  const [isMounted, setIsMounted] = useState(visible);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [shares, setShares] = useState<ReminderShare[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+
+  const isOwner = Boolean(reminder && userId && reminder.user_id === userId);
+
+  const loadShares = useCallback(async () => {
+    if (!reminder) return;
+    setIsLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      setUserId(session?.user.id ?? null);
+      setShares(await getReminderShares(reminder));
+    } catch {
+      setError("Couldn't load who this reminder is shared with");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reminder]);
+
+  useEffect(() => {
+    if (visible) {
+      setEmail('');
+      setError(null);
+      void loadShares();
+    }
+  }, [visible, loadShares]);
+
+  useEffect(() => {
+    if (visible) {
+      setIsMounted(true);
+      fadeAnim.setValue(0);
+      slideAnim.setValue(SCREEN_HEIGHT);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      const openAnim = Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: OPEN_FADE_DURATION,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 320,
+          friction: 32,
+          useNativeDriver: true,
+        }),
+      ]);
+      openAnim.start();
+      return () => openAnim.stop();
+    }
+
+    if (isMounted) {
+      const closeAnim = Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: CLOSE_FADE_DURATION,
+          useNativeDriver: true,
+        }),
+        Animated.timing(slideAnim, {
+          toValue: SCREEN_HEIGHT,
+          duration: CLOSE_SLIDE_DURATION,
+          useNativeDriver: true,
+        }),
+      ]);
+      closeAnim.start(({ finished }) => {
+        if (finished) {
+          setIsMounted(false);
+        }
+      });
+      return () => closeAnim.stop();
+    }
+  }, [visible, isMounted, fadeAnim, slideAnim]);
+
+  const handleClose = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onClose();
+  };
+
+  const handleInvite = async () => {
+    const trimmed = email.trim();
+    if (!reminder || !trimmed || isBusy) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const share = await shareReminder(reminder.id, trimmed);
+      setShares((current) => [...current.filter((existing) => existing.id !== share.id), share]);
+      setEmail('');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onSharesChanged?.();
+    } catch (shareError) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(isReminderShareError(shareError) ? shareError.message : `Couldn't share with ${trimmed}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemove = async (share: ReminderShare) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await removeReminderShare(share.id);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      onSharesChanged?.();
+      if (!isOwner) {
+        // Leaving hides the reminder, so there's nothing left to manage
+        onClose();
+        return;
+      }
+      setShares((current) => current.filter((existing) => existing.id !== share.id));
+    } catch {
+      setError(isOwner ? "Couldn't remove this person" : "Couldn't leave this reminder");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isMounted) return null;
+
+  const ownShare = shares.find((share) => share.shared_with === userId);
+
+  return (
+    <Modal
+      visible={isMounted}
+      transparent
+      animationType="none"
+      onRequestClose={handleClose}
+      statusBarTranslucent
+    >
+      <KeyboardAvoidingView
+        style={styles.root}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Backdrop */}
+        <Animated.View
+          style={[
+            styles.backdrop,
+            {
+              opacity: fadeAnim.interpolate({
+                inputRange: [0, 1],
+                outputRange: [0, 0.5],
+              }),
+            },
+          ]}
+        >
+          <Pressable style={StyleSheet.absoluteFill} onPress={handleClose} />
+        </Animated.View>
+
+        {/* Modal content */}
+        <Animated.View
+          style={[
+            styles.modalContainer,
+            {
+              transform: [{ translateY: slideAnim }],
+            },
+          ]}
+        >
+          <View style={styles.modal}>
+            {/* Handle bar */}
+            <View style={styles.handleBar} />
+
+            {/* Header */}
+            <View style={styles.header}>
+              <MaterialIcons name="people" size={24} color="#7c3aed" />
+              <Text style={styles.title} numberOfLines={1}>
+                {reminder?.title || 'Share reminder'}
+              </Text>
+            </View>
+
+            <ScrollView
+              style={styles.scroll}
+              showsVerticalScrollIndicator={false}
+              keyboardShouldPersistTaps="handled"
+            >
+              {isLoading ? (
+                <ActivityIndicator style={styles.loading} color="#7c3aed" />
+              ) : isOwner ? (
+                <>
+                  <Text style={styles.subtitle}>
+                    {shares.length === 0 ? 'Not shared yet' : 'Shared with'}
+                  </Text>
+                  {shares.map((share) => (
+                    <View key={share.id} style={styles.personRow}>
+                      <View style={styles.avatar}>
+                        <Text style={styles.avatarText}>{share.shared_with_email.charAt(0).toUpperCase()}</Text>
+                      </View>
+                      <Text style={styles.personEmail} numberOfLines={1}>{share.shared_with_email}</Text>
+                      {share.status === 'pending' && <Text style={styles.pendingLabel}>Invited</Text>}
+                      <Pressable
+                        onPress={() => void handleRemove(share)}
+                        disabled={isBusy}
+                        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      >
+                        <MaterialIcons name="close" size={20} color="#888888" />
+                      </Pressable>
+                    </View>
+                  ))}
+
+                  <View style={styles.inviteRow}>
+                    <TextInput
+                      style={styles.input}
+                      value={email}
+                      onChangeText={setEmail}
+                      placeholder="Invite by email"
+                      placeholderTextColor="#b5b2c2"
+                      keyboardType="email-address"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      returnKeyType="send"
+                      editable={!isBusy}
+                      onSubmitEditing={() => void handleInvite()}
+                    />
+                    <Pressable
+                      onPress={() => void handleInvite()}
+                      disabled={isBusy || !email.trim()}
+                      style={[styles.inviteButton, (isBusy || !email.trim()) && styles.inviteButtonDisabled]}
+                    >
+                      {isBusy ? (
+                        <ActivityIndicator size="small" color="#ffffff" />
+                      ) : (
+                        <Text style={styles.inviteButtonText}>Invite</Text>
+                      )}
+                    </Pressable>
+                  </View>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.subtitle}>
+                    Shared with you by {ownShare?.owner_email || 'another Synco user'}
+                  </Text>
+                  <Text style={styles.participantHint}>
+                    You'll be notified for this reminder and can mark it done for everyone.
+                  </Text>
+                  {ownShare && (
+                    <Pressable
+                      onPress={() => void handleRemove(ownShare)}
+                      disabled={isBusy}
+                      style={({ pressed }) => [styles.leaveButton, pressed && styles.leaveButtonPressed]}
+                    >
+                      <MaterialIcons name="logout" size={18} color="#ef4444" />
+                      <Text style={styles.leaveButtonText}>Leave reminder</Text>
+                    </Pressable>
+                  )}
+                </>
+              )}
+
+              {error && <Text style={styles.errorText}>{error}</Text>}
+            </ScrollView>
+
+            {/* Cancel button */}
+            <Pressable
+              style={({ pressed }) => [
+                styles.cancelButton,
+                pressed && styles.cancelButtonPressed,
+              ]}
+              onPress={handleClose}
+            >
+              <Text style={styles.cancelText}>DONE</Text>
+            </Pressable>
+          </View>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000000',
+  },
+  modalContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    borderRadius: 24,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOpacity: 0.15,
+    shadowRadius: 30,
+    shadowOffset: { width: 0, height: -5 },
+    elevation: 10,
+  },
+  handleBar: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+    letterSpacing: 0.5,
+    flex: 1,
+  },
+  subtitle: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#888888',
+    textAlign: 'center',
+    letterSpacing: 0.3,
+    marginBottom: 16,
+    textTransform: 'uppercase',
+  },
+  scroll: {
+    maxHeight: SCREEN_HEIGHT * 0.5,
+    paddingHorizontal: 24,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(124, 58, 237, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#7c3aed',
+  },
+  personEmail: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#121118',
+  },
+  pendingLabel: {
+    marginRight: 12,
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#888888',
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 16,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e3ee',
+    paddingHorizontal: 14,
+    fontSize: 15,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#121118',
+  },
+  inviteButton: {
+    height: 44,
+    minWidth: 76,
+    borderRadius: 12,
+    backgroundColor: '#7c3aed',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+  },
+  inviteButtonDisabled: {
+    opacity: 0.4,
+  },
+  inviteButtonText: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#ffffff',
+  },
+  participantHint: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#555555',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  leaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(239, 68, 68, 0.08)',
+  },
+  leaveButtonPressed: {
+    opacity: 0.7,
+  },
+  leaveButtonText: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#ef4444',
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  cancelButton: {
+    marginTop: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  cancelButtonPressed: {
+    backgroundColor: '#f8f8f8',
+  },
+  cancelText: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#888888',
+    letterSpacing: 2,
+  },
+});
@@ -0,0 +1,365 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { supabase } from '../lib/supabase';
+import { updateReminder } from '../lib/reminders';
+import {
+  addSubtask,
+  areAllSubtasksDone,
+  deleteSubtask,
+  getSubtasks,
+  MAX_SUBTASK_TITLE_LENGTH,
+  reorderSubtasks,
+  setSubtaskDone,
+} from '../lib/reminderSubtasks';
+import { Reminder, ReminderSubtask } from '../lib/types';
+
+interface SubtaskChecklistProps {
+  reminder: Reminder;
+  // Called after any change so lists can refresh the reminder's progress
+  onChange?: () => void;
+  // Called when the last subtask is checked and the reminder auto-completes
+  onAllDone?: () => void;
+}
+
+export default function SubtaskChecklist({ reminder, onChange, onAllDone }: SubtaskChecklistProps) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [subtasks, setSubtasks] = useState<ReminderSubtask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [autoComplete, setAutoComplete] = useState(reminder.auto_complete_subtasks);
+  const [error, setError] = useState<string | null>(null);
+
+  // Participants of a shared reminder can only check items off
+  const isOwner = Boolean(userId && reminder.user_id === userId);
+  const doneCount = subtasks.filter((subtask) => subtask.done).length;
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      setUserId(session?.user.id ?? null);
+      setSubtasks(await getSubtasks(reminder.id));
+    } catch {
+      setError("Couldn't load subtasks");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reminder.id]);
+
+  useEffect(() => {
+    setError(null);
+    setIsEditing(false);
+    setAutoComplete(reminder.auto_complete_subtasks);
+    void load();
+  }, [load, reminder.auto_complete_subtasks]);
+
+  const handleToggle = async (subtask: ReminderSubtask) => {
+    const done = !subtask.done;
+    const next = subtasks.map((item) => (item.id === subtask.id ? { ...item, done } : item));
+    setSubtasks(next);
+    setError(null);
+    Haptics.selectionAsync();
+
+    try {
+      await setSubtaskDone(subtask.id, done);
+      onChange?.();
+      if (done && autoComplete && areAllSubtasksDone(next)) {
+        onAllDone?.();
+      }
+    } catch {
+      setSubtasks((current) => current.map((item) => (item.id === subtask.id ? subtask : item)));
+      setError("Couldn't update the subtask");
+    }
+  };
+
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title || isAdding) return;
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      const created = await addSubtask(reminder.id, title);
+      setSubtasks((current) => [...current, created]);
+      setNewTitle('');
+      onChange?.();
+    } catch {
+      setError("Couldn't add the subtask");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (subtask: ReminderSubtask) => {
+    const previous = subtasks;
+    setSubtasks((current) => current.filter((item) => item.id !== subtask.id));
+    setError(null);
+    try {
+      await deleteSubtask(subtask.id);
+      onChange?.();
+    } catch {
+      setSubtasks(previous);
+      setError("Couldn't remove the subtask");
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= subtasks.length) return;
+
+    const previous = subtasks;
+    const moved = [...subtasks];
+    [moved[index], moved[target]] = [moved[target], moved[index]];
+    setSubtasks(moved);
+    setError(null);
+    Haptics.selectionAsync();
+
+    try {
+      setSubtasks(await reorderSubtasks(moved));
+    } catch {
+      setSubtasks(previous);
+      setError("Couldn't reorder subtasks");
+    }
+  };
+
+  const handleAutoCompleteChange = async (value: boolean) => {
+    setAutoComplete(value);
+    setError(null);
+    try {
+      await updateReminder(reminder.id, { auto_complete_subtasks: value });
+      onChange?.();
+    } catch {
+      setAutoComplete(!value);
+      setError("Couldn't update the setting");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="small" color="#84cc16" />
+      </View>
+    );
+  }
+
+  // Nothing to show a participant when the owner hasn't added any
+  if (!isOwner && subtasks.length === 0) return null;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={styles.sectionLabel}>
+          Subtasks{subtasks.length > 0 ? ` · ${doneCount}/${subtasks.length}` : ''}
+        </Text>
+        {isOwner && subtasks.length > 1 && (
+          <Pressable onPress={() => setIsEditing((current) => !current)} hitSlop={8}>
+            <Text style={styles.editText}>{isEditing ? 'Done' : 'Reorder'}</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {subtasks.length > 0 && (
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${(doneCount / subtasks.length) * 100}%` }]} />
+        </View>
+      )}
+
+      <ScrollView style={styles.list} nestedScrollEnabled keyboardShouldPersistTaps="handled">
+        {subtasks.map((subtask, index) => (
+          <View key={subtask.id} style={styles.row}>
+            <Pressable
+              onPress={() => void handleToggle(subtask)}
+              style={styles.rowMain}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: subtask.done }}
+            >
+              <MaterialIcons
+                name={subtask.done ? 'check-box' : 'check-box-outline-blank'}
+                size={22}
+                color={subtask.done ? '#84cc16' : '#c7cdd8'}
+              />
+              <Text style={[styles.rowText, subtask.done && styles.rowTextDone]} numberOfLines={2}>
+                {subtask.title}
+              </Text>
+            </Pressable>
+
+            {isOwner && isEditing ? (
+              <View style={styles.rowTools}>
+                <Pressable onPress={() => void handleMove(index, -1)} disabled={index === 0} hitSlop={6}>
+                  <MaterialIcons name="keyboard-arrow-up" size={22} color={index === 0 ? '#e5e7eb' : '#6b7280'} />
+                </Pressable>
+                <Pressable
+                  onPress={() => void handleMove(index, 1)}
+                  disabled={index === subtasks.length - 1}
+                  hitSlop={6}
+                >
+                  <MaterialIcons
+                    name="keyboard-arrow-down"
+                    size={22}
+                    color={index === subtasks.length - 1 ? '#e5e7eb' : '#6b7280'}
+                  />
+                </Pressable>
+              </View>
+            ) : isOwner ? (
+              <Pressable onPress={() => void handleDelete(subtask)} hitSlop={8}>
+                <MaterialIcons name="close" size={18} color="#c7cdd8" />
+              </Pressable>
+            ) : null}
+          </View>
+        ))}
+      </ScrollView>
+
+      {isOwner && (
+        <View style={styles.addRow}>
+          <MaterialIcons name="add" size={20} color="#84cc16" />
+          <TextInput
+            style={styles.addInput}
+            value={newTitle}
+            onChangeText={setNewTitle}
+            placeholder="Add subtask"
+            placeholderTextColor="#9ca3af"
+            maxLength={MAX_SUBTASK_TITLE_LENGTH}
+            returnKeyType="done"
+            editable={!isAdding}
+            onSubmitEditing={() => void handleAdd()}
+            blurOnSubmit={false}
+          />
+          {isAdding && <ActivityIndicator size="small" color="#84cc16" />}
+        </View>
+      )}
+
+      {isOwner && subtasks.length > 0 && (
+        <View style={styles.autoCompleteRow}>
+          <Text style={styles.autoCompleteText}>Complete reminder when all are checked</Text>
+          <Switch
+            value={autoComplete}
+            onValueChange={(value) => void handleAutoCompleteChange(value)}
+            trackColor={{ false: '#e5e7eb', true: '#84cc16' }}
+            thumbColor="#ffffff"
+          />
+        </View>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  section: {
+    paddingHorizontal: 12,
+    paddingTop: 4,
+    paddingBottom: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#9ca3af',
+  },
+  editText: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-SemiBold',
+    color: '#2F00FF',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 999,
+    backgroundColor: '#eef1f6',
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: '#84cc16',
+  },
+  list: {
+    maxHeight: 220,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#111827',
+  },
+  rowTextDone: {
+    color: '#9ca3af',
+    textDecorationLine: 'line-through',
+  },
+  rowTools: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 4,
+  },
+  addInput: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#111827',
+    paddingVertical: 8,
+  },
+  autoCompleteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingTop: 4,
+  },
+  autoCompleteText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#6b7280',
+  },
+  errorText: {
+    marginTop: 6,
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#ef4444',
+  },
+});
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Pressable, ScrollView, StyleProp, StyleSheet, Text, TextInput, View, ViewStyle } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { ReminderTag } from '../lib/types';
+
+interface TagChipsProps {
+  tags: ReminderTag[];
+  selectedIds: string[];
+  onToggle: (tagId: string) => void;
+  // Shows a "New tag" chip with an inline name field when provided
+  onCreate?: (name: string) => Promise<void> | void;
+  // Shows an "All" chip that clears the selection when provided
+  onClear?: () => void;
+  contentContainerStyle?: StyleProp<ViewStyle>;
+}
+
+export default function TagChips({
+  tags,
+  selectedIds,
+  onToggle,
+  onCreate,
+  onClear,
+  contentContainerStyle,
+}: TagChipsProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newTagName, setNewTagName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleSubmit = async () => {
+    const name = newTagName.trim();
+    if (!name || !onCreate) {
+      setIsAdding(false);
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      await onCreate(name);
+      setNewTagName('');
+      setIsAdding(false);
+    } catch {
+      // Keep the field open so the name can be changed and retried
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={[styles.row, contentContainerStyle]}
+      keyboardShouldPersistTaps="handled"
+    >
+      {onClear && (
+        <Pressable
+          onPress={onClear}
+          style={[styles.chip, selectedIds.length === 0 && styles.chipAllActive]}
+        >
+          <Text style={[styles.chipText, selectedIds.length === 0 && styles.chipTextActive]}>All</Text>
+        </Pressable>
+      )}
+
+      {tags.map((tag) => {
+        const selected = selectedIds.includes(tag.id);
+        return (
+          <Pressable
+            key={tag.id}
+            onPress={() => {
+              Haptics.selectionAsync();
+              onToggle(tag.id);
+            }}
+            style={[
+              styles.chip,
+              { borderColor: tag.color },
+              selected && { backgroundColor: tag.color },
+            ]}
+          >
+            {!selected && <View style={[styles.dot, { backgroundColor: tag.color }]} />}
+            <Text style={[styles.chipText, selected && styles.chipTextActive]}>{tag.name}</Text>
+          </Pressable>
+        );
+      })}
+
+      {onCreate && (isAdding ? (
+        <View style={[styles.chip, styles.inputChip]}>
+          <TextInput
+            style={styles.input}
+            value={newTagName}
+            onChangeText={setNewTagName}
+            placeholder="Tag name"
+            placeholderTextColor="#b5b2c2"
+            autoFocus
+            maxLength={32}
+            returnKeyType="done"
+            editable={!isCreating}
+            onSubmitEditing={handleSubmit}
+            onBlur={() => {
+              if (!newTagName.trim()) setIsAdding(false);
+            }}
+          />
+        </View>
+      ) : (
+        <Pressable onPress={() => setIsAdding(true)} style={[styles.chip, styles.addChip]}>
+          <MaterialIcons name="add" size={14} color="#2F00FF" />
+          <Text style={[styles.chipText, styles.addChipText]}>New tag</Text>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#e5e3ee',
+    backgroundColor: '#ffffff',
+  },
+  chipAllActive: {
+    backgroundColor: '#121118',
+    borderColor: '#121118',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  addChip: {
+    borderStyle: 'dashed',
+    borderColor: '#2F00FF',
+  },
+  addChipText: {
+    color: '#2F00FF',
+  },
+  inputChip: {
+    paddingVertical: 2,
+    minWidth: 110,
+  },
+  input: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+    paddingVertical: 4,
+    minWidth: 90,
+  },
+});
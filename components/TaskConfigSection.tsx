@@ -5,6 +5,7 @@ import { MaterialIcons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import ActionInputModal from './ActionInputModal';
 import { ReminderActionType } from '../lib/types';
+import { formatVoiceNoteDuration } from '../lib/voiceNotes';
 
 export interface QuickAction {
   type: ReminderActionType;
@@ -80,6 +81,33 @@ const QUICK_ACTIONS: {
     surface: '#f7fee7',
     gradient: ['#f7fee7', '#ecfccb'],
   },
+  {
+    type: 'assign',
+    icon: 'person-add',
+    label: 'Share',
+    description: 'Invite people by email',
+    accent: '#7c3aed',
+    surface: '#f5f3ff',
+    gradient: ['#f5f3ff', '#ede9fe'],
+  },
+  {
+    type: 'photo',
+    icon: 'photo-camera',
+    label: 'Photo',
+    description: 'Attach a photo',
+    accent: '#ec4899',
+    surface: '#fdf2f8',
+    gradient: ['#fdf2f8', '#fce7f3'],
+  },
+  {
+    type: 'voice',
+    icon: 'mic',
+    label: 'Voice',
+    description: 'Record a voice note',
+    accent: '#f43f5e',
+    surface: '#fff1f2',
+    gradient: ['#fff1f2', '#ffe4e6'],
+  },
 ];
 
 const PRIMARY_BLUE = '#2F00FF';
@@ -98,6 +126,12 @@ function getActionPreview(type: ReminderActionType, value: any): string {
       return value?.text?.slice(0, 30) || 'Note';
     case 'subtasks':
       return value?.text ? `${value.text.split('\n').filter((l: string) => l.trim()).length} items` : 'Subtasks';
+    case 'assign':
+      return value?.emails?.length === 1 ? value.emails[0] : `${value?.emails?.length || 0} people`;
+    case 'photo':
+      return value?.file_name?.slice(0, 30) || 'Photo';
+    case 'voice':
+      return value?.duration ? `${formatVoiceNoteDuration(value.duration)} voice note` : 'Voice note';
     default:
       return type;
   }
@@ -203,7 +237,7 @@ export default function TaskConfigSection({ onActionsChange }: TaskConfigSection
 
   const contentHeight = expandAnim.interpolate({
     inputRange: [0, 1],
-    outputRange: [0, 640],
+    outputRange: [0, 880],
   });
 
   return (
@@ -257,7 +291,7 @@ export default function TaskConfigSection({ onActionsChange }: TaskConfigSection
             <View style={styles.sectionIntro}>
               <Text style={styles.sectionTitle}>Build your action stack</Text>
               <Text style={styles.sectionSubtitle}>
-                Add quick taps for calls, links, locations, notes, and subtasks.
+                Add quick taps for calls, links, locations, notes, subtasks, sharing, photos, and voice notes.
               </Text>
             </View>
 
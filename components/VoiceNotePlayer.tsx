@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useAudioPlayerStatus } from 'expo-audio';
+import {
+  formatVoiceNoteDuration,
+  getLoadedVoiceNotePath,
+  getVoiceNotePlayer,
+  pauseVoiceNote,
+  playVoiceNote,
+  toggleVoiceNote,
+} from '../lib/voiceNotes';
+import { ReminderAction } from '../lib/types';
+
+const ACCENT = '#f43f5e';
+
+interface VoiceNotePlayerProps {
+  action: ReminderAction;
+  // Start playing as soon as the detail opens (the notification's Play button)
+  autoPlay?: boolean;
+}
+
+export default function VoiceNotePlayer({ action, autoPlay }: VoiceNotePlayerProps) {
+  const storagePath: string | undefined = action.action_value?.storage_path;
+  const transcript: string = action.action_value?.transcript?.trim() ?? '';
+  const status = useAudioPlayerStatus(getVoiceNotePlayer());
+  const [isStarting, setIsStarting] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The shared player may be playing another note
+  const isCurrent = Boolean(storagePath) && getLoadedVoiceNotePath() === storagePath;
+  const isPlaying = isCurrent && status.playing;
+  const duration = isCurrent && status.duration > 0 ? status.duration : Number(action.action_value?.duration) || 0;
+  const position = isCurrent ? status.currentTime : 0;
+  const progress = duration > 0 ? Math.min(position / duration, 1) : 0;
+
+  useEffect(() => {
+    if (!autoPlay || !storagePath) return;
+    setIsStarting(true);
+    playVoiceNote(storagePath)
+      .catch(() => setError("Couldn't play the voice note"))
+      .finally(() => setIsStarting(false));
+  }, [autoPlay, storagePath]);
+
+  // Closing the detail stops its note
+  useEffect(() => {
+    return () => {
+      if (storagePath && getLoadedVoiceNotePath() === storagePath) {
+        pauseVoiceNote();
+      }
+    };
+  }, [storagePath]);
+
+  const handleToggle = async () => {
+    if (!storagePath) return;
+    Haptics.selectionAsync();
+    setError(null);
+    setIsStarting(true);
+    try {
+      await toggleVoiceNote(storagePath);
+    } catch {
+      setError("Couldn't play the voice note");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!storagePath) return null;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.row}>
+        <Pressable
+          style={({ pressed }) => [styles.playButton, pressed && { opacity: 0.8 }]}
+          onPress={() => void handleToggle()}
+          accessibilityRole="button"
+          accessibilityLabel={isPlaying ? 'Pause voice note' : 'Play voice note'}
+        >
+          {isStarting || (isPlaying && status.isBuffering) ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <MaterialIcons name={isPlaying ? 'pause' : 'play-arrow'} size={24} color="#ffffff" />
+          )}
+        </Pressable>
+
+        <View style={styles.body}>
+          <Text style={styles.label}>Voice note</Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+          </View>
+        </View>
+
+        <Text style={styles.time}>
+          {isCurrent && position > 0 ? `${formatVoiceNoteDuration(position)} / ` : ''}
+          {formatVoiceNoteDuration(duration)}
+        </Text>
+      </View>
+
+      {transcript.length > 0 && (
+        <Pressable onPress={() => setShowTranscript((current) => !current)} hitSlop={6}>
+          <Text style={styles.transcript} numberOfLines={showTranscript ? undefined : 2}>
+            {transcript}
+          </Text>
+          {!showTranscript && <Text style={styles.transcriptToggle}>Show transcript</Text>}
+        </Pressable>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: 12,
+    paddingTop: 4,
+    paddingBottom: 10,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  playButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: ACCENT,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  body: {
+    flex: 1,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#9ca3af',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 999,
+    backgroundColor: '#eef1f6',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: ACCENT,
+  },
+  time: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#6b7280',
+    fontVariant: ['tabular-nums'],
+  },
+  transcript: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#374151',
+  },
+  transcriptToggle: {
+    marginTop: 2,
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-SemiBold',
+    color: '#2F00FF',
+  },
+  errorText: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#ef4444',
+  },
+});
@@ -5,6 +5,7 @@ import * as Clipboard from 'expo-clipboard';
 import { useTheme } from '../../contexts/ThemeContext';
 import { getActiveAccountCode, generateAccountCode } from '../../lib/accountCodes';
 import type { AccountCode } from '../../lib/types';
+import PairingQrCode from './PairingQrCode';
 
 interface AccountCodeDisplayProps {
   onCodeGenerated?: (code: string) => void;
@@ -124,6 +125,10 @@ export default function AccountCodeDisplay({ onCodeGenerated }: AccountCodeDispl
             </Text>
           </View>
 
+          <View style={styles.qrContainer}>
+            <PairingQrCode accountCodeId={accountCode.id} />
+          </View>
+
           <View style={styles.actions}>
             <Pressable
               onPress={handleCopy}
@@ -281,6 +286,9 @@ const styles = StyleSheet.create({
   code: {
     letterSpacing: 4,
   },
+  qrContainer: {
+    marginBottom: 16,
+  },
   actions: {
     flexDirection: 'row',
     gap: 12,
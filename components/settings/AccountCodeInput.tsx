@@ -2,7 +2,8 @@ import { useState } from 'react';
 import { StyleSheet, Text, View, TextInput, Pressable, Alert, ActivityIndicator } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
-import { validateAndSyncFromCode } from '../../lib/accountCodes';
+import { ACCOUNT_CODE_LENGTH, pairWithToken, validateAndSyncFromCode } from '../../lib/accountCodes';
+import PairingScannerModal from './PairingScannerModal';
 
 interface AccountCodeInputProps {
   onSyncSuccess?: () => void;
@@ -12,52 +13,67 @@ export default function AccountCodeInput({ onSyncSuccess }: AccountCodeInputProp
   const { theme } = useTheme();
   const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
 
   const handleCodeChange = (text: string) => {
     // Convert to uppercase and remove non-alphanumeric characters
     const cleaned = text.toUpperCase().replace(/[^A-Z0-9]/g, '');
-    // Limit to 6 characters
-    setCode(cleaned.slice(0, 6));
+    setCode(cleaned.slice(0, ACCOUNT_CODE_LENGTH));
   };
 
   const handleValidate = async () => {
-    if (code.length !== 6) {
-      Alert.alert('Invalid Code', 'Please enter a 6-character code.');
+    if (code.length !== ACCOUNT_CODE_LENGTH) {
+      Alert.alert('Invalid Code', `Please enter a ${ACCOUNT_CODE_LENGTH}-character code.`);
       return;
     }
 
     setLoading(true);
     try {
-      const success = await validateAndSyncFromCode(code);
+      await validateAndSyncFromCode(code);
+      showSyncSuccess();
+    } catch (error) {
+      Alert.alert(
+        'Invalid Code',
+        error instanceof Error ? error.message : 'The code you entered is invalid or has expired. Please check and try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (success) {
-        Alert.alert(
-          'Success',
-          'Your device has been synced with the account!',
-          [
-            {
-              text: 'OK',
-              onPress: () => {
-                setCode('');
-                onSyncSuccess?.();
-              },
-            },
-          ]
-        );
-      } else {
-        Alert.alert(
-          'Invalid Code',
-          'The code you entered is invalid or has expired. Please check and try again.'
-        );
-      }
-    } catch {
-      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
+  const handleScanned = async (pairingToken: string) => {
+    setShowScanner(false);
+    setLoading(true);
+    try {
+      await pairWithToken(pairingToken);
+      showSyncSuccess();
+    } catch (error) {
+      Alert.alert(
+        'Pairing Failed',
+        error instanceof Error ? error.message : 'The QR code is invalid or has expired. Please scan it again.'
+      );
     } finally {
       setLoading(false);
     }
   };
 
-  const isValidLength = code.length === 6;
+  const showSyncSuccess = () => {
+    Alert.alert(
+      'Success',
+      'Your device has been synced with the account!',
+      [
+        {
+          text: 'OK',
+          onPress: () => {
+            setCode('');
+            onSyncSuccess?.();
+          },
+        },
+      ]
+    );
+  };
+
+  const isValidLength = code.length === ACCOUNT_CODE_LENGTH;
 
   return (
     <View
@@ -95,7 +111,7 @@ export default function AccountCodeInput({ onSyncSuccess }: AccountCodeInputProp
           },
         ]}
       >
-        Enter the 6-character code from your other device to sync your reminders and settings.
+        Enter the {ACCOUNT_CODE_LENGTH}-character code from your other device to sync your reminders and settings.
       </Text>
 
       <View style={styles.inputContainer}>
@@ -111,9 +127,9 @@ export default function AccountCodeInput({ onSyncSuccess }: AccountCodeInputProp
           ]}
           value={code}
           onChangeText={handleCodeChange}
-          placeholder="XXXXXX"
+          placeholder={'X'.repeat(ACCOUNT_CODE_LENGTH)}
           placeholderTextColor={theme.colors.textTertiary}
-          maxLength={6}
+          maxLength={ACCOUNT_CODE_LENGTH}
           autoCapitalize="characters"
           autoCorrect={false}
           editable={!loading}
@@ -155,6 +171,33 @@ export default function AccountCodeInput({ onSyncSuccess }: AccountCodeInputProp
             </>
           )}
         </Pressable>
+
+        <Pressable
+          onPress={() => setShowScanner(true)}
+          disabled={loading}
+          style={({ pressed }) => [
+            styles.scanButton,
+            {
+              backgroundColor: pressed ? theme.colors.backgroundSecondary : theme.colors.background,
+              borderColor: theme.colors.border,
+              opacity: loading ? 0.5 : 1,
+            },
+          ]}
+        >
+          <MaterialIcons name="qr-code-scanner" size={20} color={theme.colors.primary} />
+          <Text
+            style={[
+              styles.scanButtonText,
+              {
+                color: theme.colors.primary,
+                fontSize: theme.fontSize.medium,
+                fontFamily: 'BricolageGrotesque-Bold',
+              },
+            ]}
+          >
+            Scan QR Code
+          </Text>
+        </Pressable>
       </View>
 
       <View
@@ -177,10 +220,15 @@ export default function AccountCodeInput({ onSyncSuccess }: AccountCodeInputProp
             },
           ]}
         >
-          Codes expire after 24 hours. Make sure to use the code from the other device before it
-          expires.
+          Codes expire after 24 hours and work for one device. QR codes refresh every few minutes.
         </Text>
       </View>
+
+      <PairingScannerModal
+        visible={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScanned={handleScanned}
+      />
     </View>
   );
 }
@@ -236,6 +284,20 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     letterSpacing: 0.5,
   },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+    marginTop: 12,
+  },
+  scanButtonText: {
+    letterSpacing: 0.5,
+  },
   infoBox: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { createPairingToken, getPairingQrValue } from '../../lib/accountCodes';
+import type { PairingToken } from '../../lib/types';
+
+interface PairingQrCodeProps {
+  // The account code the QR stands for; a new code gets a new token
+  accountCodeId: string;
+  size?: number;
+}
+
+// Fetch the next token this long before the shown one expires
+const REFRESH_MARGIN_MS = 30 * 1000;
+const RETRY_DELAY_MS = 15 * 1000;
+
+/**
+ * QR with a short-lived pairing token for the current account code. Tokens are single-use and
+ * replaced shortly before they expire, so the QR stays scannable while it's on screen.
+ */
+export default function PairingQrCode({ accountCodeId, size = 168 }: PairingQrCodeProps) {
+  const [pairingToken, setPairingToken] = useState<PairingToken | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const loadToken = async () => {
+      const next = await createPairingToken();
+      if (cancelled) return;
+
+      setPairingToken(next);
+      setFailed(!next);
+      const delay = next
+        ? Math.max(new Date(next.expires_at).getTime() - Date.now() - REFRESH_MARGIN_MS, RETRY_DELAY_MS)
+        : RETRY_DELAY_MS;
+      refreshTimer = setTimeout(loadToken, delay);
+    };
+
+    setPairingToken(null);
+    void loadToken();
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [accountCodeId]);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.qrBox, { width: size + 24, height: size + 24 }]}>
+        {pairingToken ? (
+          <QRCode value={getPairingQrValue(pairingToken.token)} size={size} color="#121018" backgroundColor="#ffffff" />
+        ) : failed ? (
+          <Text style={styles.errorText}>QR code unavailable. Use the code instead.</Text>
+        ) : (
+          <ActivityIndicator color="#2f00ff" />
+        )}
+      </View>
+      <Text style={styles.caption}>Scan from the new device. The QR works once and refreshes automatically.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  qrBox: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  caption: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#9ca3af',
+    textAlign: 'center',
+    lineHeight: 16,
+    paddingHorizontal: 12,
+  },
+  errorText: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#9ca3af',
+    textAlign: 'center',
+    paddingHorizontal: 12,
+  },
+});
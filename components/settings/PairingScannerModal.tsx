@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from 'react';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { parsePairingQrValue } from '../../lib/accountCodes';
+
+interface PairingScannerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onScanned: (pairingToken: string) => void;
+}
+
+/**
+ * Full-screen camera that reads the pairing QR shown on another signed-in device
+ */
+export default function PairingScannerModal({ visible, onClose, onScanned }: PairingScannerModalProps) {
+  const insets = useSafeAreaInsets();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [hint, setHint] = useState<string | null>(null);
+  // The camera reports the same code many times a second
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    handledRef.current = false;
+    setHint(null);
+    if (permission && !permission.granted && permission.canAskAgain) {
+      void requestPermission();
+    }
+  }, [visible, permission?.granted]);
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (handledRef.current) return;
+
+    const pairingToken = parsePairingQrValue(data);
+    if (!pairingToken) {
+      setHint("That isn't a Remmy pairing code");
+      return;
+    }
+
+    handledRef.current = true;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onScanned(pairingToken);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.root}>
+        {permission?.granted ? (
+          <CameraView
+            style={StyleSheet.absoluteFillObject}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={handleBarcodeScanned}
+          />
+        ) : (
+          <View style={styles.permissionState}>
+            <MaterialIcons name="photo-camera" size={40} color="rgba(255, 255, 255, 0.6)" />
+            <Text style={styles.permissionText}>
+              Camera access is needed to scan the pairing code on your other device.
+            </Text>
+            {permission && !permission.canAskAgain ? (
+              <Text style={styles.hintText}>Turn on camera access for Remmy in Settings.</Text>
+            ) : (
+              <Pressable style={styles.permissionButton} onPress={requestPermission}>
+                <Text style={styles.permissionButtonText}>Allow Camera</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        <View style={[styles.overlay, { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 32 }]} pointerEvents="box-none">
+          <View style={styles.header}>
+            <Text style={styles.title}>Scan Pairing Code</Text>
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <MaterialIcons name="close" size={22} color="#ffffff" />
+            </Pressable>
+          </View>
+
+          {permission?.granted && <View style={styles.frame} />}
+
+          <Text style={styles.hintText}>
+            {hint ?? 'On your other device, open Settings → Sync Devices and point the camera at the QR code.'}
+          </Text>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  header: {
+    alignSelf: 'stretch',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#ffffff',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderRadius: 24,
+    borderWidth: 3,
+    borderColor: '#ffffff',
+  },
+  hintText: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: 'rgba(255, 255, 255, 0.8)',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  permissionState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 16,
+  },
+  permissionText: {
+    fontSize: 16,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#ffffff',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  permissionButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#2F00FF',
+  },
+  permissionButtonText: {
+    fontSize: 16,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#ffffff',
+  },
+});
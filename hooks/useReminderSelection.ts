@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react';
+
+interface UseReminderSelectionReturn {
+  isSelecting: boolean;
+  selectedIds: string[];
+  isSelected: (id: string) => boolean;
+  startSelection: (id?: string) => void;
+  toggleSelection: (id: string) => void;
+  exitSelection: () => void;
+}
+
+/**
+ * Multi-select state for reminder lists. Selection mode ends when the last
+ * reminder is deselected.
+ */
+export function useReminderSelection(): UseReminderSelectionReturn {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const isSelected = useCallback((id: string) => selectedIds.includes(id), [selectedIds]);
+
+  const startSelection = useCallback((id?: string) => {
+    setIsSelecting(true);
+    setSelectedIds(id ? [id] : []);
+  }, []);
+
+  const toggleSelection = useCallback((id: string) => {
+    setSelectedIds((current) => {
+      const next = current.includes(id) ? current.filter((selectedId) => selectedId !== id) : [...current, id];
+      if (next.length === 0) setIsSelecting(false);
+      return next;
+    });
+  }, []);
+
+  const exitSelection = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  }, []);
+
+  return { isSelecting, selectedIds, isSelected, startSelection, toggleSelection, exitSelection };
+}
@@ -1,18 +1,29 @@
 import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
 import {
   createReminder,
-  deleteReminder,
+  deleteReminderInSeries,
   getAllFutureReminders,
   getPriorityCount,
   getTodayReminders,
   getUpcomingCount,
   processRemindersStatus,
-  updateReminder,
+  updateReminderInSeries,
 } from '../lib/reminders';
-import { createReminderActions } from '../lib/reminderActions';
-import { CreateReminderActionInput, CreateReminderInput, Reminder, UpdateReminderInput } from '../lib/types';
-import { supabase } from '../lib/supabase';
+import { createReminderActions, createReminderAttachments, getActionAttachment } from '../lib/reminderActions';
+import { createSubtasks, getSubtaskTitles } from '../lib/reminderSubtasks';
+import {
+  CreateAttachmentInput,
+  CreateReminderActionInput,
+  CreateReminderInput,
+  RealtimeReminderChange,
+  Reminder,
+  SeriesScope,
+  UpdateReminderInput,
+} from '../lib/types';
+import { subscribeToReminderChanges } from '../lib/realtimeSync';
 import { sendResyncPush, syncLocalReminderSchedules } from '../lib/notifications';
+import { flushOutbox, getCachedReminders } from '../lib/offlineStore';
 
 type AddReminderOptions = {
   actions?: CreateReminderActionInput[];
@@ -26,8 +37,29 @@ interface UseRemindersReturn {
   error: Error | null;
   refresh: () => Promise<void>;
   addReminder: (input: CreateReminderInput, options?: AddReminderOptions) => Promise<Reminder>;
-  editReminder: (id: string, input: UpdateReminderInput) => Promise<Reminder>;
-  removeReminder: (id: string) => Promise<void>;
+  editReminder: (id: string, input: UpdateReminderInput, scope?: SeriesScope) => Promise<Reminder>;
+  removeReminder: (id: string, scope?: SeriesScope) => Promise<void>;
+}
+
+// Patch the homepage list with a single realtime change; the minute refresh backfills removals
+function applyReminderChange(reminders: Reminder[], change: RealtimeReminderChange): Reminder[] {
+  if (change.type === 'resync') return reminders;
+
+  const removedId = change.type === 'delete' ? change.reminderId : change.reminder.id;
+  const next = reminders.filter((reminder) => reminder.id !== removedId);
+
+  if (change.type === 'upsert') {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    const { reminder } = change;
+    if (new Date(reminder.scheduled_time) >= startOfDay && reminder.status !== 'completed') {
+      next.push(reminder);
+    }
+  }
+
+  return processRemindersStatus(next)
+    .sort((a, b) => new Date(a.scheduled_time).getTime() - new Date(b.scheduled_time).getTime())
+    .slice(0, 6);
 }
 
 export function useReminders(): UseRemindersReturn {
@@ -45,6 +77,12 @@ export function useReminders(): UseRemindersReturn {
       }
       setError(null);
 
+      // Replay changes made offline before reading, so the server copy includes them.
+      const flushed = await flushOutbox().catch(() => null);
+      if (flushed && flushed.applied > 0) {
+        void sendResyncPush();
+      }
+
       const [upcomingReminders, priority, upcoming] = await Promise.all([
         getAllFutureReminders(),
         getPriorityCount(),
@@ -69,45 +107,83 @@ export function useReminders(): UseRemindersReturn {
     }
   }, []);
 
+  const refreshCounts = useCallback(async () => {
+    try {
+      const [priority, upcoming] = await Promise.all([getPriorityCount(), getUpcomingCount()]);
+      setPriorityCount(priority);
+      setUpcomingCount(upcoming);
+    } catch {
+      // Counts catch up on the next full refresh
+    }
+  }, []);
+
   useEffect(() => {
+    // Show the offline copy immediately; the remote fetch replaces it when it lands.
+    void getCachedReminders().then((cached) => {
+      const startOfDay = new Date();
+      startOfDay.setHours(0, 0, 0, 0);
+      const upcomingCached = cached.filter(
+        (reminder) => new Date(reminder.scheduled_time) >= startOfDay && reminder.status !== 'completed'
+      );
+      if (upcomingCached.length > 0) {
+        setReminders((prev) => (prev.length > 0 ? prev : processRemindersStatus(upcomingCached).slice(0, 6)));
+      }
+    });
+
     void fetchData();
 
-    // Set up real-time subscription
-    const subscription = supabase
-      .channel('reminders_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'reminders',
-        },
-        () => {
-          // Keep home UI stable while syncing realtime changes.
-          void fetchData({ silent: true });
-        }
-      )
-      .subscribe();
+    // Changes from other devices arrive through the shared realtime channel
+    const unsubscribeRealtime = subscribeToReminderChanges((change) => {
+      if (change.type === 'resync') {
+        void fetchData({ silent: true });
+        return;
+      }
+      setReminders((prev) => applyReminderChange(prev, change));
+      void refreshCounts();
+    });
 
     // Refresh status every minute to update current/upcoming states
     const intervalId = setInterval(() => {
       void fetchData({ silent: true });
     }, 60000);
 
+    // Coming back to the app is the usual moment connectivity has returned
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        void fetchData({ silent: true });
+      }
+    });
+
     return () => {
-      subscription.unsubscribe();
+      unsubscribeRealtime();
       clearInterval(intervalId);
+      appStateSubscription.remove();
     };
-  }, [fetchData]);
+  }, [fetchData, refreshCounts]);
 
   const addReminder = useCallback(async (input: CreateReminderInput, options?: AddReminderOptions): Promise<Reminder> => {
     const newReminder = await createReminder(input);
-    const actions = options?.actions ?? [];
+    // Subtasks entered on the create screen become checklist rows rather than an action
+    const subtaskAction = options?.actions?.find((action) => action.action_type === 'subtasks');
+    const actions = (options?.actions ?? []).filter((action) => action !== subtaskAction);
 
     if (actions.length > 0) {
       await createReminderActions(newReminder.id, actions);
     }
 
+    // Uploaded photos and voice notes are also tracked as attachments so their files get
+    // cleaned up; the actions alone are enough to open them, so this is best effort
+    const attachments = actions
+      .map(getActionAttachment)
+      .filter((attachment): attachment is CreateAttachmentInput => attachment !== null);
+    if (attachments.length > 0) {
+      await createReminderAttachments(newReminder.id, attachments).catch(() => []);
+    }
+
+    if (subtaskAction) {
+      await createSubtasks(newReminder.id, getSubtaskTitles(subtaskAction.action_value));
+    }
+
     // Keep create UX snappy: refresh/sync in background.
     setReminders((prev) => {
       const merged = processRemindersStatus([...prev, newReminder])
@@ -123,16 +199,20 @@ export function useReminders(): UseRemindersReturn {
     return newReminder;
   }, [fetchData]);
 
-  const editReminder = useCallback(async (id: string, input: UpdateReminderInput): Promise<Reminder> => {
-    const updated = await updateReminder(id, input);
+  const editReminder = useCallback(async (
+    id: string,
+    input: UpdateReminderInput,
+    scope: SeriesScope = 'this'
+  ): Promise<Reminder> => {
+    const updated = await updateReminderInSeries(id, input, scope);
     await fetchData({ silent: true });
     await syncLocalReminderSchedules();
     await sendResyncPush();
     return updated;
   }, [fetchData]);
 
-  const removeReminder = useCallback(async (id: string): Promise<void> => {
-    await deleteReminder(id);
+  const removeReminder = useCallback(async (id: string, scope: SeriesScope = 'this'): Promise<void> => {
+    await deleteReminderInSeries(id, scope);
     await fetchData({ silent: true });
     await syncLocalReminderSchedules();
     await sendResyncPush();
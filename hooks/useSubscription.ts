@@ -35,6 +35,7 @@ export function useSubscription() {
       // Call edge function to check subscription status (server-side)
       const { data, error } = await supabase.functions.invoke('check-subscription', {
         method: 'POST',
+        body: { timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
       });
 
       if (error) {
@@ -0,0 +1,44 @@
+import { useCallback, useRef, useState } from 'react';
+
+interface UndoToast {
+  id: number;
+  message: string;
+  undo: () => Promise<void>;
+}
+
+interface UseUndoToastReturn {
+  undoToast: UndoToast | null;
+  showUndo: (message: string, undo: () => Promise<void>) => void;
+  runUndo: () => Promise<void>;
+  dismissUndo: (id: number) => void;
+}
+
+/**
+ * State for the FeedbackOverlay undo toast. A new action replaces the
+ * previous toast, which makes the earlier action final.
+ */
+export function useUndoToast(onUndoError?: (error: unknown) => void): UseUndoToastReturn {
+  const [undoToast, setUndoToast] = useState<UndoToast | null>(null);
+  const nextId = useRef(0);
+
+  const showUndo = useCallback((message: string, undo: () => Promise<void>) => {
+    nextId.current += 1;
+    setUndoToast({ id: nextId.current, message, undo });
+  }, []);
+
+  const runUndo = useCallback(async () => {
+    if (!undoToast) return;
+    try {
+      await undoToast.undo();
+    } catch (error) {
+      onUndoError?.(error);
+    }
+  }, [undoToast, onUndoError]);
+
+  // Keyed by id so a toast finishing its exit animation can't clear its replacement
+  const dismissUndo = useCallback((id: number) => {
+    setUndoToast((current) => (current?.id === id ? null : current));
+  }, []);
+
+  return { undoToast, showUndo, runUndo, dismissUndo };
+}
@@ -2,6 +2,8 @@ import { registerRootComponent } from 'expo';
 import * as WebBrowser from 'expo-web-browser';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import App from './App';
+import { defineGeofenceTask } from './lib/geofences';
+import { defineBackgroundPushTask } from './lib/notifications';
 // import * as TaskManager from 'expo-task-manager';
 // import * as Notifications from 'expo-notifications';
 // import { syncLocalReminderSchedules } from './lib/notifications';
@@ -9,6 +11,12 @@ import App from './App';
 // Must be called before app renders to handle OAuth redirect
 WebBrowser.maybeCompleteAuthSession();
 
+// Geofence events can wake the app in the background, before anything renders
+defineGeofenceTask();
+
+// Silent pushes (device removed, daily digests) are handled even if the app isn't open
+defineBackgroundPushTask();
+
 const BACKGROUND_NOTIFICATION_TASK = 'REMINDER-NOTIFICATION-TASK';
 
 // Background task temporarily disabled for debugging
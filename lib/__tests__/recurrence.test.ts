@@ -0,0 +1,153 @@
+import { expandOccurrences, getNextOccurrence, toDateKey, type RecurrenceRule } from '../recurrence';
+
+const monthly = (rule: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  frequency: 1,
+  frequency_unit: 'months',
+  selected_days: [],
+  ...rule,
+});
+
+// Expand from just before the anchor so the anchor itself is the first occurrence
+function expandKeys(rule: RecurrenceRule, anchor: Date, until: Date, limit?: number): string[] {
+  return expandOccurrences(rule, anchor, new Date(anchor.getTime() - 1), until, limit).map(toDateKey);
+}
+
+describe('expandOccurrences', () => {
+  it('picks the last Friday of each month with BYSETPOS=-1', () => {
+    const rule = monthly({ selected_days: ['fri'], by_set_pos: [-1] });
+    const anchor = new Date(2026, 0, 30, 9, 0);
+
+    expect(expandKeys(rule, anchor, new Date(2026, 4, 31, 23, 59))).toEqual([
+      '2026-01-30',
+      '2026-02-27',
+      '2026-03-27',
+      '2026-04-24',
+      '2026-05-29',
+    ]);
+  });
+
+  it('repeats on the 1st and 15th with BYMONTHDAY', () => {
+    const rule = monthly({ by_month_day: [1, 15] });
+    const anchor = new Date(2026, 0, 1, 8, 30);
+
+    expect(expandKeys(rule, anchor, new Date(2026, 2, 31))).toEqual([
+      '2026-01-01',
+      '2026-01-15',
+      '2026-02-01',
+      '2026-02-15',
+      '2026-03-01',
+      '2026-03-15',
+    ]);
+  });
+
+  it('clamps a monthly rule anchored on the 31st to shorter months', () => {
+    const anchor = new Date(2026, 0, 31, 9, 0);
+
+    expect(expandKeys(monthly(), anchor, new Date(2026, 4, 31, 23, 59))).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+      '2026-05-31',
+    ]);
+  });
+
+  it('skips months without the day when BYMONTHDAY=31 is explicit', () => {
+    const rule = monthly({ by_month_day: [31] });
+    const anchor = new Date(2026, 0, 31, 9, 0);
+
+    expect(expandKeys(rule, anchor, new Date(2026, 4, 31, 23, 59))).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+  });
+
+  it('uses the last day of the month for BYMONTHDAY=-1', () => {
+    const rule = monthly({ by_month_day: [-1] });
+    const anchor = new Date(2028, 0, 31, 9, 0);
+
+    expect(expandKeys(rule, anchor, new Date(2028, 3, 30, 23, 59))).toEqual([
+      '2028-01-31',
+      '2028-02-29',
+      '2028-03-31',
+      '2028-04-30',
+    ]);
+  });
+
+  it('clamps a yearly rule anchored on Feb 29 to Feb 28 outside leap years', () => {
+    const rule = monthly({ frequency_unit: 'years' });
+    const anchor = new Date(2028, 1, 29, 9, 0);
+
+    expect(expandKeys(rule, anchor, new Date(2032, 11, 31))).toEqual([
+      '2028-02-29',
+      '2029-02-28',
+      '2030-02-28',
+      '2031-02-28',
+      '2032-02-29',
+    ]);
+  });
+
+  it('stops after COUNT occurrences, counting the anchor', () => {
+    const rule: RecurrenceRule = { frequency: 1, frequency_unit: 'weeks', selected_days: ['mon', 'wed'], count: 3 };
+    const anchor = new Date(2026, 2, 2, 7, 0);
+
+    expect(expandKeys(rule, anchor, new Date(2026, 11, 31))).toEqual(['2026-03-02', '2026-03-04', '2026-03-09']);
+  });
+
+  it('stops at UNTIL, inclusive', () => {
+    const anchor = new Date(2026, 2, 1, 7, 0);
+    const rule: RecurrenceRule = {
+      frequency: 2,
+      frequency_unit: 'days',
+      selected_days: [],
+      until: new Date(2026, 2, 7, 7, 0).toISOString(),
+    };
+
+    expect(expandKeys(rule, anchor, new Date(2026, 11, 31))).toEqual([
+      '2026-03-01',
+      '2026-03-03',
+      '2026-03-05',
+      '2026-03-07',
+    ]);
+  });
+
+  it('skips EXDATE dates but still counts them towards COUNT', () => {
+    const rule: RecurrenceRule = {
+      frequency: 1,
+      frequency_unit: 'days',
+      selected_days: [],
+      count: 4,
+      exdates: ['2026-03-02'],
+    };
+    const anchor = new Date(2026, 2, 1, 7, 0);
+
+    expect(expandKeys(rule, anchor, new Date(2026, 11, 31))).toEqual(['2026-03-01', '2026-03-03', '2026-03-04']);
+  });
+
+  it('keeps the anchor time of day and honours the limit', () => {
+    const anchor = new Date(2026, 0, 1, 18, 45);
+    const occurrences = expandOccurrences(
+      { frequency: 1, frequency_unit: 'days', selected_days: [] },
+      anchor,
+      anchor,
+      new Date(2027, 0, 1),
+      5
+    );
+
+    expect(occurrences).toHaveLength(5);
+    expect(occurrences.every((date) => date.getHours() === 18 && date.getMinutes() === 45)).toBe(true);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('returns the first occurrence strictly after the given date', () => {
+    const rule = monthly({ selected_days: ['fri'], by_set_pos: [-1] });
+    const anchor = new Date(2026, 0, 30, 9, 0);
+
+    expect(toDateKey(getNextOccurrence(rule, anchor, new Date(2026, 1, 27, 9, 0))!)).toBe('2026-03-27');
+  });
+
+  it('returns null when a rule can never match', () => {
+    const rule = monthly({ frequency_unit: 'years', by_month_day: [30], selected_days: [] });
+    const anchor = new Date(2026, 1, 1, 9, 0);
+    // Only February is considered because the yearly period starts from the anchor's month
+    expect(getNextOccurrence(rule, anchor, anchor)).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { bulkDeleteReminders } from '../reminders';
+import type { RecurringRule, Reminder } from '../types';
+
+type Row = Record<string, unknown>;
+
+const mockTables: Record<string, Row[]> = { reminders: [], recurring_rules: [] };
+
+// Just enough of the query builder for the delete path, run against the in-memory tables
+function mockQuery(table: string) {
+  const filters: ((row: Row) => boolean)[] = [];
+  let changes: Row | null = null;
+  let inserted: Row | null = null;
+  let single = false;
+
+  const run = () => {
+    const rows = mockTables[table];
+    if (inserted) {
+      const { series_id, original_scheduled_time } = inserted;
+      const taken = rows.some(
+        (row) => row.series_id === series_id && row.original_scheduled_time === original_scheduled_time
+      );
+      if (taken) return { data: [], error: null };
+      const row = { id: `created-${rows.length}`, deleted_at: null, status: 'future', ...inserted };
+      rows.push(row);
+      return { data: [row], error: null };
+    }
+
+    const matched = rows.filter((row) => filters.every((filter) => filter(row)));
+    if (changes) matched.forEach((row) => Object.assign(row, changes));
+    return { data: single ? matched[0] ?? null : matched, error: null };
+  };
+
+  const builder = {
+    select: () => builder,
+    eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), builder),
+    in: (column: string, values: unknown[]) => (filters.push((row) => values.includes(row[column])), builder),
+    is: (column: string, value: unknown) => (filters.push((row) => (row[column] ?? null) === value), builder),
+    not: (column: string, _operator: string, value: unknown) => (
+      filters.push((row) => (row[column] ?? null) !== value),
+      builder
+    ),
+    update: (values: Row) => ((changes = values), builder),
+    upsert: (values: Row) => ((inserted = values), builder),
+    single: () => ((single = true), builder),
+    then: (resolve: (result: ReturnType<typeof run>) => unknown) => Promise.resolve(run()).then(resolve),
+  };
+  return builder;
+}
+
+jest.mock('../supabase', () => ({ supabase: { from: (table: string) => mockQuery(table) } }));
+jest.mock('../offlineStore', () => ({ enqueueMutation: jest.fn(), isNetworkError: () => false }));
+jest.mock('../reminderEvents', () => ({ recordReminderEvent: jest.fn(), recordReminderEvents: jest.fn() }));
+jest.mock('../reminderActions', () => ({
+  getReminderActions: async () => [],
+  getReminderAttachments: async () => [],
+}));
+jest.mock('../reminderSubtasks', () => ({ copySubtasks: jest.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const daily: RecurringRule = { id: 'rule-1', name: 'Daily', frequency: 1, frequency_unit: 'days', selected_days: [] };
+
+function occurrence(id: string, time: number, fields: Partial<Reminder> = {}): Reminder {
+  const iso = new Date(time).toISOString();
+  return {
+    id,
+    user_id: 'user-1',
+    title: 'Water the plants',
+    description: null,
+    scheduled_time: iso,
+    status: 'future',
+    is_priority: false,
+    notify_offsets: [0],
+    notified_offsets: [],
+    notified_at: null,
+    priority_notified_at: null,
+    recurring_rule_id: daily.id,
+    series_id: 'anchor',
+    original_scheduled_time: iso,
+    is_series_exception: false,
+    completed_at: null,
+    deleted_at: null,
+    tag_ids: [],
+    subtask_count: 0,
+    subtask_done_count: 0,
+    auto_complete_subtasks: false,
+    trigger_type: 'time',
+    location_name: null,
+    location_lat: null,
+    location_lng: null,
+    location_radius_m: null,
+    created_at: iso,
+    updated_at: iso,
+    ...fields,
+  };
+}
+
+describe('bulkDeleteReminders', () => {
+  const head = Date.now() + 2 * HOUR_MS;
+
+  beforeEach(() => {
+    mockTables.recurring_rules = [{ ...daily }];
+    mockTables.reminders = [
+      occurrence('anchor', head - DAY_MS, { status: 'completed' }) as unknown as Row,
+      occurrence('head', head) as unknown as Row,
+    ];
+  });
+
+  it('keeps a series going when its latest occurrence is deleted', async () => {
+    const deletion = await bulkDeleteReminders(['head']);
+
+    expect(deletion.reminder_ids).toEqual(['head']);
+    const live = mockTables.reminders.filter((row) => !row.deleted_at);
+    expect(live.map((row) => row.original_scheduled_time)).toEqual([
+      new Date(head - DAY_MS).toISOString(),
+      new Date(head + DAY_MS).toISOString(),
+    ]);
+  });
+
+  it('adds no occurrence when a later one is kept', async () => {
+    await bulkDeleteReminders(['anchor']);
+
+    expect(mockTables.reminders).toHaveLength(2);
+    expect(mockTables.reminders.find((row) => row.id === 'anchor')?.deleted_at).not.toBeNull();
+  });
+});
@@ -1,19 +1,26 @@
 import { supabase } from './supabase';
-import type { AccountCode, DeviceSyncRecord, DeviceInfo } from './types';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import type { AccountCode, DeviceSyncRecord, DeviceInfo, PairingToken } from './types';
+import * as Crypto from 'expo-crypto';
 import * as Device from 'expo-device';
-import Constants from 'expo-constants';
+import { getDeviceId, getDeviceName } from './deviceIdentity';
+import { clearOfflineStore } from './offlineStore';
 
-const ACCOUNT_CODE_LENGTH = 6;
+export const ACCOUNT_CODE_LENGTH = 10;
+// 32 characters without lookalikes (0/O, 1/I), so each random byte maps to one without bias
+const ACCOUNT_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
 const ACCOUNT_CODE_EXPIRY_HOURS = 24;
+// Marks QR contents as a Synco pairing token
+const PAIRING_QR_PREFIX = 'synco-pair:';
 
 /**
- * Generate a random alphanumeric code
+ * Generate a random code from a cryptographically secure source
  */
 function generateRandomCode(length: number): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  const bytes = Crypto.getRandomValues(new Uint8Array(length));
   let code = '';
   for (let i = 0; i < length; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
+    code += ACCOUNT_CODE_CHARS.charAt(bytes[i] % ACCOUNT_CODE_CHARS.length);
   }
   return code;
 }
@@ -22,8 +29,8 @@ function generateRandomCode(length: number): string {
  * Get current device information
  */
 async function getDeviceInfo(): Promise<DeviceInfo> {
-  const deviceId = Constants.sessionId || Constants.installationId || 'unknown';
-  const deviceName = Device.deviceName || Device.modelName || 'Unknown Device';
+  const deviceId = await getDeviceId();
+  const deviceName = getDeviceName();
   const platform = Device.osName || 'unknown';
 
   return {
@@ -116,6 +123,7 @@ export async function getActiveAccountCode(): Promise<AccountCode | null> {
       .from('account_codes')
       .select('*')
       .eq('user_id', user.id)
+      .is('used_at', null)
       .gt('expires_at', new Date().toISOString())
       .order('created_at', { ascending: false })
       .limit(1)
@@ -136,43 +144,100 @@ export async function getActiveAccountCode(): Promise<AccountCode | null> {
 }
 
 /**
- * Validate an account code and sync the current device with that account
- * @param code The account code to validate
- * @returns True if successful, false otherwise
+ * Create a pairing token for the current account code, to show as a QR.
+ * Tokens expire after a few minutes and pair one device.
+ * @returns The token or null if there is no active code
  */
-export async function validateAndSyncFromCode(code: string): Promise<boolean> {
+export async function createPairingToken(): Promise<PairingToken | null> {
   try {
-    const deviceInfo = await getDeviceInfo();
-
-    // Call the edge function to validate the code
-    const { data, error } = await supabase.functions.invoke('validate-account-code', {
-      body: {
-        code: code.toUpperCase(),
-        deviceId: deviceInfo.device_id,
-        deviceName: deviceInfo.device_name,
-        platform: deviceInfo.platform,
-      },
-    });
+    const { data, error } = await supabase.functions.invoke('create-pairing-token');
 
-    if (error) {
-      return false;
+    if (error || !data?.token) {
+      return null;
     }
 
-    if (data?.error) {
-      return false;
-    }
+    return { token: data.token, expires_at: data.expiresAt };
+  } catch {
+    return null;
+  }
+}
 
-    if (data?.userId) {
-      // Code is valid, sign in the user if not already signed in
-      // Note: In practice, you might want to handle authentication differently
-      // For now, we just return success
-      return true;
+export function getPairingQrValue(token: string): string {
+  return `${PAIRING_QR_PREFIX}${token}`;
+}
+
+/**
+ * Get the pairing token from scanned QR contents
+ * @returns The token or null if the QR isn't a Synco pairing code
+ */
+export function parsePairingQrValue(value: string): string | null {
+  if (!value.startsWith(PAIRING_QR_PREFIX)) {
+    return null;
+  }
+  return value.slice(PAIRING_QR_PREFIX.length) || null;
+}
+
+async function getFunctionErrorMessage(error: unknown): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (typeof body?.error === 'string') {
+      return body.error;
     }
+  }
+  return 'Pairing failed. Please try again.';
+}
 
-    return false;
-  } catch {
-    return false;
+/**
+ * Exchange a code or pairing token for a session on this device
+ */
+async function pairWithAccount(credential: { code: string } | { pairingToken: string }): Promise<void> {
+  const deviceInfo = await getDeviceInfo();
+
+  const { data, error } = await supabase.functions.invoke('validate-account-code', {
+    body: {
+      ...credential,
+      deviceId: deviceInfo.device_id,
+      deviceName: deviceInfo.device_name,
+      platform: deviceInfo.platform,
+    },
+  });
+
+  if (error) {
+    throw new Error(await getFunctionErrorMessage(error));
+  }
+
+  if (!data?.session) {
+    throw new Error(data?.error || 'Pairing failed. Please try again.');
+  }
+
+  // Reminders cached for another account must not show up in this one
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session && session.user.id !== data.userId) {
+    await clearOfflineStore();
   }
+
+  const { error: sessionError } = await supabase.auth.setSession(data.session);
+  if (sessionError) {
+    throw sessionError;
+  }
+}
+
+/**
+ * Validate an account code and sign this device in to that account
+ * @param code The account code to validate
+ * @throws With a message to show when the code is invalid, used, expired or rate limited
+ */
+export async function validateAndSyncFromCode(code: string): Promise<void> {
+  await pairWithAccount({ code: code.toUpperCase() });
+}
+
+/**
+ * Sign this device in to the account whose QR was scanned
+ * @param pairingToken Token from parsePairingQrValue
+ * @throws With a message to show when the token is invalid, used, expired or rate limited
+ */
+export async function pairWithToken(pairingToken: string): Promise<void> {
+  await pairWithAccount({ pairingToken });
 }
 
 /**
@@ -202,56 +267,3 @@ export async function getDeviceSyncHistory(): Promise<DeviceSyncRecord[]> {
     return [];
   }
 }
-
-/**
- * Remove a device from sync history
- * @param deviceId The device ID to remove
- * @returns True if successful, false otherwise
- */
-export async function removeDevice(deviceId: string): Promise<boolean> {
-  const { data: { user } } = await supabase.auth.getUser();
-
-  if (!user) {
-    return false;
-  }
-
-  try {
-    const { error } = await supabase
-      .from('device_sync_history')
-      .delete()
-      .eq('user_id', user.id)
-      .eq('device_id', deviceId);
-
-    if (error) {
-      return false;
-    }
-
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-/**
- * Get a list of unique devices from sync history
- * @returns Array of unique device info
- */
-export async function getUniqueDevices(): Promise<DeviceInfo[]> {
-  const history = await getDeviceSyncHistory();
-
-  // Group by device_id and get the most recent entry for each device
-  const deviceMap = new Map<string, DeviceSyncRecord>();
-
-  for (const record of history) {
-    const existing = deviceMap.get(record.device_id);
-    if (!existing || new Date(record.synced_at) > new Date(existing.synced_at)) {
-      deviceMap.set(record.device_id, record);
-    }
-  }
-
-  return Array.from(deviceMap.values()).map((record) => ({
-    device_id: record.device_id,
-    device_name: record.device_name || undefined,
-    platform: record.platform || undefined,
-  }));
-}
@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
-import { CreateReminderInput, CreateRecurringRuleInput } from './types';
+import { CreateReminderInput, CreateRecurringRuleInput, ReminderTriggerType } from './types';
+import { normalizeDaysOfWeek } from './recurrence';
+import { normalizeNotifyOffsets } from './notifyOffsets';
 import type { File as ExpoFile } from 'expo-file-system';
 
 interface VoiceConversationResult {
@@ -14,9 +16,18 @@ interface VoiceReminderResult {
   reminders: Array<{
     reminder: CreateReminderInput;
     recurringRule: CreateRecurringRuleInput | null;
+    // Tag name inferred from phrases like "for work"; may not exist yet
+    tagName: string | null;
+    // Place from phrases like "when I get home"; may not be a saved place yet
+    placeTrigger: PlaceTrigger | null;
   }>;
 }
 
+export interface PlaceTrigger {
+  event: Exclude<ReminderTriggerType, 'time'>;
+  place: string;
+}
+
 export type VoiceProcessResult = VoiceConversationResult | VoiceReminderResult;
 
 const TITLE_STOP_WORDS = new Set([
@@ -120,7 +131,9 @@ function normalizeProcessedReminder(reminderData: any, sourceText: string) {
     scheduled_time: reminderData?.scheduled_time,
     description,
     is_priority: Boolean(reminderData?.is_priority),
-    notify_before_minutes: reminderData?.notify_before_minutes ?? 0,
+    notify_offsets: normalizeNotifyOffsets(
+      reminderData?.notify_offsets ?? [reminderData?.notify_before_minutes ?? 0]
+    ),
   };
 
   let recurringRule: CreateRecurringRuleInput | null = null;
@@ -130,11 +143,26 @@ function normalizeProcessedReminder(reminderData: any, sourceText: string) {
       name: rule.name || 'Custom recurring',
       frequency: rule.frequency || 1,
       frequency_unit: rule.frequency_unit || 'days',
-      selected_days: rule.selected_days || [],
+      selected_days: normalizeDaysOfWeek(rule.selected_days),
+      by_month_day: Array.isArray(rule.by_month_day) ? rule.by_month_day : [],
+      by_set_pos: Array.isArray(rule.by_set_pos) ? rule.by_set_pos : [],
+      until: rule.until ?? null,
+      count: rule.count ?? null,
+      exdates: Array.isArray(rule.exdates) ? rule.exdates : [],
     };
   }
 
-  return { reminder, recurringRule };
+  const tagName = typeof reminderData?.tag === 'string' && reminderData.tag.trim()
+    ? reminderData.tag.trim()
+    : null;
+
+  const trigger = reminderData?.location_trigger;
+  const placeTrigger: PlaceTrigger | null =
+    (trigger?.event === 'arrive' || trigger?.event === 'leave') && typeof trigger.place === 'string' && trigger.place.trim()
+      ? { event: trigger.event, place: trigger.place.trim() }
+      : null;
+
+  return { reminder, recurringRule, tagName, placeTrigger };
 }
 
 function startOfDay(date: Date) {
@@ -262,7 +290,7 @@ export async function parseRemindersFromText(text: string): Promise<VoiceProcess
       return {
         type: 'reminder',
         transcript: trimmed,
-        reminders: [{ reminder: fallbackReminder, recurringRule: null }],
+        reminders: [{ reminder: fallbackReminder, recurringRule: null, tagName: null, placeTrigger: null }],
       };
     }
 
@@ -279,7 +307,7 @@ export async function parseRemindersFromText(text: string): Promise<VoiceProcess
     return {
       type: 'reminder',
       transcript: trimmed,
-      reminders: [{ reminder: fallbackReminder, recurringRule: null }],
+      reminders: [{ reminder: fallbackReminder, recurringRule: null, tagName: null, placeTrigger: null }],
     };
   }
 }
@@ -308,7 +336,7 @@ function buildLocalParse(text: string): CreateReminderInput {
     title,
     description,
     scheduled_time: scheduled.toISOString(),
-    notify_before_minutes: 0,
+    notify_offsets: [0],
     is_priority: text.toLowerCase().includes('priority'),
   };
 
@@ -390,3 +418,39 @@ export async function parseReminderFromVoice(
     throw new Error(message);
   }
 }
+
+/**
+ * Transcribe a recorded voice note with Whisper, without turning it into reminders
+ */
+export async function transcribeVoiceNote(audioFile: ExpoFile, mimeType: string): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('You must be logged in to transcribe voice notes');
+  }
+
+  const audioBytes = await audioFile.bytes();
+  const body = audioBytes.buffer.slice(
+    audioBytes.byteOffset,
+    audioBytes.byteOffset + audioBytes.byteLength
+  );
+
+  const { data, error } = await supabase.functions.invoke('voice-to-reminder', {
+    body,
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      'x-audio-mime': mimeType,
+      'x-audio-name': audioFile?.name || 'audio.m4a',
+      'x-transcribe-only': 'true',
+    },
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to transcribe voice note');
+  }
+
+  if (typeof data?.transcript !== 'string') {
+    throw new Error('Invalid response from voice transcription');
+  }
+
+  return data.transcript;
+}
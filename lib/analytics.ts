@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
-import { Reminder } from './types';
+import { Reminder, ReminderEvent } from './types';
+import { getReminderEvents } from './reminderEvents';
+import { toDateKey } from './recurrence';
 
 export interface UserAnalytics {
   totalNotified: number;
@@ -15,7 +17,7 @@ export interface UserAnalytics {
 }
 
 /**
- * Calculate comprehensive user analytics from reminders
+ * Calculate comprehensive user analytics from the reminder event history
  */
 export async function calculateUserAnalytics(): Promise<UserAnalytics> {
   try {
@@ -24,34 +26,43 @@ export async function calculateUserAnalytics(): Promise<UserAnalytics> {
       return getDefaultAnalytics();
     }
 
-    // Fetch all reminders for the user
-    const { data: allReminders, error: fetchError } = await supabase
-      .from('reminders')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('scheduled_time', { ascending: true });
-
-    if (fetchError || !allReminders) {
+    // Fetch all reminders for the user, plus the notification and completion history
+    const [{ data: allReminders, error: fetchError }, events] = await Promise.all([
+      supabase
+        .from('reminders')
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('scheduled_time', { ascending: true }),
+      getReminderEvents({ types: ['notified', 'completed', 'uncompleted'] }).catch(() => null),
+    ]);
+
+    if (fetchError || !allReminders || !events) {
       return getDefaultAnalytics();
     }
 
+    const reminders = allReminders as Reminder[];
+    const completions = getCompletionTimes(events, reminders);
+    const notifications = getFirstNotificationTimes(events, reminders);
+
     // Calculate notified and completed counts
-    const notifiedReminders = allReminders.filter(r => r.notified_at !== null);
-    const completedReminders = allReminders.filter(r => r.status === 'completed');
-    const completedNotifiedReminders = notifiedReminders.filter(r => r.status === 'completed');
+    const completedNotifiedIds = Array.from(notifications.keys()).filter((id) => completions.has(id));
 
-    const totalNotified = notifiedReminders.length;
-    const totalCompleted = completedNotifiedReminders.length;
+    const totalNotified = notifications.size;
+    const totalCompleted = completedNotifiedIds.length;
     const completionRate = totalNotified > 0 ? Math.round((totalCompleted / totalNotified) * 100) : 0;
 
     // Calculate overdue count
-    const overdueCount = notifiedReminders.filter(r => r.status !== 'completed').length;
+    const overdueCount = reminders.filter(r => notifications.has(r.id) && r.status !== 'completed').length;
 
     // Calculate streaks
-    const { current, longest } = calculateStreaks(completedReminders);
+    const completionDates = Array.from(completions.values());
+    const { current, longest } = calculateStreaks(completionDates);
 
     // Calculate average response time
-    const avgResponseTime = calculateAverageResponseTime(completedNotifiedReminders);
+    const avgResponseTime = calculateAverageResponseTime(
+      completedNotifiedIds.map((id) => ({ notifiedAt: notifications.get(id)!, completedAt: completions.get(id)! }))
+    );
 
     // Calculate today and this week completed
     const now = new Date();
@@ -60,18 +71,11 @@ export async function calculateUserAnalytics(): Promise<UserAnalytics> {
     startOfWeek.setDate(now.getDate() - now.getDay());
     startOfWeek.setHours(0, 0, 0, 0);
 
-    const todayCompleted = completedReminders.filter(r => {
-      const completedDate = new Date(r.updated_at);
-      return completedDate >= startOfToday;
-    }).length;
-
-    const thisWeekCompleted = completedReminders.filter(r => {
-      const completedDate = new Date(r.updated_at);
-      return completedDate >= startOfWeek;
-    }).length;
+    const todayCompleted = completionDates.filter(date => date >= startOfToday).length;
+    const thisWeekCompleted = completionDates.filter(date => date >= startOfWeek).length;
 
     // Calculate preferred completion times
-    const preferredCompletionTimes = calculateCompletionTimePatterns(completedReminders);
+    const preferredCompletionTimes = calculateCompletionTimePatterns(completionDates);
 
     return {
       totalNotified,
@@ -90,19 +94,67 @@ export async function calculateUserAnalytics(): Promise<UserAnalytics> {
   }
 }
 
+/**
+ * When each reminder was (still) completed. Replays completed/uncompleted events in order,
+ * so deleted reminders keep their history and reopened ones drop out.
+ */
+function getCompletionTimes(events: ReminderEvent[], reminders: Reminder[]): Map<string, Date> {
+  const completions = new Map<string, Date>();
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    if (event.event_type === 'completed') {
+      completions.set(event.reminder_id, new Date(event.occurred_at));
+      seen.add(event.reminder_id);
+    } else if (event.event_type === 'uncompleted') {
+      completions.delete(event.reminder_id);
+      seen.add(event.reminder_id);
+    }
+  }
+
+  // Completions whose event hasn't reached the server yet (e.g. still queued offline)
+  for (const reminder of reminders) {
+    if (!seen.has(reminder.id) && reminder.status === 'completed' && reminder.completed_at) {
+      completions.set(reminder.id, new Date(reminder.completed_at));
+    }
+  }
+
+  return completions;
+}
+
+/**
+ * When each reminder was first notified
+ */
+function getFirstNotificationTimes(events: ReminderEvent[], reminders: Reminder[]): Map<string, Date> {
+  const notifications = new Map<string, Date>();
+
+  for (const event of events) {
+    if (event.event_type === 'notified' && !notifications.has(event.reminder_id)) {
+      notifications.set(event.reminder_id, new Date(event.occurred_at));
+    }
+  }
+
+  for (const reminder of reminders) {
+    if (!notifications.has(reminder.id) && reminder.notified_at) {
+      notifications.set(reminder.id, new Date(reminder.notified_at));
+    }
+  }
+
+  return notifications;
+}
+
 /**
  * Calculate completion streak (consecutive days with completed reminders)
  */
-function calculateStreaks(completedReminders: Reminder[]): { current: number; longest: number } {
-  if (completedReminders.length === 0) {
+function calculateStreaks(completionDates: Date[]): { current: number; longest: number } {
+  if (completionDates.length === 0) {
     return { current: 0, longest: 0 };
   }
 
-  // Group reminders by date
+  // Group completions by local date
   const dateMap = new Map<string, number>();
-  completedReminders.forEach(reminder => {
-    const date = new Date(reminder.updated_at);
-    const dateKey = date.toISOString().split('T')[0];
+  completionDates.forEach(date => {
+    const dateKey = toDateKey(date);
     dateMap.set(dateKey, (dateMap.get(dateKey) || 0) + 1);
   });
 
@@ -111,25 +163,16 @@ function calculateStreaks(completedReminders: Reminder[]): { current: number; lo
 
   // Calculate current streak
   let currentStreak = 0;
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+  const checkDate = new Date();
 
   // Check if there's activity today or yesterday to start counting
-  if (sortedDates.includes(today) || sortedDates.includes(yesterday)) {
-    let checkDate = new Date();
-    if (!sortedDates.includes(today)) {
-      checkDate = new Date(Date.now() - 86400000); // Start from yesterday
-    }
+  if (!dateMap.has(toDateKey(checkDate))) {
+    checkDate.setDate(checkDate.getDate() - 1); // Start from yesterday
+  }
 
-    while (true) {
-      const dateKey = checkDate.toISOString().split('T')[0];
-      if (dateMap.has(dateKey)) {
-        currentStreak++;
-        checkDate = new Date(checkDate.getTime() - 86400000); // Go back one day
-      } else {
-        break;
-      }
-    }
+  while (dateMap.has(toDateKey(checkDate))) {
+    currentStreak++;
+    checkDate.setDate(checkDate.getDate() - 1); // Go back one day
   }
 
   // Calculate longest streak
@@ -137,9 +180,10 @@ function calculateStreaks(completedReminders: Reminder[]): { current: number; lo
   let tempStreak = 1;
 
   for (let i = 1; i < sortedDates.length; i++) {
+    // Date keys parse as UTC midnight, so the difference is a whole number of days
     const prevDate = new Date(sortedDates[i - 1]);
     const currDate = new Date(sortedDates[i]);
-    const dayDiff = Math.floor((currDate.getTime() - prevDate.getTime()) / 86400000);
+    const dayDiff = Math.round((currDate.getTime() - prevDate.getTime()) / 86400000);
 
     if (dayDiff === 1) {
       tempStreak++;
@@ -156,25 +200,21 @@ function calculateStreaks(completedReminders: Reminder[]): { current: number; lo
 /**
  * Get average time between notification and completion (in minutes)
  */
-function calculateAverageResponseTime(completedNotifiedReminders: Reminder[]): number {
-  if (completedNotifiedReminders.length === 0) {
+function calculateAverageResponseTime(responses: { notifiedAt: Date; completedAt: Date }[]): number {
+  if (responses.length === 0) {
     return 0;
   }
 
   let totalMinutes = 0;
   let count = 0;
 
-  completedNotifiedReminders.forEach(reminder => {
-    if (reminder.notified_at && reminder.updated_at) {
-      const notifiedTime = new Date(reminder.notified_at).getTime();
-      const completedTime = new Date(reminder.updated_at).getTime();
-      const minutesDiff = Math.floor((completedTime - notifiedTime) / 60000);
-
-      // Only count reasonable response times (0 to 24 hours)
-      if (minutesDiff >= 0 && minutesDiff <= 1440) {
-        totalMinutes += minutesDiff;
-        count++;
-      }
+  responses.forEach(({ notifiedAt, completedAt }) => {
+    const minutesDiff = Math.floor((completedAt.getTime() - notifiedAt.getTime()) / 60000);
+
+    // Only count reasonable response times (0 to 24 hours)
+    if (minutesDiff >= 0 && minutesDiff <= 1440) {
+      totalMinutes += minutesDiff;
+      count++;
     }
   });
 
@@ -184,11 +224,11 @@ function calculateAverageResponseTime(completedNotifiedReminders: Reminder[]): n
 /**
  * Get hourly patterns for when user completes reminders
  */
-function calculateCompletionTimePatterns(completedReminders: Reminder[]): { hour: number; count: number }[] {
+function calculateCompletionTimePatterns(completionDates: Date[]): { hour: number; count: number }[] {
   const hourMap = new Map<number, number>();
 
-  completedReminders.forEach(reminder => {
-    const hour = new Date(reminder.updated_at).getHours();
+  completionDates.forEach(date => {
+    const hour = date.getHours();
     hourMap.set(hour, (hourMap.get(hour) || 0) + 1);
   });
 
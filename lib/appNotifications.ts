@@ -0,0 +1,74 @@
+import { supabase } from './supabase';
+import { AppNotification, NotificationCategory } from './types';
+
+// How many inbox entries the screen loads
+const APP_NOTIFICATION_LIMIT = 100;
+
+// app_notifications as stored; screens use AppNotification
+interface AppNotificationRow {
+  id: string;
+  category: NotificationCategory;
+  title: string;
+  description: string;
+  metadata: AppNotification['metadata'] | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+function toAppNotification(row: AppNotificationRow): AppNotification {
+  return {
+    id: row.id,
+    category: row.category,
+    title: row.title,
+    description: row.description,
+    timestamp: new Date(row.created_at),
+    isRead: row.read_at !== null,
+    metadata: row.metadata ?? undefined,
+  };
+}
+
+/**
+ * Get the newest inbox entries, optionally for one category
+ */
+export async function getAppNotifications(category?: NotificationCategory): Promise<AppNotification[]> {
+  let query = supabase
+    .from('app_notifications')
+    .select('id, category, title, description, metadata, read_at, created_at')
+    .order('created_at', { ascending: false })
+    .limit(APP_NOTIFICATION_LIMIT);
+
+  if (category) {
+    query = query.eq('category', category);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as AppNotificationRow[]).map(toAppNotification);
+}
+
+export async function markAppNotificationRead(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('app_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+/**
+ * Mark every unread entry read, or only those in one category
+ */
+export async function markAllAppNotificationsRead(category?: NotificationCategory): Promise<void> {
+  let query = supabase
+    .from('app_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .is('read_at', null);
+
+  if (category) {
+    query = query.eq('category', category);
+  }
+
+  const { error } = await query;
+  if (error) throw error;
+}
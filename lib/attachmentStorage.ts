@@ -0,0 +1,273 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File } from 'expo-file-system';
+import { supabase, supabaseAnonKey, supabaseUrl } from './supabase';
+import { generateLocalId } from './offlineStore';
+
+export const ATTACHMENT_BUCKET = 'reminder-attachments';
+
+// Supabase's resumable endpoint requires 6 MB chunks (the last one may be shorter)
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const RESUMABLE_ENDPOINT = `${supabaseUrl}/storage/v1/upload/resumable`;
+const TUS_VERSION = '1.0.0';
+const PENDING_UPLOADS_STORAGE_KEY = '@synco_pending_attachment_uploads';
+// Servers keep unfinished uploads for a day
+const PENDING_UPLOAD_TTL_MS = 23 * 60 * 60 * 1000;
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const THUMBNAIL_SIZE = 240;
+
+export interface AttachmentUploadProgress {
+  bytesUploaded: number;
+  bytesTotal: number;
+}
+
+export interface UploadedAttachment {
+  storage_path: string;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+}
+
+interface UploadAttachmentOptions {
+  mimeType: string;
+  fileName?: string;
+  onProgress?: (progress: AttachmentUploadProgress) => void;
+}
+
+// An interrupted upload, kept so retrying the same file continues where it stopped
+interface PendingUpload {
+  uploadUrl: string;
+  path: string;
+  size: number;
+  createdAt: number;
+}
+
+/**
+ * Thrown when Storage rejects an upload (as opposed to the connection dropping)
+ */
+export class AttachmentUploadError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'AttachmentUploadError';
+    this.status = status;
+  }
+}
+
+async function readPendingUploads(): Promise<Record<string, PendingUpload>> {
+  try {
+    const raw = await AsyncStorage.getItem(PENDING_UPLOADS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, PendingUpload>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function setPendingUpload(localUri: string, upload: PendingUpload | null): Promise<void> {
+  const pending = await readPendingUploads();
+  if (upload) {
+    pending[localUri] = upload;
+  } else {
+    delete pending[localUri];
+  }
+
+  try {
+    await AsyncStorage.setItem(PENDING_UPLOADS_STORAGE_KEY, JSON.stringify(pending));
+  } catch {
+    // Losing this only means a retry starts from the beginning
+  }
+}
+
+function getExtension(fileName: string | undefined, mimeType: string): string {
+  const fromName = fileName?.match(/\.([a-z0-9]+)$/i)?.[1];
+  if (fromName) return fromName.toLowerCase();
+  return mimeType.split('/')[1]?.replace(/[^a-z0-9]/gi, '') || 'bin';
+}
+
+// Values are ASCII (bucket, generated path, MIME type), so btoa is enough
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+}
+
+function getTusHeaders(accessToken: string): Record<string, string> {
+  return {
+    authorization: `Bearer ${accessToken}`,
+    apikey: supabaseAnonKey,
+    'tus-resumable': TUS_VERSION,
+  };
+}
+
+async function createUpload(
+  path: string,
+  size: number,
+  mimeType: string,
+  headers: Record<string, string>
+): Promise<string> {
+  const response = await fetch(RESUMABLE_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'upload-length': String(size),
+      'upload-metadata': encodeMetadata({
+        bucketName: ATTACHMENT_BUCKET,
+        objectName: path,
+        contentType: mimeType,
+        cacheControl: '3600',
+      }),
+      'x-upsert': 'true',
+    },
+  });
+
+  const location = response.headers.get('location');
+  if (response.status !== 201 || !location) {
+    throw new AttachmentUploadError(response.status, `Upload could not be started (${response.status})`);
+  }
+  return location;
+}
+
+// Where the server says an interrupted upload stopped, or null when it has expired
+async function getUploadOffset(uploadUrl: string, headers: Record<string, string>): Promise<number | null> {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers });
+  if (!response.ok) return null;
+
+  const offset = Number(response.headers.get('upload-offset'));
+  return Number.isFinite(offset) ? offset : null;
+}
+
+// XMLHttpRequest rather than fetch for upload progress within a chunk
+function sendChunk(
+  uploadUrl: string,
+  headers: Record<string, string>,
+  offset: number,
+  chunk: Uint8Array,
+  onChunkProgress: (loaded: number) => void
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', uploadUrl);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.setRequestHeader('upload-offset', String(offset));
+    xhr.setRequestHeader('content-type', 'application/offset+octet-stream');
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status !== 204) {
+        reject(new AttachmentUploadError(xhr.status, `Upload failed (${xhr.status})`));
+        return;
+      }
+      resolve(Number(xhr.getResponseHeader('upload-offset') ?? offset + chunk.byteLength));
+    };
+    // Same shape as a failed fetch, so isNetworkError() recognizes it
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.send(chunk);
+  });
+}
+
+/**
+ * Upload a local file into the current user's attachment folder, in resumable chunks.
+ * Calling it again for the same file after a dropped connection continues the upload.
+ */
+export async function uploadAttachment(
+  localUri: string,
+  { mimeType, fileName, onProgress }: UploadAttachmentOptions
+): Promise<UploadedAttachment> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('User not authenticated');
+  const headers = getTusHeaders(session.access_token);
+
+  const file = new File(localUri);
+  if (!file.exists) throw new Error('File not found');
+  const size = file.size;
+  const name = fileName ?? localUri.split('/').pop() ?? 'attachment';
+
+  let offset = 0;
+  let pending: PendingUpload | undefined = (await readPendingUploads())[localUri];
+  if (pending && (pending.size !== size || Date.now() - pending.createdAt > PENDING_UPLOAD_TTL_MS)) {
+    pending = undefined;
+  }
+  if (pending) {
+    const resumedOffset = await getUploadOffset(pending.uploadUrl, headers);
+    if (resumedOffset === null) {
+      pending = undefined;
+    } else {
+      offset = resumedOffset;
+    }
+  }
+
+  if (!pending) {
+    const path = `${session.user.id}/${generateLocalId()}.${getExtension(name, mimeType)}`;
+    pending = {
+      uploadUrl: await createUpload(path, size, mimeType, headers),
+      path,
+      size,
+      createdAt: Date.now(),
+    };
+    await setPendingUpload(localUri, pending);
+  }
+
+  onProgress?.({ bytesUploaded: offset, bytesTotal: size });
+
+  const handle = file.open();
+  try {
+    while (offset < size) {
+      handle.offset = offset;
+      const chunk = handle.readBytes(Math.min(CHUNK_SIZE, size - offset));
+      const chunkStart = offset;
+      offset = await sendChunk(pending.uploadUrl, headers, offset, chunk, (loaded) => {
+        onProgress?.({ bytesUploaded: Math.min(chunkStart + loaded, size), bytesTotal: size });
+      });
+    }
+  } finally {
+    handle.close();
+  }
+
+  await setPendingUpload(localUri, null);
+  onProgress?.({ bytesUploaded: size, bytesTotal: size });
+
+  return {
+    storage_path: pending.path,
+    file_name: name,
+    file_size: size,
+    mime_type: mimeType,
+  };
+}
+
+/**
+ * Short-lived URL for viewing or playing an uploaded attachment
+ */
+export async function getAttachmentUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+/**
+ * Short-lived URL for a small square thumbnail of an uploaded photo,
+ * resized by Storage image transformations
+ */
+export async function getAttachmentThumbnailUrl(path: string, size = THUMBNAIL_SIZE): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS, {
+      transform: { width: size, height: size, resize: 'cover' },
+    });
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+/**
+ * Delete uploaded objects. Paths outside the user's folder are refused by Storage RLS.
+ */
+export async function removeAttachmentObjects(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+  if (error) throw error;
+}
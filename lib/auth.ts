@@ -2,6 +2,7 @@ import * as WebBrowser from 'expo-web-browser';
 import * as AuthSession from 'expo-auth-session';
 import type { EmailOtpType } from '@supabase/supabase-js';
 import { supabase } from './supabase';
+import { clearOfflineStore } from './offlineStore';
 
 const redirectUri = AuthSession.makeRedirectUri({
   scheme: 'synco',
@@ -208,6 +209,7 @@ export async function signInWithEmail(email: string) {
 export async function signOut() {
   const { error } = await supabase.auth.signOut();
   if (error) throw error;
+  await clearOfflineStore();
 }
 
 export function onAuthStateChange(callback: (session: any) => void) {
@@ -0,0 +1,232 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { getAllFutureReminders, getOverdueReminders } from './reminders';
+import { isLocationTrigger } from './geofences';
+import { parseTimeOfDay } from './quietHours';
+import type { DailyDigestSlot, Reminder, UserPreferences } from './types';
+
+export type DailyDigestSettings = Pick<
+  UserPreferences,
+  'daily_digest_morning_time' | 'daily_digest_evening_time'
+>;
+
+const DAILY_DIGEST_SLOTS: DailyDigestSlot[] = ['morning', 'evening'];
+const DAILY_DIGEST_ID_PREFIX = 'daily-digest-';
+const DAILY_DIGEST_STORAGE_KEY = '@synco_daily_digests';
+// Kept long enough to match a push sent up to an hour late in any timezone
+const DAILY_DIGEST_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+// Titles listed per line before "+N more"
+const MAX_DIGEST_TITLES = 3;
+
+export interface DailyDigestContent {
+  title: string;
+  body: string;
+}
+
+// A digest this device scheduled or showed, so a server push for the same slot and day is dropped
+interface LocalDailyDigest {
+  slot: DailyDigestSlot;
+  // Local day it goes out on, YYYY-MM-DD
+  localDate: string;
+  deliverAt: string;
+}
+
+// Silent push send-daily-digest sends for a digest
+type DailyDigestPushData = {
+  type: 'daily_digest';
+  slot: DailyDigestSlot;
+  localDate: string;
+  title: string;
+  body: string;
+};
+
+function getDigestTime(slot: DailyDigestSlot, settings: DailyDigestSettings | null | undefined): string | null {
+  return (slot === 'morning' ? settings?.daily_digest_morning_time : settings?.daily_digest_evening_time) ?? null;
+}
+
+/**
+ * When the slot's digest next goes out, or null when it is off
+ */
+export function getNextDigestTime(
+  slot: DailyDigestSlot,
+  settings: DailyDigestSettings | null | undefined,
+  now: Date = new Date()
+): Date | null {
+  const minutes = parseTimeOfDay(getDigestTime(slot, settings));
+  if (minutes === null) return null;
+
+  const next = new Date(now);
+  next.setHours(0, 0, 0, 0);
+  next.setMinutes(minutes);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next;
+}
+
+function getLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+async function readLocalDigests(): Promise<LocalDailyDigest[]> {
+  try {
+    const raw = await AsyncStorage.getItem(DAILY_DIGEST_STORAGE_KEY);
+    const digests = raw ? (JSON.parse(raw) as LocalDailyDigest[]) : [];
+    const cutoff = Date.now() - DAILY_DIGEST_RETENTION_MS;
+    return digests.filter((digest) => new Date(digest.deliverAt).getTime() > cutoff);
+  } catch {
+    return [];
+  }
+}
+
+async function writeLocalDigests(digests: LocalDailyDigest[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(DAILY_DIGEST_STORAGE_KEY, JSON.stringify(digests));
+  } catch {
+    // Worst case a server push shows a digest this device already showed
+  }
+}
+
+function listTitles(reminders: Reminder[]): string {
+  const listed = reminders.slice(0, MAX_DIGEST_TITLES).map((reminder) => reminder.title).join(', ');
+  const more = reminders.length - MAX_DIGEST_TITLES;
+  return more > 0 ? `${listed} +${more} more` : listed;
+}
+
+/**
+ * Summary of the day a digest covers: its reminders (priorities first) and what is overdue.
+ * Null when there is nothing to report.
+ */
+export function buildDailyDigest(
+  slot: DailyDigestSlot,
+  deliverAt: Date,
+  upcoming: Reminder[],
+  overdue: Reminder[]
+): DailyDigestContent | null {
+  const dayStart = new Date(deliverAt);
+  dayStart.setHours(0, 0, 0, 0);
+  if (slot === 'evening') dayStart.setDate(dayStart.getDate() + 1);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+
+  const dayReminders = upcoming
+    .filter((reminder) => {
+      const scheduledAt = new Date(reminder.scheduled_time);
+      return (
+        !isLocationTrigger(reminder) &&
+        reminder.status !== 'completed' &&
+        scheduledAt >= dayStart &&
+        scheduledAt < dayEnd
+      );
+    })
+    .sort((a, b) => Number(b.is_priority) - Number(a.is_priority));
+  const dayIds = new Set(dayReminders.map((reminder) => reminder.id));
+  const overdueReminders = overdue.filter((reminder) => !dayIds.has(reminder.id));
+  if (dayReminders.length === 0 && overdueReminders.length === 0) return null;
+
+  const day = slot === 'morning' ? 'Today' : 'Tomorrow';
+  const priorityCount = [...dayReminders, ...overdueReminders].filter((reminder) => reminder.is_priority).length;
+  const count = dayReminders.length === 0
+    ? 'nothing scheduled'
+    : `${dayReminders.length} reminder${dayReminders.length === 1 ? '' : 's'}`;
+  const title = `${day}: ${count}${priorityCount > 0 ? `, ${priorityCount} priority` : ''}`;
+
+  const lines: string[] = [];
+  if (dayReminders.length > 0) lines.push(listTitles(dayReminders));
+  if (overdueReminders.length > 0) lines.push(`Overdue: ${listTitles(overdueReminders)}`);
+
+  return { title, body: lines.join('\n') };
+}
+
+/**
+ * Schedule the next morning and evening digests with what they cover as of now, replacing
+ * the previous ones. Runs with every notification sync, so edits keep them current.
+ */
+export async function syncDailyDigests(settings: DailyDigestSettings | null): Promise<void> {
+  const now = new Date();
+  const deliveries = DAILY_DIGEST_SLOTS.map((slot) => ({ slot, deliverAt: getNextDigestTime(slot, settings, now) }));
+  const needsReminders = deliveries.some(({ deliverAt }) => deliverAt !== null);
+
+  const [upcoming, overdue] = needsReminders
+    ? await Promise.all([getAllFutureReminders(), getOverdueReminders()])
+    : [[], []];
+
+  // Digests already delivered stay on record; pending ones are replaced below
+  const localDigests = (await readLocalDigests()).filter(
+    (digest) => new Date(digest.deliverAt).getTime() <= now.getTime()
+  );
+
+  for (const { slot, deliverAt } of deliveries) {
+    const identifier = `${DAILY_DIGEST_ID_PREFIX}${slot}`;
+    await Notifications.cancelScheduledNotificationAsync(identifier).catch(() => {});
+
+    const content = deliverAt ? buildDailyDigest(slot, deliverAt, upcoming, overdue) : null;
+    if (!deliverAt || !content) continue;
+
+    localDigests.push({ slot, localDate: getLocalDate(deliverAt), deliverAt: deliverAt.toISOString() });
+
+    await Notifications.scheduleNotificationAsync({
+      identifier,
+      content: {
+        title: content.title,
+        body: content.body,
+        sound: 'default',
+        ...(Platform.OS === 'android' && { channelId: 'reminders' }),
+        data: { dailyDigest: slot },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: deliverAt,
+      },
+    });
+  }
+
+  await writeLocalDigests(localDigests);
+}
+
+function isDailyDigestPushData(data: Record<string, unknown> | null | undefined): data is DailyDigestPushData {
+  return (
+    data?.type === 'daily_digest' &&
+    DAILY_DIGEST_SLOTS.includes(data.slot as DailyDigestSlot) &&
+    typeof data.localDate === 'string' &&
+    typeof data.title === 'string' &&
+    typeof data.body === 'string'
+  );
+}
+
+/**
+ * Show a digest the server pushed, unless this device already showed its own for that slot and
+ * day. A local digest still waiting is replaced by the push, so each digest shows once.
+ */
+export async function handleDailyDigestPush(data: Record<string, unknown> | null | undefined): Promise<boolean> {
+  if (!isDailyDigestPushData(data)) return false;
+
+  const now = new Date();
+  const localDigests = await readLocalDigests();
+  const local = localDigests.find((digest) => digest.slot === data.slot && digest.localDate === data.localDate);
+  if (local && new Date(local.deliverAt) <= now) return false;
+
+  const identifier = `${DAILY_DIGEST_ID_PREFIX}${data.slot}`;
+  if (local) {
+    await Notifications.cancelScheduledNotificationAsync(identifier).catch(() => {});
+  }
+
+  await writeLocalDigests([
+    ...localDigests.filter((digest) => digest !== local),
+    { slot: data.slot, localDate: data.localDate, deliverAt: now.toISOString() },
+  ]);
+
+  await Notifications.scheduleNotificationAsync({
+    identifier,
+    content: {
+      title: data.title,
+      body: data.body,
+      sound: 'default',
+      ...(Platform.OS === 'android' && { channelId: 'reminders' }),
+      data: { dailyDigest: data.slot },
+    },
+    trigger: null,
+  });
+  return true;
+}
@@ -0,0 +1,106 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import * as Device from 'expo-device';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+
+// SecureStore keys only allow letters, digits, ".", "-" and "_"
+const DEVICE_ID_STORAGE_KEY = 'synco_device_id';
+
+let deviceIdPromise: Promise<string> | null = null;
+// Users this install has registered a devices row for since launch
+const registeredUserIds = new Map<string, Promise<string>>();
+
+async function loadOrCreateDeviceId(): Promise<string> {
+  const stored = await SecureStore.getItemAsync(DEVICE_ID_STORAGE_KEY).catch(() => null);
+  if (stored) return stored;
+
+  const deviceId = Crypto.randomUUID();
+  // Kept until the app is uninstalled, not backed up to other devices
+  await SecureStore.setItemAsync(DEVICE_ID_STORAGE_KEY, deviceId, {
+    keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  }).catch(() => {});
+  return deviceId;
+}
+
+/**
+ * This install's device id. Generated on first launch, so two identical phones never share one
+ * and renaming a phone doesn't change it.
+ */
+export function getDeviceId(): Promise<string> {
+  if (!deviceIdPromise) {
+    deviceIdPromise = loadOrCreateDeviceId().catch((error) => {
+      deviceIdPromise = null;
+      throw error;
+    });
+  }
+  return deviceIdPromise;
+}
+
+export function getDeviceName(): string {
+  return Device.deviceName || Device.modelName || 'Unknown Device';
+}
+
+// What older versions stored as device_id, before installs had their own id
+function getLegacyDeviceIdentifier(): string | null {
+  return Device.deviceName || Device.modelName || null;
+}
+
+async function registerDevice(userId: string): Promise<string> {
+  const deviceId = await getDeviceId();
+
+  const { data: existing } = await supabase
+    .from('devices')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('id', deviceId)
+    .maybeSingle();
+
+  // First registration for this account: take over the rows older versions stored under the
+  // phone's name. Their schedules, push tokens and sync history follow the new id.
+  const legacyIdentifier = getLegacyDeviceIdentifier();
+  if (!existing && legacyIdentifier) {
+    await supabase
+      .from('devices')
+      .update({ id: deviceId, legacy_identifier: null })
+      .eq('user_id', userId)
+      .eq('legacy_identifier', legacyIdentifier);
+  }
+
+  // The auth session lets the devices screen sign this device out remotely
+  const { data: claimsData } = await supabase.auth.getClaims();
+
+  const { error } = await supabase
+    .from('devices')
+    .upsert(
+      {
+        id: deviceId,
+        user_id: userId,
+        name: getDeviceName(),
+        platform: Platform.OS,
+        model: Device.modelName ?? null,
+        session_id: claimsData?.claims.session_id ?? null,
+        last_seen_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,id' }
+    );
+
+  if (error) throw error;
+  return deviceId;
+}
+
+/**
+ * Make sure this install has a devices row for the user, once per launch, and return its id.
+ * push_tokens, notification_schedules and notification_deliveries reference that row.
+ */
+export function ensureDeviceRegistered(userId: string): Promise<string> {
+  let registration = registeredUserIds.get(userId);
+  if (!registration) {
+    registration = registerDevice(userId).catch((error) => {
+      registeredUserIds.delete(userId);
+      throw error;
+    });
+    registeredUserIds.set(userId, registration);
+  }
+  return registration;
+}
@@ -0,0 +1,65 @@
+import * as Notifications from 'expo-notifications';
+import { supabase } from './supabase';
+import { getDeviceId } from './deviceIdentity';
+import { clearOfflineStore } from './offlineStore';
+import { stopGeofences } from './geofences';
+import type { UserDevice } from './types';
+
+// Silent push remove-device sends to the device it signs out
+type DeviceRemovedData = {
+  type: 'device_removed';
+  deviceId: string;
+};
+
+/**
+ * Get the devices signed in to the current account, most recently seen first
+ */
+export async function getDevices(): Promise<UserDevice[]> {
+  const { data, error } = await supabase
+    .from('devices')
+    .select('id, user_id, name, platform, model, session_id, created_at, last_seen_at')
+    .order('last_seen_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Sign another device out: revokes its session, deletes its push tokens and notification
+ * schedules, and sends it a silent push to wipe its local data
+ */
+export async function removeDevice(deviceId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('remove-device', {
+    body: { deviceId },
+  });
+
+  if (error) throw error;
+}
+
+function isDeviceRemovedData(data: Record<string, unknown> | null | undefined): data is DeviceRemovedData {
+  return data?.type === 'device_removed' && typeof data.deviceId === 'string';
+}
+
+/**
+ * Clear everything this device keeps for the account and sign it out locally.
+ * The session itself was already revoked by remove-device.
+ */
+export async function wipeLocalDeviceData(): Promise<void> {
+  await Notifications.cancelAllScheduledNotificationsAsync().catch(() => {});
+  await Notifications.dismissAllNotificationsAsync().catch(() => {});
+  await stopGeofences().catch(() => {});
+  await clearOfflineStore();
+  await supabase.auth.signOut({ scope: 'local' }).catch(() => {});
+}
+
+/**
+ * Wipe local data if a push says this device was removed. Pushes naming another device,
+ * e.g. after a token moved to a new install, are ignored.
+ */
+export async function handleDeviceRemovedPush(data: Record<string, unknown> | null | undefined): Promise<boolean> {
+  if (!isDeviceRemovedData(data)) return false;
+  if (data.deviceId !== (await getDeviceId())) return false;
+
+  await wipeLocalDeviceData();
+  return true;
+}
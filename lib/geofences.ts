@@ -0,0 +1,251 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { isNetworkError } from './offlineStore';
+import { recordReminderEvent } from './reminderEvents';
+import { createDynamicNotificationCategory } from './notificationCategories';
+import type { Reminder, ReminderAction, ReminderTriggerType, UserPreferences } from './types';
+
+export const GEOFENCE_TASK = 'REMINDER-GEOFENCE-TASK';
+
+// iOS monitors at most 20 regions per app
+const MAX_GEOFENCES = 20;
+const GEOFENCE_REGIONS_STORAGE_KEY = '@synco_geofence_regions';
+
+// What the task needs to notify without reaching the server, keyed by reminder id
+interface GeofenceRegion {
+  title: string;
+  body: string;
+  triggerType: Exclude<ReminderTriggerType, 'time'>;
+  categoryIdentifier?: string;
+}
+
+type GeofenceTaskData = {
+  eventType: Location.GeofencingEventType;
+  region: Location.LocationRegion;
+};
+
+async function readGeofenceRegions(): Promise<Record<string, GeofenceRegion>> {
+  try {
+    const raw = await AsyncStorage.getItem(GEOFENCE_REGIONS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, GeofenceRegion>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeGeofenceRegions(regions: Record<string, GeofenceRegion>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(GEOFENCE_REGIONS_STORAGE_KEY, JSON.stringify(regions));
+  } catch {
+    // The next sync writes them again
+  }
+}
+
+export function isLocationTrigger(reminder: Pick<Reminder, 'trigger_type'>): boolean {
+  return reminder.trigger_type === 'arrive' || reminder.trigger_type === 'leave';
+}
+
+export function describeLocationTrigger(reminder: Pick<Reminder, 'trigger_type' | 'location_name'>): string {
+  const place = reminder.location_name || 'this place';
+  return reminder.trigger_type === 'leave' ? `When you leave ${place}` : `When you arrive at ${place}`;
+}
+
+// Great-circle distance, good enough to pick the nearest places
+function distanceInMeters(fromLat: number, fromLng: number, toLat: number, toLng: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(toLat - fromLat);
+  const dLng = toRadians(toLng - fromLng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+async function handleGeofenceEvent({ eventType, region }: GeofenceTaskData): Promise<void> {
+  const reminderId = region.identifier;
+  if (!reminderId) return;
+
+  const regions = await readGeofenceRegions();
+  const target = regions[reminderId];
+  if (!target) return;
+
+  const expected = target.triggerType === 'arrive'
+    ? Location.GeofencingEventType.Enter
+    : Location.GeofencingEventType.Exit;
+  if (eventType !== expected) return;
+
+  // Fire once: forget the region before anything that might fail
+  delete regions[reminderId];
+  await writeGeofenceRegions(regions);
+
+  const notificationId = await Notifications.scheduleNotificationAsync({
+    content: {
+      title: target.title,
+      body: target.body,
+      sound: 'default',
+      ...(target.categoryIdentifier ? { categoryIdentifier: target.categoryIdentifier } : {}),
+      ...(Platform.OS === 'android' && { channelId: 'reminders' }),
+      data: {
+        reminderId,
+        title: target.title,
+        body: target.body,
+        originalTime: new Date().toISOString(),
+      },
+    },
+    trigger: null,
+  });
+
+  const notifiedAt = new Date();
+  await recordReminderEvent(reminderId, 'notified', {
+    dedupeKey: `notified:${notificationId}`,
+    occurredAt: notifiedAt,
+    metadata: { trigger: target.triggerType },
+  });
+
+  // Stops other devices (and the next sync) from watching this place
+  await supabase
+    .from('reminders')
+    .update({ notified_at: notifiedAt.toISOString() })
+    .eq('id', reminderId)
+    .is('notified_at', null);
+}
+
+/**
+ * Define the background task that turns geofence events into reminder notifications.
+ * Must run at startup (index.tsx) so the OS can wake the app for an event.
+ */
+export function defineGeofenceTask(): void {
+  if (TaskManager.isTaskDefined(GEOFENCE_TASK)) return;
+
+  TaskManager.defineTask<GeofenceTaskData>(GEOFENCE_TASK, async ({ data, error }) => {
+    if (error || !data?.region) return;
+    try {
+      await handleGeofenceEvent(data);
+    } catch {
+      // A missed event can't be retried; the reminder stays pending for the next sync
+    }
+  });
+}
+
+/**
+ * Ask for "always" location access, which geofences need to fire while the app is closed
+ */
+export async function requestGeofencePermissions(): Promise<boolean> {
+  const foreground = await Location.requestForegroundPermissionsAsync();
+  if (foreground.status !== 'granted') return false;
+
+  const background = await Location.requestBackgroundPermissionsAsync();
+  return background.status === 'granted';
+}
+
+export async function hasGeofencePermissions(): Promise<boolean> {
+  const { status } = await Location.getBackgroundPermissionsAsync();
+  return status === 'granted';
+}
+
+export async function stopGeofences(): Promise<void> {
+  await writeGeofenceRegions({});
+  if (await Location.hasStartedGeofencingAsync(GEOFENCE_TASK)) {
+    await Location.stopGeofencingAsync(GEOFENCE_TASK);
+  }
+}
+
+/**
+ * Watch the places of the user's pending arrive/leave reminders, nearest first.
+ * Called alongside the local notification sync; without background location access
+ * nothing is registered.
+ */
+export async function syncReminderGeofences(options: {
+  userId: string;
+  preferences: UserPreferences | null;
+  defaultSnoozeMinutes: number;
+}): Promise<void> {
+  if (Platform.OS === 'web') return;
+  if (!(await hasGeofencePermissions())) {
+    await stopGeofences().catch(() => undefined);
+    return;
+  }
+
+  // Only the owner's own places: "when I get home" means nothing to a share participant
+  const { data, error } = await supabase
+    .from('reminders')
+    .select('*')
+    .eq('user_id', options.userId)
+    .neq('trigger_type', 'time')
+    .is('notified_at', null)
+    .is('deleted_at', null)
+    .neq('status', 'completed');
+
+  if (error) {
+    // Offline: keep watching what was registered last time
+    if (isNetworkError(error)) return;
+    throw error;
+  }
+
+  let reminders = ((data ?? []) as Reminder[]).filter(
+    (reminder) => reminder.location_lat !== null && reminder.location_lng !== null && reminder.location_radius_m
+  );
+  if (reminders.length === 0) {
+    await stopGeofences();
+    return;
+  }
+
+  if (reminders.length > MAX_GEOFENCES) {
+    const position = await Location.getLastKnownPositionAsync().catch(() => null);
+    if (position) {
+      const { latitude, longitude } = position.coords;
+      reminders = [...reminders].sort(
+        (a, b) =>
+          distanceInMeters(latitude, longitude, a.location_lat!, a.location_lng!) -
+          distanceInMeters(latitude, longitude, b.location_lat!, b.location_lng!)
+      );
+    }
+    reminders = reminders.slice(0, MAX_GEOFENCES);
+  }
+
+  const { data: actionRows } = await supabase
+    .from('reminder_actions')
+    .select('*')
+    .in('reminder_id', reminders.map((reminder) => reminder.id));
+  const actions = (actionRows ?? []) as ReminderAction[];
+
+  const regions: Record<string, GeofenceRegion> = {};
+  for (const reminder of reminders) {
+    const triggerType = reminder.trigger_type === 'leave' ? 'leave' : 'arrive';
+    // Same Complete/Snooze buttons as a time notification
+    const categoryIdentifier = await createDynamicNotificationCategory(
+      reminder.id,
+      actions.filter((action) => action.reminder_id === reminder.id),
+      {
+        defaultSnoozeMinutes: options.defaultSnoozeMinutes,
+        snoozeMode: options.preferences?.snooze_mode ?? 'text_input',
+        snoozePresetValues: options.preferences?.snooze_preset_values ?? [5, 10, 15, 30],
+      }
+    ).catch(() => undefined);
+
+    regions[reminder.id] = {
+      title: reminder.title,
+      body: reminder.description ?? describeLocationTrigger(reminder),
+      triggerType,
+      categoryIdentifier,
+    };
+  }
+
+  await writeGeofenceRegions(regions);
+  // Starting again replaces the previously watched regions
+  await Location.startGeofencingAsync(
+    GEOFENCE_TASK,
+    reminders.map((reminder) => ({
+      identifier: reminder.id,
+      latitude: reminder.location_lat!,
+      longitude: reminder.location_lng!,
+      radius: reminder.location_radius_m!,
+      notifyOnEnter: reminder.trigger_type === 'arrive',
+      notifyOnExit: reminder.trigger_type === 'leave',
+    }))
+  );
+}
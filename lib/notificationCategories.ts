@@ -12,7 +12,7 @@ import { ReminderAction, ReminderActionType, SnoozeMode } from './types';
 import { updateReminderStatus } from './reminders';
 import { getReminderActions } from './reminderActions';
 
-const ACTIONABLE_NOTIFICATION_ACTION_TYPES: ReminderActionType[] = ['call', 'link', 'location', 'email'];
+const ACTIONABLE_NOTIFICATION_ACTION_TYPES: ReminderActionType[] = ['call', 'link', 'location', 'email', 'voice'];
 
 // Action identifier prefixes
 const PREFIX_COMPLETE = 'complete';
@@ -23,6 +23,7 @@ const PREFIX_LOCATION = 'location';
 const PREFIX_EMAIL = 'email';
 const PREFIX_NOTE = 'note';
 const PREFIX_SUBTASKS = 'subtasks';
+const PREFIX_VOICE = 'voice';
 const MAX_NOTIFICATION_ACTIONS = 4;
 const MAX_SNOOZE_PRESETS = 3;
 
@@ -161,6 +162,12 @@ function createNotificationActionButton(
       emoji: '✓',
       opensApp: true,
     },
+    voice: {
+      prefix: PREFIX_VOICE,
+      title: 'Play',
+      emoji: '▶️',
+      opensApp: true,
+    },
   };
 
   const config = configs[action.action_type];
@@ -394,6 +401,7 @@ export async function handleDynamicNotificationAction(
 
       case PREFIX_NOTE:
       case PREFIX_SUBTASKS:
+      case PREFIX_VOICE:
         // These require opening the app
         // The main handler will handle opening to the specific reminder
         return false;
@@ -405,6 +413,14 @@ export async function handleDynamicNotificationAction(
   return false;
 }
 
+/**
+ * The voice action behind a notification's Play button, or null for any other button
+ */
+export function getVoiceNotificationActionId(actionIdentifier: string): string | null {
+  const prefix = `${PREFIX_VOICE}_`;
+  return actionIdentifier.startsWith(prefix) ? actionIdentifier.slice(prefix.length) || null : null;
+}
+
 /**
  * Get action data to embed in notification for faster access
  * This reduces the need to query the database when handling actions
@@ -0,0 +1,60 @@
+import { supabase } from './supabase';
+import { ensureDeviceRegistered } from './deviceIdentity';
+import { NotificationDelivery } from './types';
+
+// How many deliveries the reminder detail loads
+const REMINDER_DELIVERY_LIMIT = 20;
+
+// notification_deliveries with the device's row embedded
+type NotificationDeliveryRow = Omit<NotificationDelivery, 'device_name'> & {
+  device: { name: string | null } | null;
+};
+
+/**
+ * Log a local notification this device showed. Best effort: a missing row only means the
+ * reminder detail shows an older delivery.
+ */
+export async function recordLocalDelivery(params: {
+  reminderId: string;
+  offsetMinutes?: number;
+  deliveredAt: Date;
+  dedupeKey: string;
+}): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+  const deviceId = await ensureDeviceRegistered(session.user.id);
+
+  await supabase
+    .from('notification_deliveries')
+    .upsert(
+      {
+        reminder_id: params.reminderId,
+        user_id: session.user.id,
+        device_id: deviceId,
+        provider: 'local',
+        offset_minutes: params.offsetMinutes ?? null,
+        status: 'delivered',
+        dedupe_key: params.dedupeKey,
+        created_at: params.deliveredAt.toISOString(),
+      },
+      { onConflict: 'dedupe_key', ignoreDuplicates: true }
+    );
+}
+
+/**
+ * Get a reminder's deliveries to the current user's devices, newest first
+ */
+export async function getReminderDeliveries(reminderId: string): Promise<NotificationDelivery[]> {
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .select('id, reminder_id, user_id, device_id, provider, kind, offset_minutes, status, error_code, error_message, created_at, updated_at, device:devices(name)')
+    .eq('reminder_id', reminderId)
+    .order('created_at', { ascending: false })
+    .limit(REMINDER_DELIVERY_LIMIT);
+
+  if (error) throw error;
+  return ((data ?? []) as unknown as NotificationDeliveryRow[]).map(({ device, ...delivery }) => ({
+    ...delivery,
+    device_name: device?.name ?? null,
+  }));
+}
@@ -1,15 +1,37 @@
 import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
 import * as Device from 'expo-device';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
 import { supabase } from './supabase';
-import { getAllFutureReminders, snoozeReminder as snoozeReminderInDb } from './reminders';
-import type { ReminderAction, SnoozeMode } from './types';
+import {
+  getAllFutureReminders,
+  materializeRecurringReminders,
+  snoozeReminder as snoozeReminderInDb,
+} from './reminders';
+import type { Reminder, ReminderAction, SnoozeMode, UserPreferences } from './types';
 import { getUserPreferences } from './userPreferences';
 import { getReminderActions } from './reminderActions';
+import { recordReminderEvent } from './reminderEvents';
+import { recordLocalDelivery } from './notificationDeliveries';
+import { ensureDeviceRegistered, getDeviceId } from './deviceIdentity';
+import { handleDeviceRemovedPush } from './devices';
+import { isLocationTrigger, syncReminderGeofences } from './geofences';
+import { handleDailyDigestPush, syncDailyDigests } from './dailyDigest';
+import { formatNotifyOffset, normalizeNotifyOffsets } from './notifyOffsets';
+import {
+  deferToQuietDigest,
+  getQuietDigestIdentifier,
+  getQuietHoursEnd,
+  isInQuietDigest,
+  isQuietDigestEntryId,
+  QuietHoursSettings,
+  removeFromQuietDigest,
+} from './quietHours';
 import {
   createDynamicNotificationCategory,
   getDynamicNotificationCategoryId,
+  getVoiceNotificationActionId,
   handleDynamicNotificationAction,
 } from './notificationCategories';
 
@@ -18,16 +40,33 @@ let syncInProgress = false;
 
 // Configure how notifications appear when app is in foreground
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowBanner: true,
-    shouldShowList: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-  }),
+  handleNotification: async (notification) => {
+    // Digest pushes are silent; handleDailyDigestPush shows them unless the device already did
+    const show = notification.request.content.data?.type !== 'daily_digest';
+    return {
+      shouldShowBanner: show,
+      shouldShowList: show,
+      shouldPlaySound: show,
+      shouldSetBadge: show,
+    };
+  },
 });
 
+export const BACKGROUND_PUSH_TASK = 'BACKGROUND-PUSH-TASK';
+
+type BackgroundPushTaskData = {
+  notification?: { request?: { content?: { data?: Record<string, unknown> } }; data?: Record<string, unknown> };
+  data?: Record<string, unknown>;
+};
+
 type PushTokenType = 'expo' | 'fcm';
 
+const REMINDER_CHANNEL_ID = 'reminders';
+// Alarm-style Android channel for priority reminders when loud alerts are on
+const PRIORITY_CHANNEL_ID = 'priority-reminders';
+// Upper bound of user_preferences.priority_repeat_max
+const MAX_PRIORITY_REPEATS = 20;
+
 type ReminderData = {
   reminderId?: string;
   title?: string;
@@ -36,6 +75,17 @@ type ReminderData = {
   reminderUpdatedAt?: string;
   defaultSnoozeMinutes?: number;
   testNotification?: boolean;
+  // Which of the reminder's alerts this is, in minutes before it is due
+  offsetMinutes?: number;
+  // Set on the follow-ups of a priority reminder (1 = first repeat)
+  repeatIndex?: number;
+  repeatAt?: string;
+  loudAlert?: boolean;
+};
+
+// How a notification asks for its reminder to be opened
+export type ReminderOpenOptions = {
+  playVoiceActionId?: string;
 };
 
 type ReminderScheduleInput = {
@@ -49,6 +99,10 @@ type ReminderScheduleInput = {
   defaultSnoozeMinutes?: number;
   snoozeMode?: SnoozeMode;
   snoozePresetValues?: number[];
+  loudAlert?: boolean;
+  offsetMinutes?: number;
+  isPriority?: boolean;
+  quietHours?: QuietHoursSettings | null;
 };
 
 type NotificationScheduleRecord = {
@@ -56,6 +110,8 @@ type NotificationScheduleRecord = {
   user_id: string;
   reminder_id: string;
   device_id: string;
+  // One record per alert of the reminder
+  offset_minutes: number;
   notification_id: string;
   scheduled_for: string;
   reminder_updated_at: string | null;
@@ -68,10 +124,6 @@ function hasSupportedCategoryIdentifier(value: string | null | undefined): boole
   return !value.includes(':') && !value.includes('-');
 }
 
-function getDeviceIdentifier(): string {
-  return Device.deviceName || Device.modelName || 'unknown-device';
-}
-
 export async function registerForPushNotifications(): Promise<{ token: string; tokenType: PushTokenType } | null> {
   if (!Device.isDevice) {
     return null;
@@ -79,13 +131,26 @@ export async function registerForPushNotifications(): Promise<{ token: string; t
 
   if (Platform.OS === 'android') {
     // On Android 13+, create the channel before requesting notification permissions.
-    await Notifications.setNotificationChannelAsync('reminders', {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
       name: 'Reminders',
       importance: Notifications.AndroidImportance.MAX,
       vibrationPattern: [0, 250, 250, 250],
       lightColor: '#2F00FF',
       sound: 'default',
     });
+    await Notifications.setNotificationChannelAsync(PRIORITY_CHANNEL_ID, {
+      name: 'Priority reminders',
+      importance: Notifications.AndroidImportance.MAX,
+      vibrationPattern: [0, 600, 300, 600, 300, 600],
+      lightColor: '#ef4444',
+      sound: 'default',
+      bypassDnd: true,
+      lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+      audioAttributes: {
+        usage: Notifications.AndroidAudioUsage.ALARM,
+        contentType: Notifications.AndroidAudioContentType.SONIFICATION,
+      },
+    });
   }
 
   const { status: existingStatus } = await Notifications.getPermissionsAsync();
@@ -143,7 +208,7 @@ export async function savePushToken(token: string, tokenType: PushTokenType): Pr
     return;
   }
 
-  const deviceId = Device.deviceName || Device.modelName || 'unknown';
+  const deviceId = await ensureDeviceRegistered(user.id);
   const platform = Platform.OS;
 
   const { error } = await supabase
@@ -178,14 +243,49 @@ export async function removePushToken(token: string): Promise<void> {
   }
 }
 
+function isPushTrigger(trigger: Notifications.NotificationTrigger | null): boolean {
+  return Boolean(trigger && 'type' in trigger && trigger.type === 'push');
+}
+
+// A delivered reminder notification is recorded once, whether it was seen in the foreground or acted on
+function recordNotificationDelivered(notification: Notifications.Notification): void {
+  const data = notification.request.content.data as ReminderData | undefined;
+  const reminderId = data?.reminderId;
+  // Repeats of a priority reminder aren't new deliveries
+  if (!reminderId || !isUuid(reminderId) || data?.testNotification || data?.repeatIndex) return;
+
+  void getDeviceId()
+    .then((deviceId) => {
+      void recordReminderEvent(reminderId, 'notified', {
+        dedupeKey: `notified:${notification.request.identifier}`,
+        occurredAt: new Date(notification.date),
+        metadata: { device_id: deviceId },
+      });
+      // Pushes are logged by the server when it sends them
+      if (isPushTrigger(notification.request.trigger)) return;
+      return recordLocalDelivery({
+        reminderId,
+        offsetMinutes: data?.offsetMinutes,
+        deliveredAt: new Date(notification.date),
+        dedupeKey: `delivered:${deviceId}:${notification.request.identifier}:${notification.date}`,
+      });
+    })
+    .catch(() => {});
+}
+
 export function setupNotificationReceivedHandler(
   onNotificationReceived: (notification: Notifications.Notification) => void
 ): Notifications.EventSubscription {
-  return Notifications.addNotificationReceivedListener(onNotificationReceived);
+  return Notifications.addNotificationReceivedListener((notification) => {
+    void handleDeviceRemovedPush(notification.request.content.data).catch(() => {});
+    void handleDailyDigestPush(notification.request.content.data).catch(() => {});
+    recordNotificationDelivered(notification);
+    onNotificationReceived(notification);
+  });
 }
 
 export function setupNotificationResponseHandler(
-  onReminderTap?: (reminderId: string) => void
+  onReminderTap?: (reminderId: string, options?: ReminderOpenOptions) => void
 ): Notifications.EventSubscription {
   return Notifications.addNotificationResponseReceivedListener((response) => {
     void handleNotificationResponse(response, onReminderTap);
@@ -221,8 +321,18 @@ export async function scheduleReminder(reminder: ReminderScheduleInput): Promise
     defaultSnoozeMinutes,
     snoozeMode,
     snoozePresetValues,
+    loudAlert,
+    offsetMinutes,
+    isPriority,
+    quietHours,
   } = reminder;
 
+  // Inside quiet hours the alert waits for the digest posted when they end
+  const quietHoursEnd = getQuietHoursEnd(triggerAt, quietHours, Boolean(isPriority));
+  if (quietHoursEnd) {
+    return deferToQuietDigest(quietHoursEnd, reminderId, title);
+  }
+
   const snoozeMinutes = Math.max(1, Math.floor(defaultSnoozeMinutes ?? 15));
   const reminderActions = actions ?? await getReminderActions(reminderId).catch(() => []);
 
@@ -242,7 +352,7 @@ export async function scheduleReminder(reminder: ReminderScheduleInput): Promise
     body,
     sound: 'default',
     ...(categoryIdentifier ? { categoryIdentifier } : {}),
-    ...(Platform.OS === 'android' && { channelId: 'reminders' }), // Required for Android
+    ...(Platform.OS === 'android' && { channelId: loudAlert ? PRIORITY_CHANNEL_ID : REMINDER_CHANNEL_ID }), // Required for Android
     data: {
       reminderId,
       title,
@@ -250,6 +360,8 @@ export async function scheduleReminder(reminder: ReminderScheduleInput): Promise
       originalTime: originalTime ?? triggerAt.toISOString(),
       reminderUpdatedAt,
       defaultSnoozeMinutes: snoozeMinutes,
+      loudAlert: Boolean(loudAlert),
+      offsetMinutes: offsetMinutes ?? 0,
     },
   };
 
@@ -264,8 +376,12 @@ export async function scheduleReminder(reminder: ReminderScheduleInput): Promise
   return notificationId;
 }
 
-// Cancel a scheduled notification
+// Cancel a scheduled notification (or an alert held for a quiet-hours digest)
 export async function cancelScheduledNotification(identifier: string): Promise<void> {
+  if (isQuietDigestEntryId(identifier)) {
+    await removeFromQuietDigest(identifier);
+    return;
+  }
   await Notifications.cancelScheduledNotificationAsync(identifier);
 }
 
@@ -309,13 +425,23 @@ export async function setBadgeCount(count: number): Promise<void> {
   await Notifications.setBadgeCountAsync(count);
 }
 
-async function fetchNotificationSchedules(userId: string, deviceId: string): Promise<NotificationScheduleRecord[]> {
-  const { data, error } = await supabase
+async function fetchNotificationSchedules(
+  userId: string,
+  deviceId: string,
+  reminderIds?: string[]
+): Promise<NotificationScheduleRecord[]> {
+  let query = supabase
     .from('notification_schedules')
-    .select('id, user_id, reminder_id, device_id, notification_id, scheduled_for, reminder_updated_at, snoozed_until')
+    .select('id, user_id, reminder_id, device_id, offset_minutes, notification_id, scheduled_for, reminder_updated_at, snoozed_until')
     .eq('user_id', userId)
     .eq('device_id', deviceId);
 
+  if (reminderIds) {
+    query = query.in('reminder_id', reminderIds);
+  }
+
+  const { data, error } = await query;
+
   if (error) {
     return [];
   }
@@ -327,12 +453,22 @@ async function upsertNotificationSchedule(params: {
   userId: string;
   reminderId: string;
   deviceId: string;
+  offsetMinutes: number;
   notificationId: string;
   scheduledFor: string;
   reminderUpdatedAt?: string | null;
   snoozedUntil?: string | null;
 }): Promise<void> {
-  const { userId, reminderId, deviceId, notificationId, scheduledFor, reminderUpdatedAt, snoozedUntil } = params;
+  const {
+    userId,
+    reminderId,
+    deviceId,
+    offsetMinutes,
+    notificationId,
+    scheduledFor,
+    reminderUpdatedAt,
+    snoozedUntil,
+  } = params;
   const { error } = await supabase
     .from('notification_schedules')
     .upsert(
@@ -340,6 +476,7 @@ async function upsertNotificationSchedule(params: {
         user_id: userId,
         reminder_id: reminderId,
         device_id: deviceId,
+        offset_minutes: offsetMinutes,
         notification_id: notificationId,
         scheduled_for: scheduledFor,
         reminder_updated_at: reminderUpdatedAt ?? null,
@@ -347,7 +484,7 @@ async function upsertNotificationSchedule(params: {
         updated_at: new Date().toISOString(),
       },
       {
-        onConflict: 'user_id,reminder_id,device_id',
+        onConflict: 'user_id,reminder_id,device_id,offset_minutes',
       }
     );
 
@@ -363,11 +500,36 @@ async function deleteNotificationSchedule(id: string): Promise<void> {
   }
 }
 
+// Reminder ids changed while a sync was running; drained once it finishes
+const pendingReminderIds = new Set<string>();
+
 export async function syncLocalReminderSchedules(): Promise<void> {
   if (syncInProgress) return;
   syncInProgress = true;
   try {
     await _doSyncLocalReminderSchedules();
+    await drainPendingReminderSchedules();
+    await syncGeofences();
+    await syncDigests();
+  } finally {
+    syncInProgress = false;
+  }
+}
+
+/**
+ * Reschedule (or cancel) local notifications for just the given reminders.
+ * Used for realtime changes so one edit doesn't trigger a full resync.
+ */
+export async function syncReminderSchedulesFor(reminderIds: string[]): Promise<void> {
+  for (const id of reminderIds) {
+    pendingReminderIds.add(id);
+  }
+  if (syncInProgress) return;
+  syncInProgress = true;
+  try {
+    await drainPendingReminderSchedules();
+    await syncGeofences();
+    await syncDigests();
   } finally {
     syncInProgress = false;
   }
@@ -378,131 +540,448 @@ export async function syncReminderNotifications(): Promise<void> {
   await sendResyncPush();
 }
 
-async function _doSyncLocalReminderSchedules(): Promise<void> {
+type ScheduleSyncContext = {
+  userId: string;
+  deviceId: string;
+  now: number;
+  preferences: UserPreferences | null;
+  defaultSnoozeMinutes: number;
+  scheduledById: Map<string, Notifications.NotificationRequest>;
+};
+
+async function getScheduleSyncContext(): Promise<ScheduleSyncContext | null> {
   const { data: { user } } = await supabase.auth.getUser();
-  if (!user) return;
+  if (!user) return null;
 
-  const deviceId = getDeviceIdentifier();
-  const now = Date.now();
   const preferences = await getUserPreferences();
-  const defaultSnoozeMinutes = Math.max(1, Math.floor(preferences?.default_snooze_minutes ?? 15));
   const allScheduledNow = await Notifications.getAllScheduledNotificationsAsync();
-  const scheduledById = new Map(allScheduledNow.map((request) => [request.identifier, request]));
 
-  const reminders = await getAllFutureReminders();
-  const existing = await fetchNotificationSchedules(user.id, deviceId);
-  const existingByReminder = new Map(existing.map((record) => [record.reminder_id, record]));
-  const keepIds = new Set<string>();
+  return {
+    userId: user.id,
+    deviceId: await ensureDeviceRegistered(user.id),
+    now: Date.now(),
+    preferences,
+    defaultSnoozeMinutes: Math.max(1, Math.floor(preferences?.default_snooze_minutes ?? 15)),
+    scheduledById: new Map(allScheduledNow.map((request) => [request.identifier, request])),
+  };
+}
+
+// Arrive/leave reminders are watched as geofences instead of scheduled
+async function syncGeofences(): Promise<void> {
+  const context = await getScheduleSyncContext();
+  if (!context) return;
+
+  await syncReminderGeofences({
+    userId: context.userId,
+    preferences: context.preferences,
+    defaultSnoozeMinutes: context.defaultSnoozeMinutes,
+  }).catch(() => undefined);
+}
 
-  const reminderIds = reminders.map((reminder) => reminder.id);
+// The daily digests summarize reminders, so they are rebuilt with every sync
+async function syncDigests(): Promise<void> {
+  const context = await getScheduleSyncContext();
+  if (!context) return;
+
+  await syncDailyDigests(context.preferences).catch(() => undefined);
+}
+
+async function fetchActionsByReminder(reminderIds: string[]): Promise<Map<string, ReminderAction[]>> {
   const actionsByReminder = new Map<string, ReminderAction[]>();
-  if (reminderIds.length > 0) {
-    const { data: allActions } = await supabase
-      .from('reminder_actions')
-      .select('*')
-      .in('reminder_id', reminderIds)
-      .order('created_at', { ascending: true });
-
-    for (const action of (allActions ?? []) as ReminderAction[]) {
-      const current = actionsByReminder.get(action.reminder_id) ?? [];
-      current.push(action);
-      actionsByReminder.set(action.reminder_id, current);
+  if (reminderIds.length === 0) return actionsByReminder;
+
+  const { data: allActions } = await supabase
+    .from('reminder_actions')
+    .select('*')
+    .in('reminder_id', reminderIds)
+    .order('created_at', { ascending: true });
+
+  for (const action of (allActions ?? []) as ReminderAction[]) {
+    const current = actionsByReminder.get(action.reminder_id) ?? [];
+    current.push(action);
+    actionsByReminder.set(action.reminder_id, current);
+  }
+  return actionsByReminder;
+}
+
+function groupSchedulesByReminder(records: NotificationScheduleRecord[]): Map<string, NotificationScheduleRecord[]> {
+  const recordsByReminder = new Map<string, NotificationScheduleRecord[]>();
+  for (const record of records) {
+    const current = recordsByReminder.get(record.reminder_id) ?? [];
+    current.push(record);
+    recordsByReminder.set(record.reminder_id, current);
+  }
+  return recordsByReminder;
+}
+
+async function cancelNotificationSchedule(record: NotificationScheduleRecord): Promise<void> {
+  await cancelScheduledNotification(record.notification_id);
+  await deleteNotificationSchedule(record.id);
+}
+
+// Every alert of a reminder plus its priority repeats
+async function cancelReminderSchedules(reminderId: string, records: NotificationScheduleRecord[]): Promise<void> {
+  for (const record of records) {
+    await cancelNotificationSchedule(record);
+  }
+  await cancelPriorityRepeats(reminderId);
+}
+
+// Repeats use fixed identifiers, so rescheduling replaces them and cancelling needs no bookkeeping
+function getRepeatNotificationId(reminderId: string, index: number): string {
+  return `${reminderId}-repeat-${index}`;
+}
+
+async function cancelPriorityRepeats(reminderId: string): Promise<void> {
+  for (let index = 1; index <= MAX_PRIORITY_REPEATS; index++) {
+    await Notifications.cancelScheduledNotificationAsync(getRepeatNotificationId(reminderId, index)).catch(() => {});
+  }
+}
+
+/**
+ * Stop a priority reminder's repeats and clear its delivered notifications.
+ * Called when it is completed or snoozed from a notification.
+ */
+export async function stopPriorityRepeats(reminderId: string): Promise<void> {
+  await cancelPriorityRepeats(reminderId);
+
+  const presented = await Notifications.getPresentedNotificationsAsync().catch(() => []);
+  for (const notification of presented) {
+    const data = notification.request.content.data as ReminderData | undefined;
+    if (data?.reminderId === reminderId) {
+      await Notifications.dismissNotificationAsync(notification.request.identifier).catch(() => {});
     }
   }
+}
 
-  for (const reminder of reminders) {
-    const scheduledAtMs = new Date(reminder.scheduled_time).getTime();
-    if (Number.isNaN(scheduledAtMs)) {
+function usesLoudAlert(reminder: Reminder, preferences: UserPreferences | null): boolean {
+  return Platform.OS === 'android' && reminder.is_priority && Boolean(preferences?.priority_loud_alerts);
+}
+
+/**
+ * Keep the follow-up notifications of a priority reminder in line with the user's
+ * repeat settings: every interval after the first notification, up to the cap.
+ */
+async function syncPriorityRepeats(
+  reminder: Reminder,
+  firstNotifyAtMs: number,
+  actions: ReminderAction[],
+  context: ScheduleSyncContext
+): Promise<void> {
+  const { now, preferences } = context;
+  const repeatsEnabled = reminder.is_priority && Boolean(preferences?.priority_repeat_enabled);
+  const intervalMs = Math.max(1, preferences?.priority_repeat_interval_minutes ?? 5) * 60 * 1000;
+  const maxRepeats = repeatsEnabled
+    ? Math.min(MAX_PRIORITY_REPEATS, Math.max(1, preferences?.priority_repeat_max ?? 6))
+    : 0;
+  const loudAlert = usesLoudAlert(reminder, preferences);
+  const body = reminder.description ?? 'Reminder is due!';
+  const categoryIdentifier = getDynamicNotificationCategoryId(
+    reminder.id,
+    actions,
+    preferences?.snooze_mode ?? 'text_input'
+  );
+
+  for (let index = 1; index <= MAX_PRIORITY_REPEATS; index++) {
+    const identifier = getRepeatNotificationId(reminder.id, index);
+    const existing = context.scheduledById.get(identifier);
+    const repeatAtMs = firstNotifyAtMs + index * intervalMs;
+
+    // Repeats aren't held for the digest; ones inside quiet hours are dropped
+    const inQuietHours = Boolean(getQuietHoursEnd(new Date(repeatAtMs), preferences, true));
+    if (index > maxRepeats || repeatAtMs <= now || inQuietHours) {
+      if (existing) await Notifications.cancelScheduledNotificationAsync(identifier);
       continue;
     }
-    if (scheduledAtMs <= now) {
+
+    const repeatAt = new Date(repeatAtMs);
+    const existingData = existing?.content.data as ReminderData | undefined;
+    if (
+      existingData?.repeatAt === repeatAt.toISOString() &&
+      existingData.reminderUpdatedAt === reminder.updated_at &&
+      Boolean(existingData.loudAlert) === loudAlert &&
+      existing?.content.categoryIdentifier === categoryIdentifier
+    ) {
       continue;
     }
 
-    // If notify-before has already passed (common after snooze), notify at due time.
-    const preferredNotifyAtMs = scheduledAtMs - reminder.notify_before_minutes * 60 * 1000;
-    const notifyAtMs = preferredNotifyAtMs > now ? preferredNotifyAtMs : scheduledAtMs;
-    const notifyAt = new Date(notifyAtMs);
-
-    const existingRecord = existingByReminder.get(reminder.id);
-    if (existingRecord) {
-      const reminderActions = actionsByReminder.get(reminder.id) ?? [];
-      const existingNotification = scheduledById.get(existingRecord.notification_id);
-      const hasCategoryIdentifier = hasSupportedCategoryIdentifier(
-        existingNotification?.content.categoryIdentifier
-      );
-      const expectedCategoryIdentifier = getDynamicNotificationCategoryId(
-        reminder.id,
-        reminderActions,
-        preferences?.snooze_mode ?? 'text_input'
-      );
-      const categoryMatches = existingNotification?.content.categoryIdentifier === expectedCategoryIdentifier;
-      const existingTime = new Date(existingRecord.scheduled_for).getTime();
-      const snoozedUntil = existingRecord.snoozed_until ? new Date(existingRecord.snoozed_until).getTime() : null;
-      const reminderUpdatedAt = reminder.updated_at;
-      const recordUpdatedAt = existingRecord.reminder_updated_at;
-
-      if (snoozedUntil && snoozedUntil > now && hasCategoryIdentifier && categoryMatches) {
-        keepIds.add(existingRecord.id);
-        continue;
-      }
+    await Notifications.scheduleNotificationAsync({
+      identifier,
+      content: {
+        title: reminder.title,
+        body: `Still pending · ${body}`,
+        sound: 'default',
+        categoryIdentifier,
+        ...(Platform.OS === 'android' && { channelId: loudAlert ? PRIORITY_CHANNEL_ID : REMINDER_CHANNEL_ID }),
+        data: {
+          reminderId: reminder.id,
+          title: reminder.title,
+          body,
+          originalTime: reminder.scheduled_time,
+          reminderUpdatedAt: reminder.updated_at,
+          defaultSnoozeMinutes: context.defaultSnoozeMinutes,
+          repeatIndex: index,
+          repeatAt: repeatAt.toISOString(),
+          loudAlert,
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: repeatAt,
+      },
+    });
+  }
+}
 
-      const unchanged = recordUpdatedAt && reminderUpdatedAt === recordUpdatedAt;
-      const closeToTarget = Math.abs(existingTime - notifyAtMs) < 60 * 1000;
+type ReminderAlert = {
+  offsetMinutes: number;
+  notifyAtMs: number;
+};
 
-      if (unchanged && closeToTarget && existingTime > now && hasCategoryIdentifier && categoryMatches) {
-        keepIds.add(existingRecord.id);
-        continue;
-      }
+// One alert per offset still ahead. If every one has passed (common after snooze), notify at due time.
+function getReminderAlerts(reminder: Reminder, scheduledAtMs: number, now: number): ReminderAlert[] {
+  const alerts = normalizeNotifyOffsets(reminder.notify_offsets)
+    .map((offsetMinutes) => ({ offsetMinutes, notifyAtMs: scheduledAtMs - offsetMinutes * 60 * 1000 }))
+    .filter((alert) => alert.notifyAtMs > now);
+  return alerts.length > 0 ? alerts : [{ offsetMinutes: 0, notifyAtMs: scheduledAtMs }];
+}
 
-      await Notifications.cancelScheduledNotificationAsync(existingRecord.notification_id);
-      await deleteNotificationSchedule(existingRecord.id);
+function getAlertBody(reminder: Reminder, offsetMinutes: number): string {
+  if (reminder.description) return reminder.description;
+  return offsetMinutes > 0 ? `Due in ${formatNotifyOffset(offsetMinutes)}` : 'Reminder is due!';
+}
+
+function isActiveSnooze(record: NotificationScheduleRecord, now: number): boolean {
+  return Boolean(record.snoozed_until) && new Date(record.snoozed_until!).getTime() > now;
+}
+
+/**
+ * Make sure one alert of a reminder has an up-to-date local notification, or is held for the
+ * quiet-hours digest. Returns when it is delivered.
+ */
+async function syncReminderAlert(
+  reminder: Reminder,
+  alert: ReminderAlert,
+  actions: ReminderAction[],
+  existingRecord: NotificationScheduleRecord | undefined,
+  context: ScheduleSyncContext
+): Promise<number> {
+  const { now, preferences } = context;
+  const quietHoursEnd = getQuietHoursEnd(new Date(alert.notifyAtMs), preferences, reminder.is_priority);
+  const deliverAtMs = quietHoursEnd?.getTime() ?? alert.notifyAtMs;
+
+  if (existingRecord) {
+    const existingNotification = context.scheduledById.get(existingRecord.notification_id);
+    const hasCategoryIdentifier = hasSupportedCategoryIdentifier(
+      existingNotification?.content.categoryIdentifier
+    );
+    const expectedCategoryIdentifier = getDynamicNotificationCategoryId(
+      reminder.id,
+      actions,
+      preferences?.snooze_mode ?? 'text_input'
+    );
+    const categoryMatches = existingNotification?.content.categoryIdentifier === expectedCategoryIdentifier;
+    const existingTime = new Date(existingRecord.scheduled_for).getTime();
+    const reminderUpdatedAt = reminder.updated_at;
+    const recordUpdatedAt = existingRecord.reminder_updated_at;
+
+    const loudMatches =
+      Boolean((existingNotification?.content.data as ReminderData | undefined)?.loudAlert) ===
+      usesLoudAlert(reminder, preferences);
+
+    if (isActiveSnooze(existingRecord, now) && hasCategoryIdentifier && categoryMatches && loudMatches) {
+      return existingTime;
     }
 
-    const notificationId = await scheduleReminder({
-      reminderId: reminder.id,
-      title: reminder.title,
-      body: reminder.description ?? 'Reminder is due!',
-      triggerAt: notifyAt,
-      originalTime: reminder.scheduled_time,
-      reminderUpdatedAt: reminder.updated_at,
-      actions: actionsByReminder.get(reminder.id) ?? [],
-      defaultSnoozeMinutes,
-      snoozeMode: preferences?.snooze_mode ?? 'text_input',
-      snoozePresetValues: preferences?.snooze_preset_values ?? [5, 10, 15, 30],
-    });
+    const unchanged = recordUpdatedAt && reminderUpdatedAt === recordUpdatedAt;
+    const closeToTarget = Math.abs(existingTime - alert.notifyAtMs) < 60 * 1000;
+    // Held alerts must still be in the digest for the same quiet-hours end, and that digest still scheduled
+    const isHeld = isQuietDigestEntryId(existingRecord.notification_id);
+    const deliveryMatches = quietHoursEnd
+      ? isHeld &&
+        context.scheduledById.has(getQuietDigestIdentifier(quietHoursEnd)) &&
+        (await isInQuietDigest(existingRecord.notification_id, quietHoursEnd))
+      : !isHeld && hasCategoryIdentifier && categoryMatches && loudMatches;
+
+    if (unchanged && closeToTarget && existingTime > now && deliveryMatches) {
+      return deliverAtMs;
+    }
 
-    await upsertNotificationSchedule({
-      userId: user.id,
-      reminderId: reminder.id,
-      deviceId,
-      notificationId,
-      scheduledFor: notifyAt.toISOString(),
-      reminderUpdatedAt: reminder.updated_at,
-    });
+    await cancelNotificationSchedule(existingRecord);
+  }
+
+  const notifyAt = new Date(alert.notifyAtMs);
+  const notificationId = await scheduleReminder({
+    reminderId: reminder.id,
+    title: reminder.title,
+    body: getAlertBody(reminder, alert.offsetMinutes),
+    triggerAt: notifyAt,
+    originalTime: reminder.scheduled_time,
+    reminderUpdatedAt: reminder.updated_at,
+    actions,
+    defaultSnoozeMinutes: context.defaultSnoozeMinutes,
+    snoozeMode: preferences?.snooze_mode ?? 'text_input',
+    snoozePresetValues: preferences?.snooze_preset_values ?? [5, 10, 15, 30],
+    loudAlert: usesLoudAlert(reminder, preferences),
+    offsetMinutes: alert.offsetMinutes,
+    isPriority: reminder.is_priority,
+    quietHours: preferences,
+  });
+
+  await upsertNotificationSchedule({
+    userId: context.userId,
+    reminderId: reminder.id,
+    deviceId: context.deviceId,
+    offsetMinutes: alert.offsetMinutes,
+    notificationId,
+    scheduledFor: notifyAt.toISOString(),
+    reminderUpdatedAt: reminder.updated_at,
+  });
+  return deliverAtMs;
+}
+
+/**
+ * Make sure a single reminder has an up-to-date local notification for each of its alerts,
+ * cancelling the ones for offsets it no longer has.
+ */
+async function syncReminderSchedule(
+  reminder: Reminder,
+  actions: ReminderAction[],
+  existingRecords: NotificationScheduleRecord[],
+  context: ScheduleSyncContext
+): Promise<void> {
+  const { now } = context;
+  if (isLocationTrigger(reminder)) {
+    await cancelReminderSchedules(reminder.id, existingRecords);
+    return;
+  }
+
+  const scheduledAtMs = new Date(reminder.scheduled_time).getTime();
+  if (Number.isNaN(scheduledAtMs)) {
+    return;
+  }
+  if (scheduledAtMs <= now) {
+    return;
+  }
+
+  const recordsByOffset = new Map(existingRecords.map((record) => [record.offset_minutes, record]));
+  let lastAlertAtMs = 0;
+
+  for (const alert of getReminderAlerts(reminder, scheduledAtMs, now)) {
+    const alertAtMs = await syncReminderAlert(
+      reminder,
+      alert,
+      actions,
+      recordsByOffset.get(alert.offsetMinutes),
+      context
+    );
+    recordsByOffset.delete(alert.offsetMinutes);
+    lastAlertAtMs = Math.max(lastAlertAtMs, alertAtMs);
+  }
+
+  for (const record of recordsByOffset.values()) {
+    if (isActiveSnooze(record, now)) continue;
+    await cancelNotificationSchedule(record);
+  }
+
+  // Repeats follow the last alert, the one at (or closest to) the due time
+  await syncPriorityRepeats(reminder, lastAlertAtMs, actions, context);
+}
+
+async function drainPendingReminderSchedules(): Promise<void> {
+  while (pendingReminderIds.size > 0) {
+    const reminderIds = Array.from(pendingReminderIds);
+    pendingReminderIds.clear();
+    await _doSyncReminderSchedulesFor(reminderIds);
+  }
+}
+
+async function _doSyncReminderSchedulesFor(reminderIds: string[]): Promise<void> {
+  const context = await getScheduleSyncContext();
+  if (!context) return;
+
+  const { data, error } = await supabase
+    .from('reminders')
+    .select('*')
+    .in('id', reminderIds);
+  if (error) return;
+
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  // Same window as getAllFutureReminders, so the incremental and full syncs agree.
+  const reminders = ((data ?? []) as Reminder[]).filter(
+    (reminder) =>
+      !reminder.deleted_at && new Date(reminder.scheduled_time) >= startOfDay && reminder.status !== 'completed'
+  );
+  const remindersById = new Map(reminders.map((reminder) => [reminder.id, reminder]));
+
+  const [existing, actionsByReminder] = await Promise.all([
+    fetchNotificationSchedules(context.userId, context.deviceId, reminderIds),
+    fetchActionsByReminder(reminders.map((reminder) => reminder.id)),
+  ]);
+  const existingByReminder = groupSchedulesByReminder(existing);
+
+  for (const reminderId of reminderIds) {
+    const reminder = remindersById.get(reminderId);
+    const existingRecords = existingByReminder.get(reminderId) ?? [];
+
+    // Deleted or completed elsewhere: drop this device's notifications.
+    if (!reminder) {
+      await cancelReminderSchedules(reminderId, existingRecords);
+      continue;
+    }
+
+    await syncReminderSchedule(reminder, actionsByReminder.get(reminderId) ?? [], existingRecords, context);
+  }
+}
+
+async function _doSyncLocalReminderSchedules(): Promise<void> {
+  const context = await getScheduleSyncContext();
+  if (!context) return;
+
+  // Recurring series whose latest occurrence has passed get their next occurrence first.
+  await materializeRecurringReminders().catch(() => []);
+
+  const reminders = await getAllFutureReminders();
+  const existing = await fetchNotificationSchedules(context.userId, context.deviceId);
+  const existingByReminder = groupSchedulesByReminder(existing);
+
+  const actionsByReminder = await fetchActionsByReminder(reminders.map((reminder) => reminder.id));
+
+  for (const reminder of reminders) {
+    await syncReminderSchedule(
+      reminder,
+      actionsByReminder.get(reminder.id) ?? [],
+      existingByReminder.get(reminder.id) ?? [],
+      context
+    );
   }
 
   // Cleanup: cancel notifications for reminders that no longer need scheduling
   const currentReminderIds = new Set(reminders.map(r => r.id));
-  for (const record of existing) {
-    if (keepIds.has(record.id)) continue;
-    // Skip records whose reminder was already processed in the main loop above
-    if (currentReminderIds.has(record.reminder_id)) continue;
-    await Notifications.cancelScheduledNotificationAsync(record.notification_id);
-    await deleteNotificationSchedule(record.id);
+  for (const [reminderId, records] of existingByReminder) {
+    // Skip reminders already processed in the main loop above
+    if (currentReminderIds.has(reminderId)) continue;
+    await cancelReminderSchedules(reminderId, records);
   }
 
-  // Dedup: ensure at most 1 scheduled notification per reminder
+  // Dedup: ensure at most 1 scheduled notification per alert of a reminder
   const allScheduled = await Notifications.getAllScheduledNotificationsAsync();
-  const notifsByReminder = new Map<string, Notifications.NotificationRequest[]>();
+  const notifsByAlert = new Map<string, Notifications.NotificationRequest[]>();
   for (const n of allScheduled) {
     const rid = (n.content.data as any)?.reminderId;
     if (!rid) continue;
-    const list = notifsByReminder.get(rid) ?? [];
+    // Priority repeats are expected alongside the main notification; drop only orphaned ones
+    if ((n.content.data as ReminderData).repeatIndex) {
+      if (!currentReminderIds.has(rid)) await Notifications.cancelScheduledNotificationAsync(n.identifier);
+      continue;
+    }
+    const alertKey = `${rid}:${(n.content.data as ReminderData).offsetMinutes ?? 0}`;
+    const list = notifsByAlert.get(alertKey) ?? [];
     list.push(n);
-    notifsByReminder.set(rid, list);
+    notifsByAlert.set(alertKey, list);
   }
-  for (const [, notifications] of notifsByReminder) {
+  for (const [, notifications] of notifsByAlert) {
     if (notifications.length <= 1) continue;
     // Cancel all but the last one (most recently scheduled)
     for (let i = 0; i < notifications.length - 1; i++) {
@@ -515,7 +994,7 @@ export async function sendResyncPush(): Promise<void> {
   try {
     await supabase.functions.invoke('send-resync-push', {
       body: {
-        deviceId: getDeviceIdentifier(),
+        deviceId: await getDeviceId(),
       },
     });
   } catch {
@@ -535,6 +1014,8 @@ async function applySnooze(
   originalData: ReminderData
 ): Promise<void> {
   const normalizedMinutes = normalizeSnoozeMinutes(minutes);
+  // Snoozing acknowledges the reminder; repeats restart from the snoozed time
+  await stopPriorityRepeats(reminderId).catch(() => {});
 
   try {
     await snoozeReminderInDb(reminderId, normalizedMinutes);
@@ -545,6 +1026,9 @@ async function applySnooze(
   }
 
   await rescheduleSnooze(reminderId, normalizedMinutes, originalData);
+  await recordReminderEvent(reminderId, 'snoozed', {
+    metadata: { minutes: normalizedMinutes, scope: 'this', local_only: true },
+  });
 }
 
 async function rescheduleSnooze(
@@ -573,7 +1057,9 @@ async function rescheduleSnooze(
   await upsertNotificationSchedule({
     userId: user.id,
     reminderId,
-    deviceId: getDeviceIdentifier(),
+    deviceId: await ensureDeviceRegistered(user.id),
+    // The snoozed notification stands in for the due-time alert
+    offsetMinutes: 0,
     notificationId,
     scheduledFor: triggerAt.toISOString(),
     reminderUpdatedAt: originalData.reminderUpdatedAt ?? null,
@@ -583,7 +1069,7 @@ async function rescheduleSnooze(
 
 export async function handleNotificationResponse(
   response: Notifications.NotificationResponse,
-  onReminderTap?: (reminderId: string) => void
+  onReminderTap?: (reminderId: string, options?: ReminderOpenOptions) => void
 ): Promise<void> {
   const data = response.notification.request.content.data as ReminderData | undefined;
 
@@ -598,16 +1084,28 @@ export async function handleNotificationResponse(
     return;
   }
 
+  recordNotificationDelivered(response.notification);
+
   // Tapping the notification body should always deep-link to Progress and open this reminder.
   if (response.actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) {
     onReminderTap?.(reminderId);
     return;
   }
 
+  // Play on a voice note opens the reminder and plays the note in-app
+  const playVoiceActionId = getVoiceNotificationActionId(response.actionIdentifier);
+  if (playVoiceActionId) {
+    onReminderTap?.(reminderId, { playVoiceActionId });
+    return;
+  }
+
   const handled = await handleDynamicNotificationAction(
     response,
-    () => {
-      void syncReminderNotifications().catch(() => {});
+    (id) => {
+      void stopPriorityRepeats(id)
+        .catch(() => {})
+        .then(() => syncReminderNotifications())
+        .catch(() => {});
     },
     (id, minutes) => {
       void applySnooze(id, minutes, data ?? {}).catch(() => {});
@@ -621,3 +1119,25 @@ export async function handleNotificationResponse(
   // Only a direct tap on the notification body should open the app.
   return;
 }
+
+/**
+ * Define the background task for silent pushes that arrive while the app is closed: device
+ * removal and daily digests. Must run at startup (index.tsx), like the geofence task.
+ */
+export function defineBackgroundPushTask(): void {
+  if (TaskManager.isTaskDefined(BACKGROUND_PUSH_TASK)) return;
+
+  TaskManager.defineTask<BackgroundPushTaskData>(BACKGROUND_PUSH_TASK, async ({ data, error }) => {
+    if (error || !data) return;
+    // iOS hands over the notification, Android the raw data payload
+    const payload = data.notification?.request?.content?.data ?? data.notification?.data ?? data.data;
+    try {
+      await handleDeviceRemovedPush(payload);
+    } catch {
+      // The revoked session signs the app out on its next refresh
+    }
+    await handleDailyDigestPush(payload).catch(() => {});
+  });
+
+  Notifications.registerTaskAsync(BACKGROUND_PUSH_TASK).catch(() => {});
+}
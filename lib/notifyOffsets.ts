@@ -0,0 +1,36 @@
+import { MAX_NOTIFY_OFFSET_MINUTES, MAX_NOTIFY_OFFSETS } from './types';
+
+/**
+ * Whole, in-range, de-duplicated offsets, earliest alert first — the order the database keeps.
+ * Falls back to a single alert at the scheduled time.
+ */
+export function normalizeNotifyOffsets(offsets: readonly number[] | null | undefined): number[] {
+  const valid = (offsets ?? [])
+    .filter((offset) => Number.isFinite(offset))
+    .map((offset) => Math.min(MAX_NOTIFY_OFFSET_MINUTES, Math.max(0, Math.round(offset))));
+  const unique = Array.from(new Set(valid)).sort((a, b) => b - a).slice(0, MAX_NOTIFY_OFFSETS);
+  return unique.length > 0 ? unique : [0];
+}
+
+/**
+ * "15 min", "2 hours", "1 day", "1 week"
+ */
+export function formatNotifyOffset(minutes: number): string {
+  const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+  if (minutes >= 10080 && minutes % 10080 === 0) return plural(minutes / 10080, 'week');
+  if (minutes >= 1440 && minutes % 1440 === 0) return plural(minutes / 1440, 'day');
+  if (minutes >= 60 && minutes % 60 === 0) return plural(minutes / 60, 'hour');
+  return `${minutes} min`;
+}
+
+/**
+ * Summary of a reminder's alerts: "At time", "1 hour before", "1 day, 1 hour before + at time"
+ */
+export function describeNotifyOffsets(offsets: readonly number[] | null | undefined): string {
+  const normalized = normalizeNotifyOffsets(offsets);
+  const before = normalized.filter((offset) => offset > 0).map(formatNotifyOffset);
+  const atTime = normalized.includes(0);
+
+  if (before.length === 0) return 'At time';
+  return `${before.join(', ')} before${atTime ? ' + at time' : ''}`;
+}
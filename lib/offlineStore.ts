@@ -0,0 +1,387 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+import { OutboxMutation, Reminder, ReminderAction, ReminderEvent, ReminderSubtask } from './types';
+import { isDailyLimitError } from './reminderLimits';
+
+const REMINDERS_STORAGE_KEY = '@synco_reminders_cache';
+const ACTIONS_STORAGE_KEY = '@synco_reminder_actions_cache';
+const OUTBOX_STORAGE_KEY = '@synco_reminder_outbox';
+
+// Mutations the server keeps rejecting are dropped so they don't block the queue forever
+const MAX_REPLAY_ATTEMPTS = 5;
+
+// Concurrency guard for outbox replay
+let flushInProgress: Promise<OutboxFlushResult> | null = null;
+
+// Tail of the queue that serializes read-modify-writes of the stored cache and outbox
+let storageQueue: Promise<unknown> = Promise.resolve();
+
+export interface OutboxFlushResult {
+  applied: number;
+  dropped: number;
+  remaining: number;
+}
+
+/**
+ * Whether an error means the request never reached Supabase (offline, DNS, timeout)
+ * as opposed to the server rejecting it.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error) return false;
+  if (error instanceof TypeError) return true;
+
+  const { name, message } = error as { name?: string; message?: string };
+  if (name === 'AuthRetryableFetchError') return true;
+  return /network request failed|failed to fetch|fetch failed|network error|timed? ?out/i.test(message ?? '');
+}
+
+export function generateLocalId(): string {
+  return Crypto.randomUUID();
+}
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function writeJson(key: string, value: unknown): Promise<void> {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Cache writes are best effort
+  }
+}
+
+// Realtime events, refreshes and outbox replay update the same keys concurrently; running each
+// read-modify-write after the previous one keeps them from overwriting each other.
+function withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = storageQueue.then(task, task);
+  storageQueue = run.catch(() => {});
+  return run;
+}
+
+// ==================== REMINDER CACHE ====================
+
+/**
+ * Get every cached reminder, including changes still waiting in the outbox
+ */
+export async function getCachedReminders(): Promise<Reminder[]> {
+  const cached = await readJson<Record<string, Reminder>>(REMINDERS_STORAGE_KEY, {});
+  return Object.values(cached).sort(
+    (a, b) => new Date(a.scheduled_time).getTime() - new Date(b.scheduled_time).getTime()
+  );
+}
+
+/**
+ * Store reminders fetched from Supabase and return them with pending local changes applied.
+ * `replaceWhere` marks the cached rows the fetch covered, so rows deleted remotely are dropped.
+ */
+export async function cacheRemoteReminders(
+  reminders: Reminder[],
+  replaceWhere?: (reminder: Reminder) => boolean
+): Promise<Reminder[]> {
+  return withStorageLock(async () => {
+    const [cached, outbox] = await Promise.all([
+      readJson<Record<string, Reminder>>(REMINDERS_STORAGE_KEY, {}),
+      getPendingMutations(),
+    ]);
+
+    if (replaceWhere) {
+      for (const [id, reminder] of Object.entries(cached)) {
+        if (replaceWhere(reminder)) delete cached[id];
+      }
+    }
+    for (const reminder of reminders) {
+      cached[reminder.id] = reminder;
+    }
+
+    const merged = applyPendingMutations(cached, outbox);
+    await writeJson(REMINDERS_STORAGE_KEY, merged);
+
+    // Reminders created offline aren't on the server yet but belong in the result.
+    const pendingInsertIds = outbox
+      .filter((mutation) => mutation.kind === 'insert_reminder')
+      .map((mutation) => mutation.reminder_id)
+      .filter((id) => merged[id] && (!replaceWhere || replaceWhere(merged[id])));
+    const ids = new Set([...reminders.map((reminder) => reminder.id), ...pendingInsertIds]);
+
+    return Array.from(ids)
+      .map((id) => merged[id])
+      .filter((reminder): reminder is Reminder => Boolean(reminder));
+  });
+}
+
+/**
+ * Drop reminders deleted remotely from the cache
+ */
+export async function removeCachedReminders(ids: string[]): Promise<void> {
+  await withStorageLock(async () => {
+    const cached = await readJson<Record<string, Reminder>>(REMINDERS_STORAGE_KEY, {});
+    for (const id of ids) {
+      delete cached[id];
+    }
+    await writeJson(REMINDERS_STORAGE_KEY, cached);
+  });
+}
+
+// The server row changed after the edit was made, so replaying it would be dropped
+function isSuperseded(current: Reminder, mutation: OutboxMutation): boolean {
+  if (!mutation.base_updated_at) return false;
+  return new Date(current.updated_at).getTime() > new Date(mutation.base_updated_at).getTime();
+}
+
+// Overlay queued mutations on server data so a refresh doesn't undo offline changes
+function applyPendingMutations(
+  reminders: Record<string, Reminder>,
+  outbox: OutboxMutation[]
+): Record<string, Reminder> {
+  const merged = { ...reminders };
+
+  for (const mutation of outbox) {
+    switch (mutation.kind) {
+      case 'insert_reminder':
+        merged[mutation.reminder_id] = { ...(mutation.payload as Reminder), ...merged[mutation.reminder_id] };
+        break;
+      case 'update_reminder': {
+        const current = merged[mutation.reminder_id];
+        if (current && !isSuperseded(current, mutation)) {
+          merged[mutation.reminder_id] = { ...current, ...(mutation.payload as Partial<Reminder>) };
+        }
+        break;
+      }
+      case 'delete_reminder':
+        delete merged[mutation.reminder_id];
+        break;
+      default:
+        break;
+    }
+  }
+
+  return merged;
+}
+
+// ==================== ACTION CACHE ====================
+
+export async function getCachedReminderActions(reminderId: string): Promise<ReminderAction[]> {
+  const cached = await readJson<Record<string, ReminderAction[]>>(ACTIONS_STORAGE_KEY, {});
+  return cached[reminderId] ?? [];
+}
+
+export async function cacheReminderActions(reminderId: string, actions: ReminderAction[]): Promise<void> {
+  await withStorageLock(async () => {
+    const cached = await readJson<Record<string, ReminderAction[]>>(ACTIONS_STORAGE_KEY, {});
+    cached[reminderId] = actions;
+    await writeJson(ACTIONS_STORAGE_KEY, cached);
+  });
+}
+
+// ==================== OUTBOX ====================
+
+export async function getPendingMutations(): Promise<OutboxMutation[]> {
+  return readJson<OutboxMutation[]>(OUTBOX_STORAGE_KEY, []);
+}
+
+// Edits replay against the server version they were made on. Queued edits of the same row share
+// the first one's version, and rows created offline have none: nobody else has seen them yet.
+function getBaseUpdatedAt(
+  mutation: Omit<OutboxMutation, 'id' | 'queued_at' | 'attempts' | 'base_updated_at'>,
+  outbox: OutboxMutation[],
+  cached: Record<string, Reminder>
+): string | null | undefined {
+  if (mutation.kind !== 'update_reminder' && mutation.kind !== 'delete_reminder') return undefined;
+
+  const earlier = outbox.find(
+    (queued) =>
+      queued.reminder_id === mutation.reminder_id &&
+      (queued.kind === 'insert_reminder' || queued.kind === 'update_reminder' || queued.kind === 'delete_reminder')
+  );
+  if (earlier?.kind === 'insert_reminder') return null;
+  if (earlier && earlier.base_updated_at !== undefined) return earlier.base_updated_at;
+  return cached[mutation.reminder_id]?.updated_at ?? null;
+}
+
+/**
+ * Queue a mutation for replay and apply it to the local cache right away
+ */
+export async function enqueueMutation(
+  mutation: Omit<OutboxMutation, 'id' | 'queued_at' | 'attempts' | 'base_updated_at'>
+): Promise<OutboxMutation> {
+  return withStorageLock(async () => {
+    const [outbox, cached] = await Promise.all([
+      getPendingMutations(),
+      readJson<Record<string, Reminder>>(REMINDERS_STORAGE_KEY, {}),
+    ]);
+
+    const queued: OutboxMutation = {
+      ...mutation,
+      id: generateLocalId(),
+      base_updated_at: getBaseUpdatedAt(mutation, outbox, cached),
+      queued_at: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    await writeJson(OUTBOX_STORAGE_KEY, [...outbox, queued]);
+
+    if (queued.kind === 'insert_actions') {
+      const actions = await readJson<Record<string, ReminderAction[]>>(ACTIONS_STORAGE_KEY, {});
+      actions[queued.reminder_id] = [...(actions[queued.reminder_id] ?? []), ...(queued.payload as ReminderAction[])];
+      await writeJson(ACTIONS_STORAGE_KEY, actions);
+    } else if (queued.kind === 'update_reminder') {
+      // The cached row may already carry earlier local edits, so this one is applied unconditionally
+      const current = cached[queued.reminder_id];
+      if (current) {
+        cached[queued.reminder_id] = { ...current, ...(queued.payload as Partial<Reminder>) };
+        await writeJson(REMINDERS_STORAGE_KEY, cached);
+      }
+    } else if (queued.kind !== 'insert_events' && queued.kind !== 'insert_subtasks') {
+      await writeJson(REMINDERS_STORAGE_KEY, applyPendingMutations(cached, [queued]));
+    }
+
+    return queued;
+  });
+}
+
+interface ReplayResult {
+  outcome: 'applied' | 'dropped';
+  // The row's new server updated_at, for later edits of the same row
+  updatedAt?: string;
+}
+
+// Throws when the mutation should stay queued; otherwise reports whether it was applied or dropped
+async function replayMutation(mutation: OutboxMutation): Promise<ReplayResult> {
+  switch (mutation.kind) {
+    case 'insert_reminder': {
+      const { error } = await supabase
+        .from('reminders')
+        .upsert(mutation.payload as Reminder, { onConflict: 'id', ignoreDuplicates: true });
+      // Created offline past the free daily limit: the server will never accept it
+      if (isDailyLimitError(error)) {
+        await removeCachedReminders([mutation.reminder_id]);
+        return { outcome: 'dropped' };
+      }
+      if (error) throw error;
+      return { outcome: 'applied' };
+    }
+
+    case 'insert_actions': {
+      const { error } = await supabase
+        .from('reminder_actions')
+        .upsert(mutation.payload as ReminderAction[], { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw error;
+      return { outcome: 'applied' };
+    }
+
+    case 'insert_subtasks': {
+      const { error } = await supabase
+        .from('reminder_subtasks')
+        .upsert(mutation.payload as ReminderSubtask[], { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw error;
+      return { outcome: 'applied' };
+    }
+
+    case 'insert_events': {
+      const { error } = await supabase
+        .from('reminder_events')
+        .upsert(mutation.payload as ReminderEvent[], { onConflict: 'id', ignoreDuplicates: true });
+      // A duplicate dedupe key means the event was already recorded elsewhere.
+      if (error && (error as { code?: string }).code !== '23505') throw error;
+      return { outcome: 'applied' };
+    }
+
+    case 'update_reminder':
+    case 'delete_reminder': {
+      // updated_at is set by the server, so local stamps from the device clock aren't sent.
+      const { updated_at: _localUpdatedAt, ...changes } = (mutation.payload ?? {}) as Partial<Reminder>;
+      // Deletes are soft, so a replayed delete can still be restored from "Recently deleted".
+      let query = supabase
+        .from('reminders')
+        .update(mutation.kind === 'delete_reminder' ? { deleted_at: mutation.queued_at } : changes)
+        .eq('id', mutation.reminder_id);
+
+      // Optimistic concurrency: only write if the row is still the version the edit was made on
+      if (mutation.base_updated_at) query = query.eq('updated_at', mutation.base_updated_at);
+
+      const { data, error } = await query.select('updated_at').maybeSingle();
+      if (error) throw error;
+
+      // Last writer wins: the row was deleted, or changed on another device after this edit was made.
+      if (!data) return { outcome: 'dropped' };
+      return { outcome: 'applied', updatedAt: data.updated_at };
+    }
+
+    default:
+      return { outcome: 'dropped' };
+  }
+}
+
+async function doFlushOutbox(): Promise<OutboxFlushResult> {
+  const outbox = await getPendingMutations();
+  const result: OutboxFlushResult = { applied: 0, dropped: 0, remaining: 0 };
+  if (outbox.length === 0) return result;
+
+  let index = 0;
+  for (; index < outbox.length; index += 1) {
+    const mutation = outbox[index];
+    try {
+      const { outcome, updatedAt } = await replayMutation(mutation);
+      result[outcome] += 1;
+
+      // Later edits of this row were made on top of this one, so they now expect its new version.
+      if (updatedAt && mutation.base_updated_at) {
+        for (const later of outbox.slice(index + 1)) {
+          if (later.reminder_id === mutation.reminder_id && later.base_updated_at === mutation.base_updated_at) {
+            later.base_updated_at = updatedAt;
+          }
+        }
+      }
+    } catch (error) {
+      // Still offline: keep this and every later mutation in order.
+      if (isNetworkError(error)) break;
+
+      mutation.attempts += 1;
+      if (mutation.attempts < MAX_REPLAY_ATTEMPTS) break;
+      result.dropped += 1;
+    }
+  }
+
+  // Re-read under the lock so mutations queued during the flush aren't lost.
+  const settledIds = new Set(outbox.slice(0, index).map((mutation) => mutation.id));
+  const remaining = await withStorageLock(async () => {
+    const latest = await getPendingMutations();
+    const next = latest
+      .filter((mutation) => !settledIds.has(mutation.id))
+      .map((mutation) => outbox.find((original) => original.id === mutation.id) ?? mutation);
+    await writeJson(OUTBOX_STORAGE_KEY, next);
+    return next;
+  });
+
+  result.remaining = remaining.length;
+  return result;
+}
+
+/**
+ * Replay queued mutations in order. Stops at the first network failure so
+ * ordering is preserved for the next attempt.
+ */
+export async function flushOutbox(): Promise<OutboxFlushResult> {
+  if (!flushInProgress) {
+    flushInProgress = doFlushOutbox().finally(() => {
+      flushInProgress = null;
+    });
+  }
+  return flushInProgress;
+}
+
+/**
+ * Clear cached data and pending mutations (e.g. on sign out)
+ */
+export async function clearOfflineStore(): Promise<void> {
+  await withStorageLock(() =>
+    AsyncStorage.multiRemove([REMINDERS_STORAGE_KEY, ACTIONS_STORAGE_KEY, OUTBOX_STORAGE_KEY]).catch(() => {})
+  );
+}
@@ -0,0 +1,196 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { generateLocalId } from './offlineStore';
+import { DAYS_OF_WEEK } from './types';
+import type { QuietHoursWindow, UserPreferences } from './types';
+
+export type QuietHoursSettings = Pick<
+  UserPreferences,
+  'quiet_hours_enabled' | 'quiet_hours' | 'quiet_hours_allow_priority'
+>;
+
+const QUIET_DIGEST_STORAGE_KEY = '@synco_quiet_digests';
+const QUIET_DIGEST_ID_PREFIX = 'quiet-digest-';
+// Titles listed in the digest body before "+N more"
+const MAX_DIGEST_TITLES = 3;
+
+// Alerts held for one digest, keyed by the digest's notification identifier
+type QuietDigest = {
+  deliverAt: string;
+  entries: Array<{ id: string; reminderId: string; title: string }>;
+};
+
+/**
+ * Minutes since midnight for "HH:mm", or null when malformed
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value ?? '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatTimeOfDay(totalMinutes: number): string {
+  const normalized = ((totalMinutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * "22:00–07:00 every day", "22:00–07:00 on 5 days", or "Custom schedule"
+ */
+export function describeQuietHours(settings: QuietHoursSettings | null): string {
+  const windows = DAYS_OF_WEEK
+    .map((day) => settings?.quiet_hours?.[day.value])
+    .filter((window): window is QuietHoursWindow => Boolean(window));
+  if (windows.length === 0) return 'No days set';
+
+  const [first] = windows;
+  const sameTimes = windows.every((window) => window.start === first.start && window.end === first.end);
+  if (!sameTimes) return 'Custom schedule';
+  const days = windows.length === DAYS_OF_WEEK.length ? 'every day' : `on ${windows.length} days`;
+  return `${first.start}–${first.end} ${days}`;
+}
+
+/**
+ * When the quiet-hours window containing `at` ends, or null if `at` isn't in one (or the
+ * notification is a priority reminder the user lets through). Local device time.
+ */
+export function getQuietHoursEnd(
+  at: Date,
+  settings: QuietHoursSettings | null | undefined,
+  isPriority: boolean
+): Date | null {
+  if (!settings?.quiet_hours_enabled) return null;
+  if (isPriority && settings.quiet_hours_allow_priority) return null;
+
+  // A window that started yesterday evening can still be running this morning
+  for (const dayOffset of [-1, 0]) {
+    const day = new Date(at);
+    day.setDate(day.getDate() + dayOffset);
+    day.setHours(0, 0, 0, 0);
+
+    const window = settings.quiet_hours?.[DAYS_OF_WEEK[day.getDay()].value];
+    const startMinutes = parseTimeOfDay(window?.start);
+    const endMinutes = parseTimeOfDay(window?.end);
+    if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) continue;
+
+    const start = new Date(day);
+    start.setMinutes(startMinutes);
+    const end = new Date(day);
+    end.setMinutes(endMinutes);
+    if (endMinutes < startMinutes) end.setDate(end.getDate() + 1);
+
+    if (at >= start && at < end) return end;
+  }
+  return null;
+}
+
+async function readQuietDigests(): Promise<Record<string, QuietDigest>> {
+  try {
+    const raw = await AsyncStorage.getItem(QUIET_DIGEST_STORAGE_KEY);
+    const digests = raw ? (JSON.parse(raw) as Record<string, QuietDigest>) : {};
+    // Digests that have been delivered are done with
+    const now = Date.now();
+    for (const [identifier, digest] of Object.entries(digests)) {
+      if (new Date(digest.deliverAt).getTime() <= now) delete digests[identifier];
+    }
+    return digests;
+  } catch {
+    return {};
+  }
+}
+
+async function writeQuietDigests(digests: Record<string, QuietDigest>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(QUIET_DIGEST_STORAGE_KEY, JSON.stringify(digests));
+  } catch {
+    // Held alerts are rebuilt by the next sync
+  }
+}
+
+export function getQuietDigestIdentifier(deliverAt: Date): string {
+  return `${QUIET_DIGEST_ID_PREFIX}${deliverAt.getTime()}`;
+}
+
+/**
+ * Whether a notification id stands for an alert held in a digest rather than a scheduled notification
+ */
+export function isQuietDigestEntryId(notificationId: string): boolean {
+  return notificationId.startsWith(QUIET_DIGEST_ID_PREFIX) && notificationId.includes('#');
+}
+
+/**
+ * Whether a held alert is still part of the digest delivered at `deliverAt`
+ */
+export async function isInQuietDigest(notificationId: string, deliverAt: Date): Promise<boolean> {
+  const identifier = getQuietDigestIdentifier(deliverAt);
+  if (!notificationId.startsWith(`${identifier}#`)) return false;
+  const digests = await readQuietDigests();
+  return Boolean(digests[identifier]?.entries.some((entry) => entry.id === notificationId));
+}
+
+async function scheduleQuietDigest(identifier: string, digest: QuietDigest): Promise<void> {
+  const titles = digest.entries.map((entry) => entry.title);
+  const listed = titles.slice(0, MAX_DIGEST_TITLES).join(', ');
+  const more = titles.length - MAX_DIGEST_TITLES;
+
+  await Notifications.scheduleNotificationAsync({
+    identifier,
+    content: {
+      title: titles.length === 1 ? titles[0] : `${titles.length} reminders during quiet hours`,
+      body: titles.length === 1 ? 'Held during quiet hours' : more > 0 ? `${listed} +${more} more` : listed,
+      sound: 'default',
+      ...(Platform.OS === 'android' && { channelId: 'reminders' }),
+      data: { quietDigest: true },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: new Date(digest.deliverAt),
+    },
+  });
+}
+
+/**
+ * Hold an alert for the digest posted when quiet hours end.
+ * Returns an id for it that stands in for a notification id.
+ */
+export async function deferToQuietDigest(deliverAt: Date, reminderId: string, title: string): Promise<string> {
+  const identifier = getQuietDigestIdentifier(deliverAt);
+  const digests = await readQuietDigests();
+  const digest = digests[identifier] ?? { deliverAt: deliverAt.toISOString(), entries: [] };
+  const id = `${identifier}#${generateLocalId()}`;
+
+  digest.entries = [...digest.entries, { id, reminderId, title }];
+  digests[identifier] = digest;
+  await writeQuietDigests(digests);
+  // Same identifier, so this replaces the digest with the updated list
+  await scheduleQuietDigest(identifier, digest);
+  return id;
+}
+
+/**
+ * Drop a held alert, cancelling its digest once nothing is left in it
+ */
+export async function removeFromQuietDigest(notificationId: string): Promise<void> {
+  const [identifier] = notificationId.split('#');
+  const digests = await readQuietDigests();
+  const digest = digests[identifier];
+  if (!digest) return;
+
+  digest.entries = digest.entries.filter((entry) => entry.id !== notificationId);
+  if (digest.entries.length === 0) {
+    delete digests[identifier];
+    await writeQuietDigests(digests);
+    await Notifications.cancelScheduledNotificationAsync(identifier).catch(() => {});
+    return;
+  }
+
+  digests[identifier] = digest;
+  await writeQuietDigests(digests);
+  await scheduleQuietDigest(identifier, digest);
+}
@@ -0,0 +1,166 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { cacheRemoteReminders, removeCachedReminders } from './offlineStore';
+import { materializeNextOccurrence } from './reminders';
+import { syncLocalReminderSchedules, syncReminderSchedulesFor } from './notifications';
+import type { RealtimeReminderChange, Reminder, ReminderAction } from './types';
+
+type ReminderChangeListener = (change: RealtimeReminderChange) => void;
+
+// Changes often arrive in bursts (series edits, outbox replay), so schedule syncs are batched
+const SCHEDULE_SYNC_DEBOUNCE_MS = 500;
+
+const listeners = new Set<ReminderChangeListener>();
+const changedReminderIds = new Set<string>();
+
+let channel: RealtimeChannel | null = null;
+let channelUserId: string | null = null;
+let hasConnected = false;
+let scheduleSyncTimer: ReturnType<typeof setTimeout> | null = null;
+
+function notifyListeners(change: RealtimeReminderChange): void {
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch {
+      // One failing listener shouldn't stop the others
+    }
+  }
+}
+
+function queueScheduleSync(reminderId: string): void {
+  changedReminderIds.add(reminderId);
+  if (scheduleSyncTimer) return;
+
+  scheduleSyncTimer = setTimeout(() => {
+    scheduleSyncTimer = null;
+    const reminderIds = Array.from(changedReminderIds);
+    changedReminderIds.clear();
+    void syncReminderSchedulesFor(reminderIds).catch(() => {});
+  }, SCHEDULE_SYNC_DEBOUNCE_MS);
+}
+
+function handleReminderChange(payload: RealtimePostgresChangesPayload<Reminder>): void {
+  if (payload.eventType === 'DELETE') {
+    // Delete payloads only carry the primary key
+    const reminderId = payload.old.id;
+    if (!reminderId) return;
+
+    void removeCachedReminders([reminderId]);
+    notifyListeners({ type: 'delete', reminderId });
+    queueScheduleSync(reminderId);
+    return;
+  }
+
+  const reminder = payload.new;
+
+  // A soft delete arrives as an update
+  if (reminder.deleted_at) {
+    void removeCachedReminders([reminder.id]);
+    notifyListeners({ type: 'delete', reminderId: reminder.id });
+    queueScheduleSync(reminder.id);
+    return;
+  }
+
+  void cacheRemoteReminders([reminder]).catch(() => []);
+  notifyListeners({ type: 'upsert', reminder });
+  queueScheduleSync(reminder.id);
+
+  // Participants can't add to a series, so the owner's device adds the next occurrence when one
+  // of them completes this one. Already there if this device completed it.
+  if (reminder.status === 'completed' && reminder.recurring_rule_id && reminder.user_id === channelUserId) {
+    void materializeNextOccurrence(reminder).catch(() => null);
+  }
+}
+
+function handleReminderActionChange(payload: RealtimePostgresChangesPayload<ReminderAction>): void {
+  const reminderId = payload.eventType === 'DELETE' ? payload.old.reminder_id : payload.new.reminder_id;
+  // Deleted actions without a reminder_id are picked up by the next full sync
+  if (!reminderId) return;
+  queueScheduleSync(reminderId);
+}
+
+function handleShareChange(): void {
+  // A share added or removed changes which reminders this user can see
+  notifyListeners({ type: 'resync' });
+  void syncLocalReminderSchedules().catch(() => {});
+}
+
+function handlePreferencesChange(): void {
+  // Snooze settings shape every notification's category, so reschedule everything
+  void syncLocalReminderSchedules().catch(() => {});
+}
+
+/**
+ * Subscribe to reminder, action, share and preference changes made on any device.
+ * Reminders are unfiltered so RLS also delivers reminders shared with the user.
+ * Returns a function that stops the subscription.
+ */
+export function startRealtimeSync(userId: string): () => void {
+  if (channel && channelUserId === userId) {
+    return stopRealtimeSync;
+  }
+  stopRealtimeSync();
+
+  channelUserId = userId;
+  channel = supabase
+    .channel(`user-sync-${userId}`)
+    .on<Reminder>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'reminders' },
+      handleReminderChange
+    )
+    .on(
+      'postgres_changes',
+      // Unfiltered: delete events only carry the primary key, so a filter would drop removed shares
+      { event: '*', schema: 'public', table: 'reminder_shares' },
+      handleShareChange
+    )
+    .on<ReminderAction>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'reminder_actions' },
+      handleReminderActionChange
+    )
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'user_preferences', filter: `user_id=eq.${userId}` },
+      handlePreferencesChange
+    )
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+
+      // Rejoining after a drop: anything that changed meanwhile was missed
+      if (hasConnected) {
+        notifyListeners({ type: 'resync' });
+        void syncLocalReminderSchedules().catch(() => {});
+      }
+      hasConnected = true;
+    });
+
+  return stopRealtimeSync;
+}
+
+export function stopRealtimeSync(): void {
+  if (scheduleSyncTimer) {
+    clearTimeout(scheduleSyncTimer);
+    scheduleSyncTimer = null;
+  }
+  changedReminderIds.clear();
+
+  if (channel) {
+    void supabase.removeChannel(channel);
+  }
+  channel = null;
+  channelUserId = null;
+  hasConnected = false;
+}
+
+/**
+ * Listen for reminder changes coming from the realtime channel
+ */
+export function subscribeToReminderChanges(listener: ReminderChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
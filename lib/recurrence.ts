@@ -0,0 +1,379 @@
+import { DayOfWeek, FrequencyUnit, RecurringRule } from './types';
+
+export type RecurrenceRule = Pick<RecurringRule, 'frequency' | 'frequency_unit' | 'selected_days'> &
+  Partial<Pick<RecurringRule, 'by_month_day' | 'by_set_pos' | 'until' | 'count' | 'exdates'>>;
+
+const DAY_VALUES: DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const RRULE_DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const RRULE_FREQ_BY_UNIT: Record<FrequencyUnit, string> = {
+  minutes: 'MINUTELY',
+  hours: 'HOURLY',
+  days: 'DAILY',
+  weeks: 'WEEKLY',
+  months: 'MONTHLY',
+  years: 'YEARLY',
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+// Rules like "every 30th of February" never match; give up after this many empty periods.
+const MAX_EMPTY_PERIODS = 1000;
+
+function normalizeFrequency(value: number): number {
+  const parsed = Math.floor(Number(value));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+}
+
+/**
+ * Normalize weekday values to DayOfWeek.
+ * Manual rules use 'sun'..'sat', the text parser used 0-6 and the voice parser full day names.
+ */
+export function normalizeDaysOfWeek(days: unknown): DayOfWeek[] {
+  if (!Array.isArray(days)) return [];
+
+  const normalized = days
+    .map((day): DayOfWeek | null => {
+      if (typeof day === 'number') {
+        return Number.isInteger(day) && day >= 0 && day <= 6 ? DAY_VALUES[day] : null;
+      }
+      if (typeof day !== 'string') return null;
+      const prefix = day.trim().toLowerCase().slice(0, 3) as DayOfWeek;
+      return DAY_VALUES.includes(prefix) ? prefix : null;
+    })
+    .filter((day): day is DayOfWeek => day !== null);
+
+  return DAY_VALUES.filter((day) => normalized.includes(day));
+}
+
+function normalizeIntegers(values: unknown, min: number, max: number): number[] {
+  if (!Array.isArray(values)) return [];
+  const parsed = values
+    .filter((value) => value !== '' && value !== null)
+    .map((value) => Math.trunc(Number(value)))
+    .filter((value) => Number.isFinite(value) && value !== 0 && value >= min && value <= max);
+  return Array.from(new Set(parsed)).sort((a, b) => a - b);
+}
+
+// Keeps the anchor's wall-clock time so DST transitions don't shift occurrences.
+function atAnchorTime(anchor: Date, year: number, month: number, day: number): Date {
+  return new Date(
+    year,
+    month,
+    day,
+    anchor.getHours(),
+    anchor.getMinutes(),
+    anchor.getSeconds(),
+    anchor.getMilliseconds()
+  );
+}
+
+function addCalendarDays(anchor: Date, days: number): Date {
+  return atAnchorTime(anchor, anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + days);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function calendarDaysBetween(from: Date, to: Date): number {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / MS_PER_DAY);
+}
+
+function calendarMonthsBetween(from: Date, to: Date): number {
+  return (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+}
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function matchesMonthDay(date: Date, monthDays: number[]): boolean {
+  if (monthDays.length === 0) return true;
+  const total = daysInMonth(date.getFullYear(), date.getMonth());
+  const day = date.getDate();
+  return monthDays.some((monthDay) => (monthDay > 0 ? monthDay === day : total + monthDay + 1 === day));
+}
+
+function applySetPositions(candidates: Date[], setPositions: number[]): Date[] {
+  if (setPositions.length === 0) return candidates;
+
+  const picked = setPositions
+    .map((position) => (position > 0 ? candidates[position - 1] : candidates[candidates.length + position]))
+    .filter((date): date is Date => Boolean(date));
+
+  const unique = new Map(picked.map((date) => [date.getTime(), date]));
+  return Array.from(unique.values()).sort((a, b) => a.getTime() - b.getTime());
+}
+
+interface NormalizedRule {
+  frequency: number;
+  unit: FrequencyUnit;
+  weekdays: number[];
+  monthDays: number[];
+  setPositions: number[];
+  untilMs: number | null;
+  count: number | null;
+  exdates: Set<string>;
+}
+
+function normalizeRule(rule: RecurrenceRule): NormalizedRule {
+  const untilMs = rule.until ? new Date(rule.until).getTime() : Number.NaN;
+  const count = Math.floor(Number(rule.count));
+
+  return {
+    frequency: normalizeFrequency(rule.frequency),
+    unit: rule.frequency_unit,
+    weekdays: normalizeDaysOfWeek(rule.selected_days).map((day) => DAY_VALUES.indexOf(day)),
+    monthDays: normalizeIntegers(rule.by_month_day, -31, 31),
+    setPositions: normalizeIntegers(rule.by_set_pos, -366, 366),
+    untilMs: Number.isNaN(untilMs) ? null : untilMs,
+    count: Number.isFinite(count) && count > 0 ? count : null,
+    exdates: new Set(rule.exdates ?? []),
+  };
+}
+
+// Sorted candidate occurrences in the period `index` intervals after the anchor's period.
+function getPeriodCandidates(rule: NormalizedRule, anchor: Date, index: number): Date[] {
+  switch (rule.unit) {
+    case 'days': {
+      const date = addCalendarDays(anchor, index * rule.frequency);
+      const matchesDay = rule.weekdays.length === 0 || rule.weekdays.includes(date.getDay());
+      return matchesDay && matchesMonthDay(date, rule.monthDays) ? [date] : [];
+    }
+
+    case 'weeks': {
+      const weekStart = addCalendarDays(anchor, index * rule.frequency * 7 - anchor.getDay());
+      const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [anchor.getDay()];
+      const candidates = weekdays
+        .map((weekday) => addCalendarDays(weekStart, weekday))
+        .filter((date) => matchesMonthDay(date, rule.monthDays));
+      return applySetPositions(candidates, rule.setPositions);
+    }
+
+    case 'months':
+    case 'years': {
+      const monthStep = rule.frequency * (rule.unit === 'years' ? 12 : 1);
+      const firstOfMonth = new Date(anchor.getFullYear(), anchor.getMonth() + index * monthStep, 1);
+      const year = firstOfMonth.getFullYear();
+      const month = firstOfMonth.getMonth();
+      const total = daysInMonth(year, month);
+
+      // Without BYDAY/BYMONTHDAY the anchor's day is used, clamped to shorter months.
+      if (rule.weekdays.length === 0 && rule.monthDays.length === 0) {
+        return [atAnchorTime(anchor, year, month, Math.min(anchor.getDate(), total))];
+      }
+
+      const candidates: Date[] = [];
+      for (let day = 1; day <= total; day += 1) {
+        const date = atAnchorTime(anchor, year, month, day);
+        const matchesDay = rule.weekdays.length === 0 || rule.weekdays.includes(date.getDay());
+        if (matchesDay && matchesMonthDay(date, rule.monthDays)) {
+          candidates.push(date);
+        }
+      }
+      return applySetPositions(candidates, rule.setPositions);
+    }
+
+    default:
+      return [];
+  }
+}
+
+// Index of the period containing `date`, used to skip ahead when COUNT doesn't apply.
+function getPeriodIndex(rule: NormalizedRule, anchor: Date, date: Date): number {
+  switch (rule.unit) {
+    case 'days':
+      return Math.floor(calendarDaysBetween(anchor, date) / rule.frequency);
+    case 'weeks':
+      return Math.floor(calendarDaysBetween(addCalendarDays(anchor, -anchor.getDay()), date) / (rule.frequency * 7));
+    case 'months':
+      return Math.floor(calendarMonthsBetween(anchor, date) / rule.frequency);
+    case 'years':
+      return Math.floor(calendarMonthsBetween(anchor, date) / (rule.frequency * 12));
+    default:
+      return 0;
+  }
+}
+
+function getNextTimedOccurrence(rule: NormalizedRule, anchor: Date, after: Date): Date | null {
+  const stepMs = rule.frequency * MS_PER_MINUTE * (rule.unit === 'hours' ? 60 : 1);
+  let step = Math.max(1, Math.floor((after.getTime() - anchor.getTime()) / stepMs) + 1);
+
+  while (true) {
+    // The anchor is occurrence #1, so step N is occurrence N + 1.
+    if (rule.count !== null && step + 1 > rule.count) return null;
+
+    const candidate = new Date(anchor.getTime() + step * stepMs);
+    if (rule.untilMs !== null && candidate.getTime() > rule.untilMs) return null;
+    if (!rule.exdates.has(toDateKey(candidate))) return candidate;
+    step += 1;
+  }
+}
+
+/**
+ * Get the first occurrence of a rule strictly after `after`.
+ * `anchor` is the series' first occurrence (DTSTART): it counts as occurrence #1
+ * for COUNT and fixes the time of day and calendar alignment of every later one.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, anchor: Date, after: Date): Date | null {
+  const anchorMs = anchor.getTime();
+  const afterMs = after.getTime();
+  if (Number.isNaN(anchorMs) || Number.isNaN(afterMs)) {
+    return null;
+  }
+
+  const normalized = normalizeRule(rule);
+
+  if (anchorMs > afterMs && !normalized.exdates.has(toDateKey(anchor))) {
+    return new Date(anchorMs);
+  }
+
+  if (normalized.unit === 'minutes' || normalized.unit === 'hours') {
+    return getNextTimedOccurrence(normalized, anchor, after);
+  }
+
+  // COUNT needs every occurrence since the anchor, so only skip ahead without it.
+  let index = normalized.count === null ? Math.max(0, getPeriodIndex(normalized, anchor, after)) : 0;
+  let seen = 1;
+  let emptyPeriods = 0;
+
+  while (emptyPeriods < MAX_EMPTY_PERIODS) {
+    const candidates = getPeriodCandidates(normalized, anchor, index).filter(
+      (candidate) => candidate.getTime() > anchorMs
+    );
+    emptyPeriods = candidates.length === 0 ? emptyPeriods + 1 : 0;
+
+    for (const candidate of candidates) {
+      if (normalized.untilMs !== null && candidate.getTime() > normalized.untilMs) return null;
+
+      // Excluded dates still count towards COUNT, as in RFC 5545.
+      seen += 1;
+      if (normalized.count !== null && seen > normalized.count) return null;
+
+      if (candidate.getTime() <= afterMs) continue;
+      if (normalized.exdates.has(toDateKey(candidate))) continue;
+      return candidate;
+    }
+
+    index += 1;
+  }
+
+  return null;
+}
+
+/**
+ * Expand a rule into the occurrences that fall in (after, until], capped at `limit`.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  anchor: Date,
+  after: Date,
+  until: Date,
+  limit: number = 50
+): Date[] {
+  const occurrences: Date[] = [];
+  let cursor = after;
+
+  while (occurrences.length < limit) {
+    const next = getNextOccurrence(rule, anchor, cursor);
+    if (!next || next.getTime() > until.getTime()) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Serialize a rule as RFC 5545 RRULE (and EXDATE) lines.
+ */
+export function toRRuleString(rule: RecurrenceRule): string {
+  const normalized = normalizeRule(rule);
+  const parts = [`FREQ=${RRULE_FREQ_BY_UNIT[normalized.unit]}`];
+
+  if (normalized.frequency > 1) parts.push(`INTERVAL=${normalized.frequency}`);
+  if (normalized.weekdays.length > 0) {
+    parts.push(`BYDAY=${normalized.weekdays.map((day) => RRULE_DAY_CODES[day]).join(',')}`);
+  }
+  if (normalized.monthDays.length > 0) parts.push(`BYMONTHDAY=${normalized.monthDays.join(',')}`);
+  if (normalized.setPositions.length > 0) parts.push(`BYSETPOS=${normalized.setPositions.join(',')}`);
+
+  if (normalized.count !== null) {
+    parts.push(`COUNT=${normalized.count}`);
+  } else if (normalized.untilMs !== null) {
+    parts.push(`UNTIL=${new Date(normalized.untilMs).toISOString().replace(/[-:]|\.\d{3}/g, '')}`);
+  }
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (normalized.exdates.size > 0) {
+    const dates = Array.from(normalized.exdates).sort().map((date) => date.replace(/-/g, ''));
+    lines.push(`EXDATE;VALUE=DATE:${dates.join(',')}`);
+  }
+
+  return lines.join('\n');
+}
+
+function parseRRuleDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00', utc] = match;
+  const parts = [year, month, day, hours, minutes, seconds].map(Number);
+  return utc
+    ? new Date(Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]))
+    : new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+}
+
+/**
+ * Parse RRULE/EXDATE lines into rule fields. Ordinal BYDAY values (e.g. -1FR)
+ * are mapped onto BYSETPOS. Returns null when FREQ is missing or unsupported.
+ */
+export function parseRRuleString(value: string): RecurrenceRule | null {
+  const lines = value.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const rruleLine = lines.find((line) => !line.toUpperCase().startsWith('EXDATE'));
+  if (!rruleLine) return null;
+
+  const params = new Map<string, string>();
+  for (const part of rruleLine.replace(/^RRULE:/i, '').split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) params.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+  }
+
+  const unit = (Object.keys(RRULE_FREQ_BY_UNIT) as FrequencyUnit[]).find(
+    (candidate) => RRULE_FREQ_BY_UNIT[candidate] === params.get('FREQ')
+  );
+  if (!unit) return null;
+
+  const byDay = (params.get('BYDAY') ?? '').split(',').filter(Boolean);
+  const ordinals = byDay.map((day) => Number.parseInt(day, 10)).filter((ordinal) => Number.isFinite(ordinal));
+  const weekdays = byDay
+    .map((day) => RRULE_DAY_CODES.indexOf(day.replace(/^[+-]?\d+/, '')))
+    .filter((day) => day >= 0);
+
+  const untilValue = params.get('UNTIL');
+  const until = untilValue ? parseRRuleDate(untilValue) : null;
+  const countValue = params.get('COUNT');
+
+  const exdateLine = lines.find((line) => line.toUpperCase().startsWith('EXDATE'));
+  const exdates = (exdateLine?.split(':')[1] ?? '')
+    .split(',')
+    .map((date) => parseRRuleDate(date.trim()))
+    .filter((date): date is Date => date !== null)
+    .map(toDateKey);
+
+  return {
+    frequency: normalizeFrequency(Number(params.get('INTERVAL') ?? 1)),
+    frequency_unit: unit,
+    selected_days: normalizeDaysOfWeek(weekdays),
+    by_month_day: normalizeIntegers((params.get('BYMONTHDAY') ?? '').split(','), -31, 31),
+    by_set_pos: normalizeIntegers([...(params.get('BYSETPOS') ?? '').split(','), ...ordinals], -366, 366),
+    until: until ? until.toISOString() : null,
+    count: countValue ? normalizeFrequency(Number(countValue)) : null,
+    exdates,
+  };
+}
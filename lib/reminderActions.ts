@@ -6,6 +6,15 @@ import {
   ReminderAttachment,
   CreateAttachmentInput,
 } from './types';
+import {
+  cacheReminderActions,
+  enqueueMutation,
+  generateLocalId,
+  getCachedReminderActions,
+  isNetworkError,
+} from './offlineStore';
+import { getAttachmentUrl, removeAttachmentObjects } from './attachmentStorage';
+import { toggleVoiceNote } from './voiceNotes';
 
 // ==================== REMINDER ACTIONS ====================
 
@@ -19,7 +28,13 @@ export async function getReminderActions(reminderId: string): Promise<ReminderAc
     .eq('reminder_id', reminderId)
     .order('created_at', { ascending: true });
 
-  if (error) throw error;
+  if (error) {
+    // Offline: serve the last fetched actions
+    if (isNetworkError(error)) return getCachedReminderActions(reminderId);
+    throw error;
+  }
+
+  await cacheReminderActions(reminderId, data ?? []);
   return data ?? [];
 }
 
@@ -47,6 +62,7 @@ export async function createReminderAction(
 
 /**
  * Create multiple reminder actions
+ * Queued for replay when offline, so actions of a reminder created offline aren't lost
  */
 export async function createReminderActions(
   reminderId: string,
@@ -55,6 +71,7 @@ export async function createReminderActions(
   if (inputs.length === 0) return [];
 
   const rows = inputs.map(input => ({
+    id: generateLocalId(),
     reminder_id: reminderId,
     action_type: input.action_type,
     action_value: input.action_value,
@@ -66,7 +83,15 @@ export async function createReminderActions(
     .insert(rows)
     .select();
 
-  if (error) throw error;
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+
+    const now = new Date().toISOString();
+    const offlineActions: ReminderAction[] = rows.map(row => ({ ...row, created_at: now, updated_at: now }));
+    await enqueueMutation({ kind: 'insert_actions', reminder_id: reminderId, payload: offlineActions });
+    return offlineActions;
+  }
+
   return data ?? [];
 }
 
@@ -140,7 +165,8 @@ export async function createReminderAttachment(
     .insert({
       reminder_id: reminderId,
       attachment_type: input.attachment_type,
-      storage_url: input.storage_url,
+      storage_url: input.storage_url || null,
+      storage_path: input.storage_path || null,
       file_name: input.file_name || null,
       file_size: input.file_size || null,
       mime_type: input.mime_type || null,
@@ -164,7 +190,8 @@ export async function createReminderAttachments(
   const rows = inputs.map(input => ({
     reminder_id: reminderId,
     attachment_type: input.attachment_type,
-    storage_url: input.storage_url,
+    storage_url: input.storage_url || null,
+    storage_path: input.storage_path || null,
     file_name: input.file_name || null,
     file_size: input.file_size || null,
     mime_type: input.mime_type || null,
@@ -180,27 +207,80 @@ export async function createReminderAttachments(
 }
 
 /**
- * Delete a reminder attachment
+ * Storage paths of attachments matching a column filter, for cleaning up their files
+ */
+async function getAttachmentStoragePaths(column: 'id' | 'reminder_id', values: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('reminder_attachments')
+    .select('storage_path')
+    .in(column, values)
+    .not('storage_path', 'is', null);
+
+  if (error) throw error;
+  return Array.from(new Set((data ?? []).map((row) => row.storage_path as string)));
+}
+
+// Occurrences of a recurring reminder share uploaded files, so only remove files nothing points at anymore
+async function removeUnreferencedObjects(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('reminder_attachments')
+    .select('storage_path')
+    .in('storage_path', paths);
+
+  if (error) throw error;
+  const stillUsed = new Set((data ?? []).map((row) => row.storage_path as string));
+  await removeAttachmentObjects(paths.filter((path) => !stillUsed.has(path)));
+}
+
+/**
+ * Delete a reminder attachment and its uploaded file
  */
 export async function deleteReminderAttachment(attachmentId: string): Promise<void> {
+  const paths = await getAttachmentStoragePaths('id', [attachmentId]);
+
   const { error } = await supabase
     .from('reminder_attachments')
     .delete()
     .eq('id', attachmentId);
 
   if (error) throw error;
+  await removeUnreferencedObjects(paths);
 }
 
 /**
- * Delete all attachments for a reminder
+ * Delete all attachments for one or more reminders, and their uploaded files
  */
-export async function deleteReminderAttachments(reminderId: string): Promise<void> {
+export async function deleteReminderAttachments(reminderIds: string | string[]): Promise<void> {
+  const ids = Array.isArray(reminderIds) ? reminderIds : [reminderIds];
+  if (ids.length === 0) return;
+
+  const paths = await getAttachmentStoragePaths('reminder_id', ids);
+
   const { error } = await supabase
     .from('reminder_attachments')
     .delete()
-    .eq('reminder_id', reminderId);
+    .in('reminder_id', ids);
 
   if (error) throw error;
+  await removeUnreferencedObjects(paths);
+}
+
+/**
+ * The attachment row an uploaded photo or voice action should be recorded as
+ */
+export function getActionAttachment(input: CreateReminderActionInput): CreateAttachmentInput | null {
+  if (input.action_type !== 'photo' && input.action_type !== 'voice') return null;
+  if (!input.action_value?.storage_path) return null;
+
+  return {
+    attachment_type: input.action_type,
+    storage_path: input.action_value.storage_path,
+    file_name: input.action_value.file_name,
+    file_size: input.action_value.file_size,
+    mime_type: input.action_value.mime_type,
+  };
 }
 
 // ==================== ACTION EXECUTION ====================
@@ -270,10 +350,20 @@ export async function executeReminderAction(action: ReminderAction): Promise<voi
       break;
     }
 
+    case 'photo': {
+      if (!action.action_value?.storage_path) throw new Error('No photo available');
+      await Linking.openURL(await getAttachmentUrl(action.action_value.storage_path));
+      break;
+    }
+
+    case 'voice': {
+      if (!action.action_value?.storage_path) throw new Error('No voice note available');
+      await toggleVoiceNote(action.action_value.storage_path);
+      break;
+    }
+
     case 'note':
     case 'assign':
-    case 'photo':
-    case 'voice':
     case 'subtasks':
       // These are informational actions, not executable
       break;
@@ -299,7 +389,7 @@ export function getActionLabel(action: ReminderAction): string {
     case 'note':
       return 'View Note';
     case 'assign':
-      return `Shared with ${action.action_value.users?.length || 0} people`;
+      return `Shared with ${action.action_value.emails?.length || action.action_value.users?.length || 0} people`;
     case 'photo':
       return 'View Photo';
     case 'voice':
@@ -0,0 +1,84 @@
+import { supabase } from './supabase';
+import { ReminderEvent, ReminderEventType } from './types';
+import { enqueueMutation, generateLocalId, isNetworkError } from './offlineStore';
+
+type RecordEventOptions = {
+  metadata?: Record<string, unknown>;
+  dedupeKey?: string;
+  occurredAt?: Date;
+};
+
+// Postgres unique_violation: the event (or its dedupe key) was already recorded
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Append events to the reminder history.
+ * History is best effort: failures never block the action being recorded,
+ * and events recorded offline are queued for replay.
+ */
+export async function recordReminderEvents(
+  reminderIds: string[],
+  eventType: ReminderEventType,
+  options: RecordEventOptions = {}
+): Promise<void> {
+  if (reminderIds.length === 0) return;
+
+  try {
+    // getSession reads the stored session, so this also works offline.
+    const { data: { session } } = await supabase.auth.getSession();
+    const userId = session?.user.id;
+    if (!userId) return;
+
+    const occurredAt = (options.occurredAt ?? new Date()).toISOString();
+    const events: ReminderEvent[] = reminderIds.map((reminderId) => ({
+      id: generateLocalId(),
+      user_id: userId,
+      reminder_id: reminderId,
+      event_type: eventType,
+      occurred_at: occurredAt,
+      metadata: options.metadata ?? {},
+      dedupe_key: options.dedupeKey ?? null,
+    }));
+
+    const { error } = await supabase.from('reminder_events').insert(events);
+    if (!error || (error as { code?: string }).code === UNIQUE_VIOLATION) return;
+
+    if (isNetworkError(error)) {
+      await enqueueMutation({ kind: 'insert_events', reminder_id: reminderIds[0], payload: events });
+    }
+  } catch {
+    // History writes never fail the user action
+  }
+}
+
+export async function recordReminderEvent(
+  reminderId: string,
+  eventType: ReminderEventType,
+  options?: RecordEventOptions
+): Promise<void> {
+  await recordReminderEvents([reminderId], eventType, options);
+}
+
+/**
+ * Get the current user's reminder history, oldest first
+ */
+export async function getReminderEvents(options?: {
+  types?: ReminderEventType[];
+  since?: Date;
+}): Promise<ReminderEvent[]> {
+  let query = supabase
+    .from('reminder_events')
+    .select('*')
+    .order('occurred_at', { ascending: true });
+
+  if (options?.types) {
+    query = query.in('event_type', options.types);
+  }
+  if (options?.since) {
+    query = query.gte('occurred_at', options.since.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as ReminderEvent[];
+}
@@ -2,13 +2,45 @@ import { supabase } from './supabase';
 
 const FREE_DAILY_LIMIT = 10;
 
+// SQLSTATE raised by the reminders insert trigger when a free user is over the daily limit
+const DAILY_LIMIT_ERROR_CODE = 'P0429';
+
 /**
- * Check if user is Pro via edge function (server-side verification)
+ * Thrown when the server rejects a reminder because the free daily limit is reached.
+ * Creation flows show the paywall for it.
+ */
+export class ReminderLimitError extends Error {
+  readonly limit: number;
+
+  constructor(limit: number = FREE_DAILY_LIMIT) {
+    super(`Free plan limit reached (${limit}/day). Upgrade to Pro for unlimited reminders.`);
+    this.name = 'ReminderLimitError';
+    this.limit = limit;
+  }
+}
+
+export function isReminderLimitError(error: unknown): error is ReminderLimitError {
+  return error instanceof ReminderLimitError;
+}
+
+/**
+ * Whether a Supabase error is the database rejecting an insert over the daily limit
+ */
+export function isDailyLimitError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === DAILY_LIMIT_ERROR_CODE;
+}
+
+type ReminderQuota = { isPro: boolean; used: number; limit: number };
+
+/**
+ * Check if user is Pro via edge function (server-side verification).
+ * This also refreshes the subscription state the database enforces the limit with.
  */
 async function checkIsProUser(): Promise<boolean> {
   try {
     const { data, error } = await supabase.functions.invoke('check-subscription', {
       method: 'POST',
+      body: { timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
     });
 
     if (error || !data) {
@@ -21,10 +53,27 @@ async function checkIsProUser(): Promise<boolean> {
   }
 }
 
+/**
+ * Today's usage as counted by the database, which is what inserts are checked against
+ */
+async function getReminderQuota(): Promise<ReminderQuota> {
+  const { data, error } = await supabase.rpc('get_reminder_quota').single<{
+    is_pro: boolean;
+    used: number;
+    daily_limit: number;
+  }>();
+
+  if (error) throw error;
+  return { isPro: data.is_pro, used: data.used, limit: data.daily_limit };
+}
+
 /**
  * Check if user can create a new reminder
  * Free users are limited to 10 reminders per day
  * Pro users have unlimited reminders
+ *
+ * This is only an early check for a friendlier message: the database enforces
+ * the limit on insert, and createReminder throws ReminderLimitError past it.
  */
 export async function canCreateReminder(): Promise<{ allowed: boolean; reason?: string; count?: number }> {
   try {
@@ -36,50 +85,31 @@ export async function canCreateReminder(): Promise<{ allowed: boolean; reason?:
     }
 
     // For free users, check today's reminder count
-    const count = await getTodayReminderCount();
+    const { isPro, used, limit } = await getReminderQuota();
 
-    if (count >= FREE_DAILY_LIMIT) {
+    if (!isPro && used >= limit) {
       return {
         allowed: false,
-        reason: `Free plan limit reached (${FREE_DAILY_LIMIT}/day). Upgrade to Pro for unlimited reminders.`,
-        count,
+        reason: new ReminderLimitError(limit).message,
+        count: used,
       };
     }
 
-    return { allowed: true, count };
+    return { allowed: true, count: used };
   } catch {
-    // In case of error, allow creation (fail open)
+    // Offline or unreachable: the insert itself is still checked
     return { allowed: true };
   }
 }
 
 /**
- * Get the number of reminders created today
+ * Get the number of reminders created today.
+ * Deleted reminders still count, and next occurrences of a recurring series don't.
  */
 export async function getTodayReminderCount(): Promise<number> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return 0;
-    }
-
-    // Get start of today in UTC
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayISO = today.toISOString();
-
-    const { count, error } = await supabase
-      .from('reminders')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .gte('created_at', todayISO);
-
-    if (error) {
-      return 0;
-    }
-
-    return count || 0;
+    const { used } = await getReminderQuota();
+    return used;
   } catch {
     return 0;
   }
@@ -96,10 +126,10 @@ export async function getRemainingRemindersToday(): Promise<{ remaining: number;
       return { remaining: Infinity, limit: Infinity, isPro: true };
     }
 
-    const count = await getTodayReminderCount();
-    const remaining = Math.max(0, FREE_DAILY_LIMIT - count);
+    const { used, limit } = await getReminderQuota();
+    const remaining = Math.max(0, limit - used);
 
-    return { remaining, limit: FREE_DAILY_LIMIT, isPro: false };
+    return { remaining, limit, isPro: false };
   } catch {
     return { remaining: 0, limit: FREE_DAILY_LIMIT, isPro: false };
   }
@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+import { Reminder, ReminderInvite, ReminderShare } from './types';
+
+// SQLSTATEs raised by the share_reminder RPC
+const SHARE_INVALID_EMAIL_CODE = '22023';
+const SHARE_WITH_SELF_CODE = 'P0400';
+
+/**
+ * Thrown when a reminder can't be shared with an email address
+ */
+export class ReminderShareError extends Error {
+  readonly email: string;
+
+  constructor(email: string, message: string) {
+    super(message);
+    this.name = 'ReminderShareError';
+    this.email = email;
+  }
+}
+
+export function isReminderShareError(error: unknown): error is ReminderShareError {
+  return error instanceof ReminderShareError;
+}
+
+function toShareError(email: string, error: unknown): unknown {
+  switch ((error as { code?: string } | null)?.code) {
+    case SHARE_INVALID_EMAIL_CODE:
+      return new ReminderShareError(email, `${email} isn't an email address`);
+    case SHARE_WITH_SELF_CODE:
+      return new ReminderShareError(email, "You can't share a reminder with yourself");
+    default:
+      return error;
+  }
+}
+
+// Shares are stored against the first occurrence of a series
+function getShareReminderId(reminder: Reminder): string {
+  return reminder.series_id ?? reminder.id;
+}
+
+/**
+ * Whether a reminder belongs to someone else and was shared with the current user
+ */
+export function isSharedWithMe(reminder: Reminder, userId: string | null | undefined): boolean {
+  return Boolean(userId) && reminder.user_id !== userId;
+}
+
+/**
+ * Get everyone a reminder is shared with (or, for a participant, their own share)
+ */
+export async function getReminderShares(reminder: Reminder): Promise<ReminderShare[]> {
+  const { data, error } = await supabase
+    .from('reminder_shares')
+    .select('*')
+    .eq('reminder_id', getShareReminderId(reminder))
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Invite an email address to a reminder the current user owns. The share stays pending until
+ * its recipient accepts it, and looks the same whether or not anyone uses the address.
+ * Recurring reminders are shared for the whole series.
+ */
+export async function shareReminder(reminderId: string, email: string): Promise<ReminderShare> {
+  const trimmed = email.trim();
+  const { data, error } = await supabase
+    .rpc('share_reminder', { p_reminder_id: reminderId, p_email: trimmed })
+    .single<ReminderShare>();
+
+  if (error) throw toShareError(trimmed, error);
+  return data;
+}
+
+/**
+ * Share with several addresses, collecting the ones that couldn't be shared with
+ */
+export async function shareReminderWithEmails(
+  reminderId: string,
+  emails: string[]
+): Promise<{ shares: ReminderShare[]; failed: ReminderShareError[] }> {
+  const shares: ReminderShare[] = [];
+  const failed: ReminderShareError[] = [];
+
+  for (const email of emails) {
+    try {
+      shares.push(await shareReminder(reminderId, email));
+    } catch (error) {
+      failed.push(isReminderShareError(error) ? error : new ReminderShareError(email, `Couldn't share with ${email}`));
+    }
+  }
+
+  return { shares, failed };
+}
+
+/**
+ * Get the invites waiting for the current user to accept or decline
+ */
+export async function getReminderInvites(): Promise<ReminderInvite[]> {
+  const { data, error } = await supabase.rpc('get_reminder_invites');
+
+  if (error) throw error;
+  return (data ?? []) as ReminderInvite[];
+}
+
+/**
+ * Accept an invite, which makes the reminder show up for the current user
+ */
+export async function acceptReminderShare(shareId: string): Promise<ReminderShare> {
+  const { data, error } = await supabase
+    .rpc('accept_reminder_share', { p_share_id: shareId })
+    .single<ReminderShare>();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * End a share. Owners use it to withdraw an invite or remove a participant, recipients to
+ * decline an invite or leave.
+ */
+export async function removeReminderShare(shareId: string): Promise<void> {
+  const { error } = await supabase.from('reminder_shares').delete().eq('id', shareId);
+  if (error) throw error;
+}
+
+/**
+ * Emails stored on an 'assign' action
+ */
+export function getAssignedEmails(actionValue: any): string[] {
+  const emails = Array.isArray(actionValue?.emails) ? actionValue.emails : [];
+  return emails.filter((email: unknown): email is string => typeof email === 'string' && email.trim().length > 0);
+}
@@ -0,0 +1,161 @@
+import { supabase } from './supabase';
+import { ReminderSubtask } from './types';
+import { enqueueMutation, generateLocalId, isNetworkError } from './offlineStore';
+
+// Matches the title CHECK on reminder_subtasks
+export const MAX_SUBTASK_TITLE_LENGTH = 200;
+
+function normalizeTitle(title: string): string {
+  return title.trim().slice(0, MAX_SUBTASK_TITLE_LENGTH);
+}
+
+/**
+ * Get a reminder's subtasks in checklist order
+ */
+export async function getSubtasks(reminderId: string): Promise<ReminderSubtask[]> {
+  const { data, error } = await supabase
+    .from('reminder_subtasks')
+    .select('*')
+    .eq('reminder_id', reminderId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Create subtasks in the given order, after any the reminder already has.
+ * Queued for replay when offline, like the reminder's actions.
+ */
+export async function createSubtasks(
+  reminderId: string,
+  titles: string[],
+  startPosition = 0
+): Promise<ReminderSubtask[]> {
+  const now = new Date().toISOString();
+  const rows: ReminderSubtask[] = titles
+    .map(normalizeTitle)
+    .filter(Boolean)
+    .map((title, index) => ({
+      id: generateLocalId(),
+      reminder_id: reminderId,
+      title,
+      done: false,
+      position: startPosition + index,
+      completed_at: null,
+      created_at: now,
+      updated_at: now,
+    }));
+
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('reminder_subtasks')
+    .insert(rows)
+    .select();
+
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueueMutation({ kind: 'insert_subtasks', reminder_id: reminderId, payload: rows });
+    return rows;
+  }
+
+  return ((data ?? []) as ReminderSubtask[]).sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Add one subtask to the end of a reminder's checklist
+ */
+export async function addSubtask(reminderId: string, title: string): Promise<ReminderSubtask> {
+  const { data: last, error } = await supabase
+    .from('reminder_subtasks')
+    .select('position')
+    .eq('reminder_id', reminderId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const [created] = await createSubtasks(reminderId, [title], last ? last.position + 1 : 0);
+  if (!created) throw new Error('Subtask title is empty');
+  return created;
+}
+
+/**
+ * Check or uncheck a subtask. The reminder's progress counts follow in the database.
+ */
+export async function setSubtaskDone(id: string, done: boolean): Promise<ReminderSubtask> {
+  const { data, error } = await supabase
+    .from('reminder_subtasks')
+    .update({ done, completed_at: done ? new Date().toISOString() : null })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function renameSubtask(id: string, title: string): Promise<ReminderSubtask> {
+  const { data, error } = await supabase
+    .from('reminder_subtasks')
+    .update({ title: normalizeTitle(title) })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteSubtask(id: string): Promise<void> {
+  const { error } = await supabase.from('reminder_subtasks').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Save a new checklist order. Only rows whose position changed are written.
+ */
+export async function reorderSubtasks(subtasks: ReminderSubtask[]): Promise<ReminderSubtask[]> {
+  const reordered = subtasks.map((subtask, index) => ({ ...subtask, position: index }));
+  const moved = reordered.filter((subtask, index) => subtasks[index].position !== subtask.position);
+
+  const results = await Promise.all(
+    moved.map((subtask) =>
+      supabase.from('reminder_subtasks').update({ position: subtask.position }).eq('id', subtask.id)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+  return reordered;
+}
+
+/**
+ * Copy a checklist onto another reminder, unchecked (used for the next occurrence of a series)
+ */
+export async function copySubtasks(fromReminderId: string, toReminderId: string): Promise<ReminderSubtask[]> {
+  const subtasks = await getSubtasks(fromReminderId);
+  return createSubtasks(toReminderId, subtasks.map((subtask) => subtask.title));
+}
+
+/**
+ * Titles entered on a 'subtasks' action: one per line, or an items array from older versions
+ */
+export function getSubtaskTitles(actionValue: any): string[] {
+  if (Array.isArray(actionValue?.items)) {
+    return actionValue.items
+      .map((item: any) => (typeof item === 'string' ? item : item?.title ?? item?.text ?? ''))
+      .map((title: string) => title.trim())
+      .filter(Boolean);
+  }
+
+  const text = typeof actionValue?.text === 'string' ? actionValue.text : '';
+  return text.split('\n').map((line: string) => line.trim()).filter(Boolean);
+}
+
+export function areAllSubtasksDone(subtasks: Pick<ReminderSubtask, 'done'>[]): boolean {
+  return subtasks.length > 0 && subtasks.every((subtask) => subtask.done);
+}
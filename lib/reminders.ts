@@ -1,52 +1,125 @@
 import { supabase } from './supabase';
-import { CreateReminderInput, CreateRecurringRuleInput, Reminder, ReminderStatus, RecurringRule, UpdateReminderInput } from './types';
+import {
+  BulkRescheduleTarget,
+  CreateReminderInput,
+  CreateRecurringRuleInput,
+  Reminder,
+  ReminderCompletion,
+  ReminderStatus,
+  RecurringRule,
+  ReminderDeletion,
+  ReminderSearchFilters,
+  ReminderTag,
+  CreateReminderTagInput,
+  SeriesScope,
+  UpdateReminderInput,
+} from './types';
+import { expandOccurrences, getNextOccurrence, toDateKey } from './recurrence';
+import {
+  createReminderActions,
+  createReminderAttachments,
+  deleteReminderAttachments,
+  getReminderActions,
+  getReminderAttachments,
+} from './reminderActions';
+import { copySubtasks } from './reminderSubtasks';
+import { recordReminderEvent, recordReminderEvents } from './reminderEvents';
+import { isDailyLimitError, ReminderLimitError } from './reminderLimits';
+import {
+  cacheRemoteReminders,
+  enqueueMutation,
+  generateLocalId,
+  getCachedReminders,
+  isNetworkError,
+} from './offlineStore';
 
-export async function getReminders(): Promise<Reminder[]> {
-  const { data, error } = await supabase
-    .from('reminders')
-    .select('*')
-    .order('scheduled_time', { ascending: true });
+type RemindersResponse = PromiseLike<{ data: Reminder[] | null; error: unknown }>;
 
-  if (error) throw error;
-  return data ?? [];
+// Reads go to Supabase and refresh the offline cache; without connectivity the cache answers instead.
+async function readReminders(
+  request: RemindersResponse,
+  matches: (reminder: Reminder) => boolean
+): Promise<Reminder[]> {
+  const { data, error } = await request;
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+    return (await getCachedReminders()).filter((reminder) => !reminder.deleted_at && matches(reminder));
+  }
+  return cacheRemoteReminders(data ?? [], matches);
+}
+
+async function countCachedReminders(error: unknown, matches: (reminder: Reminder) => boolean): Promise<number> {
+  if (!isNetworkError(error)) throw error;
+  return (await getCachedReminders()).filter((reminder) => !reminder.deleted_at && matches(reminder)).length;
+}
+
+function isWithin(reminder: Reminder, start: string, end?: string): boolean {
+  const time = new Date(reminder.scheduled_time).getTime();
+  return time >= new Date(start).getTime() && (!end || time < new Date(end).getTime());
+}
+
+async function getCurrentUserId(): Promise<string | null> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (user) return user.id;
+
+  // Offline: fall back to the locally persisted session
+  if (isNetworkError(error)) {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  }
+  return null;
+}
+
+export async function getReminders(): Promise<Reminder[]> {
+  return readReminders(
+    supabase
+      .from('reminders')
+      .select('*')
+      .is('deleted_at', null)
+      .order('scheduled_time', { ascending: true }),
+    () => true
+  );
 }
 
 export async function getAllFutureReminders(): Promise<Reminder[]> {
   const today = new Date();
   const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate()).toISOString();
 
-  const { data, error } = await supabase
-    .from('reminders')
-    .select('*')
-    .gte('scheduled_time', startOfDay)
-    .or('status.is.null,status.neq.completed')
-    .order('scheduled_time', { ascending: true });
-
-  if (error) throw error;
-  return data ?? [];
+  return readReminders(
+    supabase
+      .from('reminders')
+      .select('*')
+      .is('deleted_at', null)
+      .gte('scheduled_time', startOfDay)
+      .or('status.is.null,status.neq.completed')
+      .order('scheduled_time', { ascending: true }),
+    (reminder) => isWithin(reminder, startOfDay) && reminder.status !== 'completed'
+  );
 }
 
 export async function getNotifiedReminders(): Promise<Reminder[]> {
-  const { data, error } = await supabase
-    .from('reminders')
-    .select('*')
-    .not('notified_at', 'is', null)
-    .order('notified_at', { ascending: false });
-
-  if (error) throw error;
-  return data ?? [];
+  return readReminders(
+    supabase
+      .from('reminders')
+      .select('*')
+      .is('deleted_at', null)
+      .not('notified_at', 'is', null)
+      .order('notified_at', { ascending: false }),
+    (reminder) => reminder.notified_at !== null
+  );
 }
 
 export async function getOverdueReminders(): Promise<Reminder[]> {
-  const { data, error } = await supabase
-    .from('reminders')
-    .select('*')
-    .not('notified_at', 'is', null)
-    .neq('status', 'completed')
-    .order('notified_at', { ascending: false });
-
-  if (error) throw error;
-  return data ?? [];
+  return readReminders(
+    supabase
+      .from('reminders')
+      .select('*')
+      .is('deleted_at', null)
+      .not('notified_at', 'is', null)
+      .neq('status', 'completed')
+      .order('notified_at', { ascending: false }),
+    (reminder) => reminder.notified_at !== null && reminder.status !== 'completed'
+  );
 }
 
 export async function getReminderById(reminderId: string): Promise<Reminder | null> {
@@ -57,26 +130,78 @@ export async function getReminderById(reminderId: string): Promise<Reminder | nu
     .single();
 
   if (error) {
-    return null;
+    if (!isNetworkError(error)) return null;
+    const cached = await getCachedReminders();
+    return cached.find((reminder) => reminder.id === reminderId) ?? null;
   }
 
   return data ?? null;
 }
 
+const SEARCH_RESULT_LIMIT = 50;
+
+function matchesSearchFilters(reminder: Reminder, filters: ReminderSearchFilters): boolean {
+  const time = new Date(reminder.scheduled_time).getTime();
+  if (filters.from && time < filters.from.getTime()) return false;
+  if (filters.to && time >= filters.to.getTime()) return false;
+  if (filters.priorityOnly && !reminder.is_priority) return false;
+  if (filters.completed !== undefined && (reminder.status === 'completed') !== filters.completed) return false;
+  if (filters.recurring !== undefined && Boolean(reminder.recurring_rule_id) !== filters.recurring) return false;
+  return true;
+}
+
+/**
+ * Full-text search over titles, descriptions and action values (notes, subtasks,
+ * emails, addresses). Words match as prefixes. Offline, cached titles and
+ * descriptions are searched instead.
+ */
+export async function searchReminders(
+  searchText: string,
+  filters: ReminderSearchFilters = {}
+): Promise<Reminder[]> {
+  const words = searchText.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('search_reminders', {
+    search_text: searchText,
+    from_time: filters.from?.toISOString() ?? null,
+    to_time: filters.to?.toISOString() ?? null,
+    priority_only: filters.priorityOnly ?? false,
+    completed: filters.completed ?? null,
+    recurring: filters.recurring ?? null,
+    result_limit: SEARCH_RESULT_LIMIT,
+  });
+
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+
+    return (await getCachedReminders())
+      .filter((reminder) => {
+        if (reminder.deleted_at || !matchesSearchFilters(reminder, filters)) return false;
+        const haystack = `${reminder.title} ${reminder.description ?? ''}`.toLowerCase();
+        return words.every((word) => haystack.includes(word));
+      })
+      .slice(0, SEARCH_RESULT_LIMIT);
+  }
+
+  return (data ?? []) as Reminder[];
+}
+
 export async function getTodayReminders(): Promise<Reminder[]> {
   const today = new Date();
   const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate()).toISOString();
   const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1).toISOString();
 
-  const { data, error } = await supabase
-    .from('reminders')
-    .select('*')
-    .gte('scheduled_time', startOfDay)
-    .lt('scheduled_time', endOfDay)
-    .order('scheduled_time', { ascending: true });
-
-  if (error) throw error;
-  return data ?? [];
+  return readReminders(
+    supabase
+      .from('reminders')
+      .select('*')
+      .is('deleted_at', null)
+      .gte('scheduled_time', startOfDay)
+      .lt('scheduled_time', endOfDay)
+      .order('scheduled_time', { ascending: true }),
+    (reminder) => isWithin(reminder, startOfDay, endOfDay)
+  );
 }
 
 export async function getPriorityCount(): Promise<number> {
@@ -87,11 +212,14 @@ export async function getPriorityCount(): Promise<number> {
   const { count, error } = await supabase
     .from('reminders')
     .select('*', { count: 'exact', head: true })
+    .is('deleted_at', null)
     .eq('is_priority', true)
     .gte('scheduled_time', startOfDay)
     .lt('scheduled_time', endOfDay);
 
-  if (error) throw error;
+  if (error) {
+    return countCachedReminders(error, (reminder) => reminder.is_priority && isWithin(reminder, startOfDay, endOfDay));
+  }
   return count ?? 0;
 }
 
@@ -103,49 +231,251 @@ export async function getUpcomingCount(): Promise<number> {
   const { count, error } = await supabase
     .from('reminders')
     .select('*', { count: 'exact', head: true })
+    .is('deleted_at', null)
     .gte('scheduled_time', startOfWeek)
     .lt('scheduled_time', endOfWeek);
 
-  if (error) throw error;
+  if (error) {
+    return countCachedReminders(error, (reminder) => isWithin(reminder, startOfWeek, endOfWeek));
+  }
   return count ?? 0;
 }
 
 export async function createReminder(input: CreateReminderInput): Promise<Reminder> {
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) throw new Error('User not authenticated');
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('User not authenticated');
+
+  // Ids are generated on the device so an offline create can be replayed without duplicating.
+  const row = {
+    ...input,
+    id: generateLocalId(),
+    user_id: userId,
+  };
 
   const { data, error } = await supabase
     .from('reminders')
-    .insert({
-      ...input,
-      user_id: user.id,
-    })
+    .insert(row)
     .select()
     .single();
 
-  if (error) throw error;
+  if (error) {
+    if (isDailyLimitError(error)) throw new ReminderLimitError();
+    if (!isNetworkError(error)) throw error;
+
+    const now = new Date().toISOString();
+    const isRecurring = Boolean(input.recurring_rule_id);
+    const offlineReminder: Reminder = {
+      description: null,
+      status: 'future',
+      is_priority: false,
+      notify_offsets: [0],
+      notified_offsets: [],
+      notified_at: null,
+      priority_notified_at: null,
+      recurring_rule_id: null,
+      series_id: isRecurring ? row.id : null,
+      original_scheduled_time: isRecurring ? input.scheduled_time : null,
+      is_series_exception: false,
+      completed_at: null,
+      deleted_at: null,
+      tag_ids: [],
+      subtask_count: 0,
+      subtask_done_count: 0,
+      auto_complete_subtasks: false,
+      trigger_type: 'time',
+      location_name: null,
+      location_lat: null,
+      location_lng: null,
+      location_radius_m: null,
+      created_at: now,
+      updated_at: now,
+      ...row,
+    };
+    await enqueueMutation({ kind: 'insert_reminder', reminder_id: row.id, payload: offlineReminder });
+    await recordReminderEvent(row.id, 'created');
+    return offlineReminder;
+  }
+
+  await recordReminderEvent(data.id, 'created');
   return data;
 }
 
 export async function updateReminder(id: string, input: UpdateReminderInput): Promise<Reminder> {
+  return updateReminderRow(id, input);
+}
+
+// Reminders stay in "Recently deleted" this long before they are purged
+export const DELETED_REMINDER_RETENTION_DAYS = 30;
+
+// Deletes are soft: the rows keep their actions and attachments until purged.
+async function softDeleteReminders(ids: string[], metadata?: Record<string, unknown>): Promise<void> {
+  if (ids.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('reminders')
+    .update({ deleted_at: now, updated_at: now })
+    .in('id', ids);
+
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+    for (const id of ids) {
+      await enqueueMutation({ kind: 'delete_reminder', reminder_id: id });
+    }
+  }
+  await recordReminderEvents(ids, 'deleted', { metadata });
+}
+
+export async function deleteReminder(id: string): Promise<ReminderDeletion> {
+  await softDeleteReminders([id]);
+  return { reminder_ids: [id], rule_id: null, previous_rule: null };
+}
+
+/**
+ * Undo a delete: bring the reminders back and revert any rule change the delete made
+ */
+export async function restoreDeletedReminders(deletion: ReminderDeletion): Promise<void> {
+  if (deletion.reminder_ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('reminders')
+    .update({ deleted_at: null, updated_at: new Date().toISOString() })
+    .in('id', deletion.reminder_ids);
+  if (error) throw error;
+
+  if (deletion.rule_id && deletion.previous_rule) {
+    const { error: ruleError } = await supabase
+      .from('recurring_rules')
+      .update(deletion.previous_rule)
+      .eq('id', deletion.rule_id);
+    if (ruleError) throw ruleError;
+  }
+
+  await recordReminderEvents(deletion.reminder_ids, 'restored');
+}
+
+export async function getRecentlyDeletedReminders(): Promise<Reminder[]> {
   const { data, error } = await supabase
     .from('reminders')
-    .update(input)
+    .select('*')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Delete soft-deleted reminders for good. Actions and attachment rows cascade;
+ * uploaded attachment files are removed first since Storage doesn't cascade.
+ */
+export async function permanentlyDeleteReminders(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  await deleteReminderAttachments(ids).catch(() => undefined);
+
+  const { error } = await supabase
+    .from('reminders')
+    .delete()
+    .in('id', ids)
+    .not('deleted_at', 'is', null);
+  if (error) throw error;
+}
+
+/**
+ * Purge reminders deleted more than DELETED_REMINDER_RETENTION_DAYS ago.
+ * Returns the number of reminders purged.
+ */
+export async function purgeDeletedReminders(): Promise<number> {
+  const cutoff = new Date(Date.now() - DELETED_REMINDER_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: expired } = await supabase.from('reminders').select('id').lt('deleted_at', cutoff);
+  if (expired && expired.length > 0) {
+    await deleteReminderAttachments(expired.map((reminder) => reminder.id)).catch(() => undefined);
+  }
+
+  const { data, error } = await supabase.rpc('purge_deleted_reminders', {
+    retention_days: DELETED_REMINDER_RETENTION_DAYS,
+  });
+  if (error) throw error;
+  return typeof data === 'number' ? data : 0;
+}
+
+// The local stamp marks offline edits as changes in the cache; the server replaces it with its own time.
+async function updateReminderRow(id: string, changes: Partial<Reminder>): Promise<Reminder> {
+  const stamped = { ...changes, updated_at: new Date().toISOString() };
+
+  const { data, error } = await supabase
+    .from('reminders')
+    .update(stamped)
     .eq('id', id)
     .select()
     .single();
 
-  if (error) throw error;
+  if (error) {
+    if (isDailyLimitError(error)) throw new ReminderLimitError();
+    if (!isNetworkError(error)) throw error;
+
+    await enqueueMutation({ kind: 'update_reminder', reminder_id: id, payload: stamped });
+    const cached = (await getCachedReminders()).find((reminder) => reminder.id === id);
+    if (!cached) throw error;
+    return cached;
+  }
+
   return data;
 }
 
-export async function deleteReminder(id: string): Promise<void> {
-  const { error } = await supabase.from('reminders').delete().eq('id', id);
-  if (error) throw error;
+async function applyReminderStatus(id: string, status: ReminderStatus): Promise<ReminderCompletion> {
+  const previous = await getReminderById(id).catch(() => null);
+  const wasCompleted = previous?.status === 'completed';
+  const isCompleted = status === 'completed';
+
+  // completed_at only moves on a transition, so later edits never shift the completion day.
+  const updated = await updateReminderRow(id, {
+    status,
+    ...(isCompleted !== wasCompleted && { completed_at: isCompleted ? new Date().toISOString() : null }),
+  });
+
+  if (isCompleted && !wasCompleted) {
+    await recordReminderEvent(id, 'completed');
+  } else if (!isCompleted && wasCompleted) {
+    await recordReminderEvent(id, 'uncompleted', { metadata: { status } });
+  }
+
+  // Completing an occurrence of a recurring series queues up the next one.
+  const next =
+    status === 'completed' && updated.recurring_rule_id
+      ? await materializeNextOccurrence(updated).catch(() => null)
+      : null;
+
+  return { reminder: updated, next_occurrence_id: next?.id ?? null };
 }
 
 export async function updateReminderStatus(id: string, status: ReminderStatus): Promise<Reminder> {
-  return updateReminder(id, { status });
+  return (await applyReminderStatus(id, status)).reminder;
+}
+
+/**
+ * Mark a reminder done. The result records the occurrence the completion queued up,
+ * so undoCompleteReminder can take it back.
+ */
+export async function completeReminder(id: string): Promise<ReminderCompletion> {
+  return applyReminderStatus(id, 'completed');
+}
+
+/**
+ * Undo a completion: reopen the reminder and remove the occurrence the completion added
+ */
+export async function undoCompleteReminder(completion: ReminderCompletion): Promise<Reminder> {
+  // Time-based statuses are recomputed on load, so any open status works here.
+  const reopened = await updateReminderStatus(completion.reminder.id, 'future');
+
+  // Removed outright: a soft-deleted occurrence would keep its slot and the series would stop there.
+  if (completion.next_occurrence_id) {
+    const { error } = await supabase.from('reminders').delete().eq('id', completion.next_occurrence_id);
+    if (error) throw error;
+  }
+
+  return reopened;
 }
 
 // Helper function to compute status based on time
@@ -221,6 +551,18 @@ export async function getRecurringRules(): Promise<RecurringRule[]> {
   return data ?? [];
 }
 
+// Rules the user can pick when creating a reminder (excludes rules forked for a single series)
+export async function getSavedRecurringRules(): Promise<RecurringRule[]> {
+  const { data, error } = await supabase
+    .from('recurring_rules')
+    .select('*')
+    .is('series_id', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
 export async function createRecurringRule(input: CreateRecurringRuleInput): Promise<RecurringRule> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('User not authenticated');
@@ -243,37 +585,681 @@ export async function deleteRecurringRule(id: string): Promise<void> {
   if (error) throw error;
 }
 
-// Snooze a reminder by specified minutes
-export async function snoozeReminder(id: string, minutes: number): Promise<Reminder> {
-  const normalizedMinutes = Math.max(1, Math.floor(minutes));
+// Tags Functions
+export async function getReminderTags(): Promise<ReminderTag[]> {
+  const { data, error } = await supabase
+    .from('reminder_tags')
+    .select('*')
+    .order('name', { ascending: true });
 
-  // Get the current reminder
-  const { data: reminder, error: fetchError } = await supabase
-    .from('reminders')
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function createReminderTag(input: CreateReminderTagInput): Promise<ReminderTag> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('reminder_tags')
+    .insert({
+      ...input,
+      name: input.name.trim(),
+      user_id: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Tag names are unique per user ignoring case, so an existing tag is reused
+export async function getOrCreateReminderTag(name: string): Promise<ReminderTag> {
+  const trimmed = name.trim();
+  const tags = await getReminderTags();
+  const existing = tags.find((tag) => tag.name.toLowerCase() === trimmed.toLowerCase());
+  if (existing) return existing;
+
+  return createReminderTag({ name: trimmed });
+}
+
+export async function updateReminderTag(id: string, input: Partial<CreateReminderTagInput>): Promise<ReminderTag> {
+  const { data, error } = await supabase
+    .from('reminder_tags')
+    .update(input.name ? { ...input, name: input.name.trim() } : input)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// The database removes a deleted tag from every reminder that had it
+export async function deleteReminderTag(id: string): Promise<void> {
+  const { error } = await supabase.from('reminder_tags').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export async function setReminderTags(reminderId: string, tagIds: string[]): Promise<Reminder> {
+  return updateReminderRow(reminderId, { tag_ids: Array.from(new Set(tagIds)) });
+}
+
+async function getRecurringRuleById(id: string): Promise<RecurringRule | null> {
+  const { data, error } = await supabase
+    .from('recurring_rules')
     .select('*')
     .eq('id', id)
     .single();
 
-  if (fetchError) throw fetchError;
+  if (error) return null;
+  return data ?? null;
+}
+
+function getSeriesId(reminder: Reminder): string {
+  return reminder.series_id ?? reminder.id;
+}
+
+// The slot an occurrence was generated for (RFC 5545 RECURRENCE-ID); unchanged by snoozes and edits.
+function getOccurrenceTime(reminder: Reminder): number {
+  return new Date(reminder.original_scheduled_time ?? reminder.scheduled_time).getTime();
+}
+
+function sortBySlot(series: Reminder[]): Reminder[] {
+  return [...series].sort((a, b) => getOccurrenceTime(a) - getOccurrenceTime(b));
+}
+
+async function getSeriesReminders(seriesId: string): Promise<Reminder[]> {
+  const { data, error } = await supabase
+    .from('reminders')
+    .select('*')
+    .is('deleted_at', null)
+    .eq('series_id', seriesId);
+
+  if (error) throw error;
+  return sortBySlot((data ?? []) as Reminder[]);
+}
+
+function isTimedRule(rule: RecurringRule): boolean {
+  return rule.frequency_unit === 'minutes' || rule.frequency_unit === 'hours';
+}
+
+// Apply `changes` to the rule of one series only. Saved rules can be shared by several
+// series, so the series gets its own copy unless it already owns the rule.
+async function forkSeriesRule(
+  seriesId: string,
+  rule: RecurringRule,
+  changes: Partial<CreateRecurringRuleInput>
+): Promise<RecurringRule> {
+  if (rule.series_id === seriesId) {
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .update(changes)
+      .eq('id', rule.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  const forked = await createSeriesRule(seriesId, { ...rule, ...changes });
+
+  const { error } = await supabase
+    .from('reminders')
+    .update({ recurring_rule_id: forked.id })
+    .eq('series_id', seriesId);
+
+  if (error) throw error;
+  return forked;
+}
+
+async function createSeriesRule(seriesId: string, rule: CreateRecurringRuleInput): Promise<RecurringRule> {
+  return createRecurringRule({
+    name: rule.name,
+    frequency: rule.frequency,
+    frequency_unit: rule.frequency_unit,
+    selected_days: rule.selected_days,
+    by_month_day: rule.by_month_day ?? [],
+    by_set_pos: rule.by_set_pos ?? [],
+    until: rule.until ?? null,
+    count: rule.count ?? null,
+    exdates: rule.exdates ?? [],
+    series_id: seriesId,
+  });
+}
+
+async function getSeriesContext(id: string) {
+  const reminder = await getReminderById(id);
+  if (!reminder) throw new Error('Reminder not found');
+
+  const rule = reminder.recurring_rule_id ? await getRecurringRuleById(reminder.recurring_rule_id) : null;
+  if (!rule) return { reminder, rule: null, series: [reminder] };
+
+  const series = await getSeriesReminders(getSeriesId(reminder));
+  return { reminder, rule, series: series.length > 0 ? series : [reminder] };
+}
+
+// Shift or re-title every occurrence of the series. Status stays per occurrence.
+async function updateWholeSeries(reminder: Reminder, series: Reminder[], input: UpdateReminderInput): Promise<Reminder> {
+  const { scheduled_time, status, title, description, ...fields } = input;
+
+  // Renamed in one statement: an occurrence renamed on its own loses its free daily limit exemption.
+  if (title !== undefined || description !== undefined) {
+    const { error } = await supabase.rpc('rename_reminder_series', {
+      p_series_id: getSeriesId(reminder),
+      p_changes: { ...(title !== undefined && { title }), ...(description !== undefined && { description }) },
+    });
+    if (error) throw error;
+  }
+
+  const shiftMs = scheduled_time
+    ? new Date(scheduled_time).getTime() - new Date(reminder.scheduled_time).getTime()
+    : 0;
+
+  // Move later occurrences first when shifting forward so no two rows ever share a slot.
+  const ordered = shiftMs > 0 ? [...series].reverse() : series;
+  let updated = reminder;
+
+  for (const occurrence of ordered) {
+    const changes: Partial<Reminder> = { ...fields };
+    if (shiftMs !== 0) {
+      changes.scheduled_time = new Date(new Date(occurrence.scheduled_time).getTime() + shiftMs).toISOString();
+      changes.original_scheduled_time = new Date(getOccurrenceTime(occurrence) + shiftMs).toISOString();
+      if (occurrence.status !== 'completed') {
+        changes.notified_at = null;
+        changes.priority_notified_at = null;
+      }
+    }
+    if (occurrence.id === reminder.id && status) {
+      changes.status = status;
+    }
+
+    const result = await updateReminderRow(occurrence.id, changes);
+    if (occurrence.id === reminder.id) updated = result;
+  }
+
+  return updated;
+}
+
+// End the series before `reminder` and start a new series from it with the edits applied.
+async function splitSeries(
+  reminder: Reminder,
+  series: Reminder[],
+  rule: RecurringRule,
+  input: UpdateReminderInput
+): Promise<Reminder> {
+  const seriesId = getSeriesId(reminder);
+  const slotMs = getOccurrenceTime(reminder);
+  const anchor = series[0];
+  if (anchor.id === reminder.id || getOccurrenceTime(anchor) >= slotMs) {
+    return updateWholeSeries(reminder, series, input);
+  }
+
+  // COUNT and EXDATE belong to the new series' own copy of the rule.
+  let newRuleId = rule.id;
+  if (rule.series_id || rule.count || (rule.exdates?.length ?? 0) > 0) {
+    const anchorDate = new Date(getOccurrenceTime(anchor));
+    const priorCount = rule.count
+      ? 1 + expandOccurrences({ ...rule, exdates: [] }, anchorDate, anchorDate, new Date(slotMs - 1), rule.count).length
+      : 0;
+    const slotKey = toDateKey(new Date(slotMs));
+    const newRule = await createSeriesRule(reminder.id, {
+      ...rule,
+      until: rule.count ? null : rule.until,
+      count: rule.count ? Math.max(1, rule.count - priorCount) : null,
+      exdates: (rule.exdates ?? []).filter((date) => date >= slotKey),
+    });
+    newRuleId = newRule.id;
+  }
+
+  // Moved first: leaving the series can hit the free daily limit, and the old series is untouched then.
+  const updated = await updateReminderRow(reminder.id, {
+    ...input,
+    series_id: reminder.id,
+    recurring_rule_id: newRuleId,
+    original_scheduled_time: input.scheduled_time ?? reminder.scheduled_time,
+    is_series_exception: false,
+  });
+
+  await forkSeriesRule(seriesId, rule, { until: new Date(slotMs - 1).toISOString(), count: null });
+
+  // Later occurrences are regenerated from the new series.
+  const laterIds = series
+    .filter((occurrence) => occurrence.id !== reminder.id && getOccurrenceTime(occurrence) > slotMs)
+    .map((occurrence) => occurrence.id);
+  await softDeleteReminders(laterIds, { reason: 'series_split' });
+
+  await materializeNextOccurrence(updated).catch(() => null);
+  return updated;
+}
+
+/**
+ * Update a reminder. For recurring reminders `scope` decides whether only this
+ * occurrence, this and all following occurrences, or the whole series changes.
+ */
+export async function updateReminderInSeries(
+  id: string,
+  input: UpdateReminderInput,
+  scope: SeriesScope = 'this'
+): Promise<Reminder> {
+  const { reminder, rule, series } = await getSeriesContext(id);
+  if (!rule) return updateReminder(id, input);
+
+  switch (scope) {
+    case 'all':
+      return updateWholeSeries(reminder, series, input);
+    case 'following':
+      return splitSeries(reminder, series, rule, input);
+    default:
+      return updateReminderRow(id, {
+        ...input,
+        original_scheduled_time: new Date(getOccurrenceTime(reminder)).toISOString(),
+        is_series_exception: true,
+      });
+  }
+}
+
+/**
+ * Delete a reminder. For recurring reminders `scope` decides whether only this
+ * occurrence is skipped, the series ends before it, or the whole series is removed.
+ */
+export async function deleteReminderInSeries(id: string, scope: SeriesScope = 'this'): Promise<ReminderDeletion> {
+  const { reminder, rule, series } = await getSeriesContext(id);
+  if (!rule) return deleteReminder(id);
+
+  const seriesId = getSeriesId(reminder);
+  const slotMs = getOccurrenceTime(reminder);
+  const isAnchor = series[0].id === reminder.id;
+
+  const previousRule = { until: rule.until ?? null, count: rule.count ?? null, exdates: rule.exdates ?? null };
+
+  // The rule is kept so the series can be restored; purging removes it with the last occurrence.
+  if (scope === 'all' || (scope === 'following' && isAnchor)) {
+    const ids = series.map((occurrence) => occurrence.id);
+    await softDeleteReminders(ids, { scope });
+    return { reminder_ids: ids, rule_id: null, previous_rule: null };
+  }
+
+  if (scope === 'following') {
+    const seriesRule = await forkSeriesRule(seriesId, rule, { until: new Date(slotMs - 1).toISOString(), count: null });
+    const ids = series
+      .filter((occurrence) => getOccurrenceTime(occurrence) >= slotMs)
+      .map((occurrence) => occurrence.id);
+    await softDeleteReminders(ids, { scope });
+    return { reminder_ids: ids, rule_id: seriesRule.id, previous_rule: previousRule };
+  }
+
+  // Timed rules repeat within a day, so a date exclusion would drop too much.
+  let seriesRule = rule;
+  if (!isTimedRule(rule)) {
+    const exdate = toDateKey(new Date(slotMs));
+    seriesRule = await forkSeriesRule(seriesId, rule, {
+      exdates: Array.from(new Set([...(rule.exdates ?? []), exdate])).sort(),
+    });
+  }
+
+  await createOccurrenceAfterDeleted(series, seriesRule, new Set([id])).catch(() => null);
+  await softDeleteReminders([id], { scope });
+  return {
+    reminder_ids: [id],
+    rule_id: seriesRule === rule ? null : seriesRule.id,
+    previous_rule: seriesRule === rule ? null : previousRule,
+  };
+}
+
+// Queue the following occurrence before removing the latest one, so the series continues.
+// A deleted occurrence still holds its slot, so the series would otherwise stop there.
+async function createOccurrenceAfterDeleted(
+  series: Reminder[],
+  rule: RecurringRule,
+  deletedIds: Set<string>
+): Promise<Reminder | null> {
+  const latest = sortBySlot(series)[series.length - 1];
+  if (!latest || !deletedIds.has(latest.id)) return null;
+
+  return createNextOccurrence(
+    series.map((occurrence) =>
+      deletedIds.has(occurrence.id) ? { ...occurrence, status: 'completed' as ReminderStatus } : occurrence
+    ),
+    rule
+  );
+}
+
+// Inserts the occurrence that follows the latest one in `series`.
+// Returns null when the series already has a pending upcoming occurrence.
+async function createNextOccurrence(series: Reminder[], rule: RecurringRule): Promise<Reminder | null> {
+  if (series.length === 0) return null;
+
+  const sorted = sortBySlot(series);
+  const anchor = sorted[0];
+  const latest = sorted[sorted.length - 1];
+  const latestMs = getOccurrenceTime(latest);
+  if (Number.isNaN(latestMs)) return null;
+
+  const now = Date.now();
+  if (latest.status !== 'completed' && new Date(latest.scheduled_time).getTime() > now) {
+    return null;
+  }
+
+  // Occurrences missed while the app was closed are skipped rather than backfilled.
+  const nextTime = getNextOccurrence(rule, new Date(getOccurrenceTime(anchor)), new Date(Math.max(now, latestMs)));
+  if (!nextTime) return null;
+
+  // Single-occurrence edits don't carry over to the rest of the series.
+  const template = [...sorted].reverse().find((occurrence) => !occurrence.is_series_exception) ?? latest;
+
+  // The (series_id, scheduled_time) unique key keeps concurrent devices from duplicating occurrences.
+  const { data, error } = await supabase
+    .from('reminders')
+    .upsert(
+      {
+        user_id: latest.user_id,
+        title: template.title,
+        description: template.description,
+        scheduled_time: nextTime.toISOString(),
+        original_scheduled_time: nextTime.toISOString(),
+        is_priority: template.is_priority,
+        notify_offsets: template.notify_offsets,
+        recurring_rule_id: latest.recurring_rule_id,
+        series_id: getSeriesId(latest),
+        tag_ids: template.tag_ids ?? [],
+        auto_complete_subtasks: template.auto_complete_subtasks ?? false,
+      },
+      {
+        onConflict: 'series_id,original_scheduled_time',
+        ignoreDuplicates: true,
+      }
+    )
+    .select();
+
+  if (error) throw error;
+
+  const created = (data?.[0] ?? null) as Reminder | null;
+  if (!created) return null;
+
+  const actions = await getReminderActions(template.id).catch(() => []);
+  if (actions.length > 0) {
+    await createReminderActions(
+      created.id,
+      actions.map(({ action_type, action_value, metadata }) => ({ action_type, action_value, metadata }))
+    );
+  }
+
+  const attachments = await getReminderAttachments(template.id).catch(() => []);
+  if (attachments.length > 0) {
+    await createReminderAttachments(
+      created.id,
+      attachments.map(({ attachment_type, storage_url, storage_path, file_name, file_size, mime_type }) => ({
+        attachment_type,
+        storage_url: storage_url ?? undefined,
+        storage_path: storage_path ?? undefined,
+        file_name: file_name ?? undefined,
+        file_size: file_size ?? undefined,
+        mime_type: mime_type ?? undefined,
+      }))
+    ).catch(() => []);
+  }
+
+  if (template.subtask_count > 0) {
+    await copySubtasks(template.id, created.id).catch(() => []);
+  }
+
+  return created;
+}
+
+// Create the next occurrence for the series that `reminder` belongs to. Only the owner can add
+// to a series; when a participant completes an occurrence, the owner's devices add the next one
+// on their next sync.
+export async function materializeNextOccurrence(reminder: Reminder): Promise<Reminder | null> {
+  if (!reminder.recurring_rule_id) return null;
+  if (reminder.user_id !== (await getCurrentUserId())) return null;
+
+  const rule = await getRecurringRuleById(reminder.recurring_rule_id);
+  if (!rule) return null;
+
+  const series = await getSeriesReminders(getSeriesId(reminder));
+  return createNextOccurrence(series.length > 0 ? series : [reminder], rule);
+}
+
+// Make sure every recurring series has its next occurrence stored as a real reminder.
+// Only the latest occurrence of each active series is loaded; a series' other occurrences are
+// fetched only when it actually needs a new one.
+export async function materializeRecurringReminders(): Promise<Reminder[]> {
+  const { data, error } = await supabase.rpc('get_recurring_series_heads');
+
+  if (error) throw error;
+
+  const now = Date.now();
+  const due = ((data ?? []) as Reminder[]).filter(
+    (latest) => latest.status === 'completed' || new Date(latest.scheduled_time).getTime() <= now
+  );
+
+  const created: Reminder[] = [];
+  for (const latest of due) {
+    try {
+      const next = await materializeNextOccurrence(latest);
+      if (next) created.push(next);
+    } catch {
+      // Keep materializing the remaining series.
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Undo a snooze by moving the reminder (or its series) back to its previous time
+ */
+export async function undoSnoozeReminder(previous: Reminder, scope: SeriesScope = 'this'): Promise<Reminder> {
+  if (previous.recurring_rule_id && scope !== 'this') {
+    return updateReminderInSeries(previous.id, { scheduled_time: previous.scheduled_time }, scope);
+  }
+
+  return updateReminderRow(previous.id, {
+    scheduled_time: previous.scheduled_time,
+    notified_at: previous.notified_at,
+    priority_notified_at: previous.priority_notified_at,
+  });
+}
+
+// Snooze a reminder by specified minutes. For recurring reminders `scope` can move
+// this and following occurrences, or the whole series, by the same amount.
+export async function snoozeReminder(id: string, minutes: number, scope: SeriesScope = 'this'): Promise<Reminder> {
+  const normalizedMinutes = Math.max(1, Math.floor(minutes));
+
+  // Get the current reminder
+  const reminder = await getReminderById(id);
+  if (!reminder) throw new Error('Reminder not found');
 
   // Calculate new scheduled time from "now" if reminder time is already in the past.
   const currentScheduledTime = new Date(reminder.scheduled_time);
   const baselineTime = Math.max(Date.now(), currentScheduledTime.getTime());
   const newScheduledTime = new Date(baselineTime + normalizedMinutes * 60 * 1000);
 
-  // Update the reminder with new scheduled time and reset notification fields
-  const { data, error } = await supabase
-    .from('reminders')
-    .update({
+  let updated: Reminder;
+  if (reminder.recurring_rule_id && scope !== 'this') {
+    updated = await updateReminderInSeries(id, { scheduled_time: newScheduledTime.toISOString() }, scope);
+  } else {
+    // Update the reminder with new scheduled time and reset notification fields
+    updated = await updateReminderRow(id, {
       scheduled_time: newScheduledTime.toISOString(),
       notified_at: null,
       priority_notified_at: null,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', id)
-    .select()
-    .single();
+      // Snoozing an arrive/leave notification means "remind me again in a bit", not at the next visit
+      ...(reminder.trigger_type !== 'time' && { trigger_type: 'time' as const }),
+      // Keep the series slot so the next occurrence is still computed from it
+      ...(reminder.recurring_rule_id && {
+        original_scheduled_time: reminder.original_scheduled_time ?? reminder.scheduled_time,
+      }),
+    });
+  }
 
-  if (error) throw error;
-  return data;
+  await recordReminderEvent(id, 'snoozed', {
+    metadata: { minutes: normalizedMinutes, scope, snoozed_until: newScheduledTime.toISOString() },
+  });
+  return updated;
+}
+
+// ==================== BULK OPERATIONS ====================
+// Each bulk write is a single query. Recurring reminders are changed per occurrence.
+
+// Offline, each reminder is queued like a single update
+async function queueReminderUpdates(ids: string[], changes: Partial<Reminder>): Promise<Reminder[]> {
+  for (const id of ids) {
+    await enqueueMutation({ kind: 'update_reminder', reminder_id: id, payload: changes });
+  }
+  const idSet = new Set(ids);
+  return (await getCachedReminders()).filter((reminder) => idSet.has(reminder.id));
+}
+
+/**
+ * Complete (or reopen) several reminders. Reminders already in the requested
+ * state are left alone, so completed_at only moves on a transition.
+ */
+export async function bulkSetRemindersCompleted(ids: string[], completed: boolean): Promise<Reminder[]> {
+  if (ids.length === 0) return [];
+
+  const now = new Date().toISOString();
+  const stamped: Partial<Reminder> = completed
+    ? { status: 'completed', completed_at: now, updated_at: now }
+    : { status: 'future', completed_at: null, updated_at: now };
+
+  const query = supabase.from('reminders').update(stamped).in('id', ids);
+  const { data, error } = await (completed ? query.neq('status', 'completed') : query.eq('status', 'completed'))
+    .select();
+
+  let changed: Reminder[];
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+    const cached = await getCachedReminders();
+    const pendingIds = cached
+      .filter((reminder) => ids.includes(reminder.id) && (reminder.status === 'completed') !== completed)
+      .map((reminder) => reminder.id);
+    changed = await queueReminderUpdates(pendingIds, stamped);
+  } else {
+    changed = (data ?? []) as Reminder[];
+  }
+
+  const changedIds = changed.map((reminder) => reminder.id);
+  if (completed) {
+    await recordReminderEvents(changedIds, 'completed');
+  } else {
+    await recordReminderEvents(changedIds, 'uncompleted', { metadata: { status: 'future' } });
+  }
+
+  // One next occurrence per series, however many of its occurrences were completed
+  if (completed) {
+    const seriesSeen = new Set<string>();
+    for (const reminder of changed) {
+      if (!reminder.recurring_rule_id || seriesSeen.has(getSeriesId(reminder))) continue;
+      seriesSeen.add(getSeriesId(reminder));
+      await materializeNextOccurrence(reminder).catch(() => null);
+    }
+  }
+
+  return changed;
+}
+
+export async function bulkSetRemindersPriority(ids: string[], isPriority: boolean): Promise<Reminder[]> {
+  if (ids.length === 0) return [];
+
+  const stamped: Partial<Reminder> = { is_priority: isPriority, updated_at: new Date().toISOString() };
+  const { data, error } = await supabase
+    .from('reminders')
+    .update(stamped)
+    .in('id', ids)
+    .select();
+
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+    return queueReminderUpdates(ids, stamped);
+  }
+  return (data ?? []) as Reminder[];
+}
+
+function getRescheduledTime(reminder: Reminder, target: BulkRescheduleTarget): string {
+  const scheduled = new Date(reminder.scheduled_time);
+  if ('offsetMinutes' in target) {
+    return new Date(scheduled.getTime() + Math.round(target.offsetMinutes) * 60 * 1000).toISOString();
+  }
+
+  const moved = new Date(target.date);
+  moved.setHours(scheduled.getHours(), scheduled.getMinutes(), 0, 0);
+  return moved.toISOString();
+}
+
+/**
+ * Move several reminders by an offset, or to a date keeping each one's time of day
+ */
+export async function bulkRescheduleReminders(ids: string[], target: BulkRescheduleTarget): Promise<Reminder[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('reschedule_reminders', {
+    reminder_ids: ids,
+    offset_minutes: 'offsetMinutes' in target ? Math.round(target.offsetMinutes) : null,
+    target_date: 'date' in target ? toDateKey(target.date) : null,
+    // The target date is a local calendar day, and times of day are kept in local time
+    time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+
+    const now = new Date().toISOString();
+    const cached = (await getCachedReminders()).filter((reminder) => ids.includes(reminder.id));
+    for (const reminder of cached) {
+      await enqueueMutation({
+        kind: 'update_reminder',
+        reminder_id: reminder.id,
+        payload: {
+          scheduled_time: getRescheduledTime(reminder, target),
+          notified_at: null,
+          priority_notified_at: null,
+          is_series_exception: reminder.is_series_exception || Boolean(reminder.series_id),
+          updated_at: now,
+        },
+      });
+    }
+    return (await getCachedReminders()).filter((reminder) => ids.includes(reminder.id));
+  }
+
+  return (data ?? []) as Reminder[];
+}
+
+/**
+ * Delete several reminders. Only the selected occurrences of a recurring reminder
+ * are deleted; the rest of the series is kept and continues past them.
+ */
+export async function bulkDeleteReminders(ids: string[]): Promise<ReminderDeletion> {
+  if (ids.length === 0) return { reminder_ids: [], rule_id: null, previous_rule: null };
+
+  const { data } = await supabase
+    .from('reminders')
+    .select('*')
+    .in('id', ids)
+    .not('recurring_rule_id', 'is', null);
+
+  const deletedIds = new Set(ids);
+  const seriesMembers = new Map<string, Reminder[]>();
+  for (const reminder of (data ?? []) as Reminder[]) {
+    seriesMembers.set(getSeriesId(reminder), [...(seriesMembers.get(getSeriesId(reminder)) ?? []), reminder]);
+  }
+
+  for (const [seriesId, members] of seriesMembers) {
+    const ruleId = members[0].recurring_rule_id;
+    if (!ruleId) continue;
+    try {
+      const rule = await getRecurringRuleById(ruleId);
+      if (!rule) continue;
+      const series = await getSeriesReminders(seriesId);
+      await createOccurrenceAfterDeleted(series.length > 0 ? series : members, rule, deletedIds);
+    } catch {
+      // Keep deleting the remaining reminders.
+    }
+  }
+
+  await softDeleteReminders(ids, { bulk: true });
+  return { reminder_ids: ids, rule_id: null, previous_rule: null };
 }
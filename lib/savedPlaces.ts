@@ -0,0 +1,128 @@
+import * as Location from 'expo-location';
+import { generateLocalId } from './offlineStore';
+import { getUserPreferences, updateUserPreferences } from './userPreferences';
+import type { CreateReminderInput, ReminderTriggerType, SavedPlace } from './types';
+
+// Same bounds as the reminders_location_trigger_check constraint
+export const MIN_PLACE_RADIUS_M = 100;
+export const MAX_PLACE_RADIUS_M = 5000;
+export const DEFAULT_PLACE_RADIUS_M = 150;
+export const MAX_PLACE_NAME_LENGTH = 40;
+
+export interface PlaceLocation {
+  latitude: number;
+  longitude: number;
+  address?: string;
+}
+
+export function clampPlaceRadius(radius: number): number {
+  if (!Number.isFinite(radius)) return DEFAULT_PLACE_RADIUS_M;
+  return Math.min(MAX_PLACE_RADIUS_M, Math.max(MIN_PLACE_RADIUS_M, Math.round(radius)));
+}
+
+/**
+ * Find a saved place by name, ignoring case and a leading "my" ("my office" → "Office")
+ */
+export function findSavedPlace(places: SavedPlace[], name: string | null | undefined): SavedPlace | null {
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/^my\s+/, '');
+  const target = name ? normalize(name) : '';
+  if (!target) return null;
+  return places.find((place) => normalize(place.name) === target) ?? null;
+}
+
+export async function getSavedPlaces(): Promise<SavedPlace[]> {
+  const preferences = await getUserPreferences();
+  return preferences?.saved_places ?? [];
+}
+
+async function writeSavedPlaces(places: SavedPlace[]): Promise<SavedPlace[]> {
+  const updated = await updateUserPreferences({ saved_places: places });
+  if (!updated) throw new Error("Couldn't save places");
+  return updated.saved_places ?? places;
+}
+
+/**
+ * Add a place, or replace the one with the same name. Returns the updated list.
+ */
+export async function savePlace(place: Omit<SavedPlace, 'id'> & { id?: string }): Promise<SavedPlace[]> {
+  const name = place.name.trim().slice(0, MAX_PLACE_NAME_LENGTH);
+  if (!name) throw new Error('Place name is required');
+
+  const places = await getSavedPlaces();
+  const existing = place.id
+    ? places.find((candidate) => candidate.id === place.id)
+    : findSavedPlace(places, name);
+
+  const saved: SavedPlace = {
+    id: existing?.id ?? generateLocalId(),
+    name,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    radius_m: clampPlaceRadius(place.radius_m),
+    ...(place.address ? { address: place.address } : {}),
+  };
+
+  return writeSavedPlaces(
+    existing ? places.map((candidate) => (candidate.id === existing.id ? saved : candidate)) : [...places, saved]
+  );
+}
+
+export async function removeSavedPlace(id: string): Promise<SavedPlace[]> {
+  const places = await getSavedPlaces();
+  return writeSavedPlaces(places.filter((place) => place.id !== id));
+}
+
+function formatAddress(address: Location.LocationGeocodedAddress | undefined): string | undefined {
+  if (!address) return undefined;
+  const street = [address.streetNumber, address.street].filter(Boolean).join(' ');
+  const formatted = [street || address.name, address.city].filter(Boolean).join(', ');
+  return formatted || undefined;
+}
+
+/**
+ * Where the device is right now, with a readable address when one can be found
+ */
+export async function getCurrentPlaceLocation(): Promise<PlaceLocation> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') throw new Error('Location permission is required');
+
+  const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+  const { latitude, longitude } = position.coords;
+  const [address] = await Location.reverseGeocodeAsync({ latitude, longitude }).catch(() => []);
+
+  return { latitude, longitude, address: formatAddress(address) };
+}
+
+/**
+ * Look up coordinates for a typed address
+ */
+export async function geocodePlaceAddress(address: string): Promise<PlaceLocation | null> {
+  const query = address.trim();
+  if (!query) return null;
+
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') throw new Error('Location permission is required');
+
+  const [match] = await Location.geocodeAsync(query);
+  if (!match) return null;
+  return { latitude: match.latitude, longitude: match.longitude, address: query };
+}
+
+/**
+ * Reminder columns for an arrive/leave trigger at a saved place
+ */
+export function getLocationTriggerFields(
+  triggerType: Exclude<ReminderTriggerType, 'time'>,
+  place: SavedPlace
+): Pick<
+  CreateReminderInput,
+  'trigger_type' | 'location_name' | 'location_lat' | 'location_lng' | 'location_radius_m'
+> {
+  return {
+    trigger_type: triggerType,
+    location_name: place.name,
+    location_lat: place.latitude,
+    location_lng: place.longitude,
+    location_radius_m: clampPlaceRadius(place.radius_m),
+  };
+}
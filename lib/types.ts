@@ -1,5 +1,8 @@
 export type ReminderStatus = 'completed' | 'current' | 'upcoming' | 'future' | 'placeholder';
 
+// 'arrive' and 'leave' reminders fire on a geofence instead of at scheduled_time
+export type ReminderTriggerType = 'time' | 'arrive' | 'leave';
+
 export interface Reminder {
   id: string;
   user_id: string;
@@ -8,10 +11,36 @@ export interface Reminder {
   scheduled_time: string;
   status: ReminderStatus;
   is_priority: boolean;
-  notify_before_minutes: number;
+  // Minutes before scheduled_time to alert, earliest alert first ({1440, 60, 0})
+  notify_offsets: number[];
+  // Offsets the server has already pushed (or that had passed when the reminder was scheduled)
+  notified_offsets: number[];
   notified_at: string | null;
   priority_notified_at: string | null;
   recurring_rule_id: string | null;
+  // First occurrence of a recurring series; every materialized occurrence shares it.
+  series_id: string | null;
+  // Slot this occurrence was generated for; scheduled_time may differ after a snooze or edit.
+  original_scheduled_time: string | null;
+  // Edited on its own ("this occurrence only"); not used as the template for later occurrences.
+  is_series_exception: boolean;
+  // Set when the reminder is marked done; cleared if it is reopened.
+  completed_at: string | null;
+  // Soft delete: hidden everywhere but "Recently deleted" until purged.
+  deleted_at: string | null;
+  // User-defined tags (ReminderTag ids)
+  tag_ids: string[];
+  // Kept in sync with reminder_subtasks by the database
+  subtask_count: number;
+  subtask_done_count: number;
+  // Mark the reminder done once every subtask is checked
+  auto_complete_subtasks: boolean;
+  trigger_type: ReminderTriggerType;
+  // Geofence of a location reminder; null for time reminders
+  location_name: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  location_radius_m: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -22,8 +51,15 @@ export interface CreateReminderInput {
   scheduled_time: string;
   status?: ReminderStatus;
   is_priority?: boolean;
-  notify_before_minutes?: number;
+  notify_offsets?: number[];
   recurring_rule_id?: string;
+  series_id?: string;
+  tag_ids?: string[];
+  trigger_type?: ReminderTriggerType;
+  location_name?: string | null;
+  location_lat?: number | null;
+  location_lng?: number | null;
+  location_radius_m?: number | null;
 }
 
 export interface UpdateReminderInput {
@@ -32,7 +68,84 @@ export interface UpdateReminderInput {
   scheduled_time?: string;
   status?: ReminderStatus;
   is_priority?: boolean;
-  notify_before_minutes?: number;
+  notify_offsets?: number[];
+  tag_ids?: string[];
+  auto_complete_subtasks?: boolean;
+  trigger_type?: ReminderTriggerType;
+  location_name?: string | null;
+  location_lat?: number | null;
+  location_lng?: number | null;
+  location_radius_m?: number | null;
+}
+
+// Checklist item of a reminder, ordered by position
+export interface ReminderSubtask {
+  id: string;
+  reminder_id: string;
+  title: string;
+  done: boolean;
+  position: number;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// User-defined tag (list) for grouping reminders
+export interface ReminderTag {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateReminderTagInput {
+  name: string;
+  color?: string;
+}
+
+export const REMINDER_TAG_COLORS = ['#2F00FF', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#0ea5e9'];
+
+// Another Synco user a reminder is shared with. reminder_id is the first occurrence for a
+// recurring series, so a share covers every occurrence.
+export type ReminderShareStatus = 'pending' | 'accepted';
+
+// A reminder shared with an email address. It stays pending until the person signed in with that
+// email accepts it; shared_with is set then.
+export interface ReminderShare {
+  id: string;
+  reminder_id: string;
+  owner_id: string;
+  owner_email: string;
+  shared_with: string | null;
+  shared_with_email: string;
+  status: ReminderShareStatus;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+// A pending share addressed to the current user, as returned by get_reminder_invites()
+export interface ReminderInvite {
+  id: string;
+  reminder_id: string;
+  owner_email: string;
+  reminder_title: string;
+  created_at: string;
+}
+
+// One install of the app signed in to an account. The id is generated by the install and kept
+// in secure storage; push tokens, notification schedules and sync history reference (user_id, id).
+export interface UserDevice {
+  id: string;
+  user_id: string;
+  name: string | null;
+  platform: string | null;
+  model: string | null;
+  // Auth session the device last registered with; removing the device revokes it
+  session_id: string | null;
+  created_at: string;
+  last_seen_at: string;
 }
 
 export interface PushToken {
@@ -45,14 +158,55 @@ export interface PushToken {
   updated_at: string;
 }
 
+// One notification sent to one device. Local ones are logged by the device that showed them;
+// Expo pushes stay 'sent' until their receipt arrives.
+export type NotificationDeliveryProvider = 'local' | 'expo' | 'fcm';
+export type NotificationDeliveryStatus = 'sent' | 'delivered' | 'failed';
+
+export interface NotificationDelivery {
+  id: string;
+  reminder_id: string;
+  user_id: string;
+  device_id: string | null;
+  // Name of the device at device_id, if it still exists
+  device_name: string | null;
+  provider: NotificationDeliveryProvider;
+  kind: 'reminder' | 'priority_early';
+  offset_minutes: number | null;
+  status: NotificationDeliveryStatus;
+  error_code: string | null;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export const NOTIFICATION_TIMING_OPTIONS = [
   { label: 'At scheduled time', value: 0 },
   { label: '5 minutes before', value: 5 },
   { label: '15 minutes before', value: 15 },
   { label: '30 minutes before', value: 30 },
   { label: '1 hour before', value: 60 },
+  { label: '2 hours before', value: 120 },
+  { label: '1 day before', value: 1440 },
+  { label: '2 days before', value: 2880 },
+  { label: '1 week before', value: 10080 },
 ] as const;
 
+// Same bounds as the reminders_notify_offsets_check constraint
+export const MAX_NOTIFY_OFFSETS = 5;
+export const MAX_NOTIFY_OFFSET_MINUTES = 4 * 7 * 24 * 60;
+
+// Choices for repeating priority notifications until they're handled
+export const PRIORITY_REPEAT_INTERVAL_OPTIONS = [2, 5, 10, 15, 30] as const;
+export const PRIORITY_REPEAT_MAX_OPTIONS = [3, 6, 10] as const;
+
+// Morning digest covers the day it goes out; evening previews the next day
+export type DailyDigestSlot = 'morning' | 'evening';
+export const DAILY_DIGEST_TIME_OPTIONS: Record<DailyDigestSlot, readonly string[]> = {
+  morning: ['06:00', '07:00', '08:00', '09:00'],
+  evening: ['18:00', '19:00', '20:00', '21:00'],
+};
+
 export type FrequencyUnit = 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'years';
 
 export type DayOfWeek = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
@@ -65,6 +219,14 @@ export interface RecurringRule {
   frequency: number;
   frequency_unit: FrequencyUnit;
   selected_days: DayOfWeek[];
+  // RFC 5545 subset: BYMONTHDAY (negative counts from month end), BYSETPOS, UNTIL, COUNT, EXDATE
+  by_month_day?: number[] | null;
+  by_set_pos?: number[] | null;
+  until?: string | null;
+  count?: number | null;
+  exdates?: string[] | null; // local dates, 'YYYY-MM-DD'
+  // Set when the rule was forked for one series (e.g. to skip a date); hidden from saved rules.
+  series_id?: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -75,8 +237,91 @@ export interface CreateRecurringRuleInput {
   frequency: number;
   frequency_unit: FrequencyUnit;
   selected_days: DayOfWeek[];
+  by_month_day?: number[] | null;
+  by_set_pos?: number[] | null;
+  until?: string | null;
+  count?: number | null;
+  exdates?: string[] | null;
+  series_id?: string | null;
+}
+
+// Offline outbox: reminder writes made without connectivity, replayed in order
+export type OutboxMutationKind =
+  | 'insert_reminder'
+  | 'update_reminder'
+  | 'delete_reminder'
+  | 'insert_actions'
+  | 'insert_subtasks'
+  | 'insert_events';
+
+export interface OutboxMutation {
+  id: string;
+  kind: OutboxMutationKind;
+  reminder_id: string;
+  payload?: Partial<Reminder> | ReminderAction[] | ReminderSubtask[] | ReminderEvent[];
+  // Server updated_at of the row the edit was made against; replay is dropped if the row has moved on
+  base_updated_at?: string | null;
+  queued_at: string;
+  attempts: number;
+}
+
+// Append-only reminder history; analytics are computed from it
+export type ReminderEventType =
+  | 'created'
+  | 'notified'
+  | 'snoozed'
+  | 'completed'
+  | 'uncompleted'
+  | 'deleted'
+  | 'restored';
+
+export interface ReminderEvent {
+  id: string;
+  user_id: string;
+  reminder_id: string;
+  event_type: ReminderEventType;
+  occurred_at: string;
+  metadata: Record<string, unknown>;
+  // Optional idempotency key, e.g. so one delivered notification is only recorded once
+  dedupe_key: string | null;
+}
+
+// What a (soft) delete changed, so it can be undone
+export interface ReminderDeletion {
+  reminder_ids: string[];
+  // Rule a series delete shortened or skipped a date on, and its fields beforehand
+  rule_id: string | null;
+  previous_rule: Pick<RecurringRule, 'until' | 'count' | 'exdates'> | null;
+}
+
+// What completing a reminder changed, so it can be undone
+export interface ReminderCompletion {
+  reminder: Reminder;
+  // Occurrence of the series the completion queued up, removed again on undo
+  next_occurrence_id: string | null;
+}
+
+// Which occurrences of a recurring reminder an edit or delete applies to
+export type SeriesScope = 'this' | 'following' | 'all';
+
+// Where a bulk reschedule moves reminders: shifted by an offset, or to a date keeping each one's time of day
+export type BulkRescheduleTarget = { offsetMinutes: number } | { date: Date };
+
+// Reminder search filters; unset filters match everything
+export interface ReminderSearchFilters {
+  from?: Date;
+  to?: Date;
+  priorityOnly?: boolean;
+  completed?: boolean;
+  recurring?: boolean;
 }
 
+// Reminder change pushed by the realtime channel; 'resync' means events may have been missed
+export type RealtimeReminderChange =
+  | { type: 'upsert'; reminder: Reminder }
+  | { type: 'delete'; reminderId: string }
+  | { type: 'resync' };
+
 export type RecurringOption = 'none' | 'daily' | 'saved' | 'custom';
 
 // Reminder Actions
@@ -105,7 +350,10 @@ export interface ReminderAttachment {
   id: string;
   reminder_id: string;
   attachment_type: AttachmentType;
-  storage_url: string;
+  // External URL (links) or a legacy device-local URI
+  storage_url: string | null;
+  // Object in the reminder-attachments Storage bucket
+  storage_path: string | null;
   file_name: string | null;
   file_size: number | null;
   mime_type: string | null;
@@ -114,7 +362,8 @@ export interface ReminderAttachment {
 
 export interface CreateAttachmentInput {
   attachment_type: AttachmentType;
-  storage_url: string;
+  storage_url?: string;
+  storage_path?: string;
   file_name?: string;
   file_size?: number;
   mime_type?: string;
@@ -141,6 +390,7 @@ export interface AppNotification {
     reminderId?: string;
     location?: string;
     device?: string;
+    platform?: string;
   };
 }
 
@@ -159,6 +409,30 @@ export type SnoozeMode = 'text_input' | 'presets';
 export type ThemeMode = 'light' | 'dark' | 'system';
 export type FontSize = 'small' | 'medium' | 'large';
 
+// Named place for location reminders ("Home", "Office")
+export interface SavedPlace {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_m: number;
+  address?: string;
+}
+
+// Do-not-disturb window starting on a weekday, local "HH:mm". Ending before the start
+// means it runs past midnight.
+export interface QuietHoursWindow {
+  start: string;
+  end: string;
+}
+
+export type QuietHoursSchedule = Partial<Record<DayOfWeek, QuietHoursWindow>>;
+
+// Same as the user_preferences.quiet_hours column default
+export const DEFAULT_QUIET_HOURS: QuietHoursSchedule = Object.fromEntries(
+  DAYS_OF_WEEK.map((day) => [day.value, { start: '22:00', end: '07:00' }])
+);
+
 export interface UserPreferences {
   id: string;
   user_id: string;
@@ -167,7 +441,20 @@ export interface UserPreferences {
   notification_sound: boolean;
   notification_vibration: boolean;
   priority_notification_sound: boolean;
-  default_notify_before_minutes: number;
+  default_notify_offsets: number[];
+  // Priority reminders re-notify until completed or snoozed
+  priority_repeat_enabled: boolean;
+  priority_repeat_interval_minutes: number;
+  priority_repeat_max: number;
+  // Android: priority reminders use the alarm-style channel
+  priority_loud_alerts: boolean;
+  // Notifications inside a window are held and delivered as a digest when it ends
+  quiet_hours_enabled: boolean;
+  quiet_hours: QuietHoursSchedule;
+  quiet_hours_allow_priority: boolean;
+  // Local "HH:mm" for the daily digests, null when off
+  daily_digest_morning_time: string | null;
+  daily_digest_evening_time: string | null;
   // Snooze preferences
   default_snooze_minutes: number;
   snooze_preset_values: number[];
@@ -181,6 +468,7 @@ export interface UserPreferences {
   auto_delete_completed: boolean;
   auto_delete_days: number;
   default_recurring_enabled: boolean;
+  saved_places: SavedPlace[];
   // Advanced preferences
   debug_mode: boolean;
   analytics_enabled: boolean;
@@ -194,7 +482,16 @@ export interface UpdateUserPreferencesInput {
   notification_sound?: boolean;
   notification_vibration?: boolean;
   priority_notification_sound?: boolean;
-  default_notify_before_minutes?: number;
+  default_notify_offsets?: number[];
+  priority_repeat_enabled?: boolean;
+  priority_repeat_interval_minutes?: number;
+  priority_repeat_max?: number;
+  priority_loud_alerts?: boolean;
+  quiet_hours_enabled?: boolean;
+  quiet_hours?: QuietHoursSchedule;
+  quiet_hours_allow_priority?: boolean;
+  daily_digest_morning_time?: string | null;
+  daily_digest_evening_time?: string | null;
   // Snooze preferences
   default_snooze_minutes?: number;
   snooze_preset_values?: number[];
@@ -208,6 +505,7 @@ export interface UpdateUserPreferencesInput {
   auto_delete_completed?: boolean;
   auto_delete_days?: number;
   default_recurring_enabled?: boolean;
+  saved_places?: SavedPlace[];
   // Advanced preferences
   debug_mode?: boolean;
   analytics_enabled?: boolean;
@@ -219,10 +517,18 @@ export interface AccountCode {
   user_id: string;
   code: string;
   expires_at: string;
+  // Set once a device has paired with the code
+  used_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Signed, single-use stand-in for the account code, shown as a QR
+export interface PairingToken {
+  token: string;
+  expires_at: string;
+}
+
 export interface DeviceSyncRecord {
   id: string;
   user_id: string;
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { DEFAULT_QUIET_HOURS } from './types';
 import type { UserPreferences, UpdateUserPreferencesInput } from './types';
 
 /**
@@ -103,7 +104,16 @@ export async function updateNotificationPreferences(
     | 'notification_sound'
     | 'notification_vibration'
     | 'priority_notification_sound'
-    | 'default_notify_before_minutes'
+    | 'default_notify_offsets'
+    | 'priority_repeat_enabled'
+    | 'priority_repeat_interval_minutes'
+    | 'priority_repeat_max'
+    | 'priority_loud_alerts'
+    | 'quiet_hours_enabled'
+    | 'quiet_hours'
+    | 'quiet_hours_allow_priority'
+    | 'daily_digest_morning_time'
+    | 'daily_digest_evening_time'
   >
 ): Promise<UserPreferences | null> {
   return await updateUserPreferences(prefs);
@@ -156,7 +166,16 @@ export async function resetPreferencesToDefault(): Promise<UserPreferences | nul
     notification_sound: true,
     notification_vibration: true,
     priority_notification_sound: true,
-    default_notify_before_minutes: 0,
+    default_notify_offsets: [0],
+    priority_repeat_enabled: false,
+    priority_repeat_interval_minutes: 5,
+    priority_repeat_max: 6,
+    priority_loud_alerts: false,
+    quiet_hours_enabled: false,
+    quiet_hours: DEFAULT_QUIET_HOURS,
+    quiet_hours_allow_priority: true,
+    daily_digest_morning_time: null,
+    daily_digest_evening_time: null,
     theme: 'system',
     accent_color: '#2F00FF',
     font_size: 'medium',
@@ -189,6 +208,7 @@ export async function exportUserData(): Promise<string | null> {
       .from('reminders')
       .select('*')
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     // Get recurring rules
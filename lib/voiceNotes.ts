@@ -0,0 +1,64 @@
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from 'expo-audio';
+import { getAttachmentUrl } from './attachmentStorage';
+
+// Signed URLs last an hour; re-sign well before a paused note's URL runs out
+const SOURCE_MAX_AGE_MS = 50 * 60 * 1000;
+
+// One player for the whole app, so starting a note stops whichever one was playing
+let player: AudioPlayer | null = null;
+let loadedPath: string | null = null;
+let loadedAt = 0;
+
+export function getVoiceNotePlayer(): AudioPlayer {
+  if (!player) {
+    player = createAudioPlayer(null);
+  }
+  return player;
+}
+
+/**
+ * Storage path of the voice note currently loaded in the shared player
+ */
+export function getLoadedVoiceNotePath(): string | null {
+  return loadedPath;
+}
+
+/**
+ * Play an uploaded voice note from where it was paused, or from the start once it has finished
+ */
+export async function playVoiceNote(storagePath: string): Promise<void> {
+  const audio = getVoiceNotePlayer();
+
+  if (loadedPath !== storagePath || Date.now() - loadedAt > SOURCE_MAX_AGE_MS) {
+    const url = await getAttachmentUrl(storagePath);
+    // Notes should be audible with the ringer switched off
+    await setAudioModeAsync({ playsInSilentMode: true });
+    audio.replace({ uri: url });
+    loadedPath = storagePath;
+    loadedAt = Date.now();
+  } else if (audio.duration > 0 && audio.currentTime >= audio.duration) {
+    await audio.seekTo(0);
+  }
+
+  audio.play();
+}
+
+export function pauseVoiceNote(): void {
+  player?.pause();
+}
+
+/**
+ * Pause the note if it is the one playing, otherwise start it
+ */
+export async function toggleVoiceNote(storagePath: string): Promise<void> {
+  if (loadedPath === storagePath && player?.playing) {
+    player.pause();
+    return;
+  }
+  await playVoiceNote(storagePath);
+}
+
+export function formatVoiceNoteDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
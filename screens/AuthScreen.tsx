@@ -9,8 +9,11 @@ import {
   TextInput,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
 import { signInWithGoogle, signInWithEmail } from '../lib/auth';
+import { pairWithToken } from '../lib/accountCodes';
 import { GlowTopRight, GlowBottomLeft } from '../components/icons';
+import PairingScannerModal from '../components/settings/PairingScannerModal';
 
 interface AuthScreenProps {
   onBack?: () => void;
@@ -18,7 +21,8 @@ interface AuthScreenProps {
 
 export default function AuthScreen({ onBack }: AuthScreenProps) {
   const insets = useSafeAreaInsets();
-  const [loadingProvider, setLoadingProvider] = useState<'email' | 'google' | null>(null);
+  const [loadingProvider, setLoadingProvider] = useState<'email' | 'google' | 'pairing' | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
   const [email, setEmail] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [emailSentTo, setEmailSentTo] = useState<string | null>(null);
@@ -57,6 +61,24 @@ export default function AuthScreen({ onBack }: AuthScreenProps) {
     }
   };
 
+  // A signed-in device shows the QR under Settings → Sync Devices; the new session switches screens
+  const handlePairingScanned = async (pairingToken: string) => {
+    setShowScanner(false);
+    setLoadingProvider('pairing');
+    setError(null);
+    setEmailSentTo(null);
+
+    try {
+      await pairWithToken(pairingToken);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to pair with your other device';
+      setError(message);
+      Alert.alert('Pairing Error', message);
+    } finally {
+      setLoadingProvider(null);
+    }
+  };
+
   return (
     <View style={styles.root}>
       <View style={styles.glowTopRight}>
@@ -121,6 +143,21 @@ export default function AuthScreen({ onBack }: AuthScreenProps) {
             )}
           </Pressable>
 
+          <Pressable
+            style={[styles.authButton, styles.googleButton, isLoading && styles.buttonDisabled]}
+            onPress={() => setShowScanner(true)}
+            disabled={isLoading}
+          >
+            {loadingProvider === 'pairing' ? (
+              <ActivityIndicator color="#2F00FF" />
+            ) : (
+              <>
+                <MaterialIcons name="qr-code-scanner" size={20} color="#2F00FF" />
+                <Text style={[styles.authButtonText, styles.googleButtonText]}>Scan from Another Device</Text>
+              </>
+            )}
+          </Pressable>
+
           {emailSentTo && (
             <View style={styles.successContainer}>
               <Text style={styles.successText}>Check {emailSentTo} for your sign-in link.</Text>
@@ -145,6 +182,12 @@ export default function AuthScreen({ onBack }: AuthScreenProps) {
           </Pressable>
         )}
       </View>
+
+      <PairingScannerModal
+        visible={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScanned={handlePairingScanned}
+      />
     </View>
   );
 }
@@ -12,14 +12,17 @@ import { useReminders } from '../hooks/useReminders';
 import ProgressScreen from './ProgressScreen';
 import TimelineScreenV2 from './TimelineScreenV2';
 import SettingsScreen from './SettingsScreen';
+import SearchScreen from './SearchScreen';
 import { CreateReminderActionInput, CreateReminderInput } from '../lib/types';
 import ManualCreateScreen from './ManualCreateScreen';
+import { isReminderLimitError } from '../lib/reminderLimits';
+import { getAssignedEmails, shareReminderWithEmails } from '../lib/reminderShares';
 
 const HINT_STORAGE_KEY = '@synco_first_time_hint_shown';
 
-type Screen = 'home' | 'manual-create' | 'notifications' | 'timeline' | 'settings';
+type Screen = 'home' | 'manual-create' | 'notifications' | 'timeline' | 'settings' | 'search';
 
-type NotificationOpenRequest = { id: string; at: number } | null;
+type NotificationOpenRequest = { id: string; at: number; playVoiceActionId?: string } | null;
 
 interface HomeScreenProps {
   notificationOpenRequest?: NotificationOpenRequest;
@@ -34,6 +37,8 @@ export default function HomeScreen({ notificationOpenRequest }: HomeScreenProps)
   const { reminders, isLoading, error, addReminder } = useReminders();
   const [showFirstTimeHint, setShowFirstTimeHint] = useState(false);
   const [currentScreen, setCurrentScreen] = useState<Screen>('home');
+  // Reminder to open in ProgressScreen's detail view, from a notification tap or a search result
+  const [reminderOpenRequest, setReminderOpenRequest] = useState<NotificationOpenRequest>(null);
 
   // Animation value for home <-> create slide transition
   const slideAnim = useRef(new Animated.Value(0)).current;
@@ -57,6 +62,7 @@ export default function HomeScreen({ notificationOpenRequest }: HomeScreenProps)
   useEffect(() => {
     if (!notificationOpenRequest?.id) return;
     slideAnim.setValue(0);
+    setReminderOpenRequest(notificationOpenRequest);
     setCurrentScreen('notifications');
   }, [notificationOpenRequest, slideAnim]);
 
@@ -132,13 +138,32 @@ export default function HomeScreen({ notificationOpenRequest }: HomeScreenProps)
   const handleSaveReminder = useCallback(async (input: CreateReminderInput, options?: SaveReminderOptions) => {
     try {
       const newReminder = await addReminder(input, options);
+
+      // Invite the people from a Share action; the reminder is saved either way
+      const assignAction = options?.actions?.find((action) => action.action_type === 'assign');
+      const emails = getAssignedEmails(assignAction?.action_value);
+      if (emails.length > 0) {
+        void shareReminderWithEmails(newReminder.id, emails).then(({ failed }) => {
+          if (failed.length > 0) {
+            Alert.alert('Not shared with everyone', failed.map((failure) => failure.message).join('\n'));
+          }
+        });
+      }
+
       return newReminder;
-    } catch {
+    } catch (error) {
+      // The create screen shows the paywall for this one
+      if (isReminderLimitError(error)) throw error;
       Alert.alert('Error', 'Failed to save reminder. Please try again.');
       throw new Error('Failed to save');
     }
   }, [addReminder]);
 
+  const handleOpenSearchResult = useCallback((reminderId: string) => {
+    setReminderOpenRequest({ id: reminderId, at: Date.now() });
+    switchScreen('notifications');
+  }, [switchScreen]);
+
   const screenTransitionStyle = {
     flex: 1,
   } as const;
@@ -151,7 +176,7 @@ export default function HomeScreen({ notificationOpenRequest }: HomeScreenProps)
           onBack={handleBackToHome}
           onCreateReminder={handleCreateReminder}
           onTabPress={handleTabPress}
-          openReminderRequest={notificationOpenRequest ?? null}
+          openReminderRequest={reminderOpenRequest}
         />
       </Animated.View>
     );
@@ -163,6 +188,18 @@ export default function HomeScreen({ notificationOpenRequest }: HomeScreenProps)
         <TimelineScreenV2
           onCreateReminder={handleCreateReminder}
           onTabPress={handleTabPress}
+          onOpenSearch={() => switchScreen('search')}
+        />
+      </Animated.View>
+    );
+  }
+
+  if (currentScreen === 'search') {
+    return (
+      <Animated.View style={screenTransitionStyle}>
+        <SearchScreen
+          onBack={() => switchScreen('timeline')}
+          onOpenReminder={handleOpenSearchResult}
         />
       </Animated.View>
     );
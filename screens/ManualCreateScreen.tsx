@@ -1,6 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import {
-  Alert,
   Animated,
   Dimensions,
   FlatList,
@@ -27,12 +26,23 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { BackIcon, CalendarSmallIcon, ScheduleIcon, CheckAllIcon, GlowTopRight, GlowBottomLeft, BellNavIcon, RepeatIcon, ChevronRightIcon, CloseIcon, BlockIcon, DailyIcon, BookmarkIcon, SlidersIcon, CheckCircleIcon, MicSparkleIcon } from '../components/icons';
 import RecurringRuleModal from '../components/RecurringRuleModal';
 import TaskConfigSection from '../components/TaskConfigSection';
-import { createRecurringRule, getRecurringRules } from '../lib/reminders';
+import TagChips from '../components/TagChips';
+import LocationTriggerPicker from '../components/LocationTriggerPicker';
+import {
+  createRecurringRule,
+  createReminderTag,
+  getOrCreateReminderTag,
+  getReminderTags,
+  getSavedRecurringRules,
+} from '../lib/reminders';
 import { parseReminderFromVoice, parseRemindersFromText, VoiceProcessResult } from '../lib/aiReminders';
-import { canCreateReminder } from '../lib/reminderLimits';
+import { canCreateReminder, isReminderLimitError } from '../lib/reminderLimits';
+import { findSavedPlace, getLocationTriggerFields, getSavedPlaces } from '../lib/savedPlaces';
+import { describeNotifyOffsets, normalizeNotifyOffsets } from '../lib/notifyOffsets';
+import PaywallModal from '../components/PaywallModal';
 import { useVoiceRecording } from '../hooks/useVoiceRecording';
 import { UnstableSiriOrb } from '../src/shared/ui/organisms/unstable_siri_orb';
-import { CreateReminderInput, NOTIFICATION_TIMING_OPTIONS, RecurringOption, RecurringRule, CreateReminderActionInput } from '../lib/types';
+import { CreateReminderInput, MAX_NOTIFY_OFFSETS, NOTIFICATION_TIMING_OPTIONS, RecurringOption, RecurringRule, CreateReminderActionInput, ReminderTag, REMINDER_TAG_COLORS, ReminderTriggerType, SavedPlace } from '../lib/types';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -647,8 +657,9 @@ interface ManualCreateScreenProps {
   ) => Promise<{ id: string } | void>;
 }
 
-function getNotifyLabel(minutes: number): string {
-  const option = NOTIFICATION_TIMING_OPTIONS.find(opt => opt.value === minutes);
+function getNotifyLabel(offsets: number[]): string {
+  if (offsets.length > 1) return describeNotifyOffsets(offsets);
+  const option = NOTIFICATION_TIMING_OPTIONS.find(opt => opt.value === offsets[0]);
   return option?.label ?? 'At scheduled time';
 }
 
@@ -677,18 +688,80 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
   const [savedRules, setSavedRules] = useState<RecurringRule[]>([]);
 
   useEffect(() => {
-    getRecurringRules()
+    getSavedRecurringRules()
       .then(setSavedRules)
       .catch(() => setSavedRules([]));
   }, []);
+
+  // User-defined tags
+  const [tags, setTags] = useState<ReminderTag[]>([]);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    getReminderTags()
+      .then(setTags)
+      .catch(() => setTags([]));
+  }, []);
+
+  const addTagToList = useCallback((tag: ReminderTag) => {
+    setTags((current) =>
+      current.some((existing) => existing.id === tag.id)
+        ? current
+        : [...current, tag].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }, []);
+
+  const handleToggleTag = useCallback((tagId: string) => {
+    setSelectedTagIds((current) =>
+      current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId]
+    );
+  }, []);
+
+  const handleCreateTag = useCallback(async (name: string) => {
+    const existing = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    const tag = existing ?? await createReminderTag({
+      name,
+      color: REMINDER_TAG_COLORS[tags.length % REMINDER_TAG_COLORS.length],
+    });
+    addTagToList(tag);
+    setSelectedTagIds((current) => (current.includes(tag.id) ? current : [...current, tag.id]));
+  }, [tags, addTagToList]);
+
+  // Tags inferred by the AI parser are created on first use; a failure just leaves the reminder untagged
+  const resolveInferredTagIds = useCallback(async (tagName: string | null): Promise<string[]> => {
+    if (!tagName) return [];
+    try {
+      const tag = await getOrCreateReminderTag(tagName);
+      addTagToList(tag);
+      return [tag.id];
+    } catch {
+      return [];
+    }
+  }, [addTagToList]);
+
+  // Arrive/leave triggers at a saved place instead of a time
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [triggerType, setTriggerType] = useState<ReminderTriggerType>('time');
+  const [selectedPlaceId, setSelectedPlaceId] = useState<string | null>(null);
+  const [suggestedPlaceName, setSuggestedPlaceName] = useState<string | null>(null);
+  const selectedPlace = savedPlaces.find((place) => place.id === selectedPlaceId) ?? null;
+  const isLocationTrigger = triggerType !== 'time';
+
+  useEffect(() => {
+    getSavedPlaces()
+      .then(setSavedPlaces)
+      .catch(() => setSavedPlaces([]));
+  }, []);
+
   const insets = useSafeAreaInsets();
   const [title, setTitle] = useState('');
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [selectedTime, setSelectedTime] = useState(new Date());
   const [notes, setNotes] = useState('');
   const [isPriority, setIsPriority] = useState(false);
-  const [notifyBeforeMinutes, setNotifyBeforeMinutes] = useState(0);
+  const [notifyOffsets, setNotifyOffsets] = useState<number[]>([0]);
   const [isSaving, setIsSaving] = useState(false);
+  const [showPaywall, setShowPaywall] = useState(false);
 
   // Recurring reminder state
   const [recurringOption, setRecurringOption] = useState<RecurringOption>('none');
@@ -703,7 +776,7 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
   // Notification picker modal state
   const [showNotifyPicker, setShowNotifyPicker] = useState(false);
   const [notifyPickerMounted, setNotifyPickerMounted] = useState(false);
-  const [tempNotifyMinutes, setTempNotifyMinutes] = useState(0);
+  const [tempNotifyOffsets, setTempNotifyOffsets] = useState<number[]>([0]);
 
   // Recurring picker modal mounted state
   const [recurringPickerMounted, setRecurringPickerMounted] = useState(false);
@@ -862,7 +935,7 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
     }
 
     if (reminderCount === 1) {
-      const { reminder: reminderData, recurringRule: recurringRuleData } = result.reminders[0];
+      const { reminder: reminderData, recurringRule: recurringRuleData, tagName, placeTrigger } = result.reminders[0];
 
       setTitle(reminderData.title);
       if (reminderData.scheduled_time) {
@@ -874,15 +947,27 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
       }
       setNotes(reminderData.description || '');
       setIsPriority(Boolean(reminderData.is_priority));
-      setNotifyBeforeMinutes(reminderData.notify_before_minutes ?? 0);
+      setNotifyOffsets(normalizeNotifyOffsets(reminderData.notify_offsets));
+      setSelectedTagIds(await resolveInferredTagIds(tagName));
 
-      if (recurringRuleData) {
+      // A place that isn't saved yet is offered for saving in the picker
+      const place = placeTrigger ? findSavedPlace(savedPlaces, placeTrigger.place) : null;
+      setTriggerType(placeTrigger?.event ?? 'time');
+      setSelectedPlaceId(place?.id ?? null);
+      setSuggestedPlaceName(placeTrigger && !place ? placeTrigger.place : null);
+
+      if (recurringRuleData && !placeTrigger) {
         setCustomRule({
           id: '',
           name: recurringRuleData.name,
           frequency: recurringRuleData.frequency,
           frequency_unit: recurringRuleData.frequency_unit,
           selected_days: recurringRuleData.selected_days,
+          by_month_day: recurringRuleData.by_month_day,
+          by_set_pos: recurringRuleData.by_set_pos,
+          until: recurringRuleData.until,
+          count: recurringRuleData.count,
+          exdates: recurringRuleData.exdates,
         });
         setRecurringOption('custom');
         setSelectedSavedRule(null);
@@ -948,7 +1033,9 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
     ]).start();
 
     try {
-      for (const { reminder: reminderData, recurringRule: recurringRuleData } of result.reminders) {
+      for (const { reminder: reminderData, recurringRule: recurringRuleData, tagName, placeTrigger } of result.reminders) {
+        // Without a saved place to watch, a location reminder falls back to its time
+        const place = placeTrigger ? findSavedPlace(savedPlaces, placeTrigger.place) : null;
         const parsedScheduled = reminderData.scheduled_time ? new Date(reminderData.scheduled_time) : null;
         const scheduledTime =
           parsedScheduled && !Number.isNaN(parsedScheduled.getTime())
@@ -956,23 +1043,30 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
             : new Date(Date.now() + 10 * 60 * 1000);
 
         let recurringRuleId: string | undefined;
-        if (recurringRuleData) {
+        if (recurringRuleData && !place) {
           const createdRule = await createRecurringRule({
             name: recurringRuleData.name,
             frequency: recurringRuleData.frequency,
             frequency_unit: recurringRuleData.frequency_unit,
             selected_days: recurringRuleData.selected_days,
+            by_month_day: recurringRuleData.by_month_day,
+            by_set_pos: recurringRuleData.by_set_pos,
+            until: recurringRuleData.until,
+            count: recurringRuleData.count,
+            exdates: recurringRuleData.exdates,
           });
           recurringRuleId = createdRule.id;
         }
 
         const reminderInput: CreateReminderInput = {
           title: reminderData.title,
-          scheduled_time: scheduledTime.toISOString(),
+          scheduled_time: (place ? new Date() : scheduledTime).toISOString(),
           description: reminderData.description,
           is_priority: reminderData.is_priority,
-          notify_before_minutes: reminderData.notify_before_minutes,
+          notify_offsets: place ? [0] : reminderData.notify_offsets,
           recurring_rule_id: recurringRuleId,
+          tag_ids: await resolveInferredTagIds(tagName),
+          ...(place && placeTrigger && getLocationTriggerFields(placeTrigger.event, place)),
         };
 
         await onSave(reminderInput);
@@ -1003,11 +1097,16 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
         setShowVoiceOverlay(false);
         onBack();
       }, 700);
-    } catch {
-      setVoiceError('Failed to create reminders');
+    } catch (error) {
+      if (isReminderLimitError(error)) {
+        setVoiceError(error.message);
+        setShowPaywall(true);
+      } else {
+        setVoiceError('Failed to create reminders');
+      }
       setIsCreatingReminder(false);
     }
-  }, [micScaleAnim, onBack, onSave, orbPositionAnim, orbScaleAnim, voiceOverlayOpacity]);
+  }, [micScaleAnim, onBack, onSave, orbPositionAnim, orbScaleAnim, voiceOverlayOpacity, resolveInferredTagIds, savedPlaces]);
 
   // Handle stop recording and process voice
   const handleStopVoice = useCallback(async () => {
@@ -1132,6 +1231,17 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
     }
   }, [showNotifyPicker, notifyPickerMounted, notifyPickerSlide, notifyPickerBackdrop]);
 
+  // Alerts are multi-select; at least one and at most MAX_NOTIFY_OFFSETS stay selected
+  const toggleTempNotifyOffset = (offset: number) => {
+    setTempNotifyOffsets((current) => {
+      if (current.includes(offset)) {
+        return current.length > 1 ? current.filter((value) => value !== offset) : current;
+      }
+      if (current.length >= MAX_NOTIFY_OFFSETS) return current;
+      return normalizeNotifyOffsets([...current, offset]);
+    });
+  };
+
   // Animate recurring picker modal
   useEffect(() => {
     if (showRecurringPicker) {
@@ -1232,7 +1342,7 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
 
 
   const handleSave = useCallback(async () => {
-    if (!title.trim()) {
+    if (!title.trim() || (isLocationTrigger && !selectedPlace)) {
       return;
     }
 
@@ -1241,27 +1351,29 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
     // Check reminder limits (after showing loading state)
-    const { allowed, reason } = await canCreateReminder();
+    const { allowed } = await canCreateReminder();
     if (!allowed) {
       setIsSaving(false); // Reset loading state
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      Alert.alert('Limit Reached', reason || 'Unable to create reminder', [
-        { text: 'OK', style: 'cancel' },
-      ]);
+      setShowPaywall(true);
       return;
     }
     try {
-      // Combine date and time
-      const scheduledTime = new Date(selectedDate);
-      scheduledTime.setHours(selectedTime.getHours());
-      scheduledTime.setMinutes(selectedTime.getMinutes());
-      scheduledTime.setSeconds(0);
-      scheduledTime.setMilliseconds(0);
+      // Combine date and time; location reminders are due from now until the place is reached
+      const scheduledTime = isLocationTrigger ? new Date() : new Date(selectedDate);
+      if (!isLocationTrigger) {
+        scheduledTime.setHours(selectedTime.getHours());
+        scheduledTime.setMinutes(selectedTime.getMinutes());
+        scheduledTime.setSeconds(0);
+        scheduledTime.setMilliseconds(0);
+      }
 
       // Handle recurring rule - create in database if needed
       let recurringRuleId: string | undefined;
 
-      if (recurringOption === 'daily') {
+      if (isLocationTrigger) {
+        // Location reminders fire once
+      } else if (recurringOption === 'daily') {
         // Create a daily recurring rule
         const dailyRule = await createRecurringRule({
           name: 'Every day',
@@ -1279,6 +1391,11 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
           frequency: customRule.frequency,
           frequency_unit: customRule.frequency_unit,
           selected_days: customRule.selected_days,
+          by_month_day: customRule.by_month_day,
+          by_set_pos: customRule.by_set_pos,
+          until: customRule.until,
+          count: customRule.count,
+          exdates: customRule.exdates,
         });
         recurringRuleId = newRule.id;
       }
@@ -1288,19 +1405,26 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
         description: notes.trim() || undefined,
         scheduled_time: scheduledTime.toISOString(),
         is_priority: isPriority,
-        notify_before_minutes: notifyBeforeMinutes,
+        notify_offsets: isLocationTrigger ? [0] : notifyOffsets,
         recurring_rule_id: recurringRuleId,
+        tag_ids: selectedTagIds,
+        ...(selectedPlace && triggerType !== 'time' && getLocationTriggerFields(triggerType, selectedPlace)),
       }, {
         actions: reminderActions,
       });
 
       setIsSaving(false);
       onBack();
-    } catch {
-      // Error handled by parent
+    } catch (error) {
+      // The server enforces the daily limit even when the check above passed
+      if (isReminderLimitError(error)) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        setShowPaywall(true);
+      }
+      // Other errors handled by parent
       setIsSaving(false);
     }
-  }, [title, notes, selectedDate, selectedTime, isPriority, notifyBeforeMinutes, recurringOption, selectedSavedRule, customRule, reminderActions, onSave, onBack]);
+  }, [title, notes, selectedDate, selectedTime, isPriority, notifyOffsets, recurringOption, selectedSavedRule, customRule, reminderActions, selectedTagIds, isLocationTrigger, selectedPlace, triggerType, onSave, onBack]);
 
   const getRecurringLabel = (): string => {
     switch (recurringOption) {
@@ -1406,49 +1530,70 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
                   </View>
                 </View>
 
-                {/* Date & Time Picker - Single Row */}
-                <DateTimePicker
-                  selectedDate={selectedDate}
-                  selectedTime={selectedTime}
-                  onDateChange={setSelectedDate}
-                  onTimeChange={setSelectedTime}
-                />
+                {/* Trigger Card - time, or arriving at / leaving a saved place */}
+                <View style={styles.card}>
+                  <Text style={styles.cardLabelSmall}>Remind me</Text>
+                  <LocationTriggerPicker
+                    triggerType={triggerType}
+                    onTriggerTypeChange={setTriggerType}
+                    places={savedPlaces}
+                    selectedPlaceId={selectedPlaceId}
+                    onSelectPlace={(placeId) => {
+                      setSelectedPlaceId(placeId);
+                      setSuggestedPlaceName(null);
+                    }}
+                    onPlacesChange={setSavedPlaces}
+                    suggestedPlaceName={suggestedPlaceName}
+                  />
+                </View>
 
-                {/* Notification Timing Card */}
-                <AnimatedCard
-                  style={styles.notifyCard}
-                  onPress={() => {
-                    setTempNotifyMinutes(notifyBeforeMinutes);
-                    setShowNotifyPicker(true);
-                  }}
-                >
-                  <View style={styles.notifyHeader}>
-                    <View style={styles.notifyIconWrapper}>
-                      <BellNavIcon color="#2F00FF" />
-                    </View>
-                    <Text style={styles.notifyLabel}>Notify</Text>
-                  </View>
-                  <Text style={styles.notifyValue}>{getNotifyLabel(notifyBeforeMinutes)}</Text>
-                </AnimatedCard>
+                {!isLocationTrigger && (
+                  <>
+                    {/* Date & Time Picker - Single Row */}
+                    <DateTimePicker
+                      selectedDate={selectedDate}
+                      selectedTime={selectedTime}
+                      onDateChange={setSelectedDate}
+                      onTimeChange={setSelectedTime}
+                    />
 
-                {/* Recurring Reminder Card */}
-                <AnimatedCard
-                  style={styles.recurringCard}
-                  onPress={() => setShowRecurringPicker(true)}
-                >
-                  <View style={styles.recurringCardLeft}>
-                    <View style={[styles.recurringIconWrapper, recurringOption !== 'none' && styles.recurringIconWrapperActive]}>
-                      <RepeatIcon color={recurringOption !== 'none' ? '#ffffff' : '#2F00FF'} />
-                    </View>
-                    <View style={styles.recurringCardText}>
-                      <Text style={styles.recurringCardLabel}>Repeat</Text>
-                      <Text style={[styles.recurringCardValue, recurringOption !== 'none' && styles.recurringCardValueActive]}>
-                        {getRecurringLabel()}
-                      </Text>
-                    </View>
-                  </View>
-                  <ChevronRightIcon opacity={0.3} />
-                </AnimatedCard>
+                    {/* Notification Timing Card */}
+                    <AnimatedCard
+                      style={styles.notifyCard}
+                      onPress={() => {
+                        setTempNotifyOffsets(notifyOffsets);
+                        setShowNotifyPicker(true);
+                      }}
+                    >
+                      <View style={styles.notifyHeader}>
+                        <View style={styles.notifyIconWrapper}>
+                          <BellNavIcon color="#2F00FF" />
+                        </View>
+                        <Text style={styles.notifyLabel}>Notify</Text>
+                      </View>
+                      <Text style={styles.notifyValue}>{getNotifyLabel(notifyOffsets)}</Text>
+                    </AnimatedCard>
+
+                    {/* Recurring Reminder Card */}
+                    <AnimatedCard
+                      style={styles.recurringCard}
+                      onPress={() => setShowRecurringPicker(true)}
+                    >
+                      <View style={styles.recurringCardLeft}>
+                        <View style={[styles.recurringIconWrapper, recurringOption !== 'none' && styles.recurringIconWrapperActive]}>
+                          <RepeatIcon color={recurringOption !== 'none' ? '#ffffff' : '#2F00FF'} />
+                        </View>
+                        <View style={styles.recurringCardText}>
+                          <Text style={styles.recurringCardLabel}>Repeat</Text>
+                          <Text style={[styles.recurringCardValue, recurringOption !== 'none' && styles.recurringCardValueActive]}>
+                            {getRecurringLabel()}
+                          </Text>
+                        </View>
+                      </View>
+                      <ChevronRightIcon opacity={0.3} />
+                    </AnimatedCard>
+                  </>
+                )}
 
                 {/* Task Configuration Section */}
                 <TaskConfigSection
@@ -1476,6 +1621,17 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
                   />
                 </View>
 
+                {/* Tags Card */}
+                <View style={styles.card}>
+                  <Text style={styles.cardLabelSmall}>Tags</Text>
+                  <TagChips
+                    tags={tags}
+                    selectedIds={selectedTagIds}
+                    onToggle={handleToggleTag}
+                    onCreate={handleCreateTag}
+                  />
+                </View>
+
                 {/* Priority Toggle Card */}
                 <View style={styles.priorityCard}>
                   <View style={styles.priorityTextContainer}>
@@ -1504,7 +1660,7 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
           <View style={styles.floatingFooterInner}>
             <AnimatedSaveButton
               onPress={handleSave}
-              disabled={!title.trim() || isSaving}
+              disabled={!title.trim() || isSaving || (isLocationTrigger && !selectedPlace)}
               isSaving={isSaving}
             />
           </View>
@@ -1529,18 +1685,18 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
               ]}
             >
               <View style={styles.pickerHeader}>
-                <Text style={styles.pickerTitle}>Notification Timing</Text>
+                <Text style={styles.pickerTitle}>Alerts</Text>
                 <Pressable onPress={() => setShowNotifyPicker(false)}>
                   <Text style={styles.pickerCancel}>Cancel</Text>
                 </Pressable>
               </View>
               <ScrollView style={styles.pickerScroll} showsVerticalScrollIndicator={false}>
                 {NOTIFICATION_TIMING_OPTIONS.map((option) => {
-                  const isSelected = option.value === tempNotifyMinutes;
+                  const isSelected = tempNotifyOffsets.includes(option.value);
                   return (
                     <AnimatedPickerOptionItem
                       key={option.value}
-                      onPress={() => setTempNotifyMinutes(option.value)}
+                      onPress={() => toggleTempNotifyOffset(option.value)}
                       isSelected={isSelected}
                       label={option.label}
                     />
@@ -1549,7 +1705,7 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
               </ScrollView>
               <AnimatedConfirmButton
                 onPress={() => {
-                  setNotifyBeforeMinutes(tempNotifyMinutes);
+                  setNotifyOffsets(tempNotifyOffsets);
                   setShowNotifyPicker(false);
                 }}
                 label="Confirm"
@@ -1968,6 +2124,13 @@ export default function ManualCreateScreen({ onBack, onSave }: ManualCreateScree
           </Animated.View>
         )}
       </Animated.View>
+
+      {/* Paywall Modal - shown when the free daily limit is reached */}
+      <PaywallModal
+        visible={showPaywall}
+        onClose={() => setShowPaywall(false)}
+        onPurchaseSuccess={() => setShowPaywall(false)}
+      />
     </View>
   );
 }
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Animated,
   Pressable,
   ScrollView,
@@ -10,12 +11,39 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
 import BottomNavBar, { TabName } from '../components/BottomNavBar';
+import BulkActionBar from '../components/BulkActionBar';
+import BulkRescheduleModal from '../components/BulkRescheduleModal';
+import ConfirmModal from '../components/ConfirmModal';
 import { CreationMode } from '../components/CreateReminderModal';
+import FeedbackOverlay from '../components/FeedbackOverlay';
 import { GlowTopRight, GlowBottomLeft } from '../components/icons';
-import { getNotifiedReminders } from '../lib/reminders';
-import { Reminder } from '../lib/types';
+import {
+  bulkDeleteReminders,
+  bulkRescheduleReminders,
+  bulkSetRemindersCompleted,
+  bulkSetRemindersPriority,
+  getNotifiedReminders,
+  restoreDeletedReminders,
+} from '../lib/reminders';
+import { syncReminderNotifications } from '../lib/notifications';
+import {
+  getAppNotifications,
+  markAllAppNotificationsRead,
+  markAppNotificationRead,
+} from '../lib/appNotifications';
+import { acceptReminderShare, getReminderInvites, removeReminderShare } from '../lib/reminderShares';
+import {
+  AppNotification,
+  BulkRescheduleTarget,
+  NotificationCategory,
+  Reminder,
+  ReminderInvite,
+} from '../lib/types';
 import { supabase } from '../lib/supabase';
+import { useReminderSelection } from '../hooks/useReminderSelection';
+import { useUndoToast } from '../hooks/useUndoToast';
 
 interface NotificationsScreenProps {
   onBack: () => void;
@@ -23,6 +51,28 @@ interface NotificationsScreenProps {
   onTabPress: (tab: TabName) => void;
 }
 
+type NotificationsView = 'reminders' | 'inbox';
+type InboxFilter = NotificationCategory | 'all';
+
+// Inbox tabs, for the categories something writes to
+const INBOX_FILTERS: { value: InboxFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'reminder', label: 'Shared' },
+  { value: 'sync', label: 'Sync' },
+  { value: 'security', label: 'Security' },
+  { value: 'subscription', label: 'Subscription' },
+];
+
+const CATEGORY_ICONS: Record<NotificationCategory, keyof typeof MaterialIcons.glyphMap> = {
+  reminder: 'group',
+  project: 'folder',
+  sync: 'devices',
+  security: 'lock',
+  subscription: 'workspace-premium',
+  meeting: 'event',
+  system: 'info',
+};
+
 function formatScheduledTime(dateStr: string): string {
   const date = new Date(dateStr);
   return date.toLocaleTimeString('en-US', {
@@ -69,8 +119,22 @@ function getStatusDescription(reminder: Reminder): string {
   return `Notified ${formatNotificationTime(reminder.notified_at)}`;
 }
 
+function formatReminderCount(count: number): string {
+  return `${count} ${count === 1 ? 'reminder' : 'reminders'}`;
+}
+
 // Notification Card Component
-function NotificationCard({ reminder }: { reminder: Reminder }) {
+function NotificationCard({
+  reminder,
+  isSelecting,
+  isSelected,
+  onSelect,
+}: {
+  reminder: Reminder;
+  isSelecting: boolean;
+  isSelected: boolean;
+  onSelect: () => void;
+}) {
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const wasSnoozed = isSnoozed(reminder);
 
@@ -93,13 +157,27 @@ function NotificationCard({ reminder }: { reminder: Reminder }) {
   };
 
   return (
-    <Pressable onPressIn={handlePressIn} onPressOut={handlePressOut}>
+    <Pressable
+      onPressIn={handlePressIn}
+      onPressOut={handlePressOut}
+      onPress={isSelecting ? onSelect : undefined}
+      onLongPress={isSelecting ? undefined : onSelect}
+    >
       <Animated.View
         style={[
           styles.notificationCard,
+          isSelected && styles.notificationCardSelected,
           { transform: [{ scale: scaleAnim }] },
         ]}
       >
+        {isSelecting && (
+          <MaterialIcons
+            name={isSelected ? 'check-circle' : 'radio-button-unchecked'}
+            size={22}
+            color="#2F00FF"
+            style={styles.selectIcon}
+          />
+        )}
         <View style={styles.cardContent}>
           <View style={styles.titleRow}>
             <Text style={styles.cardTitle}>{reminder.title}</Text>
@@ -117,6 +195,74 @@ function NotificationCard({ reminder }: { reminder: Reminder }) {
   );
 }
 
+// Inbox entry; tapping marks it read
+function InboxCard({
+  notification,
+  onPress,
+}: {
+  notification: AppNotification;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable onPress={onPress}>
+      <View style={styles.notificationCard}>
+        <View style={styles.inboxIcon}>
+          <MaterialIcons name={CATEGORY_ICONS[notification.category]} size={18} color="#2F00FF" />
+        </View>
+        <View style={styles.cardContent}>
+          <Text style={styles.cardTitle}>{notification.title}</Text>
+          {notification.description ? (
+            <Text style={styles.cardDescription}>{notification.description}</Text>
+          ) : null}
+        </View>
+        <Text style={styles.timeLabel}>{formatNotificationTime(notification.timestamp.toISOString())}</Text>
+        {!notification.isRead && <View style={styles.unreadDot} />}
+      </View>
+    </Pressable>
+  );
+}
+
+// Invite to a shared reminder; it only shows up for the user once accepted
+function InviteCard({
+  invite,
+  disabled,
+  onAccept,
+  onDecline,
+}: {
+  invite: ReminderInvite;
+  disabled: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+}) {
+  return (
+    <View style={styles.notificationCard}>
+      <View style={styles.inboxIcon}>
+        <MaterialIcons name="group-add" size={18} color="#2F00FF" />
+      </View>
+      <View style={styles.cardContent}>
+        <Text style={styles.cardTitle}>{invite.reminder_title}</Text>
+        <Text style={styles.cardDescription}>{invite.owner_email} wants to share this with you</Text>
+        <View style={styles.inviteActions}>
+          <Pressable
+            onPress={onAccept}
+            disabled={disabled}
+            style={[styles.inviteButton, styles.inviteAcceptButton, disabled && styles.inviteButtonDisabled]}
+          >
+            <Text style={[styles.inviteButtonText, styles.inviteAcceptText]}>Accept</Text>
+          </Pressable>
+          <Pressable
+            onPress={onDecline}
+            disabled={disabled}
+            style={[styles.inviteButton, disabled && styles.inviteButtonDisabled]}
+          >
+            <Text style={styles.inviteButtonText}>Decline</Text>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
 export default function NotificationsScreen({
   onBack,
   onCreateReminder,
@@ -125,10 +271,22 @@ export default function NotificationsScreen({
   const insets = useSafeAreaInsets();
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [view, setView] = useState<NotificationsView>('reminders');
+  const [inboxFilter, setInboxFilter] = useState<InboxFilter>('all');
+  const [inbox, setInbox] = useState<AppNotification[]>([]);
+  const [invites, setInvites] = useState<ReminderInvite[]>([]);
+  const [inviteBusyId, setInviteBusyId] = useState<string | null>(null);
+  const { isSelecting, selectedIds, isSelected, startSelection, toggleSelection, exitSelection } = useReminderSelection();
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [showBulkReschedule, setShowBulkReschedule] = useState(false);
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+  const { undoToast, showUndo, runUndo, dismissUndo } = useUndoToast(() => {
+    Alert.alert('Error', 'Failed to undo.');
+  });
 
-  const fetchNotifications = useCallback(async () => {
+  const fetchNotifications = useCallback(async (options?: { silent?: boolean }) => {
     try {
-      setIsLoading(true);
+      if (!options?.silent) setIsLoading(true);
       const data = await getNotifiedReminders();
       setReminders(data);
     } catch {
@@ -137,8 +295,24 @@ export default function NotificationsScreen({
     }
   }, []);
 
+  const fetchInbox = useCallback(async () => {
+    try {
+      setInbox(await getAppNotifications());
+    } catch {
+    }
+  }, []);
+
+  const fetchInvites = useCallback(async () => {
+    try {
+      setInvites(await getReminderInvites());
+    } catch {
+    }
+  }, []);
+
   useEffect(() => {
     fetchNotifications();
+    fetchInbox();
+    fetchInvites();
 
     // Set up real-time subscription
     const subscription = supabase
@@ -154,12 +328,153 @@ export default function NotificationsScreen({
           fetchNotifications();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'app_notifications',
+        },
+        () => {
+          fetchInbox();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'reminder_shares',
+        },
+        () => {
+          fetchInvites();
+        }
+      )
       .subscribe();
 
     return () => {
       subscription.unsubscribe();
     };
-  }, [fetchNotifications]);
+  }, [fetchNotifications, fetchInbox, fetchInvites]);
+
+  const visibleInbox = inboxFilter === 'all'
+    ? inbox
+    : inbox.filter((notification) => notification.category === inboxFilter);
+  // Invites are about shared reminders
+  const visibleInvites = inboxFilter === 'all' || inboxFilter === 'reminder' ? invites : [];
+  const unreadCount = inbox.filter((notification) => !notification.isRead).length;
+  const visibleUnreadCount = visibleInbox.filter((notification) => !notification.isRead).length;
+
+  const handleInboxPress = useCallback((notification: AppNotification) => {
+    if (notification.isRead) return;
+    Haptics.selectionAsync();
+    // Optimistic; realtime brings the list back in line
+    setInbox((current) =>
+      current.map((item) => (item.id === notification.id ? { ...item, isRead: true } : item))
+    );
+    markAppNotificationRead(notification.id).catch(() => fetchInbox());
+  }, [fetchInbox]);
+
+  const handleInviteResponse = useCallback(async (invite: ReminderInvite, accept: boolean) => {
+    setInviteBusyId(invite.id);
+    try {
+      if (accept) {
+        await acceptReminderShare(invite.id);
+      } else {
+        await removeReminderShare(invite.id);
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setInvites((current) => current.filter((item) => item.id !== invite.id));
+    } catch {
+      Alert.alert('Error', accept ? "Couldn't accept this invite." : "Couldn't decline this invite.");
+      fetchInvites();
+    } finally {
+      setInviteBusyId(null);
+    }
+  }, [fetchInvites]);
+
+  const handleMarkAllRead = useCallback(async () => {
+    if (visibleUnreadCount === 0) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const category = inboxFilter === 'all' ? undefined : inboxFilter;
+    setInbox((current) =>
+      current.map((item) => (!category || item.category === category ? { ...item, isRead: true } : item))
+    );
+    try {
+      await markAllAppNotificationsRead(category);
+    } catch {
+      Alert.alert('Error', 'Failed to mark notifications as read.');
+      fetchInbox();
+    }
+  }, [visibleUnreadCount, inboxFilter, fetchInbox]);
+
+  const handleViewChange = useCallback((next: NotificationsView) => {
+    if (next === view) return;
+    Haptics.selectionAsync();
+    exitSelection();
+    setView(next);
+  }, [view, exitSelection]);
+
+  const selectedReminders = reminders.filter((reminder) => selectedIds.includes(reminder.id));
+  const allSelectedPriority = selectedReminders.length > 0 && selectedReminders.every((reminder) => reminder.is_priority);
+
+  // Bulk actions write once, then refresh and resync notifications once
+  const runBulkAction = useCallback(
+    async (action: (ids: string[]) => Promise<void>, failureMessage: string) => {
+      const ids = [...selectedIds];
+      if (ids.length === 0) return;
+
+      setBulkBusy(true);
+      try {
+        await action(ids);
+        exitSelection();
+        await fetchNotifications({ silent: true });
+        void syncReminderNotifications();
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } catch {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert('Error', failureMessage);
+      } finally {
+        setBulkBusy(false);
+      }
+    },
+    [selectedIds, exitSelection, fetchNotifications]
+  );
+
+  const handleBulkComplete = useCallback(() => {
+    void runBulkAction(async (ids) => {
+      const completed = await bulkSetRemindersCompleted(ids, true);
+      const completedIds = completed.map((reminder) => reminder.id);
+      showUndo(`${formatReminderCount(completedIds.length)} completed`, async () => {
+        await bulkSetRemindersCompleted(completedIds, false);
+        await fetchNotifications({ silent: true });
+        void syncReminderNotifications();
+      });
+    }, 'Failed to complete reminders.');
+  }, [runBulkAction, showUndo, fetchNotifications]);
+
+  const handleBulkReschedule = useCallback((target: BulkRescheduleTarget) => {
+    void runBulkAction(async (ids) => {
+      await bulkRescheduleReminders(ids, target);
+    }, 'Failed to reschedule reminders.');
+  }, [runBulkAction]);
+
+  const handleBulkPriority = useCallback(() => {
+    void runBulkAction(async (ids) => {
+      await bulkSetRemindersPriority(ids, !allSelectedPriority);
+    }, 'Failed to update priority.');
+  }, [runBulkAction, allSelectedPriority]);
+
+  const confirmBulkDelete = useCallback(() => {
+    void runBulkAction(async (ids) => {
+      const deletion = await bulkDeleteReminders(ids);
+      showUndo(`${formatReminderCount(ids.length)} deleted`, async () => {
+        await restoreDeletedReminders(deletion);
+        await fetchNotifications({ silent: true });
+        void syncReminderNotifications();
+      });
+    }, 'Failed to delete reminders.');
+  }, [runBulkAction, showUndo, fetchNotifications]);
 
   const handleTabPress = useCallback(
     (tab: TabName) => {
@@ -196,20 +511,130 @@ export default function NotificationsScreen({
               <Text style={styles.headerTitle}>Notifications</Text>
               <Text style={styles.headerSubtitle}>Recent activity</Text>
             </View>
-            <Pressable style={styles.moreButton}>
-              <MaterialIcons name="more-horiz" size={20} color="#2F00FF" />
-            </Pressable>
+            {view === 'inbox' ? (
+              <Pressable
+                style={[styles.moreButton, visibleUnreadCount === 0 && styles.moreButtonDisabled]}
+                onPress={() => void handleMarkAllRead()}
+                disabled={visibleUnreadCount === 0}
+                accessibilityLabel="Mark all read"
+              >
+                <MaterialIcons name="done-all" size={20} color="#2F00FF" />
+              </Pressable>
+            ) : (
+              <Pressable
+                style={[styles.moreButton, isSelecting && styles.moreButtonActive]}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  if (isSelecting) {
+                    exitSelection();
+                  } else {
+                    startSelection();
+                  }
+                }}
+              >
+                <MaterialIcons name={isSelecting ? 'close' : 'checklist'} size={20} color={isSelecting ? '#ffffff' : '#2F00FF'} />
+              </Pressable>
+            )}
+          </View>
+
+          {/* Reminders / Inbox switch */}
+          <View style={styles.viewSwitch}>
+            {(['reminders', 'inbox'] as const).map((option) => {
+              const isActive = view === option;
+              return (
+                <Pressable
+                  key={option}
+                  style={[styles.viewSwitchOption, isActive && styles.viewSwitchOptionActive]}
+                  onPress={() => handleViewChange(option)}
+                >
+                  <Text style={[styles.viewSwitchText, isActive && styles.viewSwitchTextActive]}>
+                    {option === 'reminders' ? 'Reminders' : 'Inbox'}
+                  </Text>
+                  {option === 'inbox' && unreadCount > 0 && (
+                    <View style={styles.unreadBadge}>
+                      <Text style={styles.unreadBadgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+                    </View>
+                  )}
+                </Pressable>
+              );
+            })}
           </View>
 
-          {/* Notifications List */}
-          {isLoading ? (
+          {view === 'inbox' ? (
+            <>
+              {/* Category tabs */}
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.filterRow}
+                style={styles.filterScroll}
+              >
+                {INBOX_FILTERS.map((filter) => {
+                  const isActive = inboxFilter === filter.value;
+                  return (
+                    <Pressable
+                      key={filter.value}
+                      style={[styles.filterChip, isActive && styles.filterChipActive]}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        setInboxFilter(filter.value);
+                      }}
+                    >
+                      <Text style={[styles.filterChipText, isActive && styles.filterChipTextActive]}>
+                        {filter.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+
+              {visibleInvites.length > 0 && (
+                <View style={[styles.listContainer, styles.inviteList]}>
+                  {visibleInvites.map((invite) => (
+                    <InviteCard
+                      key={invite.id}
+                      invite={invite}
+                      disabled={inviteBusyId !== null}
+                      onAccept={() => void handleInviteResponse(invite, true)}
+                      onDecline={() => void handleInviteResponse(invite, false)}
+                    />
+                  ))}
+                </View>
+              )}
+
+              {visibleInbox.length > 0 ? (
+                <View style={styles.listContainer}>
+                  {visibleInbox.map((notification) => (
+                    <InboxCard
+                      key={notification.id}
+                      notification={notification}
+                      onPress={() => handleInboxPress(notification)}
+                    />
+                  ))}
+                </View>
+              ) : visibleInvites.length === 0 ? (
+                <View style={styles.emptyContainer}>
+                  <Text style={styles.emptyTitle}>Nothing here yet</Text>
+                  <Text style={styles.emptySubtitle}>
+                    Synced devices, subscription changes and shared reminder activity show up here
+                  </Text>
+                </View>
+              ) : null}
+            </>
+          ) : isLoading ? (
             <View style={styles.emptyContainer}>
               <ActivityIndicator size="large" color="#2F00FF" />
             </View>
           ) : reminders.length > 0 ? (
             <View style={styles.listContainer}>
               {reminders.map((reminder) => (
-                <NotificationCard key={reminder.id} reminder={reminder} />
+                <NotificationCard
+                  key={reminder.id}
+                  reminder={reminder}
+                  isSelecting={isSelecting}
+                  isSelected={isSelected(reminder.id)}
+                  onSelect={() => (isSelecting ? toggleSelection(reminder.id) : startSelection(reminder.id))}
+                />
               ))}
             </View>
           ) : (
@@ -222,7 +647,7 @@ export default function NotificationsScreen({
           )}
 
           {/* Caught Up State */}
-          {reminders.length > 0 && (
+          {(view === 'inbox' ? visibleInbox.length > 0 && visibleUnreadCount === 0 : reminders.length > 0) && (
             <View style={styles.caughtUpContainer}>
               <View style={styles.dividerLine} />
               <Text style={styles.caughtUpText}>You're all caught up</Text>
@@ -235,7 +660,51 @@ export default function NotificationsScreen({
           onTabPress={handleTabPress}
           onCreateReminder={onCreateReminder}
         />
+
+        {/* Multi-select actions */}
+        {isSelecting && (
+          <BulkActionBar
+            count={selectedReminders.length}
+            allPriority={allSelectedPriority}
+            busy={bulkBusy}
+            onComplete={handleBulkComplete}
+            onReschedule={() => setShowBulkReschedule(true)}
+            onTogglePriority={handleBulkPriority}
+            onDelete={() => setShowBulkDeleteConfirm(true)}
+            onCancel={exitSelection}
+          />
+        )}
+
+        {undoToast && (
+          <FeedbackOverlay
+            key={undoToast.id}
+            type="undo"
+            message={undoToast.message}
+            onUndo={() => void runUndo()}
+            onComplete={() => dismissUndo(undoToast.id)}
+          />
+        )}
       </View>
+
+      {/* Bulk Reschedule Modal */}
+      <BulkRescheduleModal
+        visible={showBulkReschedule}
+        onClose={() => setShowBulkReschedule(false)}
+        onSelect={handleBulkReschedule}
+        count={selectedReminders.length}
+      />
+
+      {/* Bulk Delete Confirmation Modal */}
+      <ConfirmModal
+        visible={showBulkDeleteConfirm}
+        onClose={() => setShowBulkDeleteConfirm(false)}
+        onConfirm={confirmBulkDelete}
+        title="Delete Reminders"
+        message={`Delete ${formatReminderCount(selectedReminders.length)}? Recurring reminders only lose the selected occurrences.`}
+        confirmText="Delete"
+        confirmColor="#ef4444"
+        icon="delete"
+      />
     </View>
   );
 }
@@ -298,9 +767,123 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.5)',
   },
+  moreButtonActive: {
+    backgroundColor: '#2F00FF',
+  },
+  moreButtonDisabled: {
+    opacity: 0.4,
+  },
+  viewSwitch: {
+    flexDirection: 'row',
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 4,
+    marginBottom: 16,
+  },
+  viewSwitchOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  viewSwitchOptionActive: {
+    backgroundColor: '#2F00FF',
+  },
+  viewSwitchText: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#888888',
+  },
+  viewSwitchTextActive: {
+    color: '#ffffff',
+  },
+  unreadBadge: {
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 5,
+    backgroundColor: '#ef4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadBadgeText: {
+    fontSize: 10,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#ffffff',
+  },
+  filterScroll: {
+    marginBottom: 16,
+    marginHorizontal: -24,
+  },
+  filterRow: {
+    gap: 8,
+    paddingHorizontal: 24,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  filterChipActive: {
+    backgroundColor: '#2F00FF',
+    borderColor: '#2F00FF',
+  },
+  filterChipText: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#4b5563',
+  },
+  filterChipTextActive: {
+    color: '#ffffff',
+  },
+  inboxIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(47, 0, 255, 0.08)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
   listContainer: {
     gap: 12,
   },
+  inviteList: {
+    marginBottom: 12,
+  },
+  inviteActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  inviteButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  inviteAcceptButton: {
+    backgroundColor: '#2F00FF',
+    borderColor: '#2F00FF',
+  },
+  inviteButtonDisabled: {
+    opacity: 0.5,
+  },
+  inviteButtonText: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Medium',
+    color: '#4b5563',
+  },
+  inviteAcceptText: {
+    color: '#ffffff',
+  },
   notificationCard: {
     backgroundColor: '#ffffff',
     padding: 16,
@@ -314,6 +897,13 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     shadowOffset: { width: 0, height: 2 },
   },
+  notificationCardSelected: {
+    borderWidth: 2,
+    borderColor: '#2F00FF',
+  },
+  selectIcon: {
+    marginRight: 12,
+  },
   unreadDot: {
     position: 'absolute',
     top: 8,
@@ -17,14 +17,34 @@ import { MaterialIcons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import BottomNavBar, { TabName } from '../components/BottomNavBar';
 import ActionPickerModal from '../components/ActionPickerModal';
+import SeriesScopeModal from '../components/SeriesScopeModal';
 import SnoozePickerModal from '../components/SnoozePickerModal';
+import ShareReminderModal from '../components/ShareReminderModal';
+import SubtaskChecklist from '../components/SubtaskChecklist';
+import ReminderDeliveryStatus from '../components/ReminderDeliveryStatus';
+import VoiceNotePlayer from '../components/VoiceNotePlayer';
 import ErrorModal from '../components/ErrorModal';
+import FeedbackOverlay from '../components/FeedbackOverlay';
 import { CreationMode } from '../components/CreateReminderModal';
-import { getOverdueReminders, getReminderById, updateReminderStatus, deleteReminder, snoozeReminder, getReminders, getRecurringRules } from '../lib/reminders';
+import {
+  getOverdueReminders,
+  getReminderById,
+  completeReminder,
+  undoCompleteReminder,
+  deleteReminderInSeries,
+  restoreDeletedReminders,
+  snoozeReminder,
+  undoSnoozeReminder,
+  getReminders,
+  getRecurringRules,
+} from '../lib/reminders';
 import { syncReminderNotifications } from '../lib/notifications';
-import { getReminderActions, executeReminderAction, getActionIcon } from '../lib/reminderActions';
-import { Reminder, ReminderAction, RecurringRule } from '../lib/types';
+import { describeLocationTrigger, isLocationTrigger } from '../lib/geofences';
+import { getReminderActions, executeReminderAction, getActionIcon, getActionLabel } from '../lib/reminderActions';
+import { Reminder, ReminderAction, RecurringRule, SeriesScope } from '../lib/types';
 import { supabase } from '../lib/supabase';
+import { getAttachmentThumbnailUrl } from '../lib/attachmentStorage';
+import { useUndoToast } from '../hooks/useUndoToast';
 import { CircularProgress } from '../src/shared/ui/organisms/circular-progress';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
@@ -34,7 +54,7 @@ interface ProgressScreenProps {
   onBack: () => void;
   onCreateReminder: (mode: CreationMode) => void;
   onTabPress: (tab: TabName) => void;
-  openReminderRequest?: { id: string; at: number } | null;
+  openReminderRequest?: { id: string; at: number; playVoiceActionId?: string } | null;
 }
 
 interface CompletionMetric {
@@ -255,7 +275,10 @@ function TaskCard({ reminder, priority, onPress }: { reminder: Reminder; priorit
             >
               {reminder.title}
             </Text>
-            <Text style={styles.cardTime}>{formatTime(reminder.scheduled_time)}</Text>
+            <Text style={styles.cardTime}>
+              {isLocationTrigger(reminder) ? describeLocationTrigger(reminder) : formatTime(reminder.scheduled_time)}
+              {reminder.subtask_count > 0 ? ` · ${reminder.subtask_done_count}/${reminder.subtask_count} subtasks` : ''}
+            </Text>
           </View>
 
           {/* Action button/icon based on priority */}
@@ -320,10 +343,21 @@ export default function ProgressScreen({
   const [isLoading, setIsLoading] = useState(true);
   const [selectedReminder, setSelectedReminder] = useState<Reminder | null>(null);
   const [selectedActions, setSelectedActions] = useState<ReminderAction[]>([]);
+  const [photoThumbnails, setPhotoThumbnails] = useState<Record<string, string>>({});
+  // Set when the detail was opened from a notification's Play button
+  const [autoPlayVoiceActionId, setAutoPlayVoiceActionId] = useState<string | null>(null);
   const [showActionPicker, setShowActionPicker] = useState(false);
   const [showSnoozePicker, setShowSnoozePicker] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
+  // Recurring reminders ask which occurrences a snooze or delete applies to
+  const [seriesAction, setSeriesAction] = useState<'snooze' | 'delete' | null>(null);
+  const [pendingSnoozeMinutes, setPendingSnoozeMinutes] = useState(0);
   const [showError, setShowError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
+  const { undoToast, showUndo, runUndo, dismissUndo } = useUndoToast(() => {
+    setErrorMessage('Failed to undo');
+    setShowError(true);
+  });
   const lastOpenRequest = useRef<number | null>(null);
   const overallProgress = useSharedValue(0);
   const dailyProgress = useSharedValue(0);
@@ -394,7 +428,7 @@ export default function ProgressScreen({
     };
   }, [fetchProgressData]);
 
-  const openReminderWithActions = useCallback(async (reminder: Reminder) => {
+  const openReminderWithActions = useCallback(async (reminder: Reminder, playVoiceActionId?: string) => {
     let actions: ReminderAction[] = [];
     try {
       actions = await getReminderActions(reminder.id);
@@ -404,16 +438,26 @@ export default function ProgressScreen({
 
     setSelectedReminder(reminder);
     setSelectedActions(actions);
+    setPhotoThumbnails({});
+    setAutoPlayVoiceActionId(playVoiceActionId ?? null);
     setShowActionPicker(true);
+
+    // Thumbnails fill in once signed; the picker shows the photo icon until then
+    const photoActions = actions.filter((action) => action.action_type === 'photo' && action.action_value?.storage_path);
+    photoActions.forEach((action) => {
+      getAttachmentThumbnailUrl(action.action_value.storage_path)
+        .then((url) => setPhotoThumbnails((current) => ({ ...current, [action.id]: url })))
+        .catch(() => {});
+    });
   }, []);
 
-  const openReminderById = useCallback(async (reminderId: string) => {
+  const openReminderById = useCallback(async (reminderId: string, playVoiceActionId?: string) => {
     let reminder = overdueReminders.find((item) => item.id === reminderId) ?? null;
     if (!reminder) {
       reminder = await getReminderById(reminderId);
     }
     if (reminder) {
-      await openReminderWithActions(reminder);
+      await openReminderWithActions(reminder, playVoiceActionId);
     }
   }, [openReminderWithActions, overdueReminders]);
 
@@ -421,7 +465,7 @@ export default function ProgressScreen({
     if (!openReminderRequest?.id) return;
     if (openReminderRequest.at === lastOpenRequest.current) return;
     lastOpenRequest.current = openReminderRequest.at;
-    void openReminderById(openReminderRequest.id);
+    void openReminderById(openReminderRequest.id, openReminderRequest.playVoiceActionId);
   }, [openReminderRequest, openReminderById]);
 
   const handleCardPress = useCallback(
@@ -439,9 +483,8 @@ export default function ProgressScreen({
         Alert.alert('Note', noteText);
         return;
       }
-      if (action.action_type === 'subtasks') {
-        const subtasksText = action.action_value?.text?.trim() || 'No subtasks added.';
-        Alert.alert('Subtasks', subtasksText);
+      if (action.action_type === 'assign') {
+        setShowShareModal(true);
         return;
       }
       await executeReminderAction(action);
@@ -451,7 +494,9 @@ export default function ProgressScreen({
     }
   }, []);
 
-  const quickActionOptions = selectedActions.map((action) => ({
+  // Voice notes get a player in the sheet instead of a quick action button
+  const voiceActions = selectedActions.filter((action) => action.action_type === 'voice');
+  const quickActionOptions = selectedActions.filter((action) => action.action_type !== 'voice').map((action) => ({
     id: action.id,
     label: (() => {
       switch (action.action_type) {
@@ -465,8 +510,10 @@ export default function ProgressScreen({
           return 'Navigate';
         case 'note':
           return 'View Note';
-        case 'subtasks':
-          return 'View Subtasks';
+        case 'assign':
+          return 'People';
+        case 'photo':
+          return 'View Photo';
         default:
           return 'Action';
       }
@@ -483,8 +530,10 @@ export default function ProgressScreen({
           return action.action_value?.label || action.action_value?.address || 'Location';
         case 'note':
           return action.action_value?.text ? 'Saved note' : 'No note saved';
-        case 'subtasks':
-          return action.action_value?.text ? 'Checklist items' : 'No subtasks';
+        case 'assign':
+          return getActionLabel(action);
+        case 'photo':
+          return action.action_value?.file_name || 'Photo';
         default:
           return 'Quick action';
       }
@@ -496,58 +545,109 @@ export default function ProgressScreen({
       email: '#0ea5e9',
       location: '#f97316',
       note: '#64748b',
-      subtasks: '#84cc16',
+      assign: '#7c3aed',
+      photo: '#ec4899',
     } as Record<string, string>)[action.action_type] ?? '#2F00FF',
+    imageUri: photoThumbnails[action.id],
     onPress: () => handleQuickActionPress(action),
   }));
 
   const handleMarkComplete = useCallback(async () => {
     if (!selectedReminder) return;
 
+    const reminderId = selectedReminder.id;
     try {
-      await updateReminderStatus(selectedReminder.id, 'completed');
+      const completion = await completeReminder(reminderId);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       await fetchProgressData();
+      showUndo('Reminder completed', async () => {
+        await undoCompleteReminder(completion);
+        await fetchProgressData();
+        void syncReminderNotifications();
+      });
     } catch (error) {
       setErrorMessage('Failed to complete reminder');
       setShowError(true);
     }
-  }, [selectedReminder, fetchProgressData]);
+  }, [selectedReminder, fetchProgressData, showUndo]);
 
   const handleSnooze = useCallback(() => {
     setShowActionPicker(false);
     setShowSnoozePicker(true);
   }, []);
 
-  const handleSnoozeSelect = useCallback(
-    async (minutes: number) => {
+  const applySnooze = useCallback(
+    async (minutes: number, scope: SeriesScope = 'this') => {
       if (!selectedReminder) return;
 
+      const previous = selectedReminder;
       try {
-        await snoozeReminder(selectedReminder.id, minutes);
+        await snoozeReminder(previous.id, minutes, scope);
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         await fetchProgressData();
         void syncReminderNotifications();
+        showUndo(`Snoozed for ${minutes} min`, async () => {
+          await undoSnoozeReminder(previous, scope);
+          await fetchProgressData();
+          void syncReminderNotifications();
+        });
       } catch (error) {
         setErrorMessage('Failed to snooze reminder');
         setShowError(true);
       }
     },
-    [selectedReminder, fetchProgressData]
+    [selectedReminder, fetchProgressData, showUndo]
   );
 
-  const handleDelete = useCallback(async () => {
+  const handleSnoozeSelect = useCallback(
+    (minutes: number) => {
+      if (selectedReminder?.recurring_rule_id) {
+        setPendingSnoozeMinutes(minutes);
+        setSeriesAction('snooze');
+        return;
+      }
+      void applySnooze(minutes);
+    },
+    [selectedReminder, applySnooze]
+  );
+
+  const applyDelete = useCallback(async (scope: SeriesScope = 'this') => {
     if (!selectedReminder) return;
 
     try {
-      await deleteReminder(selectedReminder.id);
+      const deletion = await deleteReminderInSeries(selectedReminder.id, scope);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       await fetchProgressData();
+      const count = deletion.reminder_ids.length;
+      showUndo(count > 1 ? `${count} reminders deleted` : 'Reminder deleted', async () => {
+        await restoreDeletedReminders(deletion);
+        await fetchProgressData();
+        void syncReminderNotifications();
+      });
     } catch (error) {
       setErrorMessage('Failed to delete reminder');
       setShowError(true);
     }
-  }, [selectedReminder, fetchProgressData]);
+  }, [selectedReminder, fetchProgressData, showUndo]);
+
+  const handleDelete = useCallback(() => {
+    if (selectedReminder?.recurring_rule_id) {
+      setSeriesAction('delete');
+      return;
+    }
+    void applyDelete();
+  }, [selectedReminder, applyDelete]);
+
+  const handleSeriesScopeSelect = useCallback(
+    (scope: SeriesScope) => {
+      if (seriesAction === 'delete') {
+        void applyDelete(scope);
+      } else if (seriesAction === 'snooze') {
+        void applySnooze(pendingSnoozeMinutes, scope);
+      }
+    },
+    [seriesAction, applyDelete, applySnooze, pendingSnoozeMinutes]
+  );
 
   const handleTabPress = useCallback(
     (tab: TabName) => {
@@ -712,6 +812,13 @@ export default function ProgressScreen({
             color: '#2F00FF',
             onPress: handleSnooze,
           },
+          {
+            id: 'share',
+            label: 'Share',
+            icon: 'person-add',
+            color: '#7c3aed',
+            onPress: () => setShowShareModal(true),
+          },
           {
             id: 'delete',
             label: 'Delete',
@@ -720,6 +827,30 @@ export default function ProgressScreen({
             onPress: handleDelete,
           },
         ]}
+      >
+        {voiceActions.map((action) => (
+          <VoiceNotePlayer key={action.id} action={action} autoPlay={action.id === autoPlayVoiceActionId} />
+        ))}
+        {selectedReminder && (
+          <SubtaskChecklist
+            key={selectedReminder.id}
+            reminder={selectedReminder}
+            onChange={() => void fetchProgressData()}
+            onAllDone={() => {
+              setShowActionPicker(false);
+              void handleMarkComplete();
+            }}
+          />
+        )}
+        {selectedReminder && <ReminderDeliveryStatus reminder={selectedReminder} />}
+      </ActionPickerModal>
+
+      {/* Share Modal */}
+      <ShareReminderModal
+        visible={showShareModal}
+        onClose={() => setShowShareModal(false)}
+        reminder={selectedReminder}
+        onSharesChanged={() => void fetchProgressData()}
       />
 
       {/* Snooze Picker Modal */}
@@ -730,6 +861,28 @@ export default function ProgressScreen({
         title={selectedReminder?.title || ''}
       />
 
+      {/* Recurring Series Scope Modal */}
+      <SeriesScopeModal
+        visible={seriesAction !== null}
+        onClose={() => setSeriesAction(null)}
+        onSelect={handleSeriesScopeSelect}
+        title={seriesAction === 'delete' ? 'Delete Recurring Reminder' : 'Snooze Recurring Reminder'}
+        message={`"${selectedReminder?.title}" repeats. Which reminders should change?`}
+        color={seriesAction === 'delete' ? '#ef4444' : '#2F00FF'}
+        icon={seriesAction === 'delete' ? 'delete' : 'schedule'}
+      />
+
+      {/* Undo Toast */}
+      {undoToast && (
+        <FeedbackOverlay
+          key={undoToast.id}
+          type="undo"
+          message={undoToast.message}
+          onUndo={() => void runUndo()}
+          onComplete={() => dismissUndo(undoToast.id)}
+        />
+      )}
+
       {/* Error Modal */}
       <ErrorModal
         visible={showError}
@@ -0,0 +1,435 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { GlowTopRight, GlowBottomLeft } from '../components/icons';
+import { searchReminders } from '../lib/reminders';
+import { Reminder, ReminderSearchFilters } from '../lib/types';
+
+const SEARCH_DEBOUNCE_MS = 250;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DateRange = 'any' | 'upcoming' | 'week' | 'month';
+type StatusFilter = 'all' | 'open' | 'done';
+
+const DATE_RANGE_OPTIONS: { value: DateRange; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'upcoming', label: 'Upcoming' },
+  { value: 'week', label: 'Past week' },
+  { value: 'month', label: 'Past month' },
+];
+
+const STATUS_OPTIONS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'open', label: 'Open' },
+  { value: 'done', label: 'Done' },
+];
+
+interface SearchScreenProps {
+  onBack: () => void;
+  onOpenReminder: (reminderId: string) => void;
+}
+
+function buildFilters(
+  dateRange: DateRange,
+  status: StatusFilter,
+  priorityOnly: boolean,
+  recurringOnly: boolean
+): ReminderSearchFilters {
+  const now = new Date();
+  const filters: ReminderSearchFilters = { priorityOnly };
+
+  if (dateRange === 'upcoming') {
+    filters.from = now;
+  } else if (dateRange === 'week') {
+    filters.from = new Date(now.getTime() - 7 * DAY_MS);
+    filters.to = now;
+  } else if (dateRange === 'month') {
+    filters.from = new Date(now.getTime() - 30 * DAY_MS);
+    filters.to = now;
+  }
+
+  if (status !== 'all') {
+    filters.completed = status === 'done';
+  }
+  if (recurringOnly) {
+    filters.recurring = true;
+  }
+  return filters;
+}
+
+function formatResultTime(dateStr: string): string {
+  const date = new Date(dateStr);
+  const sameYear = date.getFullYear() === new Date().getFullYear();
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(sameYear ? {} : { year: 'numeric' }),
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function FilterChip({
+  label,
+  active,
+  icon,
+  onPress,
+}: {
+  label: string;
+  active: boolean;
+  icon?: keyof typeof MaterialIcons.glyphMap;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onPress();
+      }}
+      style={[styles.chip, active && styles.chipActive]}
+    >
+      {icon && <MaterialIcons name={icon} size={14} color={active ? '#ffffff' : '#2F00FF'} />}
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function ResultCard({ reminder, onPress }: { reminder: Reminder; onPress: () => void }) {
+  const isDone = reminder.status === 'completed';
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [styles.resultCard, pressed && { transform: [{ scale: 0.98 }] }]}
+    >
+      <View style={styles.resultContent}>
+        <Text style={[styles.resultTitle, isDone && styles.resultTitleDone]} numberOfLines={1}>
+          {reminder.title}
+        </Text>
+        {reminder.description ? (
+          <Text style={styles.resultDescription} numberOfLines={1}>
+            {reminder.description}
+          </Text>
+        ) : null}
+        <Text style={styles.resultTime}>{formatResultTime(reminder.scheduled_time)}</Text>
+      </View>
+      <View style={styles.resultBadges}>
+        {reminder.is_priority && <MaterialIcons name="star" size={16} color="#f59e0b" />}
+        {reminder.recurring_rule_id && <MaterialIcons name="repeat" size={16} color="#2F00FF" />}
+        {isDone && <MaterialIcons name="check-circle" size={16} color="#10b981" />}
+      </View>
+    </Pressable>
+  );
+}
+
+export default function SearchScreen({ onBack, onOpenReminder }: SearchScreenProps) {
+  const insets = useSafeAreaInsets();
+  const [query, setQuery] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange>('any');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [priorityOnly, setPriorityOnly] = useState(false);
+  const [recurringOnly, setRecurringOnly] = useState(false);
+  const [results, setResults] = useState<Reminder[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  // Responses can arrive out of order while typing; only the latest search is shown
+  const latestSearch = useRef(0);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      latestSearch.current += 1;
+      setResults([]);
+      setIsSearching(false);
+      setHasError(false);
+      return;
+    }
+
+    const searchId = latestSearch.current + 1;
+    latestSearch.current = searchId;
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchReminders(trimmed, buildFilters(dateRange, status, priorityOnly, recurringOnly));
+        if (latestSearch.current !== searchId) return;
+        setResults(found);
+        setHasError(false);
+      } catch {
+        if (latestSearch.current !== searchId) return;
+        setHasError(true);
+      } finally {
+        if (latestSearch.current === searchId) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, dateRange, status, priorityOnly, recurringOnly]);
+
+  const hasQuery = query.trim().length > 0;
+
+  return (
+    <View style={styles.root}>
+      <View style={styles.glowTopRight}>
+        <GlowTopRight />
+      </View>
+      <View style={styles.glowBottomLeft}>
+        <GlowBottomLeft />
+      </View>
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <View style={styles.searchRow}>
+          <Pressable onPress={onBack} style={styles.backButton} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <MaterialIcons name="arrow-back" size={22} color="#121118" />
+          </Pressable>
+          <View style={styles.searchField}>
+            <MaterialIcons name="search" size={20} color="#888888" />
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search reminders, notes, subtasks..."
+              placeholderTextColor="#aaaaaa"
+              style={styles.searchInput}
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="search"
+            />
+            {query.length > 0 && (
+              <Pressable onPress={() => setQuery('')} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <MaterialIcons name="close" size={18} color="#888888" />
+              </Pressable>
+            )}
+          </View>
+        </View>
+
+        {/* Filters */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterRow}
+          keyboardShouldPersistTaps="handled"
+        >
+          {DATE_RANGE_OPTIONS.map((option) => (
+            <FilterChip
+              key={option.value}
+              label={option.label}
+              active={dateRange === option.value}
+              onPress={() => setDateRange(option.value)}
+            />
+          ))}
+          <View style={styles.filterDivider} />
+          {STATUS_OPTIONS.map((option) => (
+            <FilterChip
+              key={option.value}
+              label={option.label}
+              active={status === option.value}
+              onPress={() => setStatus(option.value)}
+            />
+          ))}
+          <View style={styles.filterDivider} />
+          <FilterChip label="Priority" icon="star" active={priorityOnly} onPress={() => setPriorityOnly((value) => !value)} />
+          <FilterChip label="Recurring" icon="repeat" active={recurringOnly} onPress={() => setRecurringOnly((value) => !value)} />
+        </ScrollView>
+      </View>
+
+      {/* Results */}
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 32 }]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {!hasQuery ? (
+          <View style={styles.emptyContainer}>
+            <MaterialIcons name="manage-search" size={40} color="#d1d5db" />
+            <Text style={styles.emptySubtitle}>Search titles, notes, subtasks, emails and addresses</Text>
+          </View>
+        ) : isSearching && results.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <ActivityIndicator size="large" color="#2F00FF" />
+          </View>
+        ) : hasError ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyTitle}>Search failed</Text>
+            <Text style={styles.emptySubtitle}>Please try again</Text>
+          </View>
+        ) : results.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyTitle}>No matches</Text>
+            <Text style={styles.emptySubtitle}>Try other words or fewer filters</Text>
+          </View>
+        ) : (
+          <View style={styles.listContainer}>
+            {results.map((reminder) => (
+              <ResultCard
+                key={reminder.id}
+                reminder={reminder}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  onOpenReminder(reminder.id);
+                }}
+              />
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+    backgroundColor: '#f6f1ff',
+  },
+  glowTopRight: {
+    position: 'absolute',
+    top: -160,
+    right: -160,
+    opacity: 0.9,
+  },
+  glowBottomLeft: {
+    position: 'absolute',
+    bottom: -120,
+    left: -120,
+    opacity: 0.9,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingBottom: 12,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  searchField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    height: 44,
+    paddingHorizontal: 14,
+    borderRadius: 22,
+    backgroundColor: '#ffffff',
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#121118',
+  },
+  filterRow: {
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 14,
+  },
+  filterDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: 'rgba(47, 0, 255, 0.15)',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    backgroundColor: 'rgba(47, 0, 255, 0.08)',
+  },
+  chipActive: {
+    backgroundColor: '#2F00FF',
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#2F00FF',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+  },
+  listContainer: {
+    gap: 12,
+  },
+  resultCard: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOpacity: 0.04,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 2 },
+  },
+  resultContent: {
+    flex: 1,
+    gap: 2,
+    marginRight: 12,
+  },
+  resultTitle: {
+    fontSize: 15,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#121118',
+  },
+  resultTitleDone: {
+    color: '#888888',
+    textDecorationLine: 'line-through',
+  },
+  resultDescription: {
+    fontSize: 13,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#666666',
+  },
+  resultTime: {
+    fontSize: 11,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#888888',
+    marginTop: 2,
+  },
+  resultBadges: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  emptyContainer: {
+    marginTop: 60,
+    alignItems: 'center',
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'BricolageGrotesque-Bold',
+    color: '#161117',
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    fontFamily: 'BricolageGrotesque-Regular',
+    color: '#888888',
+    textAlign: 'center',
+  },
+});
@@ -1,6 +1,6 @@
 import '../global.css';
 import { useEffect, useRef, useState } from 'react';
-import { Alert, ScrollView, Text, View, Pressable, Switch, ActivityIndicator, Animated } from 'react-native';
+import { Alert, ScrollView, Text, View, Pressable, Switch, ActivityIndicator, Animated, Platform } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
@@ -10,15 +10,38 @@ import { getUserPreferences, updateUserPreferences, updateNotificationPreference
 import { syncReminderNotifications } from '../lib/notifications';
 import { generateAccountCode, getActiveAccountCode } from '../lib/accountCodes';
 import { getTodayReminderCount } from '../lib/reminderLimits';
+import { normalizeNotifyOffsets } from '../lib/notifyOffsets';
+import { describeQuietHours } from '../lib/quietHours';
 import { useSubscription } from '../hooks/useSubscription';
-import type { UserPreferences, AccountCode, SnoozeMode } from '../lib/types';
-import { NOTIFICATION_TIMING_OPTIONS } from '../lib/types';
+import type { UserPreferences, AccountCode, SnoozeMode, DailyDigestSlot } from '../lib/types';
+import {
+  DAILY_DIGEST_TIME_OPTIONS,
+  MAX_NOTIFY_OFFSETS,
+  NOTIFICATION_TIMING_OPTIONS,
+  PRIORITY_REPEAT_INTERVAL_OPTIONS,
+  PRIORITY_REPEAT_MAX_OPTIONS,
+} from '../lib/types';
 import AccountCodeInput from '../components/settings/AccountCodeInput';
+import PairingQrCode from '../components/settings/PairingQrCode';
 import PaywallModal from '../components/PaywallModal';
+import RecentlyDeletedModal from '../components/RecentlyDeletedModal';
+import SavedPlacesModal from '../components/SavedPlacesModal';
+import DevicesModal from '../components/DevicesModal';
+import QuietHoursModal from '../components/QuietHoursModal';
 
 const SNOOZE_PRESET_OPTIONS = [5, 10, 15, 20, 30, 45, 60];
 const MAX_SNOOZE_PRESETS = 3;
 
+const DAILY_DIGEST_SLOTS: Array<{
+  slot: DailyDigestSlot;
+  label: string;
+  key: 'daily_digest_morning_time' | 'daily_digest_evening_time';
+  defaultTime: string;
+}> = [
+  { slot: 'morning', label: 'Morning summary of today', key: 'daily_digest_morning_time', defaultTime: '08:00' },
+  { slot: 'evening', label: 'Evening preview of tomorrow', key: 'daily_digest_evening_time', defaultTime: '20:00' },
+];
+
 // Animated section wrapper with staggered entry
 function AnimatedSection({
   children,
@@ -118,6 +141,10 @@ export default function SettingsScreen() {
   const [todayCount, setTodayCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [showPaywall, setShowPaywall] = useState(false);
+  const [showRecentlyDeleted, setShowRecentlyDeleted] = useState(false);
+  const [showSavedPlaces, setShowSavedPlaces] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const [showQuietHours, setShowQuietHours] = useState(false);
   const [codeGenerating, setCodeGenerating] = useState(false);
   const [codeCopied, setCodeCopied] = useState(false);
 
@@ -442,6 +469,250 @@ export default function SettingsScreen() {
                 />
               </Pressable>
 
+              {/* Priority Repeats */}
+              <Pressable
+                onPress={() =>
+                  handleUpdatePreference(
+                    { priority_repeat_enabled: !preferences?.priority_repeat_enabled },
+                    { syncNotifications: true }
+                  )
+                }
+                className="flex-row items-center justify-between py-4"
+              >
+                <View className="flex-row items-center gap-4 flex-1">
+                  <View className="w-10 h-10 rounded-full bg-gray-50 items-center justify-center">
+                    <MaterialIcons name="notifications-active" size={20} color="#6b7280" />
+                  </View>
+                  <View className="flex-1">
+                    <Text className="text-base font-medium" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                      Repeat Until Done
+                    </Text>
+                    <Text className="text-xs text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                      Keep notifying for priority reminders until completed or snoozed
+                    </Text>
+                  </View>
+                </View>
+                <Switch
+                  value={preferences?.priority_repeat_enabled ?? false}
+                  onValueChange={(value) =>
+                    handleUpdatePreference({ priority_repeat_enabled: value }, { syncNotifications: true })
+                  }
+                  trackColor={{ false: '#e5e7eb', true: '#2f00ff' }}
+                  thumbColor="#ffffff"
+                />
+              </Pressable>
+
+              {preferences?.priority_repeat_enabled && (
+                <View className="ml-14 pb-4 gap-3">
+                  <View>
+                    <Text className="text-xs text-gray-400 mb-2" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                      Every
+                    </Text>
+                    <View className="flex-row flex-wrap gap-2">
+                      {PRIORITY_REPEAT_INTERVAL_OPTIONS.map((minutes) => {
+                        const isSelected = preferences.priority_repeat_interval_minutes === minutes;
+                        return (
+                          <Pressable
+                            key={minutes}
+                            onPress={() =>
+                              handleUpdatePreference(
+                                { priority_repeat_interval_minutes: minutes },
+                                { syncNotifications: true }
+                              )
+                            }
+                            className={`px-4 py-2 rounded-full border ${isSelected ? 'bg-[#2f00ff] border-[#2f00ff]' : 'bg-gray-50 border-gray-200'}`}
+                          >
+                            <Text
+                              className={`text-xs ${isSelected ? 'text-white' : 'text-gray-600'}`}
+                              style={{ fontFamily: 'BricolageGrotesque-Medium' }}
+                            >
+                              {minutes} min
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  </View>
+                  <View>
+                    <Text className="text-xs text-gray-400 mb-2" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                      At most
+                    </Text>
+                    <View className="flex-row flex-wrap gap-2">
+                      {PRIORITY_REPEAT_MAX_OPTIONS.map((count) => {
+                        const isSelected = preferences.priority_repeat_max === count;
+                        return (
+                          <Pressable
+                            key={count}
+                            onPress={() =>
+                              handleUpdatePreference({ priority_repeat_max: count }, { syncNotifications: true })
+                            }
+                            className={`px-4 py-2 rounded-full border ${isSelected ? 'bg-[#2f00ff] border-[#2f00ff]' : 'bg-gray-50 border-gray-200'}`}
+                          >
+                            <Text
+                              className={`text-xs ${isSelected ? 'text-white' : 'text-gray-600'}`}
+                              style={{ fontFamily: 'BricolageGrotesque-Medium' }}
+                            >
+                              {count} times
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  </View>
+                </View>
+              )}
+
+              {/* Loud Priority Alerts (Android channels only) */}
+              {Platform.OS === 'android' && (
+                <Pressable
+                  onPress={() =>
+                    handleUpdatePreference(
+                      { priority_loud_alerts: !preferences?.priority_loud_alerts },
+                      { syncNotifications: true }
+                    )
+                  }
+                  className="flex-row items-center justify-between py-4"
+                >
+                  <View className="flex-row items-center gap-4 flex-1">
+                    <View className="w-10 h-10 rounded-full bg-gray-50 items-center justify-center">
+                      <MaterialIcons name="campaign" size={20} color="#6b7280" />
+                    </View>
+                    <View className="flex-1">
+                      <Text className="text-base font-medium" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                        Loud Priority Alerts
+                      </Text>
+                      <Text className="text-xs text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                        Alarm sound and longer vibration for priority reminders
+                      </Text>
+                    </View>
+                  </View>
+                  <Switch
+                    value={preferences?.priority_loud_alerts ?? false}
+                    onValueChange={(value) =>
+                      handleUpdatePreference({ priority_loud_alerts: value }, { syncNotifications: true })
+                    }
+                    trackColor={{ false: '#e5e7eb', true: '#2f00ff' }}
+                    thumbColor="#ffffff"
+                  />
+                </Pressable>
+              )}
+
+              {/* Quiet Hours */}
+              <View className="py-4">
+                <View className="flex-row items-center justify-between">
+                  <View className="flex-row items-center gap-4 flex-1">
+                    <View className="w-10 h-10 rounded-full bg-gray-50 items-center justify-center">
+                      <MaterialIcons name="bedtime" size={20} color="#6b7280" />
+                    </View>
+                    <View className="flex-1">
+                      <Text className="text-base font-medium" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                        Quiet Hours
+                      </Text>
+                      <Text className="text-xs text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                        {preferences?.quiet_hours_enabled
+                          ? describeQuietHours(preferences)
+                          : 'Hold notifications and deliver them as a digest'}
+                      </Text>
+                    </View>
+                  </View>
+                  <Switch
+                    value={preferences?.quiet_hours_enabled ?? false}
+                    onValueChange={(value) =>
+                      handleUpdatePreference({ quiet_hours_enabled: value }, { syncNotifications: true })
+                    }
+                    trackColor={{ false: '#e5e7eb', true: '#2f00ff' }}
+                    thumbColor="#ffffff"
+                  />
+                </View>
+                {preferences?.quiet_hours_enabled && (
+                  <View className="ml-14 mt-3 gap-3">
+                    <Pressable
+                      onPress={() => setShowQuietHours(true)}
+                      className="flex-row items-center justify-between px-4 py-3 rounded-2xl bg-gray-50"
+                    >
+                      <Text className="text-sm text-gray-600" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                        Edit schedule
+                      </Text>
+                      <MaterialIcons name="chevron-right" size={20} color="#9ca3af" />
+                    </Pressable>
+                    <View className="flex-row items-center justify-between">
+                      <Text className="text-sm text-gray-600 flex-1" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                        Let priority reminders through
+                      </Text>
+                      <Switch
+                        value={preferences.quiet_hours_allow_priority}
+                        onValueChange={(value) =>
+                          handleUpdatePreference({ quiet_hours_allow_priority: value }, { syncNotifications: true })
+                        }
+                        trackColor={{ false: '#e5e7eb', true: '#2f00ff' }}
+                        thumbColor="#ffffff"
+                      />
+                    </View>
+                  </View>
+                )}
+              </View>
+
+              {/* Daily Digests */}
+              <View className="py-4">
+                <View className="flex-row items-center gap-4 mb-3">
+                  <View className="w-10 h-10 rounded-full bg-gray-50 items-center justify-center">
+                    <MaterialIcons name="summarize" size={20} color="#6b7280" />
+                  </View>
+                  <View className="flex-1">
+                    <Text className="text-base font-medium" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                      Daily Digest
+                    </Text>
+                    <Text className="text-xs text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                      One summary of reminders, overdue items and priorities
+                    </Text>
+                  </View>
+                </View>
+                {DAILY_DIGEST_SLOTS.map(({ slot, label, key, defaultTime }) => {
+                  const time = preferences?.[key] ?? null;
+                  return (
+                    <View key={slot} className="ml-14 mb-3">
+                      <View className="flex-row items-center justify-between">
+                        <Text className="text-sm text-gray-600 flex-1" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                          {label}
+                        </Text>
+                        <Switch
+                          value={time !== null}
+                          onValueChange={(enabled) =>
+                            handleUpdatePreference(
+                              { [key]: enabled ? defaultTime : null },
+                              { syncNotifications: true }
+                            )
+                          }
+                          trackColor={{ false: '#e5e7eb', true: '#2f00ff' }}
+                          thumbColor="#ffffff"
+                        />
+                      </View>
+                      {time !== null && (
+                        <View className="flex-row flex-wrap gap-2 mt-2">
+                          {DAILY_DIGEST_TIME_OPTIONS[slot].map((option) => {
+                            const isSelected = time === option;
+                            return (
+                              <Pressable
+                                key={option}
+                                onPress={() => handleUpdatePreference({ [key]: option }, { syncNotifications: true })}
+                                className={`px-4 py-2 rounded-full border ${isSelected ? 'bg-[#2f00ff] border-[#2f00ff]' : 'bg-gray-50 border-gray-200'}`}
+                              >
+                                <Text
+                                  className={`text-xs ${isSelected ? 'text-white' : 'text-gray-600'}`}
+                                  style={{ fontFamily: 'BricolageGrotesque-Medium' }}
+                                >
+                                  {option}
+                                </Text>
+                              </Pressable>
+                            );
+                          })}
+                        </View>
+                      )}
+                    </View>
+                  );
+                })}
+              </View>
+
               {/* Default Notification Timing */}
               <View className="py-4">
                 <View className="flex-row items-center gap-4 mb-3">
@@ -453,19 +724,25 @@ export default function SettingsScreen() {
                       Default Timing
                     </Text>
                     <Text className="text-xs text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
-                      When to notify for new reminders
+                      When to alert for new reminders (pick up to 5)
                     </Text>
                   </View>
                 </View>
                 <View className="flex-row flex-wrap gap-2 ml-14">
                   {NOTIFICATION_TIMING_OPTIONS.map((option) => {
-                    const isSelected = (preferences?.default_notify_before_minutes ?? 0) === option.value;
+                    const defaultOffsets = normalizeNotifyOffsets(preferences?.default_notify_offsets);
+                    const isSelected = defaultOffsets.includes(option.value);
                     return (
                       <Pressable
                         key={option.value}
                         onPress={() => {
+                          // Toggle, keeping at least one and at most MAX_NOTIFY_OFFSETS alerts
+                          const offsets = isSelected
+                            ? defaultOffsets.filter((offset) => offset !== option.value)
+                            : [...defaultOffsets, option.value];
+                          if (offsets.length === 0 || offsets.length > MAX_NOTIFY_OFFSETS) return;
                           Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                          handleUpdatePreference({ default_notify_before_minutes: option.value });
+                          handleUpdatePreference({ default_notify_offsets: normalizeNotifyOffsets(offsets) });
                         }}
                         className={`px-4 py-2 rounded-full border ${isSelected ? 'bg-[#2f00ff] border-[#2f00ff]' : 'bg-gray-50 border-gray-200'}`}
                       >
@@ -501,6 +778,10 @@ export default function SettingsScreen() {
                   </Text>
                 </View>
 
+                <View className="mb-3">
+                  <PairingQrCode accountCodeId={accountCode.id} />
+                </View>
+
                 <View className="flex-row gap-3 mb-2">
                   <Pressable
                     onPress={handleCopyCode}
@@ -531,7 +812,7 @@ export default function SettingsScreen() {
             ) : (
               <View className="items-center py-2">
                 <Text className="text-xs text-gray-400 text-center mb-4" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
-                  Generate a code to sync with another device
+                  Generate a code or QR to sync with another device
                 </Text>
 
                 <Pressable
@@ -558,6 +839,29 @@ export default function SettingsScreen() {
           </View>
         </AnimatedSection>
 
+        {/* Devices */}
+        <AnimatedSection delay={240}>
+          <AnimatedPressable
+            onPress={() => setShowDevices(true)}
+            className="bg-white rounded-[40px] p-6 shadow-lg flex-row items-center justify-between mb-5"
+          >
+            <View className="flex-row items-center gap-4">
+              <View className="w-12 h-12 rounded-full bg-gray-50 items-center justify-center">
+                <MaterialIcons name="devices" size={24} color="#6b7280" />
+              </View>
+              <View>
+                <Text className="text-lg font-medium" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                  Devices
+                </Text>
+                <Text className="text-sm text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                  See and sign out signed-in devices
+                </Text>
+              </View>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#d1d5db" />
+          </AnimatedPressable>
+        </AnimatedSection>
+
         {/* Snooze Configuration */}
         <AnimatedSection delay={320}>
           <View className="bg-white rounded-[40px] p-8 shadow-lg mb-5">
@@ -704,6 +1008,52 @@ export default function SettingsScreen() {
           </View>
         </AnimatedSection>
 
+        {/* Saved Places */}
+        <AnimatedSection delay={320}>
+          <AnimatedPressable
+            onPress={() => setShowSavedPlaces(true)}
+            className="bg-white rounded-[40px] p-6 shadow-lg flex-row items-center justify-between mb-5"
+          >
+            <View className="flex-row items-center gap-4">
+              <View className="w-12 h-12 rounded-full bg-gray-50 items-center justify-center">
+                <MaterialIcons name="place" size={24} color="#6b7280" />
+              </View>
+              <View>
+                <Text className="text-lg font-medium" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                  Saved Places
+                </Text>
+                <Text className="text-sm text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                  Places for location reminders
+                </Text>
+              </View>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#d1d5db" />
+          </AnimatedPressable>
+        </AnimatedSection>
+
+        {/* Recently Deleted */}
+        <AnimatedSection delay={320}>
+          <AnimatedPressable
+            onPress={() => setShowRecentlyDeleted(true)}
+            className="bg-white rounded-[40px] p-6 shadow-lg flex-row items-center justify-between mb-5"
+          >
+            <View className="flex-row items-center gap-4">
+              <View className="w-12 h-12 rounded-full bg-gray-50 items-center justify-center">
+                <MaterialIcons name="restore-from-trash" size={24} color="#6b7280" />
+              </View>
+              <View>
+                <Text className="text-lg font-medium" style={{ fontFamily: 'BricolageGrotesque-Medium' }}>
+                  Recently Deleted
+                </Text>
+                <Text className="text-sm text-gray-400" style={{ fontFamily: 'BricolageGrotesque-Regular' }}>
+                  Restore deleted reminders
+                </Text>
+              </View>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#d1d5db" />
+          </AnimatedPressable>
+        </AnimatedSection>
+
         {/* Sign Out Button */}
         <AnimatedSection delay={320}>
           <AnimatedPressable
@@ -734,6 +1084,32 @@ export default function SettingsScreen() {
         onClose={() => setShowPaywall(false)}
         onPurchaseSuccess={handlePurchaseSuccess}
       />
+
+      {/* Saved Places Modal */}
+      <SavedPlacesModal
+        visible={showSavedPlaces}
+        onClose={() => setShowSavedPlaces(false)}
+      />
+
+      {/* Devices Modal */}
+      <DevicesModal
+        visible={showDevices}
+        onClose={() => setShowDevices(false)}
+      />
+
+      {/* Quiet Hours Modal */}
+      <QuietHoursModal
+        visible={showQuietHours}
+        schedule={preferences?.quiet_hours}
+        onClose={() => setShowQuietHours(false)}
+        onSave={(schedule) => handleUpdatePreference({ quiet_hours: schedule }, { syncNotifications: true })}
+      />
+
+      {/* Recently Deleted Modal */}
+      <RecentlyDeletedModal
+        visible={showRecentlyDeleted}
+        onClose={() => setShowRecentlyDeleted(false)}
+      />
     </View>
   );
 }
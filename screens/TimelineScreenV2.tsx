@@ -16,21 +16,35 @@ import { MaterialIcons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import Svg, { Path } from 'react-native-svg';
 import BottomNavBar, { TabName } from '../components/BottomNavBar';
+import BulkActionBar from '../components/BulkActionBar';
+import BulkRescheduleModal from '../components/BulkRescheduleModal';
 import ConfirmModal from '../components/ConfirmModal';
 import ErrorModal from '../components/ErrorModal';
+import SeriesScopeModal from '../components/SeriesScopeModal';
 import SnoozePickerModal from '../components/SnoozePickerModal';
+import TagChips from '../components/TagChips';
 import { CreationMode } from '../components/CreateReminderModal';
 import FeedbackOverlay, { FeedbackType } from '../components/FeedbackOverlay';
 import {
+  bulkDeleteReminders,
+  bulkRescheduleReminders,
+  bulkSetRemindersCompleted,
+  bulkSetRemindersPriority,
+  completeReminder,
   getAllFutureReminders,
+  getReminderTags,
   processRemindersStatus,
-  deleteReminder,
+  deleteReminderInSeries,
+  restoreDeletedReminders,
   snoozeReminder,
-  updateReminderStatus,
+  undoCompleteReminder,
+  undoSnoozeReminder,
 } from '../lib/reminders';
 import { syncReminderNotifications } from '../lib/notifications';
-import { Reminder } from '../lib/types';
+import { BulkRescheduleTarget, Reminder, ReminderTag, SeriesScope } from '../lib/types';
 import { supabase } from '../lib/supabase';
+import { useReminderSelection } from '../hooks/useReminderSelection';
+import { useUndoToast } from '../hooks/useUndoToast';
 
 function isSameDay(date1: Date, date2: Date): boolean {
   return (
@@ -43,6 +57,11 @@ function isSameDay(date1: Date, date2: Date): boolean {
 interface TimelineScreenV2Props {
   onCreateReminder: (mode: CreationMode) => void;
   onTabPress: (tab: TabName) => void;
+  onOpenSearch: () => void;
+}
+
+function formatReminderCount(count: number): string {
+  return `${count} ${count === 1 ? 'reminder' : 'reminders'}`;
 }
 
 function formatTime(isoString: string): string {
@@ -118,16 +137,22 @@ function OrbitingNode({
   reminder,
   size,
   isNext,
+  isSelecting,
+  isSelected,
   onComplete,
   onSnooze,
   onDelete,
+  onSelect,
 }: {
   reminder: Reminder;
   size: 'large' | 'medium' | 'small' | 'tiny';
   isNext: boolean;
+  isSelecting: boolean;
+  isSelected: boolean;
   onComplete: () => void;
   onSnooze: () => void;
   onDelete: () => void;
+  onSelect: () => void;
 }) {
   const [showActions, setShowActions] = useState(false);
   const actionsHeightAnim = useRef(new Animated.Value(0)).current;
@@ -153,6 +178,11 @@ function OrbitingNode({
   const dynamicWidth = getDynamicWidth();
   const actionBarWidth = Math.min(dynamicWidth, size === 'tiny' ? 230 : 290);
 
+  // Quick actions don't apply while several reminders are selected
+  useEffect(() => {
+    if (isSelecting) setShowActions(false);
+  }, [isSelecting]);
+
   useEffect(() => {
     Animated.parallel([
       Animated.timing(actionsHeightAnim, {
@@ -185,8 +215,17 @@ function OrbitingNode({
       <Pressable
         onPress={() => {
           Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          if (isSelecting) {
+            onSelect();
+            return;
+          }
           setShowActions(!showActions);
         }}
+        onLongPress={() => {
+          if (isSelecting) return;
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+          onSelect();
+        }}
         className="relative"
       >
         <View
@@ -195,10 +234,10 @@ function OrbitingNode({
             height: config.height,
             borderRadius: config.height / 2,
           }}
-          className="bg-white shadow-lg flex flex-row items-center px-6 py-4 relative"
+          className={`bg-white shadow-lg flex flex-row items-center px-6 py-4 relative ${isSelected ? 'border-2 border-[#2f00ff]' : ''}`}
         >
           <MaterialIcons
-            name="event"
+            name={isSelecting ? (isSelected ? 'check-circle' : 'radio-button-unchecked') : 'event'}
             size={config.iconSize}
             color="#2f00ff"
           />
@@ -282,6 +321,7 @@ function OrbitingNode({
 export default function TimelineScreenV2({
   onCreateReminder,
   onTabPress,
+  onOpenSearch,
 }: TimelineScreenV2Props) {
   const insets = useSafeAreaInsets();
   const [reminders, setReminders] = useState<Reminder[]>([]);
@@ -295,15 +335,33 @@ export default function TimelineScreenV2({
   const [selectedReminder, setSelectedReminder] = useState<Reminder | null>(null);
   const [showSnoozePicker, setShowSnoozePicker] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // Recurring reminders ask which occurrences a snooze or delete applies to
+  const [seriesAction, setSeriesAction] = useState<'snooze' | 'delete' | null>(null);
+  const [pendingSnoozeMinutes, setPendingSnoozeMinutes] = useState(0);
   const [showError, setShowError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
+  const { undoToast, showUndo, runUndo, dismissUndo } = useUndoToast(() => {
+    setErrorMessage('Failed to undo.');
+    setShowError(true);
+  });
+  const { isSelecting, selectedIds, isSelected, startSelection, toggleSelection, exitSelection } = useReminderSelection();
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [showBulkReschedule, setShowBulkReschedule] = useState(false);
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+  const [tags, setTags] = useState<ReminderTag[]>([]);
+  const [tagFilterIds, setTagFilterIds] = useState<string[]>([]);
 
   const fetchReminders = useCallback(async () => {
     try {
       setIsLoading(true);
-      const allReminders = await getAllFutureReminders();
+      const [allReminders, allTags] = await Promise.all([
+        getAllFutureReminders(),
+        // Tags only drive the filter row, so the timeline still loads without them
+        getReminderTags().catch(() => null),
+      ]);
       const processed = processRemindersStatus(allReminders);
       setReminders(processed);
+      if (allTags) setTags(allTags);
     } catch {
       setErrorMessage('Failed to load reminders');
       setShowError(true);
@@ -372,26 +430,36 @@ export default function TimelineScreenV2({
     (reminder: Reminder) => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       setSelectedReminder(reminder);
-      setShowDeleteConfirm(true);
+      if (reminder.recurring_rule_id) {
+        setSeriesAction('delete');
+      } else {
+        setShowDeleteConfirm(true);
+      }
     },
     []
   );
 
-  const confirmDelete = useCallback(async () => {
+  const confirmDelete = useCallback(async (scope: SeriesScope = 'this') => {
     if (!selectedReminder) return;
 
     try {
-      await deleteReminder(selectedReminder.id);
+      const deletion = await deleteReminderInSeries(selectedReminder.id, scope);
       fetchReminders();
       setFeedback('success');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      const count = deletion.reminder_ids.length;
+      showUndo(count > 1 ? `${count} reminders deleted` : 'Reminder deleted', async () => {
+        await restoreDeletedReminders(deletion);
+        await fetchReminders();
+        void syncReminderNotifications();
+      });
     } catch (error) {
       setFeedback('error');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       setErrorMessage('Failed to delete reminder.');
       setShowError(true);
     }
-  }, [selectedReminder, fetchReminders]);
+  }, [selectedReminder, fetchReminders, showUndo]);
 
   const handleSnoozeReminder = useCallback(
     (reminder: Reminder) => {
@@ -402,16 +470,22 @@ export default function TimelineScreenV2({
     []
   );
 
-  const handleSnoozeSelect = useCallback(
-    async (minutes: number) => {
+  const applySnooze = useCallback(
+    async (minutes: number, scope: SeriesScope = 'this') => {
       if (!selectedReminder) return;
 
+      const previous = selectedReminder;
       try {
-        await snoozeReminder(selectedReminder.id, minutes);
+        await snoozeReminder(previous.id, minutes, scope);
         await fetchReminders();
         void syncReminderNotifications();
         setFeedback('success');
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        showUndo(`Snoozed for ${minutes} min`, async () => {
+          await undoSnoozeReminder(previous, scope);
+          await fetchReminders();
+          void syncReminderNotifications();
+        });
       } catch (error) {
         setFeedback('error');
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -419,24 +493,125 @@ export default function TimelineScreenV2({
         setShowError(true);
       }
     },
-    [selectedReminder, fetchReminders]
+    [selectedReminder, fetchReminders, showUndo]
+  );
+
+  const handleSnoozeSelect = useCallback(
+    (minutes: number) => {
+      if (selectedReminder?.recurring_rule_id) {
+        setPendingSnoozeMinutes(minutes);
+        setSeriesAction('snooze');
+        return;
+      }
+      void applySnooze(minutes);
+    },
+    [selectedReminder, applySnooze]
+  );
+
+  const handleSeriesScopeSelect = useCallback(
+    (scope: SeriesScope) => {
+      if (seriesAction === 'delete') {
+        void confirmDelete(scope);
+      } else if (seriesAction === 'snooze') {
+        void applySnooze(pendingSnoozeMinutes, scope);
+      }
+    },
+    [seriesAction, confirmDelete, applySnooze, pendingSnoozeMinutes]
   );
 
   const handleCompleteReminder = useCallback(
     async (reminder: Reminder) => {
       try {
-        await updateReminderStatus(reminder.id, 'completed');
+        const completion = await completeReminder(reminder.id);
         fetchReminders();
         setFeedback('success');
+        showUndo('Reminder completed', async () => {
+          await undoCompleteReminder(completion);
+          await fetchReminders();
+          void syncReminderNotifications();
+        });
       } catch (error) {
         setFeedback('error');
         setErrorMessage('Failed to complete reminder.');
         setShowError(true);
       }
     },
-    [fetchReminders]
+    [fetchReminders, showUndo]
+  );
+
+  const selectedReminders = reminders.filter((reminder) => selectedIds.includes(reminder.id));
+  const allSelectedPriority = selectedReminders.length > 0 && selectedReminders.every((reminder) => reminder.is_priority);
+
+  // Bulk actions write once, then refresh and resync notifications once
+  const runBulkAction = useCallback(
+    async (action: (ids: string[]) => Promise<void>, failureMessage: string) => {
+      const ids = [...selectedIds];
+      if (ids.length === 0) return;
+
+      setBulkBusy(true);
+      try {
+        await action(ids);
+        exitSelection();
+        await fetchReminders();
+        void syncReminderNotifications();
+        setFeedback('success');
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } catch {
+        setFeedback('error');
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        setErrorMessage(failureMessage);
+        setShowError(true);
+      } finally {
+        setBulkBusy(false);
+      }
+    },
+    [selectedIds, exitSelection, fetchReminders]
   );
 
+  const handleBulkComplete = useCallback(() => {
+    void runBulkAction(async (ids) => {
+      const completed = await bulkSetRemindersCompleted(ids, true);
+      const completedIds = completed.map((reminder) => reminder.id);
+      showUndo(`${formatReminderCount(completedIds.length)} completed`, async () => {
+        await bulkSetRemindersCompleted(completedIds, false);
+        await fetchReminders();
+        void syncReminderNotifications();
+      });
+    }, 'Failed to complete reminders.');
+  }, [runBulkAction, showUndo, fetchReminders]);
+
+  const handleBulkReschedule = useCallback((target: BulkRescheduleTarget) => {
+    void runBulkAction(async (ids) => {
+      await bulkRescheduleReminders(ids, target);
+    }, 'Failed to reschedule reminders.');
+  }, [runBulkAction]);
+
+  const handleBulkPriority = useCallback(() => {
+    void runBulkAction(async (ids) => {
+      await bulkSetRemindersPriority(ids, !allSelectedPriority);
+    }, 'Failed to update priority.');
+  }, [runBulkAction, allSelectedPriority]);
+
+  const confirmBulkDelete = useCallback(() => {
+    void runBulkAction(async (ids) => {
+      const deletion = await bulkDeleteReminders(ids);
+      showUndo(`${formatReminderCount(ids.length)} deleted`, async () => {
+        await restoreDeletedReminders(deletion);
+        await fetchReminders();
+        void syncReminderNotifications();
+      });
+    }, 'Failed to delete reminders.');
+  }, [runBulkAction, showUndo, fetchReminders]);
+
+  const handleToggleTagFilter = useCallback((tagId: string) => {
+    setTagFilterIds((current) =>
+      current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId]
+    );
+  }, []);
+
+  // Ignore filters for tags deleted since they were picked
+  const activeTagFilterIds = tagFilterIds.filter((id) => tags.some((tag) => tag.id === id));
+
   const now = new Date();
   const upcomingReminders = reminders
     .filter((r) => {
@@ -444,6 +619,10 @@ export default function TimelineScreenV2({
       // Show all future reminders
       return reminderDate >= now;
     })
+    // Reminders with any of the selected tags
+    .filter((r) =>
+      activeTagFilterIds.length === 0 || activeTagFilterIds.some((id) => r.tag_ids?.includes(id))
+    )
     .sort((a, b) => new Date(a.scheduled_time).getTime() - new Date(b.scheduled_time).getTime());
 
   // Track reminder positions for scroll detection
@@ -563,14 +742,45 @@ export default function TimelineScreenV2({
             <MaterialIcons name="arrow-drop-down" size={32} color="#0f172a" />
           </View>
         </Pressable>
-        <Pressable
-          onPress={() => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)}
-          className="h-10 w-10 rounded-full bg-white/50 backdrop-blur-sm flex items-center justify-center shadow-sm"
-        >
-          <MaterialIcons name="search" size={20} color="#334155" />
-        </Pressable>
+        <View className="flex-row gap-2">
+          <Pressable
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              if (isSelecting) {
+                exitSelection();
+              } else {
+                startSelection();
+              }
+            }}
+            className={`h-10 w-10 rounded-full flex items-center justify-center shadow-sm ${isSelecting ? 'bg-[#2f00ff]' : 'bg-white/50 backdrop-blur-sm'}`}
+          >
+            <MaterialIcons name={isSelecting ? 'close' : 'checklist'} size={20} color={isSelecting ? '#fff' : '#334155'} />
+          </Pressable>
+          <Pressable
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onOpenSearch();
+            }}
+            className="h-10 w-10 rounded-full bg-white/50 backdrop-blur-sm flex items-center justify-center shadow-sm"
+          >
+            <MaterialIcons name="search" size={20} color="#334155" />
+          </Pressable>
+        </View>
       </View>
 
+      {/* Tag Filters */}
+      {tags.length > 0 && (
+        <View className="pb-3 z-20">
+          <TagChips
+            tags={tags}
+            selectedIds={activeTagFilterIds}
+            onToggle={handleToggleTagFilter}
+            onClear={() => setTagFilterIds([])}
+            contentContainerStyle={{ paddingHorizontal: 24 }}
+          />
+        </View>
+      )}
+
       {/* Main Spiral Content Area */}
       <ScrollView
         className="flex-1 relative"
@@ -608,7 +818,9 @@ export default function TimelineScreenV2({
               All Clear
             </Text>
             <Text className="text-sm font-medium text-slate-400 text-center">
-              No upcoming reminders in your orbit
+              {activeTagFilterIds.length > 0
+                ? 'No upcoming reminders with these tags'
+                : 'No upcoming reminders in your orbit'}
             </Text>
           </View>
         ) : (
@@ -642,9 +854,12 @@ export default function TimelineScreenV2({
                         reminder={reminder}
                         size={getSizeForIndex(index)}
                         isNext={index === 0}
+                        isSelecting={isSelecting}
+                        isSelected={isSelected(reminder.id)}
                         onComplete={() => handleCompleteReminder(reminder)}
                         onSnooze={() => handleSnoozeReminder(reminder)}
                         onDelete={() => handleDeleteReminder(reminder)}
+                        onSelect={() => (isSelecting ? toggleSelection(reminder.id) : startSelection(reminder.id))}
                       />
                     </FloatingNode>
                   </View>
@@ -662,8 +877,32 @@ export default function TimelineScreenV2({
         onCreateReminder={onCreateReminder}
       />
 
+      {/* Multi-select actions */}
+      {isSelecting && (
+        <BulkActionBar
+          count={selectedReminders.length}
+          allPriority={allSelectedPriority}
+          busy={bulkBusy}
+          onComplete={handleBulkComplete}
+          onReschedule={() => setShowBulkReschedule(true)}
+          onTogglePriority={handleBulkPriority}
+          onDelete={() => setShowBulkDeleteConfirm(true)}
+          onCancel={exitSelection}
+        />
+      )}
+
       <FeedbackOverlay type={feedback} onComplete={() => setFeedback(null)} />
 
+      {undoToast && (
+        <FeedbackOverlay
+          key={undoToast.id}
+          type="undo"
+          message={undoToast.message}
+          onUndo={() => void runUndo()}
+          onComplete={() => dismissUndo(undoToast.id)}
+        />
+      )}
+
       {/* Date Picker Modal */}
       <Modal
         visible={datePickerMounted}
@@ -748,6 +987,37 @@ export default function TimelineScreenV2({
         icon="delete"
       />
 
+      {/* Bulk Reschedule Modal */}
+      <BulkRescheduleModal
+        visible={showBulkReschedule}
+        onClose={() => setShowBulkReschedule(false)}
+        onSelect={handleBulkReschedule}
+        count={selectedReminders.length}
+      />
+
+      {/* Bulk Delete Confirmation Modal */}
+      <ConfirmModal
+        visible={showBulkDeleteConfirm}
+        onClose={() => setShowBulkDeleteConfirm(false)}
+        onConfirm={confirmBulkDelete}
+        title="Delete Reminders"
+        message={`Delete ${formatReminderCount(selectedReminders.length)}? Recurring reminders only lose the selected occurrences.`}
+        confirmText="Delete"
+        confirmColor="#ef4444"
+        icon="delete"
+      />
+
+      {/* Recurring Series Scope Modal */}
+      <SeriesScopeModal
+        visible={seriesAction !== null}
+        onClose={() => setSeriesAction(null)}
+        onSelect={handleSeriesScopeSelect}
+        title={seriesAction === 'delete' ? 'Delete Recurring Reminder' : 'Snooze Recurring Reminder'}
+        message={`"${selectedReminder?.title}" repeats. Which reminders should change?`}
+        color={seriesAction === 'delete' ? '#ef4444' : '#2F00FF'}
+        icon={seriesAction === 'delete' ? 'delete' : 'schedule'}
+      />
+
       {/* Error Modal */}
       <ErrorModal
         visible={showError}
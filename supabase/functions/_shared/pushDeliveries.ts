@@ -0,0 +1,125 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.91.1';
+
+// Shared by the functions that send pushes: each logs what it sent to notification_deliveries and
+// drops tokens of uninstalled apps. check-push-receipts later settles the Expo tickets.
+
+export type PushProvider = 'expo' | 'fcm';
+
+export type PushDeliveryKind = 'reminder' | 'priority_early' | 'daily_digest' | 'resync' | 'device_removed';
+
+// A notification_deliveries row; reminder_id and offset_minutes are only set for reminder pushes
+export interface PushDelivery {
+  reminder_id: string | null;
+  user_id: string;
+  device_id: string | null;
+  provider: PushProvider;
+  kind: PushDeliveryKind;
+  offset_minutes: number | null;
+  status: 'sent' | 'delivered' | 'failed';
+  error_code: string | null;
+  error_message: string | null;
+  push_token: string;
+  ticket_id: string | null;
+}
+
+export type PushOutcome = Pick<PushDelivery, 'status'> &
+  Partial<Pick<PushDelivery, 'ticket_id' | 'error_code' | 'error_message'>>;
+
+// The push token a message went to
+export interface PushTarget {
+  token: string;
+  user_id: string;
+  device_id?: string | null;
+}
+
+// One per message of an Expo push request, in the same order
+export interface ExpoPushTicket {
+  status?: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+// Expo and FCM codes for a token whose app was uninstalled; it will never work again
+const DEAD_TOKEN_ERRORS = new Set(['DeviceNotRegistered', 'UNREGISTERED']);
+
+export function isDeadTokenError(errorCode: string | null | undefined): boolean {
+  return Boolean(errorCode && DEAD_TOKEN_ERRORS.has(errorCode));
+}
+
+export function getExpoTickets(result: unknown): ExpoPushTicket[] {
+  const data = (result as { data?: unknown } | null)?.data;
+  return Array.isArray(data) ? (data as ExpoPushTicket[]) : [];
+}
+
+// An accepted ticket is only "sent": its receipt says whether the push was delivered
+export function getExpoTicketOutcome(ticket: ExpoPushTicket | undefined): PushOutcome {
+  if (ticket?.status === 'ok') {
+    return { status: 'sent', ticket_id: ticket.id ?? null };
+  }
+  return {
+    status: 'failed',
+    error_code: ticket?.details?.error ?? 'Unknown',
+    error_message: ticket?.message ?? null,
+  };
+}
+
+// FCM v1 reports why a send failed in error.details[].errorCode, e.g. UNREGISTERED
+export function getFcmErrorCode(errorText: string): string | null {
+  try {
+    const error = JSON.parse(errorText)?.error;
+    const details: { errorCode?: unknown }[] = Array.isArray(error?.details) ? error.details : [];
+    const fcmError = details.find((detail) => typeof detail?.errorCode === 'string');
+    return (fcmError?.errorCode as string | undefined) ?? error?.status ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function createPushDelivery(
+  target: PushTarget,
+  provider: PushProvider,
+  kind: PushDeliveryKind,
+  outcome: PushOutcome,
+  reminder?: { reminderId: string; offsetMinutes: number | null }
+): PushDelivery {
+  return {
+    reminder_id: reminder?.reminderId ?? null,
+    user_id: target.user_id,
+    device_id: target.device_id ?? null,
+    provider,
+    kind,
+    offset_minutes: reminder?.offsetMinutes ?? null,
+    status: outcome.status,
+    error_code: outcome.error_code ?? null,
+    error_message: outcome.error_message ?? null,
+    push_token: target.token,
+    ticket_id: outcome.ticket_id ?? null,
+  };
+}
+
+/**
+ * Delete push tokens of uninstalled apps. Returns how many were deleted.
+ */
+export async function pruneDeadTokens(supabase: SupabaseClient, tokens: Iterable<string>): Promise<number> {
+  const unique = Array.from(new Set(tokens));
+  if (unique.length === 0) return 0;
+
+  const { error } = await supabase.from('push_tokens').delete().in('token', unique);
+  return error ? 0 : unique.length;
+}
+
+/**
+ * Log a run's pushes and prune the tokens they found dead. Best effort: the log is diagnostic,
+ * so a failed insert doesn't fail the run. Returns how many tokens were pruned.
+ */
+export async function recordPushDeliveries(supabase: SupabaseClient, deliveries: PushDelivery[]): Promise<number> {
+  if (deliveries.length === 0) return 0;
+
+  await supabase.from('notification_deliveries').insert(deliveries);
+
+  return pruneDeadTokens(
+    supabase,
+    deliveries.filter((delivery) => isDeadTokenError(delivery.error_code)).map((delivery) => delivery.push_token)
+  );
+}
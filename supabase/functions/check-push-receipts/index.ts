@@ -0,0 +1,135 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.91.1';
+import { isDeadTokenError, pruneDeadTokens } from '../_shared/pushDeliveries.ts';
+
+const EXPO_RECEIPTS_URL = 'https://exp.host/--/api/v2/push/getReceipts';
+// Expo has receipts ready within about 15 minutes and keeps them for a day
+const RECEIPT_DELAY_MINUTES = 15;
+const RECEIPT_MAX_AGE_HOURS = 24;
+// Most receipt ids Expo accepts per request
+const EXPO_RECEIPT_BATCH_SIZE = 1000;
+const DELIVERY_RETENTION_DAYS = 30;
+
+// An Expo push whose receipt hasn't been checked yet
+interface PendingReceipt {
+  id: string;
+  ticket_id: string;
+  push_token: string;
+}
+
+interface ExpoPushReceipt {
+  status?: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
+}
+
+// Settles the Expo pushes every sender logged: a ticket only means Expo accepted the push, its
+// receipt says whether it reached the device. Runs from cron, independent of which senders are on.
+Deno.serve(async (req) => {
+  try {
+    // Verify the request is authorized (using service role key from cron)
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+
+    // 1. Pushes old enough to have a receipt and young enough for Expo to still have it
+    const { data: pendingReceipts, error: receiptsError } = await supabase
+      .from('notification_deliveries')
+      .select('id, ticket_id, push_token')
+      .eq('status', 'sent')
+      .not('ticket_id', 'is', null)
+      .lte('created_at', new Date(now.getTime() - RECEIPT_DELAY_MINUTES * 60 * 1000).toISOString())
+      .gte('created_at', new Date(now.getTime() - RECEIPT_MAX_AGE_HOURS * 60 * 60 * 1000).toISOString())
+      .order('created_at', { ascending: true })
+      .limit(EXPO_RECEIPT_BATCH_SIZE);
+
+    if (receiptsError) {
+      throw receiptsError;
+    }
+
+    // 2. Ask Expo for their receipts
+    const pending = (pendingReceipts as PendingReceipt[]) || [];
+    const deadTokens: string[] = [];
+    let receiptsChecked = 0;
+
+    if (pending.length > 0) {
+      const receiptResponse = await fetch(EXPO_RECEIPTS_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Accept-Encoding': 'gzip, deflate',
+        },
+        body: JSON.stringify({ ids: pending.map((delivery) => delivery.ticket_id) }),
+      });
+
+      if (!receiptResponse.ok) {
+        await receiptResponse.text();
+        // Try again next run
+      } else {
+        const receipts: Record<string, ExpoPushReceipt> = (await receiptResponse.json())?.data || {};
+        const deliveredIds: string[] = [];
+
+        for (const delivery of pending) {
+          const receipt = receipts[delivery.ticket_id];
+          // Not ready yet
+          if (!receipt) continue;
+          receiptsChecked += 1;
+
+          if (receipt.status === 'ok') {
+            deliveredIds.push(delivery.id);
+            continue;
+          }
+
+          const errorCode = receipt.details?.error ?? 'Unknown';
+          if (isDeadTokenError(errorCode)) deadTokens.push(delivery.push_token);
+          await supabase
+            .from('notification_deliveries')
+            .update({
+              status: 'failed',
+              error_code: errorCode,
+              error_message: receipt.message ?? null,
+              updated_at: now.toISOString(),
+            })
+            .eq('id', delivery.id);
+        }
+
+        if (deliveredIds.length > 0) {
+          await supabase
+            .from('notification_deliveries')
+            .update({ status: 'delivered', updated_at: now.toISOString() })
+            .in('id', deliveredIds);
+        }
+      }
+    }
+
+    // 3. Drop tokens of uninstalled apps
+    const prunedTokens = await pruneDeadTokens(supabase, deadTokens);
+
+    // 4. Keep the log to recent history
+    await supabase
+      .from('notification_deliveries')
+      .delete()
+      .lt('created_at', new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString());
+
+    return new Response(
+      JSON.stringify({ message: 'Receipts checked', pending: pending.length, receiptsChecked, prunedTokens }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -9,6 +9,44 @@ interface CheckSubscriptionResponse {
   expiresDate?: string;
 }
 
+// Reject timezones Postgres wouldn't understand
+function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || timezone.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The reminders insert trigger reads this to enforce the free daily limit
+async function saveSubscriptionState(
+  userId: string,
+  result: CheckSubscriptionResponse,
+  timezone?: string
+): Promise<void> {
+  const supabaseAdmin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  // Best effort: the response still reports the live RevenueCat state
+  await supabaseAdmin
+    .from('user_subscriptions')
+    .upsert(
+      {
+        user_id: userId,
+        is_pro: result.isProUser,
+        entitlements: result.entitlements,
+        expires_at: result.expiresDate ?? null,
+        checked_at: new Date().toISOString(),
+        ...(timezone ? { timezone } : {}),
+      },
+      { onConflict: 'user_id' }
+    );
+}
+
 Deno.serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -48,6 +86,11 @@ Deno.serve(async (req) => {
       );
     }
 
+    // The app reports its timezone so the daily limit resets at local midnight.
+    // user_subscriptions only accepts one change a day, so this can't be used to reset the count.
+    const body = await req.json().catch(() => ({}));
+    const timezone = isValidTimezone(body?.timezone) ? body.timezone : undefined;
+
     // Check subscription status via RevenueCat REST API
     const response = await fetch(
       `https://api.revenuecat.com/v1/subscribers/${user.id}`,
@@ -62,11 +105,14 @@ Deno.serve(async (req) => {
     if (!response.ok) {
       // If user not found in RevenueCat, they're free tier
       if (response.status === 404) {
+        const freeResult: CheckSubscriptionResponse = {
+          isProUser: false,
+          entitlements: [],
+        };
+        await saveSubscriptionState(user.id, freeResult, timezone);
+
         return new Response(
-          JSON.stringify({
-            isProUser: false,
-            entitlements: [],
-          } as CheckSubscriptionResponse),
+          JSON.stringify(freeResult),
           {
             status: 200,
             headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
@@ -91,12 +137,15 @@ Deno.serve(async (req) => {
     const isProUser = activeEntitlements.includes('pro');
     const proEntitlement = entitlements['pro'];
 
+    const result: CheckSubscriptionResponse = {
+      isProUser,
+      entitlements: activeEntitlements,
+      expiresDate: proEntitlement?.expires_date || undefined,
+    };
+    await saveSubscriptionState(user.id, result, timezone);
+
     return new Response(
-      JSON.stringify({
-        isProUser,
-        entitlements: activeEntitlements,
-        expiresDate: proEntitlement?.expires_date || undefined,
-      } as CheckSubscriptionResponse),
+      JSON.stringify(result),
       {
         status: 200,
         headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
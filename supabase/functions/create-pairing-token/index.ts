@@ -0,0 +1,126 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.91.1';
+
+// How long the QR on the code screen stays valid; the app refreshes it before then
+const PAIRING_TOKEN_TTL_SECONDS = 5 * 60;
+
+function base64UrlEncode(data: Uint8Array): string {
+  const base64 = btoa(String.fromCharCode(...data));
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
+}
+
+async function signPairingToken(payload: { jti: string; exp: number }, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(encodedPayload));
+  return `${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Issues a single-use pairing token for the caller's active account code. validate-account-code
+// checks the signature and claims the token's row, so a scanned QR pairs exactly one device.
+Deno.serve(async (req) => {
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const pairingSecret = Deno.env.get('PAIRING_TOKEN_SECRET');
+    if (!pairingSecret) {
+      throw new Error('Missing PAIRING_TOKEN_SECRET');
+    }
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user } } = await authClient.auth.getUser();
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    const { data: accountCode, error: codeError } = await serviceClient
+      .from('account_codes')
+      .select('id, expires_at')
+      .eq('user_id', user.id)
+      .is('used_at', null)
+      .gt('expires_at', now.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (codeError) {
+      throw codeError;
+    }
+
+    if (!accountCode) {
+      return new Response(JSON.stringify({ error: 'No active account code' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Never outlive the account code it stands for
+    const expiresAt = new Date(
+      Math.min(now.getTime() + PAIRING_TOKEN_TTL_SECONDS * 1000, new Date(accountCode.expires_at).getTime())
+    );
+
+    // Unused tokens that have expired are of no further use
+    await serviceClient
+      .from('pairing_tokens')
+      .delete()
+      .eq('user_id', user.id)
+      .is('used_at', null)
+      .lt('expires_at', now.toISOString());
+
+    const { data: tokenRow, error: insertError } = await serviceClient
+      .from('pairing_tokens')
+      .insert({
+        user_id: user.id,
+        account_code_id: accountCode.id,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !tokenRow) {
+      throw insertError ?? new Error('Could not create pairing token');
+    }
+
+    const token = await signPairingToken(
+      { jti: tokenRow.id, exp: Math.floor(expiresAt.getTime() / 1000) },
+      pairingSecret
+    );
+
+    return new Response(JSON.stringify({ token, expiresAt: expiresAt.toISOString() }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
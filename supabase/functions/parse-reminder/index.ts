@@ -13,8 +13,10 @@ const JSON_HEADERS = {
   'Access-Control-Allow-Origin': '*',
 };
 
-const ALLOWED_NOTIFY_MINUTES = new Set([0, 5, 15, 30, 60]);
+const ALLOWED_NOTIFY_MINUTES = new Set([0, 5, 15, 30, 60, 120, 1440, 2880, 10080]);
+const MAX_NOTIFY_OFFSETS = 5;
 const ALLOWED_FREQUENCY_UNITS = new Set(['days', 'weeks', 'months', 'years']);
+const DAY_VALUES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
 
 function jsonResponse(body: unknown, status: number = 200) {
   return new Response(JSON.stringify(body), {
@@ -61,12 +63,13 @@ function getPseudoLocalNow(currentTimeIso: string | undefined, timezoneOffset: n
   return new Date(utcNow.getTime() - timezoneOffset * 60000);
 }
 
-function sanitizeNotifyMinutes(input: unknown): number {
-  const parsed = Number(input);
-  if (Number.isFinite(parsed) && ALLOWED_NOTIFY_MINUTES.has(parsed)) {
-    return parsed;
-  }
-  return 0;
+// Earliest alert first; a lone notify_before_minutes from older prompts still counts
+function sanitizeNotifyOffsets(input: unknown, legacyMinutes: unknown): number[] {
+  const candidates = Array.isArray(input) ? input : [legacyMinutes];
+  const offsets = Array.from(
+    new Set(candidates.map(Number).filter((value) => ALLOWED_NOTIFY_MINUTES.has(value)))
+  ).sort((a, b) => b - a);
+  return offsets.length > 0 ? offsets.slice(0, MAX_NOTIFY_OFFSETS) : [0];
 }
 
 function sanitizeRecurringRule(rule: unknown) {
@@ -81,22 +84,57 @@ function sanitizeRecurringRule(rule: unknown) {
     : '';
   const frequencyUnit = ALLOWED_FREQUENCY_UNITS.has(unitCandidate) ? unitCandidate : 'days';
 
+  // Accept 0-6, 'mon' or 'monday'; the app stores 'sun'..'sat'
   const selectedDaysRaw = Array.isArray(recurring.selected_days) ? recurring.selected_days : [];
-  const selectedDays = selectedDaysRaw
-    .map((day) => Number(day))
-    .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+  const selectedDays = DAY_VALUES.filter((value, index) =>
+    selectedDaysRaw.some((day) =>
+      typeof day === 'number'
+        ? day === index
+        : typeof day === 'string' && (day.trim() === String(index) || day.trim().toLowerCase().slice(0, 3) === value)
+    )
+  );
 
   const nameRaw = typeof recurring.name === 'string' ? recurring.name.trim() : '';
   const name = nameRaw.length > 0 ? nameRaw : `Every ${frequency} ${frequencyUnit}`;
 
+  const countRaw = Math.floor(Number(recurring.count));
+  const count = Number.isFinite(countRaw) && countRaw > 0 ? countRaw : null;
+
+  const untilRaw = typeof recurring.until === 'string' ? new Date(recurring.until) : null;
+  // UNTIL and COUNT are mutually exclusive in RFC 5545
+  const until = !count && untilRaw && !Number.isNaN(untilRaw.getTime()) ? untilRaw.toISOString() : null;
+
+  const exdatesRaw = Array.isArray(recurring.exdates) ? recurring.exdates : [];
+  const exdates = exdatesRaw
+    .filter((date): date is string => typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date))
+    .filter((date) => !Number.isNaN(new Date(`${date}T00:00:00Z`).getTime()));
+
   return {
     name,
     frequency,
     frequency_unit: frequencyUnit,
     selected_days: selectedDays,
+    by_month_day: sanitizeIntegerList(recurring.by_month_day, 31),
+    by_set_pos: sanitizeIntegerList(recurring.by_set_pos, 5),
+    until,
+    count,
+    exdates: Array.from(new Set(exdates)).sort(),
   };
 }
 
+// Non-zero integers within [-limit, limit]; negatives count from the end of the period.
+function sanitizeIntegerList(values: unknown, limit: number): number[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+
+  const parsed = values
+    .map((value) => Number(value))
+    .filter((value) => Number.isInteger(value) && value !== 0 && Math.abs(value) <= limit);
+
+  return Array.from(new Set(parsed)).sort((a, b) => a - b);
+}
+
 function normalizeReminderText(text: string): string {
   return text
     .replace(/\b(remind me( to)?|set (a )?reminder( to)?|don't forget( to)?|can you remind me( to)?|please)\b/gi, ' ')
@@ -164,12 +202,52 @@ function sanitizeDescriptionText(candidate: string, sourceText: string, title: s
   return `${clamped.charAt(0).toUpperCase()}${clamped.slice(1)}`;
 }
 
+// Prefer the user's existing tag spelling; otherwise a short title-cased new tag name.
+function sanitizeTag(candidate: unknown, existingTags: string[]): string | null {
+  if (typeof candidate !== 'string') {
+    return null;
+  }
+
+  const words = extractWords(candidate).slice(0, 3);
+  if (words.length === 0) {
+    return null;
+  }
+
+  const name = words.join(' ');
+  const existing = existingTags.find((tag) => tag.toLowerCase() === name.toLowerCase());
+  return existing ?? toTitleCase(name).slice(0, 32);
+}
+
+// "when I get home" -> { event: 'arrive', place: 'Home' }, matched to the user's saved place names.
+function sanitizeLocationTrigger(candidate: unknown, savedPlaces: string[]) {
+  if (typeof candidate !== 'object' || !candidate) {
+    return null;
+  }
+
+  const trigger = candidate as Record<string, unknown>;
+  const event = trigger.event === 'arrive' || trigger.event === 'leave' ? trigger.event : null;
+  if (!event || typeof trigger.place !== 'string') {
+    return null;
+  }
+
+  const words = extractWords(trigger.place.replace(/^\s*(my|the)\s+/i, '')).slice(0, 4);
+  if (words.length === 0) {
+    return null;
+  }
+
+  const name = words.join(' ');
+  const saved = savedPlaces.find((place) => place.toLowerCase() === name.toLowerCase());
+  return { event, place: saved ?? toTitleCase(name).slice(0, 40) };
+}
+
 function sanitizeReminder(
   reminder: unknown,
   fallbackTitle: string,
   fallbackSchedule: string,
   timezoneOffset: number,
-  sourceText: string
+  sourceText: string,
+  existingTags: string[],
+  savedPlaces: string[]
 ) {
   const reminderObj = typeof reminder === 'object' && reminder ? (reminder as Record<string, unknown>) : {};
 
@@ -211,8 +289,10 @@ function sanitizeReminder(
     scheduled_time: scheduledTime,
     description,
     is_priority: Boolean(reminderObj.is_priority),
-    notify_before_minutes: sanitizeNotifyMinutes(reminderObj.notify_before_minutes),
+    notify_offsets: sanitizeNotifyOffsets(reminderObj.notify_offsets, reminderObj.notify_before_minutes),
     recurring_rule: sanitizeRecurringRule(reminderObj.recurring_rule),
+    tag: sanitizeTag(reminderObj.tag, existingTags),
+    location_trigger: sanitizeLocationTrigger(reminderObj.location_trigger, savedPlaces),
   };
 }
 
@@ -220,7 +300,9 @@ async function parseTextWithAI(
   text: string,
   currentTimeIso: string | undefined,
   timezoneOffset: number,
-  openaiKey: string
+  openaiKey: string,
+  existingTags: string[],
+  savedPlaces: string[]
 ) {
   const pseudoLocalNow = getPseudoLocalNow(currentTimeIso, timezoneOffset);
   const timezone = formatTimezoneOffset(timezoneOffset);
@@ -247,8 +329,10 @@ Return ONLY valid JSON with one of these shapes:
       "scheduled_time": "ISO-8601 datetime with timezone offset",
       "description": "required short notes",
       "is_priority": false,
-      "notify_before_minutes": 0,
-      "recurring_rule": null
+      "notify_offsets": [0],
+      "recurring_rule": null,
+      "tag": null,
+      "location_trigger": null
     }
   ]
 }
@@ -256,7 +340,7 @@ Return ONLY valid JSON with one of these shapes:
 Rules:
 - If the user is not asking to create reminders, return type "conversation".
 - If the user includes multiple distinct tasks, return multiple entries in reminders.
-- allowed notify_before_minutes: 0, 5, 15, 30, 60.
+- notify_offsets lists when to alert, in minutes before scheduled_time (0 = at the time). Allowed values: 0, 5, 15, 30, 60, 120, 1440 (1 day), 2880 (2 days), 10080 (1 week); at most 5. "Remind me a day before and an hour before" → [1440, 60]. Default [0].
 - scheduled_time must include timezone information.
 - Use CURRENT_TIME as the reference.
 - If time is missing, set scheduled_time to CURRENT_TIME + 10 minutes.
@@ -264,8 +348,28 @@ Rules:
 - Description MUST be 5-8 words.
 - Description must add useful context and not just repeat title.
 - Do not copy the full user prompt verbatim.
-- recurring_rule can be null or:
-  { "name": string, "frequency": number, "frequency_unit": "days"|"weeks"|"months"|"years", "selected_days": number[] }.
+- recurring_rule can be null or (RFC 5545 RRULE subset):
+  {
+    "name": string,
+    "frequency": number,
+    "frequency_unit": "days"|"weeks"|"months"|"years",
+    "selected_days": ("sun"|"mon"|"tue"|"wed"|"thu"|"fri"|"sat")[],
+    "by_month_day": number[] (1-31, -1 = last day of month),
+    "by_set_pos": number[] (1-5 or -1 = last; picks the Nth matching day per month),
+    "until": ISO-8601 datetime or null,
+    "count": number or null (total occurrences; use either until or count),
+    "exdates": "YYYY-MM-DD"[] (dates to skip)
+  }
+  Examples: "last Friday of every month" -> frequency_unit "months", selected_days ["fri"], by_set_pos [-1].
+  "on the 1st and 15th" -> frequency_unit "months", by_month_day [1, 15].
+  "every weekday until June 30" -> frequency_unit "weeks", selected_days ["mon","tue","wed","thu","fri"], until set.
+- tag is null or a 1-3 word list name the user gave the task, e.g. "for work" -> "Work",
+  "add to my groceries list" -> "Groceries". Reuse the matching name from EXISTING_TAGS when there is one.
+  Do not invent a tag when the user didn't mention one.
+- location_trigger is null or { "event": "arrive"|"leave", "place": string } when the reminder is tied to
+  reaching or leaving a place instead of a time, e.g. "when I get home" -> { "event": "arrive", "place": "Home" },
+  "when I leave the office" -> { "event": "leave", "place": "Office" }. Reuse the matching name from
+  SAVED_PLACES when there is one. With a location_trigger and no time mentioned, keep the default scheduled_time.
 
 Return JSON only, no markdown.`;
 
@@ -274,6 +378,8 @@ Return JSON only, no markdown.`;
     current_time: toIsoWithOffset(pseudoLocalNow, timezoneOffset),
     timezone_offset_minutes: timezoneOffset,
     timezone,
+    existing_tags: existingTags,
+    saved_places: savedPlaces,
   });
 
   const response = await fetch(OPENAI_API_URL, {
@@ -321,7 +427,7 @@ Return JSON only, no markdown.`;
       : [];
 
   const reminders = (remindersRaw.length > 0 ? remindersRaw : [{}]).map((item) =>
-    sanitizeReminder(item, fallbackTitle, fallbackSchedule, timezoneOffset, text)
+    sanitizeReminder(item, fallbackTitle, fallbackSchedule, timezoneOffset, text, existingTags, savedPlaces)
   );
 
   return {
@@ -388,8 +494,31 @@ Deno.serve(async (req) => {
     ? timezoneOffsetCandidate
     : 0;
 
+  // Existing tags let the model reuse the user's names; parsing still works without them
+  const { data: tagRows } = await supabase.from('reminder_tags').select('name');
+  const existingTags = (tagRows ?? [])
+    .map((row: { name: unknown }) => row.name)
+    .filter((name): name is string => typeof name === 'string');
+
+  // Saved place names, so "when I get home" resolves to the user's "Home"
+  const { data: preferenceRow } = await supabase
+    .from('user_preferences')
+    .select('saved_places')
+    .eq('user_id', userData.user.id)
+    .maybeSingle();
+  const savedPlaces = (Array.isArray(preferenceRow?.saved_places) ? preferenceRow.saved_places : [])
+    .map((place: { name?: unknown }) => place?.name)
+    .filter((name): name is string => typeof name === 'string');
+
   try {
-    const result = await parseTextWithAI(text, payload.current_time, timezoneOffset, openaiKey);
+    const result = await parseTextWithAI(
+      text,
+      payload.current_time,
+      timezoneOffset,
+      openaiKey,
+      existingTags,
+      savedPlaces
+    );
     return jsonResponse(result, 200);
   } catch (error) {
     const details = error instanceof Error ? error.message : 'Unknown parser error';
@@ -0,0 +1,285 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.91.1';
+import {
+  createPushDelivery,
+  getExpoTicketOutcome,
+  getExpoTickets,
+  getFcmErrorCode,
+  recordPushDeliveries,
+  type PushDelivery,
+  type PushOutcome,
+} from '../_shared/pushDeliveries.ts';
+import { createAccessToken } from '../_shared/fcmAuth.ts';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+type PushToken = {
+  token: string;
+  user_id: string;
+  device_id?: string | null;
+  platform?: string | null;
+  token_type?: string | null;
+};
+
+type DeviceRow = {
+  id: string;
+  session_id: string | null;
+};
+
+type ExpoPushMessage = {
+  to: string;
+  data?: Record<string, unknown>;
+  contentAvailable?: boolean;
+  priority?: 'default' | 'normal' | 'high';
+};
+
+type FcmPushMessage = {
+  to: string;
+  data: Record<string, string>;
+  priority: 'high' | 'normal';
+};
+
+// Signs one of the caller's devices out: a silent push tells it to wipe its local data, then its
+// session is revoked and its push tokens, notification schedules and devices row are deleted
+// (sync history goes with the devices row).
+async function sendDeviceRemovedPush(
+  supabase: SupabaseClient,
+  tokens: PushToken[],
+  deviceId: string
+): Promise<number> {
+  const data = { type: 'device_removed', deviceId };
+  const expoMessages: ExpoPushMessage[] = [];
+  const fcmMessages: FcmPushMessage[] = [];
+
+  const tokensByValue = new Map(tokens.map((token) => [token.token, token]));
+  const deliveryRows: PushDelivery[] = [];
+  const logDelivery = (message: ExpoPushMessage | FcmPushMessage, provider: PushDelivery['provider'], outcome: PushOutcome) => {
+    const token = tokensByValue.get(message.to);
+    if (token) deliveryRows.push(createPushDelivery(token, provider, 'device_removed', outcome));
+  };
+
+  for (const token of tokens) {
+    const isAndroid = token.platform === 'android';
+    const tokenType = token.token_type;
+    const looksLikeExpo = token.token.startsWith('ExponentPushToken[') || token.token.startsWith('ExpoPushToken[');
+
+    if (isAndroid && (tokenType === 'fcm' || (!tokenType && !looksLikeExpo))) {
+      fcmMessages.push({
+        to: token.token,
+        data,
+        priority: 'high',
+      });
+    } else {
+      expoMessages.push({
+        to: token.token,
+        data,
+        contentAvailable: true,
+        priority: 'high',
+      });
+    }
+  }
+
+  let sent = 0;
+
+  if (expoMessages.length > 0) {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'Accept-Encoding': 'gzip, deflate',
+      },
+      body: JSON.stringify(expoMessages),
+    });
+
+    if (response.ok) {
+      const result = await response.json();
+      getExpoTickets(result).forEach((ticket, idx) => {
+        const outcome = getExpoTicketOutcome(ticket);
+        if (outcome.status === 'sent') sent += 1;
+        if (expoMessages[idx]) logDelivery(expoMessages[idx], 'expo', outcome);
+      });
+    } else {
+      const errorText = await response.text();
+      expoMessages.forEach((message) =>
+        logDelivery(message, 'expo', {
+          status: 'failed',
+          error_code: `HTTP ${response.status}`,
+          error_message: errorText.slice(0, 500),
+        })
+      );
+    }
+  }
+
+  const fcmProjectId = Deno.env.get('FCM_PROJECT_ID');
+  const fcmClientEmail = Deno.env.get('FCM_CLIENT_EMAIL');
+  const fcmPrivateKeyRaw = Deno.env.get('FCM_PRIVATE_KEY');
+  // Without FCM credentials the device is still signed out, it just keeps its local data
+  if (fcmMessages.length > 0 && fcmProjectId && fcmClientEmail && fcmPrivateKeyRaw) {
+    const fcmPrivateKey = fcmPrivateKeyRaw.replace(/\\n/g, '\n');
+    const accessToken = await createAccessToken(fcmClientEmail, fcmPrivateKey);
+    const fcmUrl = `https://fcm.googleapis.com/v1/projects/${fcmProjectId}/messages:send`;
+
+    for (const message of fcmMessages) {
+      const response = await fetch(fcmUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          message: {
+            token: message.to,
+            data: message.data,
+            android: {
+              priority: message.priority === 'high' ? 'HIGH' : 'NORMAL',
+            },
+          },
+        }),
+      });
+
+      if (response.ok) {
+        sent += 1;
+        logDelivery(message, 'fcm', { status: 'sent' });
+      } else {
+        const errorText = await response.text();
+        logDelivery(message, 'fcm', {
+          status: 'failed',
+          error_code: getFcmErrorCode(errorText) ?? `HTTP ${response.status}`,
+          error_message: errorText.slice(0, 500),
+        });
+      }
+    }
+  }
+
+  // Logged before the devices row goes; the log keeps the push with its device cleared
+  await recordPushDeliveries(supabase, deliveryRows);
+  return sent;
+}
+
+Deno.serve(async (req) => {
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user } } = await authClient.auth.getUser();
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const deviceId = typeof body?.deviceId === 'string' ? body.deviceId : null;
+    if (!deviceId) {
+      return new Response(JSON.stringify({ error: 'Missing deviceId' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: device, error: deviceError } = await serviceClient
+      .from('devices')
+      .select('id, session_id')
+      .eq('user_id', user.id)
+      .eq('id', deviceId)
+      .maybeSingle();
+
+    if (deviceError) {
+      throw deviceError;
+    }
+
+    if (!device) {
+      return new Response(JSON.stringify({ error: 'Device not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: tokens, error: tokensError } = await serviceClient
+      .from('push_tokens')
+      .select('token, user_id, device_id, platform, token_type')
+      .eq('user_id', user.id)
+      .eq('device_id', deviceId);
+
+    if (tokensError) {
+      throw tokensError;
+    }
+
+    // Push first: once the tokens are gone the device can't be reached
+    const pushed = await sendDeviceRemovedPush(serviceClient, (tokens as PushToken[]) || [], deviceId).catch(() => 0);
+
+    const { session_id: sessionId } = device as DeviceRow;
+    if (sessionId) {
+      const { error: revokeError } = await serviceClient.rpc('revoke_device_session', {
+        p_user_id: user.id,
+        p_session_id: sessionId,
+      });
+
+      if (revokeError) {
+        throw revokeError;
+      }
+    }
+
+    const { error: deleteTokensError } = await serviceClient
+      .from('push_tokens')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('device_id', deviceId);
+
+    if (deleteTokensError) {
+      throw deleteTokensError;
+    }
+
+    const { error: deleteSchedulesError } = await serviceClient
+      .from('notification_schedules')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('device_id', deviceId);
+
+    if (deleteSchedulesError) {
+      throw deleteSchedulesError;
+    }
+
+    const { error: deleteDeviceError } = await serviceClient
+      .from('devices')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('id', deviceId);
+
+    if (deleteDeviceError) {
+      throw deleteDeviceError;
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Device removed', sessionRevoked: Boolean(sessionId), pushed }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,506 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.91.1';
+import {
+  createPushDelivery,
+  getExpoTicketOutcome,
+  getExpoTickets,
+  getFcmErrorCode,
+  recordPushDeliveries,
+  type PushDelivery,
+  type PushOutcome,
+} from '../_shared/pushDeliveries.ts';
+import { createAccessToken } from '../_shared/fcmAuth.ts';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+// A digest still goes out if a run comes up to this long after its time
+const SEND_WINDOW_MINUTES = 60;
+// Titles listed per line before "+N more"
+const MAX_DIGEST_TITLES = 3;
+
+type DigestSlot = 'morning' | 'evening';
+
+interface Reminder {
+  id: string;
+  user_id: string;
+  title: string;
+  scheduled_time: string;
+  is_priority: boolean;
+}
+
+interface DigestPreferences {
+  user_id: string;
+  daily_digest_morning_time: string | null;
+  daily_digest_evening_time: string | null;
+}
+
+interface UserSubscription {
+  user_id: string;
+  timezone: string | null;
+}
+
+interface PushToken {
+  token: string;
+  user_id: string;
+  platform?: string | null;
+  token_type?: string | null;
+  device_id?: string | null;
+}
+
+// A digest due in this run
+interface DueDigest {
+  userId: string;
+  slot: DigestSlot;
+  // The user's local day it is sent on, YYYY-MM-DD
+  localDate: string;
+  // The local day it covers: the same day in the morning, the next in the evening
+  coversDate: string;
+  timeZone: string;
+  title: string;
+  body: string;
+}
+
+// Digests go out as silent pushes: the app shows one only if it hasn't shown its own local
+// digest for that slot and day (handleDailyDigestPush in lib/dailyDigest.ts)
+interface ExpoPushMessage {
+  to: string;
+  data: Record<string, unknown>;
+  contentAvailable: true;
+  priority: 'high';
+  key: string;
+}
+
+interface FcmPushMessage {
+  to: string;
+  data: Record<string, string>;
+  key: string;
+}
+
+function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value ?? '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// Local date (YYYY-MM-DD) and minutes since local midnight in the user's timezone
+function getLocalDateTime(date: Date, timeZone: string): { date: string; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    return getLocalDateTime(date, 'UTC');
+  }
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+function addDays(localDate: string, days: number): string {
+  const date = new Date(`${localDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function listTitles(reminders: Reminder[]): string {
+  const listed = reminders.slice(0, MAX_DIGEST_TITLES).map((reminder) => reminder.title).join(', ');
+  const more = reminders.length - MAX_DIGEST_TITLES;
+  return more > 0 ? `${listed} +${more} more` : listed;
+}
+
+// Same wording as the app's local digest (lib/dailyDigest.ts)
+function buildDigest(
+  slot: DigestSlot,
+  dayReminders: Reminder[],
+  overdue: Reminder[]
+): { title: string; body: string } | null {
+  const dayIds = new Set(dayReminders.map((reminder) => reminder.id));
+  const overdueReminders = overdue.filter((reminder) => !dayIds.has(reminder.id));
+  if (dayReminders.length === 0 && overdueReminders.length === 0) return null;
+
+  const sorted = [...dayReminders].sort((a, b) => Number(b.is_priority) - Number(a.is_priority));
+  const day = slot === 'morning' ? 'Today' : 'Tomorrow';
+  const priorityCount = [...sorted, ...overdueReminders].filter((reminder) => reminder.is_priority).length;
+  const count = sorted.length === 0
+    ? 'nothing scheduled'
+    : `${sorted.length} reminder${sorted.length === 1 ? '' : 's'}`;
+  const title = `${day}: ${count}${priorityCount > 0 ? `, ${priorityCount} priority` : ''}`;
+
+  const lines: string[] = [];
+  if (sorted.length > 0) lines.push(listTitles(sorted));
+  if (overdueReminders.length > 0) lines.push(`Overdue: ${listTitles(overdueReminders)}`);
+
+  return { title, body: lines.join('\n') };
+}
+
+Deno.serve(async (req) => {
+  try {
+    // Verify the request is authorized (using service role key from cron)
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Devices schedule the digests locally; the push covers devices that didn't.
+    if (Deno.env.get('DAILY_DIGEST_PUSH_ENABLED') !== 'true') {
+      return new Response(
+        JSON.stringify({ message: 'Digest pushes disabled (local scheduling enabled)', sent: 0 }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+
+    // 1. Users with a digest turned on
+    const { data: preferences, error: prefsError } = await supabase
+      .from('user_preferences')
+      .select('user_id, daily_digest_morning_time, daily_digest_evening_time')
+      .or('daily_digest_morning_time.not.is.null,daily_digest_evening_time.not.is.null');
+
+    if (prefsError) {
+      throw prefsError;
+    }
+
+    const digestPrefs = (preferences as DigestPreferences[]) || [];
+    if (digestPrefs.length === 0) {
+      return new Response(JSON.stringify({ message: 'No digests enabled', sent: 0 }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // 2. Digest times are in the user's local time, as last reported by the app
+    const { data: subscriptions } = await supabase
+      .from('user_subscriptions')
+      .select('user_id, timezone')
+      .in('user_id', digestPrefs.map((pref) => pref.user_id));
+
+    const timezoneByUser = new Map<string, string>();
+    (subscriptions as UserSubscription[] || []).forEach((subscription) => {
+      if (subscription.timezone) timezoneByUser.set(subscription.user_id, subscription.timezone);
+    });
+
+    // 3. Digests whose time has come today and that haven't gone out yet
+    const candidates: Omit<DueDigest, 'title' | 'body'>[] = [];
+    for (const pref of digestPrefs) {
+      const timeZone = timezoneByUser.get(pref.user_id) || 'UTC';
+      const local = getLocalDateTime(now, timeZone);
+      const slots: Array<[DigestSlot, string | null]> = [
+        ['morning', pref.daily_digest_morning_time],
+        ['evening', pref.daily_digest_evening_time],
+      ];
+      for (const [slot, time] of slots) {
+        const minutes = parseTimeOfDay(time);
+        if (minutes === null || local.minutes < minutes || local.minutes >= minutes + SEND_WINDOW_MINUTES) continue;
+        candidates.push({
+          userId: pref.user_id,
+          slot,
+          localDate: local.date,
+          coversDate: slot === 'morning' ? local.date : addDays(local.date, 1),
+          timeZone,
+        });
+      }
+    }
+
+    const getDigestKey = (digest: { userId: string; slot: string; localDate: string }) =>
+      `${digest.userId}:${digest.slot}:${digest.localDate}`;
+
+    const candidateUserIds = Array.from(new Set(candidates.map((candidate) => candidate.userId)));
+    const sentKeys = new Set<string>();
+    if (candidateUserIds.length > 0) {
+      const { data: sends, error: sendsError } = await supabase
+        .from('daily_digest_sends')
+        .select('user_id, slot, local_date')
+        .in('user_id', candidateUserIds)
+        .in('local_date', Array.from(new Set(candidates.map((candidate) => candidate.localDate))));
+
+      if (sendsError) {
+        throw sendsError;
+      }
+
+      (sends || []).forEach((send: { user_id: string; slot: string; local_date: string }) => {
+        sentKeys.add(getDigestKey({ userId: send.user_id, slot: send.slot, localDate: send.local_date }));
+      });
+    }
+
+    const pending = candidates.filter((candidate) => !sentKeys.has(getDigestKey(candidate)));
+    if (pending.length === 0) {
+      return new Response(JSON.stringify({ message: 'No digests due', sent: 0 }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // 4. Reminders for the covered days and everything overdue. A few days either side of now
+    // covers today and tomorrow in every timezone; each digest keeps its own local day.
+    const pendingUserIds = Array.from(new Set(pending.map((digest) => digest.userId)));
+    const { data: upcoming, error: upcomingError } = await supabase
+      .from('reminders')
+      .select('id, user_id, title, scheduled_time, is_priority')
+      .in('user_id', pendingUserIds)
+      .is('deleted_at', null)
+      .or('status.is.null,status.neq.completed')
+      .eq('trigger_type', 'time')
+      .gte('scheduled_time', new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString())
+      .lt('scheduled_time', new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000).toISOString())
+      .order('scheduled_time', { ascending: true });
+
+    if (upcomingError) {
+      throw upcomingError;
+    }
+
+    // Same as getOverdueReminders in the app: notified but not completed
+    const { data: overdue, error: overdueError } = await supabase
+      .from('reminders')
+      .select('id, user_id, title, scheduled_time, is_priority')
+      .in('user_id', pendingUserIds)
+      .is('deleted_at', null)
+      .not('notified_at', 'is', null)
+      .or('status.is.null,status.neq.completed')
+      .order('notified_at', { ascending: false });
+
+    if (overdueError) {
+      throw overdueError;
+    }
+
+    const groupByUser = (reminders: Reminder[]) => {
+      const byUser = new Map<string, Reminder[]>();
+      reminders.forEach((reminder) => {
+        const list = byUser.get(reminder.user_id) || [];
+        list.push(reminder);
+        byUser.set(reminder.user_id, list);
+      });
+      return byUser;
+    };
+    const upcomingByUser = groupByUser((upcoming as Reminder[]) || []);
+    const overdueByUser = groupByUser((overdue as Reminder[]) || []);
+
+    const dueDigests: DueDigest[] = [];
+    for (const digest of pending) {
+      const dayReminders = (upcomingByUser.get(digest.userId) || []).filter(
+        (reminder) => getLocalDateTime(new Date(reminder.scheduled_time), digest.timeZone).date === digest.coversDate
+      );
+      const content = buildDigest(digest.slot, dayReminders, overdueByUser.get(digest.userId) || []);
+      if (content) dueDigests.push({ ...digest, ...content });
+    }
+
+    // 5. Claim the digests before sending, so overlapping runs don't both send one.
+    // Nothing to report also counts as sent for the day.
+    const { data: claimed, error: claimError } = await supabase
+      .from('daily_digest_sends')
+      .upsert(
+        pending.map((digest) => ({ user_id: digest.userId, slot: digest.slot, local_date: digest.localDate })),
+        { onConflict: 'user_id,slot,local_date', ignoreDuplicates: true }
+      )
+      .select('user_id, slot, local_date');
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    const claimedKeys = new Set(
+      (claimed || []).map((send: { user_id: string; slot: string; local_date: string }) =>
+        getDigestKey({ userId: send.user_id, slot: send.slot, localDate: send.local_date })
+      )
+    );
+    const digestsToSend = dueDigests.filter((digest) => claimedKeys.has(getDigestKey(digest)));
+
+    if (digestsToSend.length === 0) {
+      return new Response(JSON.stringify({ message: 'No digests to send', sent: 0 }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // 6. Fetch push tokens, de-duping by token (prefer records with a platform set)
+    const { data: tokens, error: tokensError } = await supabase
+      .from('push_tokens')
+      .select('token, user_id, platform, token_type, device_id')
+      .in('user_id', Array.from(new Set(digestsToSend.map((digest) => digest.userId))));
+
+    if (tokensError) {
+      throw tokensError;
+    }
+
+    const dedupedTokens = new Map<string, PushToken>();
+    ((tokens as PushToken[]) || []).forEach((t) => {
+      const existing = dedupedTokens.get(t.token);
+      if (!existing || (!existing.platform && t.platform)) {
+        dedupedTokens.set(t.token, t);
+      }
+    });
+    const tokensByUser = new Map<string, PushToken[]>();
+    Array.from(dedupedTokens.values()).forEach((t) => {
+      const existing = tokensByUser.get(t.user_id) || [];
+      existing.push(t);
+      tokensByUser.set(t.user_id, existing);
+    });
+
+    // 7. Build push messages
+    const messages: ExpoPushMessage[] = [];
+    const fcmMessages: FcmPushMessage[] = [];
+    for (const digest of digestsToSend) {
+      const key = getDigestKey(digest);
+      const data = {
+        type: 'daily_digest',
+        slot: digest.slot,
+        localDate: digest.localDate,
+        title: digest.title,
+        body: digest.body,
+      };
+
+      for (const token of tokensByUser.get(digest.userId) || []) {
+        const isAndroid = token.platform === 'android';
+        const tokenType = token.token_type;
+        const looksLikeExpo = token.token.startsWith('ExponentPushToken[') || token.token.startsWith('ExpoPushToken[');
+
+        if (isAndroid && (tokenType === 'fcm' || (!tokenType && !looksLikeExpo))) {
+          fcmMessages.push({ to: token.token, data, key });
+        } else {
+          messages.push({ to: token.token, data, contentAvailable: true, priority: 'high', key });
+        }
+      }
+    }
+
+    const deliveredKeys = new Set<string>();
+    const deliveryRows: PushDelivery[] = [];
+    const logDelivery = (message: ExpoPushMessage | FcmPushMessage, provider: PushDelivery['provider'], outcome: PushOutcome) => {
+      const token = dedupedTokens.get(message.to);
+      if (token) deliveryRows.push(createPushDelivery(token, provider, 'daily_digest', outcome));
+    };
+
+    // 8. Send notifications to Expo Push API
+    if (messages.length > 0) {
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Accept-Encoding': 'gzip, deflate',
+        },
+        body: JSON.stringify(messages.map(({ key: _key, ...message }) => message)),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        messages.forEach((message) =>
+          logDelivery(message, 'expo', {
+            status: 'failed',
+            error_code: `HTTP ${response.status}`,
+            error_message: errorText.slice(0, 500),
+          })
+        );
+      } else {
+        const result = await response.json();
+        getExpoTickets(result).forEach((ticket, idx) => {
+          const message = messages[idx];
+          if (!message) return;
+          const outcome = getExpoTicketOutcome(ticket);
+          if (outcome.status === 'sent') deliveredKeys.add(message.key);
+          logDelivery(message, 'expo', outcome);
+        });
+      }
+    }
+
+    // 8.5. Send notifications to FCM HTTP v1
+    if (fcmMessages.length > 0) {
+      const fcmProjectId = Deno.env.get('FCM_PROJECT_ID');
+      const fcmClientEmail = Deno.env.get('FCM_CLIENT_EMAIL');
+      const fcmPrivateKeyRaw = Deno.env.get('FCM_PRIVATE_KEY');
+      if (!fcmProjectId || !fcmClientEmail || !fcmPrivateKeyRaw) {
+        throw new Error('Missing FCM_PROJECT_ID, FCM_CLIENT_EMAIL, or FCM_PRIVATE_KEY');
+      }
+      const fcmPrivateKey = fcmPrivateKeyRaw.replace(/\\n/g, '\n');
+      const accessToken = await createAccessToken(fcmClientEmail, fcmPrivateKey);
+      const fcmUrl = `https://fcm.googleapis.com/v1/projects/${fcmProjectId}/messages:send`;
+
+      for (const message of fcmMessages) {
+        const response = await fetch(fcmUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify({
+            message: {
+              token: message.to,
+              data: message.data,
+              android: {
+                priority: 'HIGH',
+              },
+            },
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          logDelivery(message, 'fcm', {
+            status: 'failed',
+            error_code: getFcmErrorCode(errorText) ?? `HTTP ${response.status}`,
+            error_message: errorText.slice(0, 500),
+          });
+          continue;
+        }
+
+        const result = await response.json();
+        if (result?.name) {
+          deliveredKeys.add(message.key);
+          logDelivery(message, 'fcm', { status: 'sent' });
+        } else {
+          logDelivery(message, 'fcm', { status: 'failed', error_code: 'Unknown' });
+        }
+      }
+    }
+
+    // 8.8. Log deliveries and drop tokens of uninstalled apps
+    const prunedTokens = await recordPushDeliveries(supabase, deliveryRows);
+
+    // 9. Release claims whose pushes all failed so a later run in the window retries.
+    // Users without a device keep theirs; there is nothing to retry.
+    const failedDigests = digestsToSend.filter(
+      (digest) => tokensByUser.has(digest.userId) && !deliveredKeys.has(getDigestKey(digest))
+    );
+    for (const digest of failedDigests) {
+      await supabase
+        .from('daily_digest_sends')
+        .delete()
+        .eq('user_id', digest.userId)
+        .eq('slot', digest.slot)
+        .eq('local_date', digest.localDate);
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: 'Digest attempt finished',
+        sent: deliveredKeys.size,
+        failed: failedDigests.length,
+        digests: digestsToSend.length,
+        prunedTokens,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
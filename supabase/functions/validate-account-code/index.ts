@@ -1,14 +1,22 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.91.1';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.91.1';
 
 interface ValidateCodeRequest {
-  code: string;
+  // A typed account code, or the pairing token from the QR on the other device
+  code?: string;
+  pairingToken?: string;
   deviceId: string;
   deviceName?: string;
   platform?: string;
 }
 
+interface AccountSession {
+  access_token: string;
+  refresh_token: string;
+}
+
 interface ValidateCodeResponse {
   userId?: string;
+  session?: AccountSession;
   error?: string;
 }
 
@@ -20,6 +28,115 @@ interface DeviceSyncRecord {
   platform: string | null;
 }
 
+interface PairingTokenPayload {
+  jti: string;
+  exp: number;
+}
+
+// Failed attempts allowed per window before further ones are refused
+const RATE_LIMIT_WINDOW_MINUTES = 15;
+const MAX_FAILED_ATTEMPTS_PER_DEVICE = 5;
+const MAX_FAILED_ATTEMPTS_PER_IP = 20;
+
+function jsonResponse(body: ValidateCodeResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+// The platform's proxy appends the address it connected from to x-forwarded-for. Entries before it
+// come from the client and can be anything.
+function getClientIp(req: Request): string | null {
+  const hops = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - 1] ?? null;
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Check a token signed by create-pairing-token and return its payload, or null if the
+ * signature doesn't match or it has expired
+ */
+async function verifyPairingToken(token: string, secret: string): Promise<PairingTokenPayload | null> {
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as PairingTokenPayload;
+    if (typeof payload.jti !== 'string' || typeof payload.exp !== 'number') return null;
+    if (payload.exp * 1000 < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a session for the account from a magic link token. Returns null when the account has
+ * no email to create one for.
+ */
+async function createAccountSession(
+  supabase: SupabaseClient,
+  anonClient: SupabaseClient,
+  userId: string
+): Promise<AccountSession | null> {
+  const { data: userData, error: userError } = await supabase.auth.admin.getUserById(userId);
+  const email = userData?.user?.email;
+  if (userError || !email) return null;
+
+  const { data: linkData, error: linkError } = await supabase.auth.admin.generateLink({
+    type: 'magiclink',
+    email,
+  });
+  if (linkError || !linkData.properties?.hashed_token) {
+    throw linkError ?? new Error('Could not create a sign-in link');
+  }
+
+  const { data: otpData, error: otpError } = await anonClient.auth.verifyOtp({
+    token_hash: linkData.properties.hashed_token,
+    type: 'magiclink',
+  });
+  if (otpError || !otpData.session) {
+    throw otpError ?? new Error('Could not create a session');
+  }
+
+  return {
+    access_token: otpData.session.access_token,
+    refresh_token: otpData.session.refresh_token,
+  };
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -35,82 +152,156 @@ Deno.serve(async (req) => {
 
   try {
     // Parse request body
-    const { code, deviceId, deviceName, platform }: ValidateCodeRequest = await req.json();
+    const { code, pairingToken, deviceId, deviceName, platform }: ValidateCodeRequest = await req.json();
 
     // Validate required fields
-    if (!code || !deviceId) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: code and deviceId' } as ValidateCodeResponse),
-        {
-          status: 400,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
+    if ((!code && !pairingToken) || !deviceId) {
+      return jsonResponse({ error: 'Missing required fields: code or pairingToken, and deviceId' }, 400);
     }
 
     // Create Supabase client with service role key
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    const pairingSecret = Deno.env.get('PAIRING_TOKEN_SECRET');
 
-    if (!supabaseUrl || !supabaseServiceKey) {
-      return new Response(
-        JSON.stringify({ error: 'Server configuration error' } as ValidateCodeResponse),
-        {
-          status: 500,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
+    if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey || (pairingToken && !pairingSecret)) {
+      return jsonResponse({ error: 'Server configuration error' }, 500);
     }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const ipAddress = getClientIp(req);
 
-    // Look up the account code
-    const { data: codeData, error: codeError } = await supabase
-      .from('account_codes')
-      .select('id, user_id, expires_at')
-      .eq('code', code)
-      .single();
+    const recordAttempt = async (succeeded: boolean) => {
+      await supabase
+        .from('pairing_attempts')
+        .insert({ device_id: deviceId, ip_address: ipAddress, succeeded });
+    };
 
-    if (codeError || !codeData) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid account code' } as ValidateCodeResponse),
-        {
-          status: 400,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
+    // Refuse devices and addresses that keep guessing
+    const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000).toISOString();
+    const { count: deviceFailures } = await supabase
+      .from('pairing_attempts')
+      .select('id', { count: 'exact', head: true })
+      .eq('device_id', deviceId)
+      .eq('succeeded', false)
+      .gte('created_at', windowStart);
+
+    let ipFailures = 0;
+    if (ipAddress) {
+      const { count } = await supabase
+        .from('pairing_attempts')
+        .select('id', { count: 'exact', head: true })
+        .eq('ip_address', ipAddress)
+        .eq('succeeded', false)
+        .gte('created_at', windowStart);
+      ipFailures = count ?? 0;
+    }
+
+    if ((deviceFailures ?? 0) >= MAX_FAILED_ATTEMPTS_PER_DEVICE || ipFailures >= MAX_FAILED_ATTEMPTS_PER_IP) {
+      return jsonResponse({ error: 'Too many attempts. Try again in a few minutes.' }, 429);
+    }
+
+    let userId: string;
+    let accountCodeId: string;
+    // Puts the token or code back if no session comes of it, so a server failure doesn't use it up
+    let releaseClaim: () => Promise<void>;
+    const now = new Date().toISOString();
+
+    if (pairingToken) {
+      const payload = await verifyPairingToken(pairingToken, pairingSecret!);
+      if (!payload) {
+        await recordAttempt(false);
+        return jsonResponse({ error: 'Pairing code is invalid or has expired' }, 400);
+      }
+
+      // Claiming the row is what makes the token single-use
+      const { data: claimed, error: claimError } = await supabase
+        .from('pairing_tokens')
+        .update({ used_at: now, used_by_device_id: deviceId })
+        .eq('id', payload.jti)
+        .is('used_at', null)
+        .gt('expires_at', now)
+        .select('user_id, account_code_id')
+        .maybeSingle();
+
+      if (claimError || !claimed) {
+        await recordAttempt(false);
+        return jsonResponse({ error: 'Pairing code has already been used or has expired' }, 400);
+      }
+
+      userId = claimed.user_id;
+      accountCodeId = claimed.account_code_id;
+      releaseClaim = async () => {
+        await supabase
+          .from('pairing_tokens')
+          .update({ used_at: null, used_by_device_id: null })
+          .eq('id', payload.jti);
+      };
+    } else {
+      // Typed codes are used up the same way
+      const { data: codeData, error: codeError } = await supabase
+        .from('account_codes')
+        .update({ used_at: now })
+        .eq('code', code!.toUpperCase())
+        .is('used_at', null)
+        .gt('expires_at', now)
+        .select('id, user_id')
+        .maybeSingle();
+
+      if (codeError || !codeData) {
+        await recordAttempt(false);
+        return jsonResponse({ error: 'Invalid or expired account code' }, 400);
+      }
+
+      userId = codeData.user_id;
+      accountCodeId = codeData.id;
+      releaseClaim = async () => {
+        await supabase
+          .from('account_codes')
+          .update({ used_at: null })
+          .eq('id', codeData.id);
+      };
+    }
+
+    // Sign the new device in: a magic link token for the account, verified right away
+    const anonClient = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    let session: AccountSession | null;
+    try {
+      session = await createAccountSession(supabase, anonClient, userId);
+    } catch (error) {
+      await releaseClaim().catch(() => {});
+      throw error;
+    }
+
+    if (!session) {
+      await releaseClaim().catch(() => {});
+      return jsonResponse({ error: "This account can't be paired with a code" }, 400);
     }
 
-    // Check if code has expired
-    const expiresAt = new Date(codeData.expires_at);
-    const now = new Date();
+    await recordAttempt(true);
 
-    if (expiresAt < now) {
-      return new Response(
-        JSON.stringify({ error: 'Account code has expired' } as ValidateCodeResponse),
+    // The joining device gets a devices row under the account; sync history references it.
+    // If this fails, the device registers itself once signed in.
+    await supabase
+      .from('devices')
+      .upsert(
         {
-          status: 400,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
+          id: deviceId,
+          user_id: userId,
+          name: deviceName || null,
+          platform: platform || null,
+          last_seen_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,id' }
       );
-    }
 
     // Record the device sync
     const syncRecord: DeviceSyncRecord = {
-      user_id: codeData.user_id,
-      account_code_id: codeData.id,
+      user_id: userId,
+      account_code_id: accountCodeId,
       device_id: deviceId,
       device_name: deviceName || null,
       platform: platform || null,
@@ -124,29 +315,36 @@ Deno.serve(async (req) => {
       // Don't fail the request if sync recording fails
     }
 
-    // Return success with userId
-    return new Response(
-      JSON.stringify({ userId: codeData.user_id } as ValidateCodeResponse),
-      {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
+    // Let the account know a device joined it (shown in the in-app inbox)
+    const deviceLabel = deviceName || 'A new device';
+    const { error: notificationError } = await supabase
+      .from('app_notifications')
+      .insert({
+        user_id: userId,
+        category: 'sync',
+        title: 'New device synced',
+        description: `${deviceLabel}${platform ? ` (${platform})` : ''} joined your account ${pairingToken ? 'by scanning a QR code' : 'with a sync code'}`,
+        metadata: {
+          device: deviceName || undefined,
+          platform: platform || undefined,
         },
-      }
+      });
+
+    if (notificationError) {
+      // The inbox entry is informational; the sync still succeeded
+    }
+
+    return jsonResponse(
+      {
+        userId,
+        session,
+      },
+      200
     );
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : 'An unexpected error occurred',
-      } as ValidateCodeResponse),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      500
     );
   }
 });
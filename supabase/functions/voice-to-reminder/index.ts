@@ -4,6 +4,7 @@ interface VoiceRequest {
   audio?: string; // base64 encoded audio
   mimeType?: string; // audio/wav, audio/webm, etc.
   timezoneOffset?: number; // User's timezone offset in minutes (e.g., -480 for UTC+8)
+  transcribeOnly?: boolean; // Return the transcript without parsing reminders (voice note actions)
 }
 
 const OPENAI_API_URL = 'https://api.openai.com/v1';
@@ -275,7 +276,7 @@ OUTPUT FORMAT (always return a JSON object with a "reminders" array):
       "scheduled_time": "YYYY-MM-DDTHH:mm:ss${timezone}",
       "description": "Short context note (5-15 words). Never null.",
       "is_priority": false,
-      "notify_before_minutes": 0,
+      "notify_offsets": [0],
       "recurring_rule": null
     }
   ]
@@ -412,6 +413,7 @@ Deno.serve(async (req) => {
   let audioBase64: string | null = null;
   let mimeType: string | undefined;
   let timezoneOffset = 0;
+  let transcribeOnly = req.headers.get('x-transcribe-only') === 'true';
 
   if (contentType.includes('application/octet-stream')) {
     const bytes = new Uint8Array(await req.arrayBuffer());
@@ -453,6 +455,10 @@ Deno.serve(async (req) => {
       mimeType = mimeField.trim();
     }
 
+    if (formData.get('transcribeOnly') === 'true') {
+      transcribeOnly = true;
+    }
+
     const timezoneField = formData.get('timezoneOffset');
     if (typeof timezoneField === 'string' && timezoneField.trim().length > 0) {
       const parsedOffset = Number(timezoneField);
@@ -473,6 +479,7 @@ Deno.serve(async (req) => {
     audioBase64 = payload.audio?.trim() || null;
     mimeType = payload.mimeType;
     timezoneOffset = payload.timezoneOffset ?? 0;
+    transcribeOnly = transcribeOnly || payload.transcribeOnly === true;
   }
 
   if (!audioFile && (!audioBase64 || audioBase64.length === 0)) {
@@ -508,6 +515,17 @@ Deno.serve(async (req) => {
       });
     }
 
+    // Voice notes only need the transcript stored alongside the recording
+    if (transcribeOnly) {
+      return new Response(JSON.stringify({ type: 'transcript', transcript: transcript.trim() }), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      });
+    }
+
     // Step 2: Detect intent - is this a reminder request or conversation?
     const intent = await detectIntent(transcript, openaiKey);
 
@@ -0,0 +1,39 @@
+-- Migration: Add recurring reminder series
+-- Description: Groups materialized occurrences of a recurring reminder under a shared series_id
+
+-- 1. Add series_id column to reminders
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS series_id UUID;
+
+-- 2. Backfill: existing recurring reminders each start their own series
+UPDATE reminders
+  SET series_id = id
+  WHERE recurring_rule_id IS NOT NULL AND series_id IS NULL;
+
+-- 3. Recurring reminders created without a series start a new one
+CREATE OR REPLACE FUNCTION set_reminder_series_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.recurring_rule_id IS NOT NULL AND NEW.series_id IS NULL THEN
+    NEW.series_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_reminder_series_id ON reminders;
+CREATE TRIGGER set_reminder_series_id
+  BEFORE INSERT OR UPDATE OF recurring_rule_id ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_reminder_series_id();
+
+-- 4. One occurrence per series per time slot, so concurrent devices can't duplicate the next occurrence
+ALTER TABLE reminders
+  DROP CONSTRAINT IF EXISTS reminders_series_occurrence_key;
+ALTER TABLE reminders
+  ADD CONSTRAINT reminders_series_occurrence_key UNIQUE (series_id, scheduled_time);
+
+-- 5. Create index for series lookups
+CREATE INDEX IF NOT EXISTS idx_reminders_series_id
+  ON reminders (series_id, scheduled_time)
+  WHERE series_id IS NOT NULL;
@@ -0,0 +1,28 @@
+-- Migration: Add RRULE fields to recurring rules
+-- Description: Supports an RFC 5545 subset (BYMONTHDAY, BYSETPOS, UNTIL, COUNT, EXDATE) on recurring_rules
+
+-- 1. Add RRULE columns
+ALTER TABLE recurring_rules
+  ADD COLUMN IF NOT EXISTS by_month_day INTEGER[],
+  ADD COLUMN IF NOT EXISTS by_set_pos INTEGER[],
+  ADD COLUMN IF NOT EXISTS until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS count INTEGER,
+  ADD COLUMN IF NOT EXISTS exdates DATE[];
+
+-- 2. Validate values (negative BYMONTHDAY/BYSETPOS count from the end)
+ALTER TABLE recurring_rules
+  DROP CONSTRAINT IF EXISTS recurring_rules_by_month_day_check;
+ALTER TABLE recurring_rules
+  ADD CONSTRAINT recurring_rules_by_month_day_check
+  CHECK (by_month_day IS NULL OR (-31 <= ALL(by_month_day) AND 31 >= ALL(by_month_day) AND 0 <> ALL(by_month_day)));
+
+ALTER TABLE recurring_rules
+  DROP CONSTRAINT IF EXISTS recurring_rules_count_check;
+ALTER TABLE recurring_rules
+  ADD CONSTRAINT recurring_rules_count_check CHECK (count IS NULL OR count > 0);
+
+-- 3. UNTIL and COUNT are mutually exclusive, as in RFC 5545
+ALTER TABLE recurring_rules
+  DROP CONSTRAINT IF EXISTS recurring_rules_until_or_count_check;
+ALTER TABLE recurring_rules
+  ADD CONSTRAINT recurring_rules_until_or_count_check CHECK (until IS NULL OR count IS NULL);
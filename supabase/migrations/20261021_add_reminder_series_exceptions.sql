@@ -0,0 +1,40 @@
+-- Migration: Add recurring series exceptions
+-- Description: Tracks each occurrence's original slot so single occurrences can be edited, and lets rules be forked per series
+
+-- 1. Add occurrence slot and exception flag to reminders
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS original_scheduled_time TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS is_series_exception BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Backfill: existing occurrences were generated for their current time
+UPDATE reminders
+  SET original_scheduled_time = scheduled_time
+  WHERE series_id IS NOT NULL AND original_scheduled_time IS NULL;
+
+-- 3. New series start with their own slot
+CREATE OR REPLACE FUNCTION set_reminder_series_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.recurring_rule_id IS NOT NULL AND NEW.series_id IS NULL THEN
+    NEW.series_id = NEW.id;
+  END IF;
+  IF NEW.series_id IS NOT NULL AND NEW.original_scheduled_time IS NULL THEN
+    NEW.original_scheduled_time = NEW.scheduled_time;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. Occurrences are unique per original slot, so snoozed or edited occurrences aren't regenerated
+ALTER TABLE reminders
+  DROP CONSTRAINT IF EXISTS reminders_series_occurrence_key;
+ALTER TABLE reminders
+  ADD CONSTRAINT reminders_series_occurrence_key UNIQUE (series_id, original_scheduled_time);
+
+-- 5. Rules forked for a single series (skipped dates, split series)
+ALTER TABLE recurring_rules
+  ADD COLUMN IF NOT EXISTS series_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_recurring_rules_series_id
+  ON recurring_rules (series_id)
+  WHERE series_id IS NOT NULL;
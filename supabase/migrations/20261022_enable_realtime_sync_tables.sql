@@ -0,0 +1,20 @@
+-- Migration: Enable realtime sync tables
+-- Description: Publish reminders, reminder_actions and user_preferences changes
+-- over Supabase Realtime so other devices can apply them without a resync push.
+
+-- 1. Add the tables to the realtime publication (skipping any already published)
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['reminders', 'reminder_actions', 'user_preferences'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
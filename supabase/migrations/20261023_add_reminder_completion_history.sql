@@ -0,0 +1,88 @@
+-- Migration: Add reminder completion history
+-- Description: Records when reminders are completed and keeps an append-only event history for analytics
+
+-- 1. Track completion time separately from updated_at
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- 2. Backfill: updated_at is the best estimate for reminders completed before this column existed
+UPDATE reminders
+  SET completed_at = updated_at
+  WHERE status = 'completed' AND completed_at IS NULL;
+
+-- 3. Keep completed_at in step with status for writes that don't set it
+CREATE OR REPLACE FUNCTION set_reminder_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at = NOW();
+  ELSIF NEW.status IS DISTINCT FROM 'completed' THEN
+    NEW.completed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reminders_set_completed_at ON reminders;
+CREATE TRIGGER reminders_set_completed_at
+  BEFORE INSERT OR UPDATE OF status, completed_at ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_reminder_completed_at();
+
+-- 4. Append-only reminder history. reminder_id has no foreign key so history outlives deleted reminders.
+CREATE TABLE IF NOT EXISTS reminder_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_id UUID NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('created', 'notified', 'snoozed', 'completed', 'uncompleted', 'deleted')),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  metadata JSONB NOT NULL DEFAULT '{}',
+  dedupe_key TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_events_user_occurred
+  ON reminder_events (user_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_reminder_events_reminder_id
+  ON reminder_events (reminder_id);
+-- The same delivered notification is recorded once even if several handlers see it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminder_events_dedupe_key
+  ON reminder_events (user_id, dedupe_key)
+  WHERE dedupe_key IS NOT NULL;
+
+-- 5. RLS: users can read and append their own history; there are no update or delete policies
+ALTER TABLE reminder_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own reminder events" ON reminder_events;
+CREATE POLICY "Users can view their own reminder events"
+  ON reminder_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own reminder events" ON reminder_events;
+CREATE POLICY "Users can insert their own reminder events"
+  ON reminder_events FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- 6. Seed history from existing reminders so streaks and rates carry over
+INSERT INTO reminder_events (user_id, reminder_id, event_type, occurred_at, metadata)
+SELECT user_id, id, 'created', created_at, '{"backfilled": true}'::jsonb
+FROM reminders
+WHERE NOT EXISTS (
+  SELECT 1 FROM reminder_events e WHERE e.reminder_id = reminders.id AND e.event_type = 'created'
+);
+
+INSERT INTO reminder_events (user_id, reminder_id, event_type, occurred_at, metadata)
+SELECT user_id, id, 'notified', notified_at, '{"backfilled": true}'::jsonb
+FROM reminders
+WHERE notified_at IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM reminder_events e WHERE e.reminder_id = reminders.id AND e.event_type = 'notified'
+  );
+
+INSERT INTO reminder_events (user_id, reminder_id, event_type, occurred_at, metadata)
+SELECT user_id, id, 'completed', completed_at, '{"backfilled": true}'::jsonb
+FROM reminders
+WHERE completed_at IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM reminder_events e WHERE e.reminder_id = reminders.id AND e.event_type = 'completed'
+  );
@@ -0,0 +1,45 @@
+-- Migration: Add reminder soft delete
+-- Description: Deleted reminders are kept (with their actions and attachments) so they can be
+-- restored from "Recently deleted", and purged after a retention period
+
+-- 1. Soft delete marker
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_reminders_deleted_at
+  ON reminders (user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- 2. Restores are part of the reminder history
+ALTER TABLE reminder_events
+  DROP CONSTRAINT IF EXISTS reminder_events_event_type_check;
+ALTER TABLE reminder_events
+  ADD CONSTRAINT reminder_events_event_type_check
+  CHECK (event_type IN ('created', 'notified', 'snoozed', 'completed', 'uncompleted', 'deleted', 'restored'));
+
+-- 3. Purge the caller's reminders deleted more than retention_days ago.
+-- Runs with the caller's permissions, so RLS limits it to their own rows.
+CREATE OR REPLACE FUNCTION purge_deleted_reminders(retention_days INTEGER DEFAULT 30)
+RETURNS INTEGER AS $$
+DECLARE
+  purged_count INTEGER;
+BEGIN
+  DELETE FROM reminders
+  WHERE user_id = auth.uid()
+    AND deleted_at IS NOT NULL
+    AND deleted_at < NOW() - make_interval(days => retention_days);
+  GET DIAGNOSTICS purged_count = ROW_COUNT;
+
+  -- Rules forked for a series go once no occurrence of that series is left
+  DELETE FROM recurring_rules r
+  WHERE r.user_id = auth.uid()
+    AND r.series_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM reminders WHERE reminders.recurring_rule_id = r.id
+    );
+
+  RETURN purged_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION purge_deleted_reminders(INTEGER) TO authenticated;
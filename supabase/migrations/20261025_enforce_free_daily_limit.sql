@@ -0,0 +1,95 @@
+-- Migration: Enforce free daily reminder limit
+-- Description: Stores the subscription state computed by check-subscription and rejects reminder
+-- inserts past the free-tier daily limit, so the limit can't be bypassed by skipping the client check
+
+-- 1. Subscription state, written by check-subscription with the service role
+CREATE TABLE IF NOT EXISTS user_subscriptions (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  is_pro BOOLEAN NOT NULL DEFAULT false,
+  entitlements TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMPTZ,
+  -- IANA timezone reported by the app; the daily limit resets at the user's local midnight
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. Users can read their own state but never write it
+ALTER TABLE user_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own subscription" ON user_subscriptions;
+CREATE POLICY "Users can view own subscription"
+  ON user_subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 3. Free-tier quota for a user. Occurrences materialized from an existing series don't count,
+-- and deleted reminders do, so deleting a reminder doesn't give its slot back.
+CREATE OR REPLACE FUNCTION get_reminder_quota(p_user_id UUID DEFAULT auth.uid())
+RETURNS TABLE (is_pro BOOLEAN, used INTEGER, daily_limit INTEGER) AS $$
+DECLARE
+  user_timezone TEXT;
+  day_start TIMESTAMPTZ;
+BEGIN
+  SELECT s.is_pro AND (s.expires_at IS NULL OR s.expires_at > NOW()), s.timezone
+  INTO is_pro, user_timezone
+  FROM user_subscriptions s
+  WHERE s.user_id = p_user_id;
+
+  -- Users check-subscription hasn't seen yet are on the free plan
+  is_pro := COALESCE(is_pro, false);
+  user_timezone := COALESCE(user_timezone, 'UTC');
+
+  day_start := date_trunc('day', NOW() AT TIME ZONE user_timezone) AT TIME ZONE user_timezone;
+
+  SELECT COUNT(*)::INTEGER INTO used
+  FROM reminders r
+  WHERE r.user_id = p_user_id
+    AND r.created_at >= day_start
+    AND (r.series_id IS NULL OR r.series_id = r.id);
+
+  daily_limit := 10;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION get_reminder_quota(UUID) TO authenticated;
+
+-- 4. Reject inserts past the limit with SQLSTATE P0429, which the app maps to its paywall
+CREATE OR REPLACE FUNCTION enforce_free_daily_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  quota RECORD;
+BEGIN
+  -- Replayed offline creates are upserts of a row that may already exist
+  IF EXISTS (SELECT 1 FROM reminders WHERE id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Next occurrences of a series the user already has
+  IF NEW.series_id IS NOT NULL AND NEW.series_id <> NEW.id AND EXISTS (
+    SELECT 1 FROM reminders WHERE series_id = NEW.series_id AND user_id = NEW.user_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- The count is by created_at, so it can't be chosen by the client
+  NEW.created_at = NOW();
+
+  -- Serialize a user's creates so parallel inserts can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::TEXT));
+
+  SELECT * INTO quota FROM get_reminder_quota(NEW.user_id);
+  IF NOT quota.is_pro AND quota.used >= quota.daily_limit THEN
+    RAISE EXCEPTION 'free_daily_limit_reached'
+      USING ERRCODE = 'P0429',
+            DETAIL = format('Free plan allows %s reminders per day', quota.daily_limit);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_free_daily_limit ON reminders;
+CREATE TRIGGER enforce_free_daily_limit
+  BEFORE INSERT ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_free_daily_limit();
@@ -0,0 +1,38 @@
+-- Migration: Add bulk reminder reschedule
+-- Description: Moves several reminders in one statement, either by an offset or to a date
+-- keeping each reminder's local time of day
+
+-- 1. Reschedule the caller's reminders. Runs with the caller's permissions, so RLS
+-- limits it to their own rows. Occurrences of a series keep their original slot.
+CREATE OR REPLACE FUNCTION reschedule_reminders(
+  reminder_ids UUID[],
+  offset_minutes INTEGER DEFAULT NULL,
+  target_date DATE DEFAULT NULL,
+  time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS SETOF reminders AS $$
+BEGIN
+  IF (offset_minutes IS NULL) = (target_date IS NULL) THEN
+    RAISE EXCEPTION 'Pass exactly one of offset_minutes or target_date';
+  END IF;
+
+  RETURN QUERY
+  UPDATE reminders
+  SET
+    scheduled_time = CASE
+      WHEN target_date IS NOT NULL
+        THEN (target_date + (scheduled_time AT TIME ZONE time_zone)::TIME) AT TIME ZONE time_zone
+      ELSE scheduled_time + make_interval(mins => offset_minutes)
+    END,
+    notified_at = NULL,
+    priority_notified_at = NULL,
+    is_series_exception = is_series_exception OR series_id IS NOT NULL,
+    updated_at = NOW()
+  WHERE id = ANY(reminder_ids)
+    AND user_id = auth.uid()
+    AND deleted_at IS NULL
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION reschedule_reminders(UUID[], INTEGER, DATE, TEXT) TO authenticated;
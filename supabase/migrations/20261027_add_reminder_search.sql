@@ -0,0 +1,74 @@
+-- Migration: Add reminder full-text search
+-- Description: Indexes reminder titles, descriptions and action values (notes, subtasks, emails,
+-- addresses) and adds a search RPC with date range, priority, status and recurring filters
+
+-- 1. Full-text indexes. The 'simple' config keeps words as typed, so prefix matching
+-- works the same for every language.
+CREATE INDEX IF NOT EXISTS idx_reminders_search
+  ON reminders USING GIN ((to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, ''))));
+
+CREATE INDEX IF NOT EXISTS idx_reminder_actions_search
+  ON reminder_actions USING GIN ((jsonb_to_tsvector('simple', action_value, '["string"]')));
+
+-- 2. Turn typed text into a prefix query, so "dent app" matches "Dentist appointment"
+CREATE OR REPLACE FUNCTION reminder_search_query(search_text TEXT)
+RETURNS tsquery AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(search_text), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 3. Search the caller's reminders, best matches first. Runs with the caller's
+-- permissions, so RLS limits it to their own reminders and actions.
+CREATE OR REPLACE FUNCTION search_reminders(
+  search_text TEXT,
+  from_time TIMESTAMPTZ DEFAULT NULL,
+  to_time TIMESTAMPTZ DEFAULT NULL,
+  priority_only BOOLEAN DEFAULT FALSE,
+  completed BOOLEAN DEFAULT NULL,
+  recurring BOOLEAN DEFAULT NULL,
+  result_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF reminders AS $$
+DECLARE
+  search_query tsquery := reminder_search_query(search_text);
+BEGIN
+  IF search_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH action_matches AS (
+    SELECT
+      a.reminder_id,
+      MAX(ts_rank(jsonb_to_tsvector('simple', a.action_value, '["string"]'), search_query)) AS action_rank
+    FROM reminder_actions a
+    WHERE jsonb_to_tsvector('simple', a.action_value, '["string"]') @@ search_query
+    GROUP BY a.reminder_id
+  )
+  SELECT r.*
+  FROM reminders r
+  LEFT JOIN action_matches m ON m.reminder_id = r.id
+  WHERE r.user_id = auth.uid()
+    AND r.deleted_at IS NULL
+    AND (
+      to_tsvector('simple', coalesce(r.title, '') || ' ' || coalesce(r.description, '')) @@ search_query
+      OR m.reminder_id IS NOT NULL
+    )
+    AND (from_time IS NULL OR r.scheduled_time >= from_time)
+    AND (to_time IS NULL OR r.scheduled_time < to_time)
+    AND (NOT priority_only OR r.is_priority)
+    AND (completed IS NULL OR (r.status IS NOT DISTINCT FROM 'completed') = completed)
+    AND (recurring IS NULL OR (r.recurring_rule_id IS NOT NULL) = recurring)
+  ORDER BY
+    GREATEST(
+      -- Title and description matches rank above action matches of the same strength
+      ts_rank(to_tsvector('simple', coalesce(r.title, '') || ' ' || coalesce(r.description, '')), search_query) * 2,
+      COALESCE(m.action_rank, 0)
+    ) DESC,
+    r.scheduled_time DESC
+  LIMIT result_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION search_reminders(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, BOOLEAN, BOOLEAN, INTEGER) TO authenticated;
@@ -0,0 +1,71 @@
+-- Migration: Add reminder tags
+-- Description: User-defined tags (lists) for grouping reminders, stored on reminders as an array of tag ids
+
+-- 1. Tags owned by a user; names are unique per user regardless of case
+CREATE TABLE IF NOT EXISTS reminder_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 32),
+  color TEXT NOT NULL DEFAULT '#2F00FF',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminder_tags_user_name
+  ON reminder_tags (user_id, lower(name));
+
+DROP TRIGGER IF EXISTS update_reminder_tags_updated_at ON reminder_tags;
+CREATE TRIGGER update_reminder_tags_updated_at
+  BEFORE UPDATE ON reminder_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS: users manage their own tags
+ALTER TABLE reminder_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own reminder tags" ON reminder_tags;
+CREATE POLICY "Users can view their own reminder tags"
+  ON reminder_tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own reminder tags" ON reminder_tags;
+CREATE POLICY "Users can insert their own reminder tags"
+  ON reminder_tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own reminder tags" ON reminder_tags;
+CREATE POLICY "Users can update their own reminder tags"
+  ON reminder_tags FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own reminder tags" ON reminder_tags;
+CREATE POLICY "Users can delete their own reminder tags"
+  ON reminder_tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- 3. Tags on reminders. An array keeps tags on the row, so the offline cache,
+-- realtime patches and recurring occurrences carry them without extra queries.
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS tag_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_reminders_tag_ids
+  ON reminders USING GIN (tag_ids);
+
+-- 4. Deleting a tag removes it from the owner's reminders
+CREATE OR REPLACE FUNCTION remove_deleted_reminder_tag()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE reminders
+    SET tag_ids = array_remove(tag_ids, OLD.id),
+        updated_at = NOW()
+    WHERE user_id = OLD.user_id
+      AND tag_ids @> ARRAY[OLD.id];
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS remove_deleted_reminder_tag ON reminder_tags;
+CREATE TRIGGER remove_deleted_reminder_tag
+  AFTER DELETE ON reminder_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_deleted_reminder_tag();
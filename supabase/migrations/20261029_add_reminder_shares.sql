@@ -0,0 +1,153 @@
+-- Migration: Add reminder shares
+-- Description: Lets a reminder's owner share it with other Synco users by email. Participants see
+-- the reminder (and every occurrence of its series), get notified for it and can mark it done.
+
+-- 1. Shares. reminder_id is the shared reminder, or the first occurrence of its series,
+-- so one share covers every occurrence.
+CREATE TABLE IF NOT EXISTS reminder_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reminder_id UUID NOT NULL REFERENCES reminders(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_email TEXT NOT NULL,
+  shared_with UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shared_with_email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (reminder_id, shared_with)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_shares_shared_with
+  ON reminder_shares (shared_with);
+
+-- 2. RLS: both sides can see a share, and either can end it (owner removes, participant leaves).
+-- Shares are only created through share_reminder(), which resolves the invitee's email.
+ALTER TABLE reminder_shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their reminder shares" ON reminder_shares;
+CREATE POLICY "Users can view their reminder shares"
+  ON reminder_shares FOR SELECT
+  USING (auth.uid() = owner_id OR auth.uid() = shared_with);
+
+DROP POLICY IF EXISTS "Users can delete their reminder shares" ON reminder_shares;
+CREATE POLICY "Users can delete their reminder shares"
+  ON reminder_shares FOR DELETE
+  USING (auth.uid() = owner_id OR auth.uid() = shared_with);
+
+-- 3. Participants can read shared reminders and their actions
+DROP POLICY IF EXISTS "Participants can view shared reminders" ON reminders;
+CREATE POLICY "Participants can view shared reminders"
+  ON reminders FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminder_shares
+      WHERE reminder_shares.reminder_id = COALESCE(reminders.series_id, reminders.id)
+      AND reminder_shares.shared_with = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Participants can update shared reminders" ON reminders;
+CREATE POLICY "Participants can update shared reminders"
+  ON reminders FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminder_shares
+      WHERE reminder_shares.reminder_id = COALESCE(reminders.series_id, reminders.id)
+      AND reminder_shares.shared_with = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Participants can view shared reminder actions" ON reminder_actions;
+CREATE POLICY "Participants can view shared reminder actions"
+  ON reminder_actions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminders
+      WHERE reminders.id = reminder_actions.reminder_id
+    )
+  );
+
+-- 4. Participants may only change completion and delivery state; everything else stays with the owner
+CREATE OR REPLACE FUNCTION restrict_shared_reminder_updates()
+RETURNS TRIGGER AS $$
+DECLARE
+  participant_columns TEXT[] := ARRAY['status', 'completed_at', 'notified_at', 'priority_notified_at', 'updated_at'];
+BEGIN
+  -- Owners and the service role (no auth.uid()) are unrestricted
+  IF auth.uid() IS NULL OR auth.uid() = OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - participant_columns) IS DISTINCT FROM (to_jsonb(OLD) - participant_columns) THEN
+    RAISE EXCEPTION 'shared_reminder_read_only'
+      USING ERRCODE = '42501',
+            HINT = 'Only the owner can edit a shared reminder';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS restrict_shared_reminder_updates ON reminders;
+CREATE TRIGGER restrict_shared_reminder_updates
+  BEFORE UPDATE ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_shared_reminder_updates();
+
+-- 5. Share a reminder the caller owns with the Synco user behind an email address.
+-- Raises P0404 when no account uses the email and P0400 for the caller's own email.
+CREATE OR REPLACE FUNCTION share_reminder(p_reminder_id UUID, p_email TEXT)
+RETURNS reminder_shares AS $$
+DECLARE
+  target RECORD;
+  invitee RECORD;
+  caller_email TEXT;
+  share reminder_shares;
+BEGIN
+  SELECT id, series_id INTO target
+  FROM reminders
+  WHERE id = p_reminder_id
+    AND user_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'reminder_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT id, email INTO invitee
+  FROM auth.users
+  WHERE lower(email) = lower(btrim(p_email));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'share_user_not_found' USING ERRCODE = 'P0404';
+  END IF;
+
+  IF invitee.id = auth.uid() THEN
+    RAISE EXCEPTION 'share_with_self' USING ERRCODE = 'P0400';
+  END IF;
+
+  SELECT email INTO caller_email FROM auth.users WHERE id = auth.uid();
+
+  INSERT INTO reminder_shares (reminder_id, owner_id, owner_email, shared_with, shared_with_email)
+  VALUES (COALESCE(target.series_id, target.id), auth.uid(), COALESCE(caller_email, ''), invitee.id, invitee.email)
+  ON CONFLICT (reminder_id, shared_with) DO UPDATE
+    SET shared_with_email = EXCLUDED.shared_with_email
+  RETURNING * INTO share;
+
+  RETURN share;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION share_reminder(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION share_reminder(UUID, TEXT) TO authenticated;
+
+-- 6. Publish share changes so a participant's devices pick up new and removed shares
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'reminder_shares'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.reminder_shares;
+  END IF;
+END $$;
@@ -0,0 +1,246 @@
+-- Migration: Add reminder subtasks
+-- Description: Moves subtasks out of the 'subtasks' action JSON into their own table so each item can be
+-- checked off, reordered and counted. Reminders keep denormalized progress counts for list views.
+
+-- 1. Subtasks, ordered by position within a reminder
+CREATE TABLE IF NOT EXISTS reminder_subtasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reminder_id UUID NOT NULL REFERENCES reminders(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 200),
+  done BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_subtasks_reminder_position
+  ON reminder_subtasks (reminder_id, position);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_subtasks_search
+  ON reminder_subtasks USING GIN ((to_tsvector('simple', title)));
+
+DROP TRIGGER IF EXISTS update_reminder_subtasks_updated_at ON reminder_subtasks;
+CREATE TRIGGER update_reminder_subtasks_updated_at
+  BEFORE UPDATE ON reminder_subtasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS: anyone who can see the reminder (owner or participant) can read and check off its
+-- subtasks; only the owner adds or removes them
+ALTER TABLE reminder_subtasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view subtasks of visible reminders" ON reminder_subtasks;
+CREATE POLICY "Users can view subtasks of visible reminders"
+  ON reminder_subtasks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminders
+      WHERE reminders.id = reminder_subtasks.reminder_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update subtasks of visible reminders" ON reminder_subtasks;
+CREATE POLICY "Users can update subtasks of visible reminders"
+  ON reminder_subtasks FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminders
+      WHERE reminders.id = reminder_subtasks.reminder_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert subtasks on their own reminders" ON reminder_subtasks;
+CREATE POLICY "Users can insert subtasks on their own reminders"
+  ON reminder_subtasks FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM reminders
+      WHERE reminders.id = reminder_subtasks.reminder_id
+      AND reminders.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete subtasks on their own reminders" ON reminder_subtasks;
+CREATE POLICY "Users can delete subtasks on their own reminders"
+  ON reminder_subtasks FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminders
+      WHERE reminders.id = reminder_subtasks.reminder_id
+      AND reminders.user_id = auth.uid()
+    )
+  );
+
+-- 3. Participants may only check subtasks off; renaming and reordering stay with the owner
+CREATE OR REPLACE FUNCTION restrict_shared_subtask_updates()
+RETURNS TRIGGER AS $$
+DECLARE
+  participant_columns TEXT[] := ARRAY['done', 'completed_at', 'updated_at'];
+BEGIN
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM reminders
+    WHERE reminders.id = OLD.reminder_id
+    AND reminders.user_id = auth.uid()
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - participant_columns) IS DISTINCT FROM (to_jsonb(OLD) - participant_columns) THEN
+    RAISE EXCEPTION 'shared_reminder_read_only'
+      USING ERRCODE = '42501',
+            HINT = 'Only the owner can edit the subtasks of a shared reminder';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS restrict_shared_subtask_updates ON reminder_subtasks;
+CREATE TRIGGER restrict_shared_subtask_updates
+  BEFORE UPDATE ON reminder_subtasks
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_shared_subtask_updates();
+
+-- 4. Progress on the reminder row, so cards, the offline cache and realtime patches
+-- show it without loading subtasks. auto_complete_subtasks marks the reminder done
+-- once every subtask is checked (applied by the app, which also handles recurrence).
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS subtask_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS subtask_done_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS auto_complete_subtasks BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE FUNCTION refresh_reminder_subtask_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.reminder_id ELSE NEW.reminder_id END;
+BEGIN
+  UPDATE reminders
+    SET subtask_count = counts.total,
+        subtask_done_count = counts.done
+    FROM (
+      SELECT count(*) AS total, count(*) FILTER (WHERE done) AS done
+      FROM reminder_subtasks
+      WHERE reminder_id = target_id
+    ) AS counts
+    WHERE reminders.id = target_id
+      AND (reminders.subtask_count, reminders.subtask_done_count) IS DISTINCT FROM (counts.total::INTEGER, counts.done::INTEGER);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_reminder_subtask_counts ON reminder_subtasks;
+CREATE TRIGGER refresh_reminder_subtask_counts
+  AFTER INSERT OR DELETE OR UPDATE OF done ON reminder_subtasks
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_reminder_subtask_counts();
+
+-- 5. Participants checking off a subtask update the counts on the owner's reminder
+CREATE OR REPLACE FUNCTION restrict_shared_reminder_updates()
+RETURNS TRIGGER AS $$
+DECLARE
+  participant_columns TEXT[] := ARRAY[
+    'status', 'completed_at', 'notified_at', 'priority_notified_at', 'updated_at',
+    'subtask_count', 'subtask_done_count'
+  ];
+BEGIN
+  -- Owners and the service role (no auth.uid()) are unrestricted
+  IF auth.uid() IS NULL OR auth.uid() = OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - participant_columns) IS DISTINCT FROM (to_jsonb(OLD) - participant_columns) THEN
+    RAISE EXCEPTION 'shared_reminder_read_only'
+      USING ERRCODE = '42501',
+            HINT = 'Only the owner can edit a shared reminder';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Move existing 'subtasks' actions into rows. Older actions stored an items array,
+-- newer ones one item per line of text.
+INSERT INTO reminder_subtasks (reminder_id, title, done, position, completed_at)
+SELECT
+  a.reminder_id,
+  left(btrim(COALESCE(item.value->>'title', item.value->>'text')), 200),
+  COALESCE((item.value->>'done')::BOOLEAN, FALSE),
+  item.ordinality - 1,
+  CASE WHEN COALESCE((item.value->>'done')::BOOLEAN, FALSE) THEN NOW() END
+FROM reminder_actions a
+CROSS JOIN LATERAL jsonb_array_elements(a.action_value->'items') WITH ORDINALITY AS item(value, ordinality)
+WHERE a.action_type = 'subtasks'
+  AND jsonb_typeof(a.action_value->'items') = 'array'
+  AND btrim(COALESCE(item.value->>'title', item.value->>'text', '')) <> '';
+
+INSERT INTO reminder_subtasks (reminder_id, title, position)
+SELECT
+  a.reminder_id,
+  left(btrim(line.value), 200),
+  line.ordinality - 1
+FROM reminder_actions a
+CROSS JOIN LATERAL regexp_split_to_table(COALESCE(a.action_value->>'text', ''), E'\n') WITH ORDINALITY AS line(value, ordinality)
+WHERE a.action_type = 'subtasks'
+  AND jsonb_typeof(a.action_value->'items') IS DISTINCT FROM 'array'
+  AND btrim(line.value) <> '';
+
+DELETE FROM reminder_actions WHERE action_type = 'subtasks';
+
+-- 7. Search subtask titles alongside action values
+CREATE OR REPLACE FUNCTION search_reminders(
+  search_text TEXT,
+  from_time TIMESTAMPTZ DEFAULT NULL,
+  to_time TIMESTAMPTZ DEFAULT NULL,
+  priority_only BOOLEAN DEFAULT FALSE,
+  completed BOOLEAN DEFAULT NULL,
+  recurring BOOLEAN DEFAULT NULL,
+  result_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF reminders AS $$
+DECLARE
+  search_query tsquery := reminder_search_query(search_text);
+BEGIN
+  IF search_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH action_matches AS (
+    SELECT matches.reminder_id, MAX(matches.rank) AS action_rank
+    FROM (
+      SELECT a.reminder_id, ts_rank(jsonb_to_tsvector('simple', a.action_value, '["string"]'), search_query) AS rank
+      FROM reminder_actions a
+      WHERE jsonb_to_tsvector('simple', a.action_value, '["string"]') @@ search_query
+      UNION ALL
+      SELECT s.reminder_id, ts_rank(to_tsvector('simple', s.title), search_query) AS rank
+      FROM reminder_subtasks s
+      WHERE to_tsvector('simple', s.title) @@ search_query
+    ) AS matches
+    GROUP BY matches.reminder_id
+  )
+  SELECT r.*
+  FROM reminders r
+  LEFT JOIN action_matches m ON m.reminder_id = r.id
+  WHERE r.user_id = auth.uid()
+    AND r.deleted_at IS NULL
+    AND (
+      to_tsvector('simple', coalesce(r.title, '') || ' ' || coalesce(r.description, '')) @@ search_query
+      OR m.reminder_id IS NOT NULL
+    )
+    AND (from_time IS NULL OR r.scheduled_time >= from_time)
+    AND (to_time IS NULL OR r.scheduled_time < to_time)
+    AND (NOT priority_only OR r.is_priority)
+    AND (completed IS NULL OR (r.status IS NOT DISTINCT FROM 'completed') = completed)
+    AND (recurring IS NULL OR (r.recurring_rule_id IS NOT NULL) = recurring)
+  ORDER BY
+    GREATEST(
+      -- Title and description matches rank above action and subtask matches of the same strength
+      ts_rank(to_tsvector('simple', coalesce(r.title, '') || ' ' || coalesce(r.description, '')), search_query) * 2,
+      COALESCE(m.action_rank, 0)
+    ) DESC,
+    r.scheduled_time DESC
+  LIMIT result_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
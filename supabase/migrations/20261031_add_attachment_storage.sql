@@ -0,0 +1,81 @@
+-- Migration: Add attachment storage
+-- Description: Private Storage bucket for reminder photos and voice notes, one folder per user,
+-- and a storage_path on reminder_attachments pointing at the uploaded object
+
+-- 1. Bucket. Objects live at <user_id>/<file>, so RLS can scope them by the first folder.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('reminder-attachments', 'reminder-attachments', FALSE, 52428800, ARRAY['image/*', 'audio/*'])
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Attachments point at a Storage object instead of a device-local URI
+ALTER TABLE reminder_attachments
+  ADD COLUMN IF NOT EXISTS storage_path TEXT;
+
+ALTER TABLE reminder_attachments
+  ALTER COLUMN storage_url DROP NOT NULL;
+
+ALTER TABLE reminder_attachments
+  DROP CONSTRAINT IF EXISTS reminder_attachments_location_check;
+ALTER TABLE reminder_attachments
+  ADD CONSTRAINT reminder_attachments_location_check
+  CHECK (storage_url IS NOT NULL OR storage_path IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_attachments_storage_path
+  ON reminder_attachments (storage_path)
+  WHERE storage_path IS NOT NULL;
+
+-- Participants of a shared reminder see its attachments (RLS on reminders decides visibility)
+DROP POLICY IF EXISTS "Participants can view shared reminder attachments" ON reminder_attachments;
+CREATE POLICY "Participants can view shared reminder attachments"
+  ON reminder_attachments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminders
+      WHERE reminders.id = reminder_attachments.reminder_id
+    )
+  );
+
+-- 3. Storage RLS: users manage objects in their own folder. Anyone who can see an
+-- attachment row can read its object, which covers shared reminders.
+DROP POLICY IF EXISTS "Users can upload reminder attachments" ON storage.objects;
+CREATE POLICY "Users can upload reminder attachments"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'reminder-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Resumable uploads with upsert update the object in place
+DROP POLICY IF EXISTS "Users can update reminder attachments" ON storage.objects;
+CREATE POLICY "Users can update reminder attachments"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'reminder-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can view reminder attachments" ON storage.objects;
+CREATE POLICY "Users can view reminder attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'reminder-attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM public.reminder_attachments
+        WHERE reminder_attachments.storage_path = storage.objects.name
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete reminder attachments" ON storage.objects;
+CREATE POLICY "Users can delete reminder attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'reminder-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,45 @@
+-- Migration: Add location triggers
+-- Description: Reminders can fire when the user arrives at or leaves a place instead of at a time.
+-- Places the user names ("home", "office") are kept as saved places in user preferences.
+
+-- 1. Trigger type and geofence on reminders. Time reminders keep the location columns empty.
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS trigger_type TEXT NOT NULL DEFAULT 'time',
+  ADD COLUMN IF NOT EXISTS location_name TEXT,
+  ADD COLUMN IF NOT EXISTS location_lat DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS location_lng DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS location_radius_m INTEGER;
+
+ALTER TABLE reminders
+  DROP CONSTRAINT IF EXISTS reminders_trigger_type_check;
+ALTER TABLE reminders
+  ADD CONSTRAINT reminders_trigger_type_check
+  CHECK (trigger_type IN ('time', 'arrive', 'leave'));
+
+ALTER TABLE reminders
+  DROP CONSTRAINT IF EXISTS reminders_location_trigger_check;
+ALTER TABLE reminders
+  ADD CONSTRAINT reminders_location_trigger_check
+  CHECK (
+    trigger_type = 'time'
+    OR (
+      location_lat BETWEEN -90 AND 90
+      AND location_lng BETWEEN -180 AND 180
+      AND location_radius_m BETWEEN 100 AND 5000
+    )
+  );
+
+-- Devices register geofences for pending location reminders
+CREATE INDEX IF NOT EXISTS idx_reminders_location_pending
+  ON reminders (user_id)
+  WHERE trigger_type <> 'time' AND notified_at IS NULL AND deleted_at IS NULL;
+
+-- 2. Saved places: [{ id, name, latitude, longitude, radius_m, address }]
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS saved_places JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE user_preferences
+  DROP CONSTRAINT IF EXISTS user_preferences_saved_places_check;
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_saved_places_check
+  CHECK (jsonb_typeof(saved_places) = 'array');
@@ -0,0 +1,23 @@
+-- Migration: Add priority repeat notifications
+-- Description: Priority reminders can re-notify every few minutes until they are completed or snoozed,
+-- up to a cap, optionally on a louder Android channel. Devices schedule the repeats locally.
+
+-- 1. Escalation settings
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS priority_repeat_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS priority_repeat_interval_minutes INTEGER NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS priority_repeat_max INTEGER NOT NULL DEFAULT 6,
+  ADD COLUMN IF NOT EXISTS priority_loud_alerts BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- 2. Bounds, matching the choices offered in Settings
+ALTER TABLE user_preferences
+  DROP CONSTRAINT IF EXISTS user_preferences_priority_repeat_interval_check;
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_priority_repeat_interval_check
+  CHECK (priority_repeat_interval_minutes BETWEEN 1 AND 60);
+
+ALTER TABLE user_preferences
+  DROP CONSTRAINT IF EXISTS user_preferences_priority_repeat_max_check;
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_priority_repeat_max_check
+  CHECK (priority_repeat_max BETWEEN 1 AND 20);
@@ -0,0 +1,101 @@
+-- Migration: Add multiple alerts per reminder
+-- Description: Replaces the single notify_before_minutes with a list of offsets (minutes before
+-- scheduled_time, up to four weeks), e.g. "1 day before and 1 hour before". Devices schedule one
+-- local notification per offset and track each in notification_schedules.
+
+-- 1. Offsets on reminders, latest-firing last: {1440, 60, 0}
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS notify_offsets INTEGER[] NOT NULL DEFAULT '{0}',
+  ADD COLUMN IF NOT EXISTS notified_offsets INTEGER[] NOT NULL DEFAULT '{}';
+
+UPDATE reminders
+  SET notify_offsets = ARRAY[notify_before_minutes]
+  WHERE notify_before_minutes > 0 AND notify_offsets = '{0}';
+
+-- Alerts already pushed before this migration count as sent
+UPDATE reminders
+  SET notified_offsets = notify_offsets
+  WHERE notified_at IS NOT NULL AND notified_offsets = '{}';
+
+ALTER TABLE reminders
+  DROP CONSTRAINT IF EXISTS reminders_notify_offsets_check;
+ALTER TABLE reminders
+  ADD CONSTRAINT reminders_notify_offsets_check
+  CHECK (
+    cardinality(notify_offsets) BETWEEN 1 AND 5
+    AND array_position(notify_offsets, NULL) IS NULL
+    AND 0 <= ALL (notify_offsets)
+    AND 40320 >= ALL (notify_offsets)
+  );
+
+-- 2. Keep the offsets sorted and notify_before_minutes (the last alert) in step for older app
+-- versions, which only read and write the single column. A reschedule or a new set of offsets
+-- marks alerts whose time has already passed as sent, so the server never pushes them late.
+CREATE OR REPLACE FUNCTION sync_reminder_notify_offsets()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.notify_offsets = '{0}' AND COALESCE(NEW.notify_before_minutes, 0) > 0 THEN
+      NEW.notify_offsets := ARRAY[NEW.notify_before_minutes];
+    END IF;
+  ELSIF NEW.notify_before_minutes IS DISTINCT FROM OLD.notify_before_minutes
+    AND NEW.notify_offsets IS NOT DISTINCT FROM OLD.notify_offsets THEN
+    NEW.notify_offsets := ARRAY[COALESCE(NEW.notify_before_minutes, 0)];
+  END IF;
+
+  NEW.notify_offsets := ARRAY(
+    SELECT DISTINCT offset_minutes FROM unnest(NEW.notify_offsets) AS offset_minutes
+    ORDER BY offset_minutes DESC
+  );
+  NEW.notify_before_minutes := NEW.notify_offsets[cardinality(NEW.notify_offsets)];
+
+  IF TG_OP = 'INSERT'
+    OR NEW.scheduled_time IS DISTINCT FROM OLD.scheduled_time
+    OR NEW.notify_offsets IS DISTINCT FROM OLD.notify_offsets THEN
+    NEW.notified_offsets := ARRAY(
+      SELECT offset_minutes FROM unnest(NEW.notify_offsets) AS offset_minutes
+      WHERE NEW.scheduled_time - make_interval(mins => offset_minutes) <= NOW()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to run after restrict_shared_reminder_updates, which compares the row as the client sent it
+DROP TRIGGER IF EXISTS sync_reminder_notify_offsets ON reminders;
+CREATE TRIGGER sync_reminder_notify_offsets
+  BEFORE INSERT OR UPDATE ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_reminder_notify_offsets();
+
+-- 3. One device schedule per alert
+ALTER TABLE notification_schedules
+  ADD COLUMN IF NOT EXISTS offset_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE notification_schedules
+  DROP CONSTRAINT IF EXISTS notification_schedules_user_id_reminder_id_device_id_key;
+ALTER TABLE notification_schedules
+  DROP CONSTRAINT IF EXISTS notification_schedules_alert_key;
+ALTER TABLE notification_schedules
+  ADD CONSTRAINT notification_schedules_alert_key
+  UNIQUE (user_id, reminder_id, device_id, offset_minutes);
+
+-- 4. Default alerts for new reminders
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS default_notify_offsets INTEGER[] NOT NULL DEFAULT '{0}';
+
+UPDATE user_preferences
+  SET default_notify_offsets = ARRAY[default_notify_before_minutes]
+  WHERE default_notify_before_minutes > 0 AND default_notify_offsets = '{0}';
+
+ALTER TABLE user_preferences
+  DROP CONSTRAINT IF EXISTS user_preferences_default_notify_offsets_check;
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_default_notify_offsets_check
+  CHECK (
+    cardinality(default_notify_offsets) BETWEEN 1 AND 5
+    AND array_position(default_notify_offsets, NULL) IS NULL
+    AND 0 <= ALL (default_notify_offsets)
+    AND 40320 >= ALL (default_notify_offsets)
+  );
@@ -0,0 +1,50 @@
+-- Migration: Add quiet hours
+-- Description: Per-weekday do-not-disturb windows. Notifications that fall inside one are held and
+-- delivered together as a digest when it ends, unless they are priority reminders and the user lets
+-- those through. Devices hold their local notifications; the push function holds pushes here.
+
+-- 1. Settings. quiet_hours maps a weekday to the window that starts that evening, in the user's
+-- local time: { "mon": { "start": "22:00", "end": "07:00" }, ... }. A window ending before
+-- its start runs past midnight; a missing day has no quiet hours.
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS quiet_hours_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS quiet_hours JSONB NOT NULL DEFAULT '{
+    "sun": { "start": "22:00", "end": "07:00" },
+    "mon": { "start": "22:00", "end": "07:00" },
+    "tue": { "start": "22:00", "end": "07:00" },
+    "wed": { "start": "22:00", "end": "07:00" },
+    "thu": { "start": "22:00", "end": "07:00" },
+    "fri": { "start": "22:00", "end": "07:00" },
+    "sat": { "start": "22:00", "end": "07:00" }
+  }'::jsonb,
+  ADD COLUMN IF NOT EXISTS quiet_hours_allow_priority BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE user_preferences
+  DROP CONSTRAINT IF EXISTS user_preferences_quiet_hours_check;
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_quiet_hours_check
+  CHECK (jsonb_typeof(quiet_hours) = 'object');
+
+-- 2. Pushes held by send-reminder-notifications until the recipient's quiet hours end.
+-- Written and drained with the service role; users can see their own.
+CREATE TABLE IF NOT EXISTS deferred_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_id UUID NOT NULL REFERENCES reminders(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  deliver_after TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deferred_notifications_deliver_after
+  ON deferred_notifications (deliver_after);
+
+ALTER TABLE deferred_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own deferred notifications" ON deferred_notifications;
+CREATE POLICY "Users can view own deferred notifications"
+  ON deferred_notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON deferred_notifications TO authenticated;
+GRANT SELECT, INSERT, DELETE ON deferred_notifications TO service_role;
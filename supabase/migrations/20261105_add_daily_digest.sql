@@ -0,0 +1,55 @@
+-- Migration: Add daily digests
+-- Description: Opt-in morning and evening summaries of the day's reminders, overdue items and
+-- priorities. Devices schedule them as local notifications; send-daily-digest pushes them from cron.
+
+-- 1. Local "HH:mm" per digest in the user's timezone; NULL means off
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS daily_digest_morning_time TEXT,
+  ADD COLUMN IF NOT EXISTS daily_digest_evening_time TEXT;
+
+ALTER TABLE user_preferences
+  DROP CONSTRAINT IF EXISTS user_preferences_daily_digest_times_check;
+ALTER TABLE user_preferences
+  ADD CONSTRAINT user_preferences_daily_digest_times_check
+  CHECK (
+    (daily_digest_morning_time IS NULL OR daily_digest_morning_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+    AND (daily_digest_evening_time IS NULL OR daily_digest_evening_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+  );
+
+-- 2. Digests pushed by send-daily-digest, one per user, slot and local day, so overlapping
+-- runs never send the same digest twice
+CREATE TABLE IF NOT EXISTS daily_digest_sends (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  slot TEXT NOT NULL CHECK (slot IN ('morning', 'evening')),
+  local_date DATE NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, slot, local_date)
+);
+
+ALTER TABLE daily_digest_sends ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own daily digest sends" ON daily_digest_sends;
+CREATE POLICY "Users can view own daily digest sends"
+  ON daily_digest_sends FOR SELECT
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON daily_digest_sends TO authenticated;
+GRANT SELECT, INSERT, DELETE ON daily_digest_sends TO service_role;
+
+-- 3. Optional: call send-daily-digest every 15 minutes (requires pg_cron and pg_net).
+-- Run this separately in the SQL editor:
+--
+-- SELECT cron.schedule(
+--   'send-daily-digest',
+--   '*/15 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := '<YOUR_SUPABASE_URL>/functions/v1/send-daily-digest',
+--     headers := jsonb_build_object(
+--       'Authorization', 'Bearer <YOUR_SERVICE_ROLE_KEY>',
+--       'Content-Type', 'application/json'
+--     ),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
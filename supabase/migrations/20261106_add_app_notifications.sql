@@ -0,0 +1,176 @@
+-- Migration: Add app notifications
+-- Description: Persisted in-app inbox for account activity that isn't a reminder alert: devices
+-- syncing to the account, subscription changes and activity on shared reminders. Rows are written
+-- by the triggers below and by edge functions; users read them and mark them read.
+
+-- 1. Inbox entries. category matches NotificationCategory in lib/types.ts; metadata holds
+-- optional links such as { "reminderId": ..., "device": ... }.
+CREATE TABLE IF NOT EXISTS app_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL
+    CHECK (category IN ('reminder', 'project', 'sync', 'security', 'subscription', 'meeting', 'system')),
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_notifications_user_created
+  ON app_notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_app_notifications_unread
+  ON app_notifications (user_id)
+  WHERE read_at IS NULL;
+
+-- 2. RLS: users see, mark read and clear their own entries. Only read_at is writable.
+ALTER TABLE app_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own app notifications" ON app_notifications;
+CREATE POLICY "Users can view own app notifications"
+  ON app_notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own app notifications" ON app_notifications;
+CREATE POLICY "Users can update own app notifications"
+  ON app_notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own app notifications" ON app_notifications;
+CREATE POLICY "Users can delete own app notifications"
+  ON app_notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, DELETE ON app_notifications TO authenticated;
+GRANT UPDATE (read_at) ON app_notifications TO authenticated;
+GRANT SELECT, INSERT ON app_notifications TO service_role;
+
+-- 3. Subscription changes, whichever path updated user_subscriptions
+CREATE OR REPLACE FUNCTION notify_subscription_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_pro AND (TG_OP = 'INSERT' OR NOT OLD.is_pro) THEN
+    INSERT INTO app_notifications (user_id, category, title, description)
+    VALUES (NEW.user_id, 'subscription', 'Pro is active', 'Unlimited reminders and every Pro feature are unlocked.');
+  ELSIF TG_OP = 'UPDATE' AND OLD.is_pro AND NOT NEW.is_pro THEN
+    INSERT INTO app_notifications (user_id, category, title, description)
+    VALUES (NEW.user_id, 'subscription', 'Pro has ended', 'Your subscription is no longer active, so free plan limits apply again.');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_subscription_change ON user_subscriptions;
+CREATE TRIGGER notify_subscription_change
+  AFTER INSERT OR UPDATE OF is_pro ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_subscription_change();
+
+-- 4. Shares starting and ending: the other side hears about it
+CREATE OR REPLACE FUNCTION notify_reminder_share_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  reminder_title TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT title INTO reminder_title FROM reminders WHERE id = NEW.reminder_id;
+
+    INSERT INTO app_notifications (user_id, category, title, description, metadata)
+    VALUES (
+      NEW.shared_with,
+      'reminder',
+      'Reminder shared with you',
+      format('%s shared "%s" with you', NEW.owner_email, COALESCE(reminder_title, 'a reminder')),
+      jsonb_build_object('reminderId', NEW.reminder_id)
+    );
+    RETURN NEW;
+  END IF;
+
+  -- A share removed along with its reminder needs no notice
+  SELECT title INTO reminder_title FROM reminders WHERE id = OLD.reminder_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN OLD;
+  END IF;
+
+  IF auth.uid() = OLD.shared_with THEN
+    INSERT INTO app_notifications (user_id, category, title, description, metadata)
+    VALUES (
+      OLD.owner_id,
+      'reminder',
+      'Left a shared reminder',
+      format('%s left "%s"', OLD.shared_with_email, reminder_title),
+      jsonb_build_object('reminderId', OLD.reminder_id)
+    );
+  ELSIF auth.uid() = OLD.owner_id THEN
+    INSERT INTO app_notifications (user_id, category, title, description)
+    VALUES (
+      OLD.shared_with,
+      'reminder',
+      'Sharing ended',
+      format('%s stopped sharing "%s" with you', OLD.owner_email, reminder_title)
+    );
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_reminder_share_change ON reminder_shares;
+CREATE TRIGGER notify_reminder_share_change
+  AFTER INSERT OR DELETE ON reminder_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_reminder_share_change();
+
+-- 5. Someone completing a shared reminder: everyone else on it hears about it
+CREATE OR REPLACE FUNCTION notify_shared_reminder_completed()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor_email TEXT;
+BEGIN
+  IF auth.uid() IS NULL
+    OR NEW.status IS DISTINCT FROM 'completed'
+    OR OLD.status IS NOT DISTINCT FROM 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT email INTO actor_email FROM auth.users WHERE id = auth.uid();
+
+  INSERT INTO app_notifications (user_id, category, title, description, metadata)
+  SELECT
+    recipient,
+    'reminder',
+    'Shared reminder completed',
+    format('%s completed "%s"', COALESCE(actor_email, 'Someone'), NEW.title),
+    jsonb_build_object('reminderId', NEW.id)
+  FROM (
+    SELECT NEW.user_id AS recipient
+    UNION
+    SELECT shared_with FROM reminder_shares WHERE reminder_id = COALESCE(NEW.series_id, NEW.id)
+  ) recipients
+  WHERE recipient <> auth.uid()
+    AND EXISTS (SELECT 1 FROM reminder_shares WHERE reminder_id = COALESCE(NEW.series_id, NEW.id));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_shared_reminder_completed ON reminders;
+CREATE TRIGGER notify_shared_reminder_completed
+  AFTER UPDATE OF status ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_shared_reminder_completed();
+
+-- 6. Publish inbox changes so new entries and read state show up on every device
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'app_notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.app_notifications;
+  END IF;
+END $$;
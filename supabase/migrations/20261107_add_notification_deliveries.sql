@@ -0,0 +1,53 @@
+-- Migration: Add notification delivery log
+-- Description: One row per notification sent to a device, so a reminder can show where it was last
+-- delivered and failures can be diagnosed. send-reminder-notifications logs its pushes and later
+-- checks Expo push receipts; devices log local notifications they deliver. Tokens Expo or FCM report
+-- as unregistered are removed from push_tokens.
+
+-- 1. Deliveries. device_id is the device's push_tokens.device_id; push_token and ticket_id
+-- (the Expo push ticket) are only set for server pushes.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reminder_id UUID NOT NULL REFERENCES reminders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT,
+  provider TEXT NOT NULL CHECK (provider IN ('local', 'expo', 'fcm')),
+  kind TEXT NOT NULL DEFAULT 'reminder' CHECK (kind IN ('reminder', 'priority_early')),
+  offset_minutes INTEGER,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'delivered', 'failed')),
+  error_code TEXT,
+  error_message TEXT,
+  push_token TEXT,
+  ticket_id TEXT,
+  -- Devices log a local notification once, however often they see it
+  dedupe_key TEXT UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_reminder
+  ON notification_deliveries (reminder_id, created_at DESC);
+
+-- Pushes still waiting for their Expo receipt
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending_receipts
+  ON notification_deliveries (created_at)
+  WHERE status = 'sent' AND ticket_id IS NOT NULL;
+
+-- 2. RLS: users see deliveries to their own devices and log their local ones
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification deliveries" ON notification_deliveries;
+CREATE POLICY "Users can view own notification deliveries"
+  ON notification_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can log local notification deliveries" ON notification_deliveries;
+CREATE POLICY "Users can log local notification deliveries"
+  ON notification_deliveries FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND provider = 'local');
+
+GRANT SELECT, INSERT ON notification_deliveries TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON notification_deliveries TO service_role;
+
+-- 3. send-reminder-notifications prunes tokens of uninstalled apps
+GRANT DELETE ON push_tokens TO service_role;
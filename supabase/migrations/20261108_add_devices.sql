@@ -0,0 +1,150 @@
+-- Migration: Add devices
+-- Description: Each install of the app gets its own UUID, kept in secure storage, and a devices row
+-- per account it signs in to. push_tokens, notification_schedules, device_sync_history and
+-- notification_deliveries reference that row instead of storing the phone's name, which two
+-- identical phones share and which changes when the phone is renamed. Existing rows move to
+-- devices created from their old identifiers; the app takes those over on its first registration.
+
+-- 1. Devices. id comes from the install, so the key includes the account.
+-- legacy_identifier is the name older versions stored as device_id, until a device claims it.
+CREATE TABLE IF NOT EXISTS devices (
+  id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT,
+  platform TEXT,
+  model TEXT,
+  legacy_identifier TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_devices_legacy_identifier
+  ON devices (user_id, legacy_identifier)
+  WHERE legacy_identifier IS NOT NULL;
+
+-- 2. RLS: users manage their own devices
+ALTER TABLE devices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own devices" ON devices;
+CREATE POLICY "Users can view own devices"
+  ON devices FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own devices" ON devices;
+CREATE POLICY "Users can insert own devices"
+  ON devices FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own devices" ON devices;
+CREATE POLICY "Users can update own devices"
+  ON devices FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own devices" ON devices;
+CREATE POLICY "Users can delete own devices"
+  ON devices FOR DELETE
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON devices TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON devices TO service_role;
+
+-- 3. Move existing rows to devices. Skipped once device_id is already a UUID column.
+DO $$
+BEGIN
+  IF (
+    SELECT data_type FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'push_tokens' AND column_name = 'device_id'
+  ) <> 'text' THEN
+    RETURN;
+  END IF;
+
+  -- One device per old identifier. Sync history stored a per-session id, so it is matched by name.
+  INSERT INTO devices (id, user_id, name, platform, legacy_identifier, created_at, last_seen_at)
+  SELECT gen_random_uuid(), user_id, identifier, MAX(platform), identifier, MIN(seen_at), MAX(seen_at)
+  FROM (
+    SELECT user_id, device_id AS identifier, platform, COALESCE(updated_at, created_at, NOW()) AS seen_at
+      FROM push_tokens WHERE device_id IS NOT NULL
+    UNION ALL
+    SELECT user_id, device_id, NULL, COALESCE(updated_at, created_at, NOW())
+      FROM notification_schedules
+    UNION ALL
+    SELECT user_id, COALESCE(device_name, device_id), platform, COALESCE(synced_at, NOW())
+      FROM device_sync_history
+    UNION ALL
+    SELECT user_id, device_id, NULL, created_at
+      FROM notification_deliveries WHERE device_id IS NOT NULL
+  ) legacy
+  GROUP BY user_id, identifier
+  ON CONFLICT DO NOTHING;
+
+  ALTER TABLE push_tokens ADD COLUMN device_uuid UUID;
+  UPDATE push_tokens t SET device_uuid = d.id
+    FROM devices d WHERE d.user_id = t.user_id AND d.legacy_identifier = t.device_id;
+  ALTER TABLE push_tokens DROP COLUMN device_id;
+  ALTER TABLE push_tokens RENAME COLUMN device_uuid TO device_id;
+
+  ALTER TABLE notification_schedules ADD COLUMN device_uuid UUID;
+  UPDATE notification_schedules t SET device_uuid = d.id
+    FROM devices d WHERE d.user_id = t.user_id AND d.legacy_identifier = t.device_id;
+  ALTER TABLE notification_schedules DROP COLUMN device_id;
+  ALTER TABLE notification_schedules RENAME COLUMN device_uuid TO device_id;
+  ALTER TABLE notification_schedules ALTER COLUMN device_id SET NOT NULL;
+
+  ALTER TABLE device_sync_history ADD COLUMN device_uuid UUID;
+  UPDATE device_sync_history t SET device_uuid = d.id
+    FROM devices d WHERE d.user_id = t.user_id AND d.legacy_identifier = COALESCE(t.device_name, t.device_id);
+  ALTER TABLE device_sync_history DROP COLUMN device_id;
+  ALTER TABLE device_sync_history RENAME COLUMN device_uuid TO device_id;
+  ALTER TABLE device_sync_history ALTER COLUMN device_id SET NOT NULL;
+
+  ALTER TABLE notification_deliveries ADD COLUMN device_uuid UUID;
+  UPDATE notification_deliveries t SET device_uuid = d.id
+    FROM devices d WHERE d.user_id = t.user_id AND d.legacy_identifier = t.device_id;
+  ALTER TABLE notification_deliveries DROP COLUMN device_id;
+  ALTER TABLE notification_deliveries RENAME COLUMN device_uuid TO device_id;
+END $$;
+
+-- 4. Constraints and indexes dropped with the old columns
+ALTER TABLE notification_schedules
+  DROP CONSTRAINT IF EXISTS notification_schedules_alert_key;
+ALTER TABLE notification_schedules
+  ADD CONSTRAINT notification_schedules_alert_key
+  UNIQUE (user_id, reminder_id, device_id, offset_minutes);
+
+CREATE INDEX IF NOT EXISTS idx_notification_schedules_user_device
+  ON notification_schedules (user_id, device_id);
+
+CREATE INDEX IF NOT EXISTS idx_device_sync_device_id
+  ON device_sync_history (device_id);
+
+-- 5. Reference devices. Claiming a legacy device changes its id, which carries over to its rows.
+-- Removing a device drops its schedules and sync history but keeps tokens and deliveries.
+ALTER TABLE push_tokens
+  DROP CONSTRAINT IF EXISTS push_tokens_device_fkey;
+ALTER TABLE push_tokens
+  ADD CONSTRAINT push_tokens_device_fkey
+  FOREIGN KEY (user_id, device_id) REFERENCES devices (user_id, id)
+  ON UPDATE CASCADE ON DELETE SET NULL (device_id);
+
+ALTER TABLE notification_schedules
+  DROP CONSTRAINT IF EXISTS notification_schedules_device_fkey;
+ALTER TABLE notification_schedules
+  ADD CONSTRAINT notification_schedules_device_fkey
+  FOREIGN KEY (user_id, device_id) REFERENCES devices (user_id, id)
+  ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE device_sync_history
+  DROP CONSTRAINT IF EXISTS device_sync_history_device_fkey;
+ALTER TABLE device_sync_history
+  ADD CONSTRAINT device_sync_history_device_fkey
+  FOREIGN KEY (user_id, device_id) REFERENCES devices (user_id, id)
+  ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE notification_deliveries
+  DROP CONSTRAINT IF EXISTS notification_deliveries_device_fkey;
+ALTER TABLE notification_deliveries
+  ADD CONSTRAINT notification_deliveries_device_fkey
+  FOREIGN KEY (user_id, device_id) REFERENCES devices (user_id, id)
+  ON UPDATE CASCADE ON DELETE SET NULL (device_id);
@@ -0,0 +1,57 @@
+-- Migration: Add device sessions
+-- Description: Devices record the auth session they are signed in with, so the devices screen can
+-- sign one out remotely. remove-device revokes that session, deletes the device's push tokens,
+-- notification schedules and devices row, and a revoked session can't register itself again.
+
+-- 1. The session a device last registered with (the access token's session_id claim)
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS session_id UUID;
+
+-- 2. Revoke a device's session. Deleting it from auth.sessions also removes its refresh tokens,
+-- so the device is signed out when its access token expires.
+CREATE OR REPLACE FUNCTION revoke_device_session(p_user_id UUID, p_session_id UUID)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM auth.sessions WHERE id = p_session_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+REVOKE ALL ON FUNCTION revoke_device_session(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION revoke_device_session(UUID, UUID) TO service_role;
+
+-- 3. Whether the caller's session still exists. A removed device keeps a working access token
+-- until it expires; this stops it from registering itself or a push token again meanwhile.
+CREATE OR REPLACE FUNCTION is_current_session_active()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.sessions
+    WHERE id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, auth;
+
+GRANT EXECUTE ON FUNCTION is_current_session_active() TO authenticated;
+
+DROP POLICY IF EXISTS "Users can insert own devices" ON devices;
+CREATE POLICY "Users can insert own devices"
+  ON devices FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND is_current_session_active());
+
+DROP POLICY IF EXISTS "Users can update own devices" ON devices;
+CREATE POLICY "Users can update own devices"
+  ON devices FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND is_current_session_active());
+
+DROP POLICY IF EXISTS "Users can insert own push tokens" ON push_tokens;
+CREATE POLICY "Users can insert own push tokens"
+  ON push_tokens FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND is_current_session_active());
+
+DROP POLICY IF EXISTS "Users can update own push tokens" ON push_tokens;
+CREATE POLICY "Users can update own push tokens"
+  ON push_tokens FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND is_current_session_active());
+
+-- 4. remove-device cleans up with the service role
+GRANT SELECT, DELETE ON notification_schedules TO service_role;
@@ -0,0 +1,46 @@
+-- Migration: Add QR pairing tokens
+-- Description: The code screen shows a QR with a short-lived pairing token signed by
+-- create-pairing-token. validate-account-code exchanges a token or a typed account code for a
+-- session on the new device. Both are single-use, and failed attempts are rate limited per device
+-- and per IP address.
+
+-- 1. Account codes are used up by the device they pair
+ALTER TABLE account_codes
+  ADD COLUMN IF NOT EXISTS used_at TIMESTAMPTZ;
+
+-- 2. Pairing tokens. id is the token's jti; the signed token itself is never stored.
+CREATE TABLE IF NOT EXISTS pairing_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_code_id UUID NOT NULL REFERENCES account_codes(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  used_by_device_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pairing_tokens_expires_at
+  ON pairing_tokens (expires_at);
+
+-- 3. Pairing attempts, for rate limiting validate-account-code
+CREATE TABLE IF NOT EXISTS pairing_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id TEXT,
+  ip_address TEXT,
+  succeeded BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pairing_attempts_device
+  ON pairing_attempts (device_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_pairing_attempts_ip
+  ON pairing_attempts (ip_address, created_at DESC);
+
+-- 4. RLS: only the edge functions (service role) read or write these
+ALTER TABLE pairing_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pairing_attempts ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON pairing_tokens TO service_role;
+GRANT SELECT, INSERT, DELETE ON pairing_attempts TO service_role;
+GRANT UPDATE ON account_codes TO service_role;
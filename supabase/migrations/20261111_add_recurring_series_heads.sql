@@ -0,0 +1,31 @@
+-- Migration: Add recurring series heads
+-- Description: The latest occurrence of each of the user's recurring series whose rule hasn't
+-- ended, so the app can materialize next occurrences without loading every past occurrence.
+
+-- 1. Latest occurrence per series (by the slot it was generated for, unchanged by snoozes).
+-- Rules past their UNTIL produce no more occurrences; COUNT is checked by the app's expansion.
+CREATE OR REPLACE FUNCTION get_recurring_series_heads()
+RETURNS SETOF reminders AS $$
+BEGIN
+  RETURN QUERY
+  SELECT head.*
+  FROM (
+    SELECT DISTINCT ON (r.series_id) r.*
+    FROM reminders r
+    WHERE r.user_id = auth.uid()
+      AND r.deleted_at IS NULL
+      AND r.series_id IS NOT NULL
+      AND r.recurring_rule_id IS NOT NULL
+    ORDER BY r.series_id, COALESCE(r.original_scheduled_time, r.scheduled_time) DESC
+  ) head
+  JOIN recurring_rules rule ON rule.id = head.recurring_rule_id
+  WHERE rule.until IS NULL OR rule.until > NOW();
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION get_recurring_series_heads() TO authenticated;
+
+-- 2. Index for the per-user series scan
+CREATE INDEX IF NOT EXISTS idx_reminders_user_series
+  ON reminders (user_id, series_id)
+  WHERE series_id IS NOT NULL AND deleted_at IS NULL;
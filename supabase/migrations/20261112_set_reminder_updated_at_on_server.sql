@@ -0,0 +1,22 @@
+-- Migration: Set reminder updated_at on the server
+-- Description: The offline outbox replays an edit only if the row's updated_at still matches the
+-- version the edit was made on. That only works if updated_at comes from one clock, so client writes
+-- get the server's time instead of the device's.
+
+-- 1. Stamp client writes. Edge functions (service role) and migrations only update bookkeeping
+-- columns such as notified_at, which shouldn't count as an edit.
+CREATE OR REPLACE FUNCTION set_reminder_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reminders_set_updated_at ON reminders;
+CREATE TRIGGER reminders_set_updated_at
+  BEFORE INSERT OR UPDATE ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_reminder_updated_at();
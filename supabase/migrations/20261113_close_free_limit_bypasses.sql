@@ -0,0 +1,192 @@
+-- Migration: Close free daily limit bypasses
+-- Description: Any insert with a series_id of the user's own was exempt from the free daily
+-- limit, and the day boundary followed whatever timezone the app last reported. Now only the next
+-- occurrence of a series is exempt, the insert trigger records whether a row counts, and the
+-- timezone can change at most once a day without resetting the count.
+
+-- 1. Whether a reminder counts towards the daily limit. Set by the insert trigger only.
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS counts_toward_limit BOOLEAN NOT NULL DEFAULT true;
+
+-- Backfill the current day: occurrences materialized before this migration were exempt
+UPDATE reminders
+  SET counts_toward_limit = false
+  WHERE series_id IS NOT NULL
+    AND series_id <> id
+    AND created_at >= NOW() - INTERVAL '2 days';
+
+CREATE OR REPLACE FUNCTION keep_reminder_limit_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.counts_toward_limit = OLD.counts_toward_limit;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_reminder_limit_flag ON reminders;
+CREATE TRIGGER keep_reminder_limit_flag
+  BEFORE UPDATE OF counts_toward_limit ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_reminder_limit_flag();
+
+-- 2. Whether a new row is the next occurrence of one of the user's series, as materialized by the
+-- app: same rule and title as the series, after its latest occurrence, and only once that one is
+-- completed or due. A series therefore adds one occurrence at a time.
+CREATE OR REPLACE FUNCTION is_next_series_occurrence(p_reminder reminders)
+RETURNS BOOLEAN AS $$
+DECLARE
+  latest reminders%ROWTYPE;
+  series_rule recurring_rules%ROWTYPE;
+  slot TIMESTAMPTZ := COALESCE(p_reminder.original_scheduled_time, p_reminder.scheduled_time);
+  occurrence_count INTEGER;
+BEGIN
+  IF p_reminder.series_id IS NULL OR p_reminder.series_id = p_reminder.id THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO latest
+  FROM reminders r
+  WHERE r.series_id = p_reminder.series_id
+    AND r.user_id = p_reminder.user_id
+    AND r.deleted_at IS NULL
+  ORDER BY COALESCE(r.original_scheduled_time, r.scheduled_time) DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR latest.recurring_rule_id IS DISTINCT FROM p_reminder.recurring_rule_id THEN
+    RETURN false;
+  END IF;
+
+  IF latest.status <> 'completed' AND latest.scheduled_time > NOW() THEN
+    RETURN false;
+  END IF;
+
+  IF slot <= COALESCE(latest.original_scheduled_time, latest.scheduled_time) THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO series_rule
+  FROM recurring_rules rr
+  WHERE rr.id = latest.recurring_rule_id AND rr.user_id = p_reminder.user_id;
+
+  IF NOT FOUND OR (series_rule.until IS NOT NULL AND slot > series_rule.until) THEN
+    RETURN false;
+  END IF;
+
+  IF series_rule.count IS NOT NULL THEN
+    SELECT COUNT(*)::INTEGER INTO occurrence_count
+    FROM reminders r
+    WHERE r.series_id = p_reminder.series_id AND r.user_id = p_reminder.user_id;
+
+    IF occurrence_count >= series_rule.count THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  -- Occurrences repeat the series; a different reminder filed under it is a new reminder
+  RETURN EXISTS (
+    SELECT 1 FROM reminders r
+    WHERE r.series_id = p_reminder.series_id
+      AND r.user_id = p_reminder.user_id
+      AND r.title = p_reminder.title
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+-- 3. The timezone can change at most once every 24 hours. The previous one is kept so the
+-- quota day can start at the earlier of the two midnights right after a change.
+ALTER TABLE user_subscriptions
+  ADD COLUMN IF NOT EXISTS previous_timezone TEXT,
+  ADD COLUMN IF NOT EXISTS timezone_changed_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION lock_subscription_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.timezone IS DISTINCT FROM OLD.timezone THEN
+    IF OLD.timezone_changed_at IS NOT NULL AND OLD.timezone_changed_at > NOW() - INTERVAL '24 hours' THEN
+      NEW.timezone = OLD.timezone;
+    ELSE
+      NEW.previous_timezone = OLD.timezone;
+      NEW.timezone_changed_at = NOW();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_subscription_timezone ON user_subscriptions;
+CREATE TRIGGER lock_subscription_timezone
+  BEFORE UPDATE OF timezone ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION lock_subscription_timezone();
+
+-- 4. Quota: count the rows the insert trigger marked
+CREATE OR REPLACE FUNCTION get_reminder_quota(p_user_id UUID DEFAULT auth.uid())
+RETURNS TABLE (is_pro BOOLEAN, used INTEGER, daily_limit INTEGER) AS $$
+DECLARE
+  user_timezone TEXT;
+  prior_timezone TEXT;
+  changed_at TIMESTAMPTZ;
+  day_start TIMESTAMPTZ;
+BEGIN
+  SELECT s.is_pro AND (s.expires_at IS NULL OR s.expires_at > NOW()), s.timezone, s.previous_timezone, s.timezone_changed_at
+  INTO is_pro, user_timezone, prior_timezone, changed_at
+  FROM user_subscriptions s
+  WHERE s.user_id = p_user_id;
+
+  -- Users check-subscription hasn't seen yet are on the free plan
+  is_pro := COALESCE(is_pro, false);
+  user_timezone := COALESCE(user_timezone, 'UTC');
+
+  day_start := date_trunc('day', NOW() AT TIME ZONE user_timezone) AT TIME ZONE user_timezone;
+
+  -- Moving to a timezone whose day started later doesn't reset the count
+  IF prior_timezone IS NOT NULL AND changed_at > NOW() - INTERVAL '24 hours' THEN
+    day_start := LEAST(
+      day_start,
+      date_trunc('day', NOW() AT TIME ZONE prior_timezone) AT TIME ZONE prior_timezone
+    );
+  END IF;
+
+  SELECT COUNT(*)::INTEGER INTO used
+  FROM reminders r
+  WHERE r.user_id = p_user_id
+    AND r.created_at >= day_start
+    AND r.counts_toward_limit;
+
+  daily_limit := 10;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+-- 5. Decide exemption under the per-user lock, so two devices can't both add a "next" occurrence
+CREATE OR REPLACE FUNCTION enforce_free_daily_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  quota RECORD;
+BEGIN
+  -- Replayed offline creates are upserts of a row that may already exist
+  IF EXISTS (SELECT 1 FROM reminders WHERE id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- The count is by created_at, so it can't be chosen by the client
+  NEW.created_at = NOW();
+
+  -- Serialize a user's creates so parallel inserts can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::TEXT));
+
+  NEW.counts_toward_limit = NOT is_next_series_occurrence(NEW);
+  IF NOT NEW.counts_toward_limit THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO quota FROM get_reminder_quota(NEW.user_id);
+  IF NOT quota.is_pro AND quota.used >= quota.daily_limit THEN
+    RAISE EXCEPTION 'free_daily_limit_reached'
+      USING ERRCODE = 'P0429',
+            DETAIL = format('Free plan allows %s reminders per day', quota.daily_limit);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
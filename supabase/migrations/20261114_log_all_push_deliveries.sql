@@ -0,0 +1,39 @@
+-- Migration: Log every server push
+-- Description: send-daily-digest, send-resync-push and remove-device now log their pushes to
+-- notification_deliveries like send-reminder-notifications, so check-push-receipts can settle
+-- their tickets and prune tokens of uninstalled apps. Only reminder pushes have a reminder.
+
+-- 1. Deliveries without a reminder
+ALTER TABLE notification_deliveries
+  ALTER COLUMN reminder_id DROP NOT NULL;
+
+-- 2. Push kinds
+ALTER TABLE notification_deliveries
+  DROP CONSTRAINT IF EXISTS notification_deliveries_kind_check;
+ALTER TABLE notification_deliveries
+  ADD CONSTRAINT notification_deliveries_kind_check
+  CHECK (kind IN ('reminder', 'priority_early', 'daily_digest', 'resync', 'device_removed'));
+
+ALTER TABLE notification_deliveries
+  DROP CONSTRAINT IF EXISTS notification_deliveries_reminder_kind_check;
+ALTER TABLE notification_deliveries
+  ADD CONSTRAINT notification_deliveries_reminder_kind_check
+  CHECK (reminder_id IS NOT NULL OR kind NOT IN ('reminder', 'priority_early'));
+
+-- 3. Optional: call check-push-receipts every 15 minutes (requires pg_cron and pg_net).
+-- Run this separately in the SQL editor:
+--
+-- SELECT cron.schedule(
+--   'check-push-receipts',
+--   '*/15 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := '<YOUR_SUPABASE_URL>/functions/v1/check-push-receipts',
+--     headers := jsonb_build_object(
+--       'Authorization', 'Bearer <YOUR_SERVICE_ROLE_KEY>',
+--       'Content-Type', 'application/json'
+--     ),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
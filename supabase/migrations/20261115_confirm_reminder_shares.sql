@@ -0,0 +1,281 @@
+-- Migration: Confirm reminder shares
+-- Description: share_reminder added the person behind an email as a participant right away and
+-- raised P0404 when no account used the email, so it could be used to find out who has an account.
+-- Shares now start as pending invites to an email address, whether or not an account uses it, and
+-- only count once the recipient accepts them.
+
+-- 1. Invites are addressed to an email; shared_with is set when the recipient accepts.
+-- Shares made before this migration were never confirmed, so they wait for the recipient too.
+ALTER TABLE reminder_shares
+  ALTER COLUMN shared_with DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMPTZ;
+
+UPDATE reminder_shares
+  SET shared_with_email = lower(btrim(shared_with_email));
+
+ALTER TABLE reminder_shares
+  DROP CONSTRAINT IF EXISTS reminder_shares_status_check;
+ALTER TABLE reminder_shares
+  ADD CONSTRAINT reminder_shares_status_check
+  CHECK (status IN ('pending', 'accepted') AND (status = 'pending' OR shared_with IS NOT NULL));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminder_shares_reminder_email
+  ON reminder_shares (reminder_id, lower(shared_with_email));
+
+-- 2. RLS: the recipient of a pending invite is whoever signs in with its email
+DROP POLICY IF EXISTS "Users can view their reminder shares" ON reminder_shares;
+CREATE POLICY "Users can view their reminder shares"
+  ON reminder_shares FOR SELECT
+  USING (
+    auth.uid() = owner_id
+    OR auth.uid() = shared_with
+    OR (status = 'pending' AND lower(shared_with_email) = lower(auth.jwt() ->> 'email'))
+  );
+
+-- Owners withdraw invites and remove participants; recipients decline invites and leave
+DROP POLICY IF EXISTS "Users can delete their reminder shares" ON reminder_shares;
+CREATE POLICY "Users can delete their reminder shares"
+  ON reminder_shares FOR DELETE
+  USING (
+    auth.uid() = owner_id
+    OR auth.uid() = shared_with
+    OR (status = 'pending' AND lower(shared_with_email) = lower(auth.jwt() ->> 'email'))
+  );
+
+-- 3. Only accepted shares give access to the reminder
+DROP POLICY IF EXISTS "Participants can view shared reminders" ON reminders;
+CREATE POLICY "Participants can view shared reminders"
+  ON reminders FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminder_shares
+      WHERE reminder_shares.reminder_id = COALESCE(reminders.series_id, reminders.id)
+      AND reminder_shares.shared_with = auth.uid()
+      AND reminder_shares.status = 'accepted'
+    )
+  );
+
+DROP POLICY IF EXISTS "Participants can update shared reminders" ON reminders;
+CREATE POLICY "Participants can update shared reminders"
+  ON reminders FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM reminder_shares
+      WHERE reminder_shares.reminder_id = COALESCE(reminders.series_id, reminders.id)
+      AND reminder_shares.shared_with = auth.uid()
+      AND reminder_shares.status = 'accepted'
+    )
+  );
+
+-- 4. Invite an email address to a reminder the caller owns. The result is the same whether or not
+-- an account uses the address. Raises P0400 for the caller's own email and 22023 for a malformed one.
+CREATE OR REPLACE FUNCTION share_reminder(p_reminder_id UUID, p_email TEXT)
+RETURNS reminder_shares AS $$
+DECLARE
+  target RECORD;
+  invitee_email TEXT := lower(btrim(p_email));
+  caller_email TEXT;
+  share reminder_shares;
+BEGIN
+  SELECT id, series_id INTO target
+  FROM reminders
+  WHERE id = p_reminder_id
+    AND user_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'reminder_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF invitee_email !~ '^[^@[:space:]]+@[^@[:space:]]+$' THEN
+    RAISE EXCEPTION 'share_invalid_email' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT email INTO caller_email FROM auth.users WHERE id = auth.uid();
+
+  IF lower(caller_email) = invitee_email THEN
+    RAISE EXCEPTION 'share_with_self' USING ERRCODE = 'P0400';
+  END IF;
+
+  INSERT INTO reminder_shares (reminder_id, owner_id, owner_email, shared_with_email)
+  VALUES (COALESCE(target.series_id, target.id), auth.uid(), COALESCE(caller_email, ''), invitee_email)
+  ON CONFLICT (reminder_id, lower(shared_with_email)) DO UPDATE
+    SET owner_email = EXCLUDED.owner_email
+  RETURNING * INTO share;
+
+  RETURN share;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Invites waiting for the caller, with the title of the reminder they are for
+CREATE OR REPLACE FUNCTION get_reminder_invites()
+RETURNS TABLE (id UUID, reminder_id UUID, owner_email TEXT, reminder_title TEXT, created_at TIMESTAMPTZ) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.id, s.reminder_id, s.owner_email, r.title, s.created_at
+  FROM reminder_shares s
+  JOIN reminders r ON r.id = s.reminder_id AND r.deleted_at IS NULL
+  WHERE s.status = 'pending'
+    AND (
+      s.shared_with = auth.uid()
+      OR lower(s.shared_with_email) = (SELECT lower(u.email) FROM auth.users u WHERE u.id = auth.uid())
+    )
+  ORDER BY s.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_reminder_invites() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_reminder_invites() TO authenticated;
+
+-- 6. Accept an invite addressed to the caller. Raises P0002 when there is no such pending invite.
+CREATE OR REPLACE FUNCTION accept_reminder_share(p_share_id UUID)
+RETURNS reminder_shares AS $$
+DECLARE
+  caller_email TEXT;
+  share reminder_shares;
+BEGIN
+  SELECT email INTO caller_email FROM auth.users WHERE id = auth.uid();
+
+  UPDATE reminder_shares
+    SET status = 'accepted',
+        shared_with = auth.uid(),
+        shared_with_email = COALESCE(lower(caller_email), shared_with_email),
+        accepted_at = NOW()
+    WHERE id = p_share_id
+      AND status = 'pending'
+      AND (shared_with = auth.uid() OR lower(shared_with_email) = lower(caller_email))
+      AND owner_id <> auth.uid()
+    RETURNING * INTO share;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'share_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN share;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION accept_reminder_share(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION accept_reminder_share(UUID) TO authenticated;
+
+-- 7. Notices: an invite reaches the recipient's inbox if they have an account, the owner hears
+-- when it is accepted, and only accepted shares ending are announced
+CREATE OR REPLACE FUNCTION notify_reminder_share_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  reminder_title TEXT;
+  invitee_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT id INTO invitee_id FROM auth.users WHERE lower(email) = lower(NEW.shared_with_email);
+    IF NOT FOUND THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT title INTO reminder_title FROM reminders WHERE id = NEW.reminder_id;
+
+    INSERT INTO app_notifications (user_id, category, title, description)
+    VALUES (
+      invitee_id,
+      'reminder',
+      'Reminder shared with you',
+      format('%s wants to share "%s" with you', NEW.owner_email, COALESCE(reminder_title, 'a reminder'))
+    );
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status = 'pending' AND NEW.status = 'accepted' THEN
+      SELECT title INTO reminder_title FROM reminders WHERE id = NEW.reminder_id;
+
+      INSERT INTO app_notifications (user_id, category, title, description, metadata)
+      VALUES (
+        NEW.owner_id,
+        'reminder',
+        'Shared reminder accepted',
+        format('%s accepted "%s"', NEW.shared_with_email, COALESCE(reminder_title, 'a reminder')),
+        jsonb_build_object('reminderId', NEW.reminder_id)
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Withdrawn and declined invites, and shares removed along with their reminder, need no notice
+  IF OLD.status <> 'accepted' THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT title INTO reminder_title FROM reminders WHERE id = OLD.reminder_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN OLD;
+  END IF;
+
+  IF auth.uid() = OLD.shared_with THEN
+    INSERT INTO app_notifications (user_id, category, title, description, metadata)
+    VALUES (
+      OLD.owner_id,
+      'reminder',
+      'Left a shared reminder',
+      format('%s left "%s"', OLD.shared_with_email, reminder_title),
+      jsonb_build_object('reminderId', OLD.reminder_id)
+    );
+  ELSIF auth.uid() = OLD.owner_id THEN
+    INSERT INTO app_notifications (user_id, category, title, description)
+    VALUES (
+      OLD.shared_with,
+      'reminder',
+      'Sharing ended',
+      format('%s stopped sharing "%s" with you', OLD.owner_email, reminder_title)
+    );
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_reminder_share_change ON reminder_shares;
+CREATE TRIGGER notify_reminder_share_change
+  AFTER INSERT OR UPDATE OF status OR DELETE ON reminder_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_reminder_share_change();
+
+-- 8. Completions are announced to accepted participants only
+CREATE OR REPLACE FUNCTION notify_shared_reminder_completed()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor_email TEXT;
+BEGIN
+  IF auth.uid() IS NULL
+    OR NEW.status IS DISTINCT FROM 'completed'
+    OR OLD.status IS NOT DISTINCT FROM 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM reminder_shares
+    WHERE reminder_id = COALESCE(NEW.series_id, NEW.id) AND status = 'accepted'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT email INTO actor_email FROM auth.users WHERE id = auth.uid();
+
+  INSERT INTO app_notifications (user_id, category, title, description, metadata)
+  SELECT
+    recipient,
+    'reminder',
+    'Shared reminder completed',
+    format('%s completed "%s"', COALESCE(actor_email, 'Someone'), NEW.title),
+    jsonb_build_object('reminderId', NEW.id)
+  FROM (
+    SELECT NEW.user_id AS recipient
+    UNION
+    SELECT shared_with FROM reminder_shares
+    WHERE reminder_id = COALESCE(NEW.series_id, NEW.id) AND status = 'accepted'
+  ) recipients
+  WHERE recipient <> auth.uid();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,16 @@
+-- Migration: Harden account codes
+-- Description: Six-character codes could be guessed: validate-account-code only limited failures per
+-- client-chosen device id and per address, and took the address from the client's own
+-- x-forwarded-for entry. Codes are now ten characters from a secure random source.
+
+-- 1. Unused short codes can still be guessed, so they go; their owners generate a new one.
+-- Used codes stay for device_sync_history, so the format only applies to new codes.
+DELETE FROM account_codes
+  WHERE used_at IS NULL
+    AND code !~ '^[A-HJ-NP-Z2-9]{10}$';
+
+ALTER TABLE account_codes
+  DROP CONSTRAINT IF EXISTS account_codes_code_format_check;
+ALTER TABLE account_codes
+  ADD CONSTRAINT account_codes_code_format_check
+  CHECK (code ~ '^[A-HJ-NP-Z2-9]{10}$') NOT VALID;
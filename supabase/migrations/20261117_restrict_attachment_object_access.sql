@@ -0,0 +1,60 @@
+-- Migration: Restrict attachment object access
+-- Description: Storage objects were readable by anyone who could see a reminder_attachments row
+-- with their path, and users could insert attachment rows with any storage_path. Together that let
+-- someone point a row of their own at another user's object and read it. Attachment paths must
+-- now be in the reminder owner's folder, and objects are read through attachments of reminders
+-- the caller owns or has accepted a share of.
+
+-- 1. New attachments can only point into the caller's own folder
+DROP POLICY IF EXISTS "Users can insert their own reminder attachments" ON reminder_attachments;
+CREATE POLICY "Users can insert their own reminder attachments"
+  ON reminder_attachments FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM reminders
+      WHERE reminders.id = reminder_attachments.reminder_id
+      AND reminders.user_id = auth.uid()
+    )
+    AND (
+      reminder_attachments.storage_path IS NULL
+      OR (storage.foldername(reminder_attachments.storage_path))[1] = auth.uid()::text
+    )
+  );
+
+-- 2. Rows already pointing outside their reminder owner's folder lose the path
+UPDATE reminder_attachments a
+  SET storage_path = NULL
+  FROM reminders r
+  WHERE r.id = a.reminder_id
+    AND a.storage_path IS NOT NULL
+    AND (storage.foldername(a.storage_path))[1] IS DISTINCT FROM r.user_id::text
+    AND a.storage_url IS NOT NULL;
+
+DELETE FROM reminder_attachments a
+  USING reminders r
+  WHERE r.id = a.reminder_id
+    AND a.storage_path IS NOT NULL
+    AND (storage.foldername(a.storage_path))[1] IS DISTINCT FROM r.user_id::text;
+
+-- 3. Other users' objects are readable only through an attachment of the object owner's reminder,
+-- and only by a participant who accepted its share
+DROP POLICY IF EXISTS "Users can view reminder attachments" ON storage.objects;
+CREATE POLICY "Users can view reminder attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'reminder-attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1
+        FROM public.reminder_attachments a
+        JOIN public.reminders r ON r.id = a.reminder_id
+        JOIN public.reminder_shares s ON s.reminder_id = COALESCE(r.series_id, r.id)
+        WHERE a.storage_path = storage.objects.name
+          AND r.user_id::text = (storage.foldername(storage.objects.name))[1]
+          AND s.shared_with = auth.uid()
+          AND s.status = 'accepted'
+      )
+    )
+  );
@@ -0,0 +1,134 @@
+-- Migration: Recheck the free limit exemption on update
+-- Description: The next occurrence of a series is exempt from the free daily limit, but the
+-- exemption was only decided on insert, from fields the client can edit afterwards. Occurrences
+-- could be chained and then renamed or moved out of their series into ordinary reminders, and
+-- created_at could be moved back so rows stopped counting for the day. An exempt row now starts
+-- counting, from the day of the edit, once it is renamed on its own or leaves its series.
+
+-- 1. When a row that was exempt on insert started counting
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS limit_counted_at TIMESTAMPTZ;
+
+-- 2. The limit fields and created_at are only set by the triggers
+CREATE OR REPLACE FUNCTION keep_reminder_limit_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.counts_toward_limit = OLD.counts_toward_limit;
+  NEW.limit_counted_at = OLD.limit_counted_at;
+  NEW.created_at = OLD.created_at;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_reminder_limit_flag ON reminders;
+CREATE TRIGGER keep_reminder_limit_flag
+  BEFORE UPDATE OF counts_toward_limit, limit_counted_at, created_at ON reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_reminder_limit_flag();
+
+-- 3. An exempt occurrence stays exempt while it stays in its series and keeps the series' title and
+-- description; those only change for the whole series at once, through rename_reminder_series.
+-- Runs after keep_reminder_limit_flag (triggers fire in name order), so its flag change stands.
+CREATE OR REPLACE FUNCTION recheck_reminder_limit_exemption()
+RETURNS TRIGGER AS $$
+DECLARE
+  quota RECORD;
+BEGIN
+  IF NEW.series_id = OLD.series_id
+    AND NEW.series_id <> NEW.id
+    AND NEW.recurring_rule_id IS NOT NULL
+    AND (
+      (NEW.title = OLD.title AND NEW.description IS NOT DISTINCT FROM OLD.description)
+      OR current_setting('synco.renaming_series', true) = NEW.series_id::TEXT
+    ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Same lock as enforce_free_daily_limit, so an edit and a create can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::TEXT));
+
+  SELECT * INTO quota FROM get_reminder_quota(NEW.user_id);
+  IF NOT quota.is_pro AND quota.used >= quota.daily_limit THEN
+    RAISE EXCEPTION 'free_daily_limit_reached'
+      USING ERRCODE = 'P0429',
+            DETAIL = format('Free plan allows %s reminders per day', quota.daily_limit);
+  END IF;
+
+  NEW.counts_toward_limit = true;
+  NEW.limit_counted_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS recheck_reminder_limit_exemption ON reminders;
+CREATE TRIGGER recheck_reminder_limit_exemption
+  BEFORE UPDATE OF series_id, recurring_rule_id, title, description ON reminders
+  FOR EACH ROW
+  WHEN (
+    NOT OLD.counts_toward_limit
+    AND (
+      NEW.series_id IS DISTINCT FROM OLD.series_id
+      OR NEW.recurring_rule_id IS DISTINCT FROM OLD.recurring_rule_id
+      OR NEW.title IS DISTINCT FROM OLD.title
+      OR NEW.description IS DISTINCT FROM OLD.description
+    )
+  )
+  EXECUTE FUNCTION recheck_reminder_limit_exemption();
+
+-- Rename every occurrence of one of the caller's series. `p_changes` holds the new `title` and/or
+-- `description`; a key that is left out keeps its current value.
+CREATE OR REPLACE FUNCTION rename_reminder_series(p_series_id UUID, p_changes JSONB)
+RETURNS void AS $$
+BEGIN
+  PERFORM set_config('synco.renaming_series', p_series_id::TEXT, true);
+
+  UPDATE reminders
+    SET title = COALESCE(p_changes ->> 'title', title),
+        description = CASE WHEN p_changes ? 'description' THEN p_changes ->> 'description' ELSE description END,
+        updated_at = NOW()
+    WHERE series_id = p_series_id
+      AND user_id = auth.uid()
+      AND deleted_at IS NULL;
+
+  PERFORM set_config('synco.renaming_series', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- 4. Quota: a row counts on the day it was created, or on the day it lost its exemption
+CREATE OR REPLACE FUNCTION get_reminder_quota(p_user_id UUID DEFAULT auth.uid())
+RETURNS TABLE (is_pro BOOLEAN, used INTEGER, daily_limit INTEGER) AS $$
+DECLARE
+  user_timezone TEXT;
+  prior_timezone TEXT;
+  changed_at TIMESTAMPTZ;
+  day_start TIMESTAMPTZ;
+BEGIN
+  SELECT s.is_pro AND (s.expires_at IS NULL OR s.expires_at > NOW()), s.timezone, s.previous_timezone, s.timezone_changed_at
+  INTO is_pro, user_timezone, prior_timezone, changed_at
+  FROM user_subscriptions s
+  WHERE s.user_id = p_user_id;
+
+  -- Users check-subscription hasn't seen yet are on the free plan
+  is_pro := COALESCE(is_pro, false);
+  user_timezone := COALESCE(user_timezone, 'UTC');
+
+  day_start := date_trunc('day', NOW() AT TIME ZONE user_timezone) AT TIME ZONE user_timezone;
+
+  -- Moving to a timezone whose day started later doesn't reset the count
+  IF prior_timezone IS NOT NULL AND changed_at > NOW() - INTERVAL '24 hours' THEN
+    day_start := LEAST(
+      day_start,
+      date_trunc('day', NOW() AT TIME ZONE prior_timezone) AT TIME ZONE prior_timezone
+    );
+  END IF;
+
+  SELECT COUNT(*)::INTEGER INTO used
+  FROM reminders r
+  WHERE r.user_id = p_user_id
+    AND COALESCE(r.limit_counted_at, r.created_at) >= day_start
+    AND r.counts_toward_limit;
+
+  daily_limit := 10;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;